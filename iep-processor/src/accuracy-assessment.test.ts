@@ -0,0 +1,64 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configureLogger } from './logging/logger.js';
+import { ExtractionProvider, createFixtureProvider } from './providers/index.js';
+import { runAccuracyAssessment } from './accuracy-assessment.js';
+
+configureLogger({ quiet: true });
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures');
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'iep-assess-'));
+after(() => fs.rmSync(scratchDir, { recursive: true, force: true }));
+
+/**
+ * Fixture provider that records how many extractions overlap
+ */
+function countingProvider(): ExtractionProvider & { maxInFlight: number } {
+  const fixtures = createFixtureProvider({ fixturesDir: FIXTURES_DIR });
+  let inFlight = 0;
+  const provider = {
+    name: fixtures.name,
+    model: fixtures.model,
+    cacheable: false,
+    maxInFlight: 0,
+    async extract(request: Parameters<ExtractionProvider['extract']>[0]) {
+      provider.maxInFlight = Math.max(provider.maxInFlight, ++inFlight);
+      try {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return await fixtures.extract(request);
+      } finally {
+        inFlight--;
+      }
+    }
+  };
+  return provider as ExtractionProvider & { maxInFlight: number };
+}
+
+const sampleDir = path.join(scratchDir, 'samples');
+fs.mkdirSync(sampleDir);
+for (const name of ['a.pdf', 'b.pdf', 'c.pdf', 'd.pdf']) {
+  fs.copyFileSync(path.join(FIXTURES_DIR, 'synthetic-iep.pdf'), path.join(sampleDir, name));
+}
+fs.writeFileSync(path.join(sampleDir, 'e.pdf'), 'not a pdf');
+
+for (const concurrency of [1, 3]) {
+  test(`samples are assessed ${concurrency} at a time, in directory order`, async () => {
+    const provider = countingProvider();
+    const summary = await runAccuracyAssessment(sampleDir, 10, {
+      concurrency,
+      groundTruthDir: path.join(scratchDir, 'no-ground-truth'),
+      processing: { provider, cache: false, budget: { ledgerFile: path.join(scratchDir, 'spend-ledger.jsonl') } }
+    });
+    assert.equal(provider.maxInFlight, concurrency);
+    assert.deepEqual(summary.results.map(result => result.fileName), ['a.pdf', 'b.pdf', 'c.pdf', 'd.pdf']);
+    assert.deepEqual(summary.failures.map(failure => failure.fileName), ['e.pdf']);
+    assert.equal(summary.processed, 4);
+  });
+}
+
+test('an invalid concurrency is rejected', async () => {
+  await assert.rejects(runAccuracyAssessment(sampleDir, 1, { concurrency: 0 }), /positive integer/);
+});
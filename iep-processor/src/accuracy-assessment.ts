@@ -2,284 +2,532 @@
  * Phase 2 Accuracy Assessment Tool
  * 
  * Measures the quality and completeness of extracted IEP data
- * to ensure we're meeting Phase 2 accuracy targets.
+ * to ensure we're meeting Phase 2 accuracy targets. Returns the
+ * measurements only; the CLI's assess command prints them.
  */
 
-import { processIEP } from './main.js';
+import { ProcessingOptions, processIEP } from './main.js';
+import { FormSpecificIEPData } from './types/form-specific-iep-data.js';
+import { stripSectionNumber } from './extractors/schema-sections.js';
+import { loadGroundTruth, DEFAULT_GROUND_TRUTH_DIR } from './evaluation/ground-truth.js';
+import { scoreAgainstGroundTruth, aggregateScores, ScoreReport } from './evaluation/field-scorer.js';
 import * as fs from 'fs';
 import * as path from 'path';
-import chalk from 'chalk';
+import { logger } from './logging/logger.js';
 
-interface AccuracyMetrics {
+export interface AccuracyMetrics {
   contentCompleteness: number;  // 0-100% how much content was extracted
-  fieldAccuracy: number;        // 0-100% accuracy of specific fields
+  fieldAccuracy: number;        // 0-100% F1 against ground truth (confidence estimate without it)
+  precision?: number;           // 0-100% extracted values that are correct (ground truth only)
+  recall?: number;              // 0-100% ground-truth values that were extracted (ground truth only)
   structuralIntegrity: number;  // 0-100% proper structure and relationships
   overallScore: number;         // 0-100% combined accuracy score
+  groundTruth: boolean;         // fieldAccuracy was measured, not estimated
 }
 
-interface ContentAnalysis {
-  childInfo: {
-    hasName: boolean;
-    hasSchool: boolean;
-    hasCompleteAddress: boolean;
-    completeness: number;
-  };
-  parentInfo: {
-    hasName: boolean;
-    hasContact: boolean;
-    completeness: number;
-  };
+type IEPSections = FormSpecificIEPData['IEP'];
+type AssessedSection = Exclude<keyof IEPSections, 'AMENDMENTS'>;
+
+/**
+ * Relative weight of each section in content completeness (normalized over
+ * the sections that apply to the document)
+ */
+export type SectionWeights = Partial<Record<AssessedSection, number>>;
+
+export const DEFAULT_SECTION_WEIGHTS: Record<AssessedSection, number> = {
+  "CHILD'S INFORMATION": 10,
+  "PARENT/GUARDIAN INFORMATION": 8,
+  "MEETING INFORMATION": 3,
+  "IEP TIMELINES": 3,
+  "IEP EFFECTIVE DATES": 3,
+  "1. FUTURE PLANNING": 2,
+  "2. SPECIAL INSTRUCTIONAL FACTORS": 3,
+  "3. PROFILE": 8,
+  "4. EXTENDED SCHOOL YEAR SERVICES": 3,
+  "5. POSTSECONDARY TRANSITION": 8,
+  "6. MEASURABLE ANNUAL GOALS": 20,
+  "7. SPECIALLY DESIGNED SERVICES": 15,
+  "8. TRANSPORTATION AS A RELATED SERVICE": 2,
+  "9. NONACADEMIC AND EXTRACURRICULAR ACTIVITIES": 2,
+  "10. GENERAL FACTORS": 2,
+  "11. LEAST RESTRICTIVE ENVIRONMENT": 4,
+  "12. STATEWIDE AND DISTRICT WIDE TESTING": 3,
+  "13. EXEMPTIONS": 2,
+  "14. MEETING PARTICIPANTS": 3,
+  "15. SIGNATURES": 4
+};
+
+/**
+ * Assessment options
+ */
+export interface AssessmentOptions {
+  /** Section weight overrides (default: DEFAULT_SECTION_WEIGHTS) */
+  weights?: SectionWeights;
+  /** Directory of ground-truth files (default: ./ground-truth) */
+  groundTruthDir?: string;
+  /** Provider, reasoning effort and other processing options for each sample */
+  processing?: ProcessingOptions;
+  /** Samples processed at once (default: 1) */
+  concurrency?: number;
+}
+
+/**
+ * Averages over the assessed files and whether the Phase 2 targets were met
+ */
+export interface AssessmentSummary {
+  files: number;
+  processed: number;
+  averageScore: number;
+  averageContentCompleteness: number;
+  averageGoalsCompleteness: number;
+  averagePresentLevelLength: number;
+  totalCost: number;
+  /** Processing time of the assessed files, in ms */
+  totalTime: number;
+  /** Every Phase 2 success criterion passed */
+  targetsMet: boolean;
+  /** Each Phase 2 success criterion with the measured value */
+  criteria: Array<{ label: string; passed: boolean; value: string }>;
+  /** Average completeness per section over the files it applies to (none: undefined) */
+  sections: Array<{ section: AssessedSection; completeness?: number; files: number }>;
+  groundTruthDir: string;
+  /** Combined field-level score of the files with ground truth */
+  groundTruth?: { files: number; score: ScoreReport };
+  results: AssessedFile[];
+  /** Files that could not be processed */
+  failures: Array<{ fileName: string; error: string }>;
+}
+
+/**
+ * Completeness checks for one section
+ */
+export interface SectionAnalysis {
+  /** False when the section does not apply (e.g. transition for a 10-year-old) */
+  applicable: boolean;
+  completeness: number;
+  passed: string[];
+  failed: string[];
+}
+
+export interface ContentAnalysis {
+  sections: Record<AssessedSection, SectionAnalysis>;
   goals: {
     count: number;
     avgPresentLevelLength: number;
-    hasProgressMeasures: boolean;
-    hasObjectives: boolean;
-    completeness: number;
-  };
-  services: {
-    hasSDI: boolean;
-    hasRelatedServices: boolean;
-    hasAccommodations: boolean;
-    hasFrequencies: boolean;
-    completeness: number;
   };
 }
 
+type Check = [label: string, passed: boolean];
+
+/**
+ * Assessment of one sample document
+ */
+export interface AssessedFile {
+  fileName: string;
+  analysis: ContentAnalysis;
+  metrics: AccuracyMetrics;
+  score?: ScoreReport;
+  processingTime: number;
+  cost: number;
+}
+
 /**
  * Analyze the quality and completeness of extracted IEP data
+ *
+ * Checks follow the typed FormSpecificIEPData structure. Sections are looked
+ * up by title, so output whose section numbers differ (e.g. from the
+ * optimized schema) is still assessed.
  */
-function analyzeContentQuality(data: any): ContentAnalysis {
-  const iepData = data.IEP || data;
-  
-  // Analyze Child Information
-  const childInfo = iepData["CHILD'S INFORMATION"] || {};
-  const childAnalysis = {
-    hasName: !!(childInfo.NAME && childInfo.NAME.trim().length > 2),
-    hasSchool: !!(childInfo.SCHOOL && childInfo.SCHOOL.trim().length > 3),
-    hasCompleteAddress: !!(childInfo["HOME ADDRESS"] && childInfo["HOME ADDRESS"].length > 10),
-    completeness: 0
-  };
-  childAnalysis.completeness = (
-    (childAnalysis.hasName ? 25 : 0) +
-    (childAnalysis.hasSchool ? 25 : 0) +
-    (childAnalysis.hasCompleteAddress ? 25 : 0) +
-    (childInfo.GRADE ? 25 : 0)
-  );
+function analyzeContentQuality(data: FormSpecificIEPData): ContentAnalysis {
+  const iep = (data?.IEP || {}) as Partial<IEPSections>;
+  const get = <K extends AssessedSection>(section: K): Partial<IEPSections[K]> => findSection(iep, section) || {};
 
-  // Analyze Parent Information  
-  const parentInfo = iepData["PARENT/GUARDIAN INFORMATION"] || {};
-  const parentAnalysis = {
-    hasName: !!(parentInfo.NAME && parentInfo.NAME.trim().length > 2),
-    hasContact: !!(parentInfo.EMAIL || parentInfo["HOME PHONE"] || parentInfo["WORK PHONE"]),
-    completeness: 0
-  };
-  parentAnalysis.completeness = (
-    (parentAnalysis.hasName ? 50 : 0) +
-    (parentAnalysis.hasContact ? 50 : 0)
-  );
+  const child = get("CHILD'S INFORMATION");
+  const parents = get("PARENT/GUARDIAN INFORMATION");
+  const parent1 = (parents["Parent/Guardian 1"] || {}) as Partial<IEPSections["PARENT/GUARDIAN INFORMATION"]["Parent/Guardian 1"]>;
+  const meeting = get("MEETING INFORMATION");
+  const timelines = get("IEP TIMELINES");
+  const effective = get("IEP EFFECTIVE DATES");
+  const factors = get("2. SPECIAL INSTRUCTIONAL FACTORS");
+  const profile = get("3. PROFILE");
+  const esy = get("4. EXTENDED SCHOOL YEAR SERVICES");
+  const transition = get("5. POSTSECONDARY TRANSITION");
+  const goalsSection = get("6. MEASURABLE ANNUAL GOALS");
+  const services = get("7. SPECIALLY DESIGNED SERVICES");
+  const transportation = get("8. TRANSPORTATION AS A RELATED SERVICE");
+  const nonacademic = get("9. NONACADEMIC AND EXTRACURRICULAR ACTIVITIES");
+  const general = get("10. GENERAL FACTORS");
+  const lre = get("11. LEAST RESTRICTIVE ENVIRONMENT");
+  const testing = get("12. STATEWIDE AND DISTRICT WIDE TESTING");
+  const exemptions = get("13. EXEMPTIONS");
+  const participants = get("14. MEETING PARTICIPANTS");
+  const signatures = get("15. SIGNATURES");
 
-  // Analyze Goals
-  const goals = iepData["6. MEASURABLE ANNUAL GOALS"] || [];
-  const totalPresentLevelLength = goals.reduce((sum: number, goal: any) => {
-    const presentLevel = goal["PRESENT LEVEL OF ACADEMIC ACHIEVEMENT AND FUNCTIONAL PERFORMANCE"] || "";
-    return sum + presentLevel.length;
-  }, 0);
-  
-  const goalsAnalysis = {
-    count: goals.length,
-    avgPresentLevelLength: goals.length > 0 ? Math.round(totalPresentLevelLength / goals.length) : 0,
-    hasProgressMeasures: goals.some((goal: any) => 
-      goal["PROGRESS MEASUREMENT"] && goal["PROGRESS MEASUREMENT"].length > 0
-    ),
-    hasObjectives: goals.some((goal: any) => 
-      goal["SHORT-TERM OBJECTIVES"] && goal["SHORT-TERM OBJECTIVES"].length > 0
-    ),
-    completeness: 0
-  };
-  
-  goalsAnalysis.completeness = (
-    (goalsAnalysis.count > 0 ? 25 : 0) +
-    (goalsAnalysis.avgPresentLevelLength > 100 ? 25 : 0) +
-    (goalsAnalysis.hasProgressMeasures ? 25 : 0) +
-    (goalsAnalysis.hasObjectives ? 25 : 0)
-  );
+  const goals = asArray<IEPSections["6. MEASURABLE ANNUAL GOALS"]["GOALS"][number]>(goalsSection.GOALS);
+  const presentLevels = goals.map(goal => text(goal["PRESENT LEVEL OF ACADEMIC ACHIEVEMENT AND FUNCTIONAL PERFORMANCE"]));
+  const avgPresentLevelLength = goals.length > 0
+    ? Math.round(presentLevels.reduce((sum, level) => sum + level.length, 0) / goals.length)
+    : 0;
 
-  // Analyze Services
-  const services = iepData["7. SPECIALLY DESIGNED SERVICES"] || {};
-  const servicesAnalysis = {
-    hasSDI: !!(services["SPECIALLY DESIGNED INSTRUCTION"] && services["SPECIALLY DESIGNED INSTRUCTION"].length > 0),
-    hasRelatedServices: !!(services["RELATED SERVICES"] && services["RELATED SERVICES"].length > 0),
-    hasAccommodations: !!(services["ACCOMMODATIONS"] && services["ACCOMMODATIONS"].length > 0),
-    hasFrequencies: false, // Will check for frequency patterns
-    completeness: 0
-  };
-  
-  // Check for frequency patterns in service descriptions
-  const allServices = [
-    ...(services["SPECIALLY DESIGNED INSTRUCTION"] || []),
-    ...(services["RELATED SERVICES"] || []),
-    ...(services["ACCOMMODATIONS"] || [])
+  const instruction = asArray<IEPSections["7. SPECIALLY DESIGNED SERVICES"]["SPECIALLY DESIGNED INSTRUCTION"][number]>(services["SPECIALLY DESIGNED INSTRUCTION"]);
+  const related = asArray<IEPSections["7. SPECIALLY DESIGNED SERVICES"]["RELATED SERVICES"][number]>(services["RELATED SERVICES"]);
+  const scheduled = [...instruction, ...related];
+
+  const transitionAreas = [
+    transition["Postsecondary Training and Education"],
+    transition["Competitive Integrated Employment"],
+    transition["Independent Living (as appropriate)"]
   ];
-  
-  servicesAnalysis.hasFrequencies = allServices.some((service: any) => {
-    const desc = service.Description || "";
-    return /\d+\s*(time|minute|hour|day|week|month)/i.test(desc);
-  });
-  
-  servicesAnalysis.completeness = (
-    (servicesAnalysis.hasSDI ? 25 : 0) +
-    (servicesAnalysis.hasRelatedServices ? 25 : 0) +
-    (servicesAnalysis.hasAccommodations ? 25 : 0) +
-    (servicesAnalysis.hasFrequencies ? 25 : 0)
+  const needsTransition = child["Will the child be 14 years old before the end of this IEP?"] === true ||
+    child["Is the child younger than 14 years of age but has transition and postsecondary goal information?"] === true;
+
+  const meetingParticipants = asArray<IEPSections["14. MEETING PARTICIPANTS"]["IEP Meeting Participants (attended and participated)"][number]>(
+    participants["IEP Meeting Participants (attended and participated)"]
   );
+  const percentInGeneral = lre["Percentage of time in general education"];
+
+  const checks: Record<AssessedSection, Check[] | null> = {
+    "CHILD'S INFORMATION": [
+      ['name', filled(child.NAME)],
+      ['ID number', filled(child["ID NUMBER"])],
+      ['date of birth', filled(child["DATE OF BIRTH"])],
+      ['address', filled(child.STREET) && filled(child.CITY) && filled(child.STATE) && filled(child.ZIP)],
+      ['grade', filled(child.GRADE)],
+      ['district of residence', filled(child["DISTRICT OF RESIDENCE"])]
+    ],
+    "PARENT/GUARDIAN INFORMATION": [
+      ['parent/guardian 1 name', filled(parent1.NAME)],
+      ['parent/guardian 1 address', filled(parent1.STREET) && filled(parent1.CITY)],
+      ['parent/guardian 1 phone or email', filled(parent1["HOME PHONE"]) || filled(parent1["WORK PHONE"]) || filled(parent1["CELL PHONE"]) || filled(parent1.EMAIL)]
+    ],
+    "MEETING INFORMATION": [
+      ['meeting date', filled(meeting["MEETING DATE"])],
+      ['meeting type', anySelected(meeting["MEETING TYPE"])]
+    ],
+    "IEP TIMELINES": [
+      ['ETR completion date', filled(timelines["ETR COMPLETION DATE"])],
+      ['next ETR due date', filled(timelines["NEXT ETR DUE DATE"])]
+    ],
+    "IEP EFFECTIVE DATES": [
+      ['start date', filled(effective.START)],
+      ['end date', filled(effective.END)],
+      ['next IEP review', filled(effective["NEXT IEP REVIEW"])]
+    ],
+    "1. FUTURE PLANNING": [
+      ['future planning narrative', filled(findSection(iep, "1. FUTURE PLANNING"))]
+    ],
+    "2. SPECIAL INSTRUCTIONAL FACTORS": [
+      ['every factor answered', Object.keys(factors).length > 0 && Object.values(factors).every(value => typeof value === 'boolean')]
+    ],
+    "3. PROFILE": [
+      ['evaluation information', filled(profile["Most Recent Evaluation Information"])],
+      ['district testing', filled(profile["Most Recent District Testing"])],
+      ['parent concerns', filled(profile["Concerns from Parent"])],
+      ['effects on progress', filled(profile["Effects on Progress in General Education"])]
+    ],
+    "4. EXTENDED SCHOOL YEAR SERVICES": [
+      ['ESY decision', typeof esy["Has the team determined that ESY services are necessary?"] === 'boolean'],
+      ['goals behind ESY need', esy["Has the team determined that ESY services are necessary?"] !== true || filled(esy["If yes, what goals determined the need?"])],
+      ['date to reconvene', esy["Will the team need to collect further data and reconvene to make a determination?"] !== true || filled(esy["Date to Reconvene"])]
+    ],
+    "5. POSTSECONDARY TRANSITION": needsTransition ? [
+      ['postsecondary goals in every area', transitionAreas.every(area => filled(area?.["Measurable Postsecondary Goal"]))],
+      ['transition assessments', transitionAreas.some(area => filled(area?.["Age Appropriate Transition Assessment"]))],
+      ['courses of study', transitionAreas.some(area => filled(area?.["Courses of Study"]))],
+      ['transition services/activities', transitionAreas.some(area => asArray(area?.["Transition Services/Activities"]).length > 0)]
+    ] : null,
+    "6. MEASURABLE ANNUAL GOALS": [
+      ['goals listed', goals.length > 0],
+      ['progress reporting frequency', filled(goalsSection["FREQUENCY OF WRITTEN PROGRESS REPORTING TOWARD GOAL MASTERY TO PARENTS"])],
+      ['area for every goal', goals.length > 0 && goals.every(goal => filled(goal.AREA))],
+      ['present levels (100+ chars)', goals.length > 0 && avgPresentLevelLength > 100],
+      ['measurable goal text', goals.length > 0 && goals.every(goal => filled(goal["MEASURABLE ANNUAL GOAL"]))],
+      ['measurement methods', goals.length > 0 && goals.every(goal => anySelected(goal["METHOD(S) FOR MEASURING THE CHILD'S PROGRESS TOWARDS ANNUAL GOAL"]))],
+      ['objectives/benchmarks', goals.some(goal => asArray(goal["Objectives/Benchmarks"]).length > 0)]
+    ],
+    "7. SPECIALLY DESIGNED SERVICES": [
+      ['specially designed instruction', instruction.length > 0],
+      ['accommodations', asArray(services.ACCOMMODATIONS).length > 0],
+      ['providers and locations', scheduled.length > 0 && scheduled.every(service => filled(service["Provider Title"]) && filled(service["Location of Service"]))],
+      ['begin/end dates', scheduled.length > 0 && scheduled.every(service => filled(service["Begin Date"]) && filled(service["End Date"]))],
+      ['amount of time', scheduled.length > 0 && scheduled.every(service => filled(service["Amount of Time"]))],
+      ['frequencies with a count', scheduled.length > 0 && scheduled.every(service => /\d|daily|once|twice/i.test(text(service.Frequency)))]
+    ],
+    "8. TRANSPORTATION AS A RELATED SERVICE": [
+      ['special transportation answered', typeof transportation["Does the child require special transportation?"] === 'boolean']
+    ],
+    "9. NONACADEMIC AND EXTRACURRICULAR ACTIVITIES": [
+      ['participation described', filled(nonacademic["Participation with nondisabled peers (describe)"]) || filled(nonacademic["If the child will not participate, explain"]) || filled(findSection(iep, "9. NONACADEMIC AND EXTRACURRICULAR ACTIVITIES"))]
+    ],
+    "10. GENERAL FACTORS": [
+      ['strengths considered', general["The strengths of the child considered?"] === true],
+      ['parent concerns considered', general["The concerns of the parents for the education of the child considered?"] === true],
+      ['evaluation considered', general["The results of the initial or most recent evaluations of the child considered?"] === true],
+      ['needs considered', general["The academic, developmental and functional needs of the child considered?"] === true]
+    ],
+    "11. LEAST RESTRICTIVE ENVIRONMENT": [
+      ['percentage in general education', typeof percentInGeneral === 'number' && percentInGeneral >= 0 && percentInGeneral <= 100],
+      ['home school answered or justified', lre["For School Age: attends school child would attend if not disabled?"] !== false || filled(lre["If no, justify"])],
+      ['justification for removal', percentInGeneral === 100 || lre["Receives all special education services with nondisabled peers?"] === true || filled(lre["If no, justify (cannot be only due to needed curriculum modifications)"])]
+    ],
+    "12. STATEWIDE AND DISTRICT WIDE TESTING": [
+      ['assessments listed', asArray(testing["Statewide Testing"]).length > 0 || asArray(testing["District Testing"]).length > 0]
+    ],
+    "13. EXEMPTIONS": [
+      ['alternate assessment answered', typeof exemptions["Is the child participating in the Alternate Assessment (AASCD)?"] === 'boolean'],
+      ['alternate assessment justified', exemptions["Is the child participating in the Alternate Assessment (AASCD)?"] !== true || filled(exemptions["If yes, justify choice of alternate assessment"])]
+    ],
+    "14. MEETING PARTICIPANTS": [
+      ['at least two participants', meetingParticipants.length >= 2],
+      ['participant names and positions', meetingParticipants.length > 0 && meetingParticipants.every(person => filled(person.Name) && filled(person.Position))],
+      ['meeting format', anySelected(participants["This IEP meeting was"])]
+    ],
+    "15. SIGNATURES": [
+      ['parent signature or consent', hasSignature(signatures)],
+      ['procedural safeguards answered', typeof signatures["Procedural Safeguards Notice received at IEP meeting"] === 'boolean']
+    ]
+  };
+
+  const sections = {} as Record<AssessedSection, SectionAnalysis>;
+  for (const [section, sectionChecks] of Object.entries(checks) as Array<[AssessedSection, Check[] | null]>) {
+    if (!sectionChecks) {
+      sections[section] = { applicable: false, completeness: 100, passed: [], failed: [] };
+      continue;
+    }
+    const passed = sectionChecks.filter(([, ok]) => ok).map(([label]) => label);
+    const failed = sectionChecks.filter(([, ok]) => !ok).map(([label]) => label);
+    sections[section] = {
+      applicable: true,
+      completeness: Math.round((passed.length / sectionChecks.length) * 100),
+      passed,
+      failed
+    };
+  }
 
   return {
-    childInfo: childAnalysis,
-    parentInfo: parentAnalysis,
-    goals: goalsAnalysis,
-    services: servicesAnalysis
+    sections,
+    goals: {
+      count: goals.length,
+      avgPresentLevelLength
+    }
   };
 }
 
+/**
+ * Find a section by its exact name, or by title when the number differs
+ */
+function findSection<K extends AssessedSection>(iep: Partial<IEPSections>, section: K): IEPSections[K] | undefined {
+  if (section in iep) return iep[section] as IEPSections[K];
+  const title = stripSectionNumber(section);
+  const key = Object.keys(iep).find(candidate => stripSectionNumber(candidate) === title);
+  return key ? (iep as Record<string, unknown>)[key] as IEPSections[K] : undefined;
+}
+
+function filled(value: unknown): boolean {
+  return typeof value === 'string' ? value.trim().length > 0 : typeof value === 'number';
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function asArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * True when any checkbox in a group is checked (or a string selection is made)
+ */
+function anySelected(value: unknown): boolean {
+  if (typeof value === 'string') return value.trim().length > 0;
+  return !!value && typeof value === 'object' && Object.values(value).some(option => option === true);
+}
+
+/**
+ * True when any signature block carries a parent signature or a consent choice
+ */
+function hasSignature(signatures: Partial<IEPSections["15. SIGNATURES"]>): boolean {
+  const blocks = [
+    signatures["INITIAL IEP"],
+    signatures["IEP ANNUAL REVIEW (Not a Change of Placement)"],
+    signatures["IEP REVIEW (Change of Placement)"]
+  ];
+  return blocks.some(block => !!block && Object.values(block).some(value => value === true || (typeof value === 'string' && value.trim().length > 0)));
+}
+
 /**
  * Calculate overall accuracy metrics
+ *
+ * Content completeness is the weighted mean of section completeness over the
+ * sections that apply to the document.
+ *
+ * Field accuracy is the F1 score against the hand-verified ground truth when
+ * the sample has one. Without it, the document confidence is used as an
+ * estimate, and completeness as a last resort.
+ *
+ * @param analysis - Content analysis of the extraction
+ * @param evidence - Ground-truth score and/or document confidence (0-100)
  */
-function calculateAccuracyMetrics(analysis: ContentAnalysis): AccuracyMetrics {
-  const contentCompleteness = (
-    analysis.childInfo.completeness * 0.2 +
-    analysis.parentInfo.completeness * 0.15 +
-    analysis.goals.completeness * 0.4 +
-    analysis.services.completeness * 0.25
-  );
+function calculateAccuracyMetrics(
+  analysis: ContentAnalysis,
+  evidence: { score?: ScoreReport; confidence?: number } = {},
+  weights: SectionWeights = {}
+): AccuracyMetrics {
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [section, sectionAnalysis] of Object.entries(analysis.sections) as Array<[AssessedSection, SectionAnalysis]>) {
+    const weight = weights[section] ?? DEFAULT_SECTION_WEIGHTS[section];
+    if (!sectionAnalysis.applicable || weight <= 0) continue;
+    weighted += sectionAnalysis.completeness * weight;
+    totalWeight += weight;
+  }
+  const contentCompleteness = totalWeight > 0 ? weighted / totalWeight : 0;
 
-  const fieldAccuracy = contentCompleteness; // For now, same as completeness
+  const fieldAccuracy = evidence.score
+    ? evidence.score.overall.f1 * 100
+    : evidence.confidence ?? contentCompleteness;
   const structuralIntegrity = 100; // Schema validation ensures this
   const overallScore = (contentCompleteness + fieldAccuracy + structuralIntegrity) / 3;
 
   return {
     contentCompleteness: Math.round(contentCompleteness),
     fieldAccuracy: Math.round(fieldAccuracy),
+    precision: evidence.score ? Math.round(evidence.score.overall.precision * 100) : undefined,
+    recall: evidence.score ? Math.round(evidence.score.overall.recall * 100) : undefined,
     structuralIntegrity: Math.round(structuralIntegrity),
-    overallScore: Math.round(overallScore)
+    overallScore: Math.round(overallScore),
+    groundTruth: !!evidence.score
   };
 }
 
 /**
  * Run accuracy assessment on a single PDF
+ *
+ * @param filePath - Sample document
+ * @param options - Section weights and ground-truth directory
+ * @throws Error - the document could not be processed or is not an IEP
  */
-export async function assessSinglePDF(filePath: string): Promise<{
-  fileName: string;
-  analysis: ContentAnalysis;
-  metrics: AccuracyMetrics;
-  processingTime: number;
-  cost: number;
-}> {
+export async function assessSinglePDF(filePath: string, options: AssessmentOptions = {}): Promise<AssessedFile> {
   const startTime = Date.now();
   const fileName = path.basename(filePath);
   
-  console.log(`\n📊 Assessing: ${chalk.blue(fileName)}`);
+  logger.info('Assessing sample', { file: filePath });
   
-  try {
-    const result = await processIEP(filePath);
-    
-    if (!result.success || !result.data) {
-      throw new Error('Extraction failed');
-    }
-    
-    const analysis = analyzeContentQuality(result.data);
-    const metrics = calculateAccuracyMetrics(analysis);
-    const processingTime = Date.now() - startTime;
-    
-    // Display results
-    console.log(`   ${chalk.green('✅')} Overall Score: ${chalk.bold(metrics.overallScore + '%')}`);
-    console.log(`   📝 Content: ${metrics.contentCompleteness}% | 🎯 Accuracy: ${metrics.fieldAccuracy}% | 🏗️ Structure: ${metrics.structuralIntegrity}%`);
-    console.log(`   👤 Child: ${analysis.childInfo.completeness}% | 👨‍👩‍👧‍👦 Parent: ${analysis.parentInfo.completeness}% | 🎯 Goals: ${analysis.goals.completeness}% | 🛠️ Services: ${analysis.services.completeness}%`);
-    console.log(`   ⏱️ Time: ${processingTime}ms | 💰 Cost: $${result.usage?.cost_usd.toFixed(6) || '0'}`);
-    
-    return {
-      fileName,
-      analysis,
-      metrics,
-      processingTime,
-      cost: result.usage?.cost_usd || 0
-    };
-    
-  } catch (error) {
-    console.log(`   ${chalk.red('❌')} Failed: ${error}`);
-    throw error;
+  const result = await processIEP(filePath, { ...options.processing, confidence: {} });
+  
+  if (!result.success || !result.data) {
+    throw new Error(`Extraction failed${result.error ? `: ${result.error.message}` : ''}`);
+  }
+  if (result.form?.id !== 'iep') {
+    throw new Error(`Accuracy assessment covers IEPs only (processed as ${result.form?.name})`);
   }
+  
+  const data = result.data as FormSpecificIEPData;
+  const analysis = analyzeContentQuality(data);
+  const truth = loadGroundTruth(filePath, options.groundTruthDir || DEFAULT_GROUND_TRUTH_DIR);
+  const score = truth ? scoreAgainstGroundTruth(data, truth) : undefined;
+  const metrics = calculateAccuracyMetrics(analysis, { score, confidence: result.confidence?.document.score }, options.weights);
+  
+  return {
+    fileName,
+    analysis,
+    metrics,
+    score,
+    processingTime: Date.now() - startTime,
+    cost: result.usage?.cost_usd || 0
+  };
 }
 
 /**
  * Run comprehensive accuracy assessment on multiple PDFs
+ *
+ * Nothing is printed; the CLI renders the returned summary.
+ *
+ * @param sampleDir - Directory of sample documents
+ * @param maxFiles - Maximum number of samples to process
+ * @param options - Section weights, ground-truth directory, processing options and concurrency
+ * @returns Per-file results, averages and whether the targets were met
  */
-export async function runAccuracyAssessment(sampleDir: string, maxFiles: number = 5): Promise<void> {
-  console.log(chalk.bold.blue('\n🎯 PHASE 2 ACCURACY ASSESSMENT'));
-  console.log('=' .repeat(60));
-  
+export async function runAccuracyAssessment(
+  sampleDir: string,
+  maxFiles: number = 5,
+  options: AssessmentOptions = {}
+): Promise<AssessmentSummary> {
+  const groundTruthDir = options.groundTruthDir || DEFAULT_GROUND_TRUTH_DIR;
   const files = fs.readdirSync(sampleDir)
     .filter(file => file.endsWith('.pdf'))
     .slice(0, maxFiles);
   
-  const results: any[] = [];
-  let totalCost = 0;
-  let totalTime = 0;
-  
-  for (const file of files) {
-    const filePath = path.join(sampleDir, file);
-    try {
-      const result = await assessSinglePDF(filePath);
-      results.push(result);
-      totalCost += result.cost;
-      totalTime += result.processingTime;
-    } catch (error) {
-      console.log(`   Skipping ${file} due to error`);
-    }
+  const concurrency = options.concurrency ?? 1;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Assessment concurrency must be a positive integer, got ${concurrency}`);
   }
+
+  // Outcomes by file index, so results keep the directory order whatever finishes first
+  type Failure = AssessmentSummary['failures'][number];
+  const outcomes: Array<AssessedFile | Failure> = new Array(files.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < files.length) {
+      const index = next++;
+      const filePath = path.join(sampleDir, files[index]);
+      try {
+        outcomes[index] = await assessSinglePDF(filePath, options);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn('Sample skipped', { file: filePath, error: message });
+        outcomes[index] = { fileName: files[index], error: message };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+
+  const results = outcomes.filter((outcome): outcome is AssessedFile => !('error' in outcome));
+  const failures = outcomes.filter((outcome): outcome is Failure => 'error' in outcome);
+  const totalCost = results.reduce((sum, r) => sum + r.cost, 0);
+  const totalTime = results.reduce((sum, r) => sum + r.processingTime, 0);
   
   // Calculate summary statistics
   const avgScore = results.reduce((sum, r) => sum + r.metrics.overallScore, 0) / results.length;
   const avgContentCompleteness = results.reduce((sum, r) => sum + r.metrics.contentCompleteness, 0) / results.length;
-  const avgGoalsCompleteness = results.reduce((sum, r) => sum + r.analysis.goals.completeness, 0) / results.length;
+  const avgGoalsCompleteness = results.reduce((sum, r) => sum + r.analysis.sections["6. MEASURABLE ANNUAL GOALS"].completeness, 0) / results.length;
   const avgPresentLevelLength = results.reduce((sum, r) => sum + r.analysis.goals.avgPresentLevelLength, 0) / results.length;
-  
-  // Display summary
-  console.log(chalk.bold.green('\n📈 ACCURACY ASSESSMENT SUMMARY'));
-  console.log('=' .repeat(60));
-  console.log(`📊 Files Processed: ${chalk.bold(results.length)}/${files.length}`);
-  console.log(`🎯 Average Overall Score: ${chalk.bold(Math.round(avgScore) + '%')}`);
-  console.log(`📝 Average Content Completeness: ${chalk.bold(Math.round(avgContentCompleteness) + '%')}`);
-  console.log(`🎯 Average Goals Completeness: ${chalk.bold(Math.round(avgGoalsCompleteness) + '%')}`);
-  console.log(`📄 Average Present Level Length: ${chalk.bold(Math.round(avgPresentLevelLength))} chars`);
-  console.log(`⏱️ Total Processing Time: ${chalk.bold(Math.round(totalTime / 1000))}s`);
-  console.log(`💰 Total Cost: ${chalk.bold('$' + totalCost.toFixed(4))}`);
-  
+
+  // Completeness by section, over the files where the section applies
+  const sections = (Object.keys(DEFAULT_SECTION_WEIGHTS) as AssessedSection[]).map(section => {
+    const applicable = results.filter(r => r.analysis.sections[section].applicable);
+    const completeness = applicable.length > 0
+      ? Math.round(applicable.reduce((sum, r) => sum + r.analysis.sections[section].completeness, 0) / applicable.length)
+      : undefined;
+    return { section, completeness, files: applicable.length };
+  });
+
+  // Field-level accuracy against ground truth
+  const scored = results.flatMap(r => r.score ? [r.score] : []);
+
   // Phase 2 success criteria
-  console.log(chalk.bold.yellow('\n🎯 PHASE 2 SUCCESS CRITERIA:'));
-  console.log(`Overall Score ≥ 85%: ${avgScore >= 85 ? chalk.green('✅ PASS') : chalk.red('❌ FAIL')} (${Math.round(avgScore)}%)`);
-  console.log(`Content Completeness ≥ 80%: ${avgContentCompleteness >= 80 ? chalk.green('✅ PASS') : chalk.red('❌ FAIL')} (${Math.round(avgContentCompleteness)}%)`);
-  console.log(`Goals Completeness ≥ 90%: ${avgGoalsCompleteness >= 90 ? chalk.green('✅ PASS') : chalk.red('❌ FAIL')} (${Math.round(avgGoalsCompleteness)}%)`);
-  console.log(`Present Level Length ≥ 200 chars: ${avgPresentLevelLength >= 200 ? chalk.green('✅ PASS') : chalk.red('❌ FAIL')} (${Math.round(avgPresentLevelLength)} chars)`);
-  
-  const phase2Success = avgScore >= 85 && avgContentCompleteness >= 80 && avgGoalsCompleteness >= 90 && avgPresentLevelLength >= 200;
-  
-  if (phase2Success) {
-    console.log(chalk.bold.green('\n🎉 PHASE 2 COMPLETE - ACCURACY TARGETS MET!'));
-    console.log(chalk.green('Ready for Phase 3 - Production Readiness'));
-  } else {
-    console.log(chalk.bold.yellow('\n⚠️ PHASE 2 IN PROGRESS - CONTINUE ACCURACY IMPROVEMENTS'));
-    console.log(chalk.yellow('Focus on areas that need improvement above'));
-  }
-}
+  const criteria = [
+    { label: 'Overall Score ≥ 85%', passed: avgScore >= 85, value: `${Math.round(avgScore)}%` },
+    { label: 'Content Completeness ≥ 80%', passed: avgContentCompleteness >= 80, value: `${Math.round(avgContentCompleteness)}%` },
+    { label: 'Goals Completeness ≥ 90%', passed: avgGoalsCompleteness >= 90, value: `${Math.round(avgGoalsCompleteness)}%` },
+    { label: 'Present Level Length ≥ 200 chars', passed: avgPresentLevelLength >= 200, value: `${Math.round(avgPresentLevelLength)} chars` }
+  ];
 
-// CLI execution
-if (import.meta.url === `file://${process.argv[1]}`) {
-  const sampleDir = process.argv[2] || './samples';
-  const maxFiles = parseInt(process.argv[3]) || 5;
-  
-  runAccuracyAssessment(sampleDir, maxFiles)
-    .catch(error => {
-      console.error('Assessment failed:', error);
-      process.exit(1);
-    });
+  return {
+    files: files.length,
+    processed: results.length,
+    averageScore: Math.round(avgScore) || 0,
+    averageContentCompleteness: Math.round(avgContentCompleteness) || 0,
+    averageGoalsCompleteness: Math.round(avgGoalsCompleteness) || 0,
+    averagePresentLevelLength: Math.round(avgPresentLevelLength) || 0,
+    totalCost,
+    totalTime,
+    targetsMet: criteria.every(criterion => criterion.passed),
+    criteria,
+    sections,
+    groundTruthDir,
+    groundTruth: scored.length > 0 ? { files: scored.length, score: aggregateScores(scored) } : undefined,
+    results,
+    failures
+  };
 }
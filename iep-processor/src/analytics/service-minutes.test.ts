@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeServiceMinutes } from './service-minutes';
+
+function iep(services: Array<Record<string, unknown>>, percentage?: unknown): Record<string, unknown> {
+  return {
+    IEP: {
+      '7. SPECIALLY DESIGNED SERVICES': { 'SPECIALLY DESIGNED INSTRUCTION': services },
+      '11. LEAST RESTRICTIVE ENVIRONMENT': percentage === undefined ? {} : { 'Percentage of time in general education': percentage }
+    }
+  };
+}
+
+const FULL_DAY = { Description: 'Separate classroom', 'Location of Service': 'Resource Room', 'Amount of Time': '390 minutes', Frequency: 'daily' };
+
+test('a stated 0% is checked, not treated as missing', () => {
+  const { lre } = summarizeServiceMinutes(iep([FULL_DAY], 0));
+  assert.equal(lre.statedPercentage, 0);
+  assert.equal(lre.impliedPercentage, 0);
+  assert.equal(lre.consistent, true);
+
+  const partDay = summarizeServiceMinutes(iep([{ ...FULL_DAY, 'Amount of Time': '30 minutes' }], 0)).lre;
+  assert.equal(partDay.consistent, false);
+  assert.equal(partDay.impliedPercentage, 92);
+});
+
+test('a missing percentage is not compared', () => {
+  for (const stated of [undefined, null, '']) {
+    const { lre } = summarizeServiceMinutes(iep([FULL_DAY], stated));
+    assert.equal(lre.statedPercentage, undefined);
+    assert.equal(lre.consistent, undefined);
+    assert.equal(lre.message, undefined);
+  }
+});
+
+test('weekly minutes are totaled per provider, location and goal', () => {
+  const summary = summarizeServiceMinutes({
+    IEP: {
+      '7. SPECIALLY DESIGNED SERVICES': {
+        'SPECIALLY DESIGNED INSTRUCTION': [
+          { Description: 'Reading', 'Goal Addressed #': 1, 'Provider Title': 'Intervention Specialist', 'Location of Service': 'Resource Room', 'Amount of Time': '30 minutes', Frequency: '5 times per week' },
+          { Description: 'Math', 'Goal Addressed #': '1, 2', 'Provider Title': 'Intervention Specialist', 'Location of Service': 'General Education', 'Amount of Time': '1 hour', Frequency: 'once every two weeks' }
+        ],
+        'RELATED SERVICES': [
+          { Description: 'Speech', 'Provider Title': 'Speech-Language Pathologist', 'Location of Service': 'Speech Room', 'Amount of Time': '20 min', Frequency: '2x/day' }
+        ]
+      },
+      '11. LEAST RESTRICTIVE ENVIRONMENT': { 'Percentage of time in general education': 70 }
+    }
+  });
+  assert.deepEqual(summary.services.map(service => service.weeklyMinutes), [150, 30, 200]);
+  assert.equal(summary.totalWeeklyMinutes, 380);
+  assert.deepEqual(summary.byProvider, { 'Intervention Specialist': 180, 'Speech-Language Pathologist': 200 });
+  assert.deepEqual(summary.byLocation, { 'Resource Room': 150, 'General Education': 30, 'Speech Room': 200 });
+  assert.deepEqual(summary.byGoal, { 1: 180, 2: 30, '(unspecified)': 200 });
+  // 350 of 1950 minutes outside general education leave 82%, 12 points from the stated 70%
+  assert.equal(summary.lre.outsideGeneralEducationMinutes, 350);
+  assert.equal(summary.lre.impliedPercentage, 82);
+  assert.equal(summary.lre.consistent, false);
+});
+
+test('a service that cannot be counted makes the LRE check inconclusive', () => {
+  const { services, lre } = summarizeServiceMinutes(iep([FULL_DAY, { ...FULL_DAY, Frequency: '2-3 times per week' }], 0));
+  assert.equal(services[1].weeklyMinutes, undefined);
+  assert.match(services[1].reason as string, /Frequency "2-3 times per week"/);
+  assert.equal(lre.uncountedServices, 1);
+  assert.equal(lre.inconclusive, true);
+  assert.equal(lre.consistent, undefined);
+});
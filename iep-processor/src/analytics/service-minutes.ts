@@ -0,0 +1,262 @@
+/**
+ * Service Minutes Summary
+ *
+ * Derives the weekly service schedule from "7. SPECIALLY DESIGNED SERVICES":
+ * each service's Amount of Time and Frequency are normalized and turned into
+ * weekly minutes, then totaled per provider title, location and goal. The
+ * total time outside general education is cross-checked against
+ * "11. LEAST RESTRICTIVE ENVIRONMENT" "Percentage of time in general education".
+ *
+ * Features:
+ * - Weekly minutes per service (daily frequencies use the school week,
+ *   monthly ones 12/52 of a month per week)
+ * - Totals per provider title, per location of service and per goal
+ * - Services whose time or frequency cannot be read are listed, not guessed
+ * - LRE cross-check: general education percentage implied by the services
+ *   outside general education vs. the percentage stated on the form;
+ *   inconclusive when a service could not be counted
+ * - Text report lines for the validation and cost reports
+ */
+
+import { Frequency, parseDuration, parseFrequency } from '../normalization/field-normalization';
+import { getByPointer, toPointer } from '../utils/json-pointer';
+
+/**
+ * School week used to turn frequencies and minutes into percentages
+ */
+export interface ServiceMinutesOptions {
+  /** Minutes in a school day (default: 390, a 6.5-hour day) */
+  schoolDayMinutes?: number;
+  /** School days per week (default: 5) */
+  schoolDaysPerWeek?: number;
+  /** Largest allowed gap, in percentage points, between stated and implied LRE (default: 10) */
+  lreTolerance?: number;
+}
+
+/**
+ * One scheduled service with its weekly minutes
+ */
+export interface ServiceMinutes {
+  /** JSON pointer of the service row */
+  pointer: string;
+  /** Service list ("SPECIALLY DESIGNED INSTRUCTION", "RELATED SERVICES", ...) */
+  list: string;
+  description: string;
+  providerTitle: string;
+  location: string;
+  goals: number[];
+  generalEducation: boolean;
+  minutesPerSession?: number;
+  frequency?: Frequency;
+  /** Absent when the time or frequency could not be read */
+  weeklyMinutes?: number;
+  /** Why weeklyMinutes is absent */
+  reason?: string;
+}
+
+/**
+ * Cross-check of the services against the stated LRE percentage
+ */
+export interface LreCheck {
+  /** Percentage stated on the form (absent when the form has none; 0 is a stated 0%) */
+  statedPercentage?: number;
+  schoolWeekMinutes: number;
+  /** Weekly minutes of services delivered outside general education */
+  outsideGeneralEducationMinutes: number;
+  /** General education percentage the services leave, 0-100 (an upper bound when services were not counted) */
+  impliedPercentage: number;
+  /** Services whose weekly minutes could not be read */
+  uncountedServices: number;
+  /** Absent when there is nothing to compare, or when the check is inconclusive */
+  consistent?: boolean;
+  /** A percentage is stated but services were not counted, so it cannot be checked */
+  inconclusive?: boolean;
+  message?: string;
+}
+
+/**
+ * Weekly minutes of an IEP's services
+ */
+export interface ServiceMinutesSummary {
+  totalWeeklyMinutes: number;
+  services: ServiceMinutes[];
+  /** Weekly minutes per provider title */
+  byProvider: Record<string, number>;
+  /** Weekly minutes per location of service */
+  byLocation: Record<string, number>;
+  /** Weekly minutes per goal number; a service addressing several goals counts toward each */
+  byGoal: Record<string, number>;
+  lre: LreCheck;
+}
+
+const SERVICES = ['IEP', '7. SPECIALLY DESIGNED SERVICES'];
+const LRE_PERCENTAGE = ['IEP', '11. LEAST RESTRICTIVE ENVIRONMENT', 'Percentage of time in general education'];
+
+// Service lists with Amount of Time and Frequency columns
+const SCHEDULED_LISTS = ['SPECIALLY DESIGNED INSTRUCTION', 'RELATED SERVICES', 'ASSISTIVE TECHNOLOGY'];
+
+const DEFAULT_OPTIONS: Required<ServiceMinutesOptions> = { schoolDayMinutes: 390, schoolDaysPerWeek: 5, lreTolerance: 10 };
+const WEEKS_PER_MONTH = 52 / 12;
+const UNSPECIFIED = '(unspecified)';
+
+// Locations that count as time in general education
+const GENERAL_EDUCATION = /general\s+ed|gen\.?\s*ed|regular\s+(ed|class)|inclusion|co-?taught/i;
+
+/**
+ * Compute the weekly service schedule of an IEP
+ *
+ * @param data - Extracted IEP data (need not be schema-valid)
+ * @param options - School week and LRE tolerance
+ * @returns Weekly minutes per service, provider, location and goal with the LRE cross-check
+ */
+export function summarizeServiceMinutes(data: unknown, options: ServiceMinutesOptions = {}): ServiceMinutesSummary {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const services: ServiceMinutes[] = [];
+
+  for (const list of SCHEDULED_LISTS) {
+    const rows = getByPointer(data, toPointer([...SERVICES, list]));
+    if (!Array.isArray(rows)) continue;
+    rows.forEach((row, index) => {
+      if (row && typeof row === 'object') {
+        services.push(serviceMinutes(row, list, toPointer([...SERVICES, list, index]), settings));
+      }
+    });
+  }
+
+  const scheduled = services.filter(service => service.weeklyMinutes !== undefined);
+  const totalWeeklyMinutes = sum(scheduled);
+  const outside = sum(scheduled.filter(service => !service.generalEducation));
+
+  return {
+    totalWeeklyMinutes,
+    services,
+    byProvider: rollup(scheduled, service => [service.providerTitle]),
+    byLocation: rollup(scheduled, service => [service.location]),
+    byGoal: rollup(scheduled, service => (service.goals.length > 0 ? service.goals.map(String) : [UNSPECIFIED])),
+    lre: checkLre(getByPointer(data, toPointer(LRE_PERCENTAGE)), outside, services.length - scheduled.length, settings)
+  };
+}
+
+/**
+ * Text lines describing the summary, for reports
+ *
+ * @param summary - Result of summarizeServiceMinutes
+ */
+export function formatServiceMinutesReport(summary: ServiceMinutesSummary): string[] {
+  const lines: string[] = [];
+  lines.push('SERVICE MINUTES (per week):');
+  if (summary.services.length === 0) {
+    lines.push('  No scheduled services.');
+    return lines;
+  }
+
+  lines.push(`  Total: ${summary.totalWeeklyMinutes} minutes (${formatHours(summary.totalWeeklyMinutes)})`);
+  for (const [title, totals] of [
+    ['By provider', summary.byProvider],
+    ['By location', summary.byLocation],
+    ['By goal', summary.byGoal]
+  ] as const) {
+    lines.push(`  ${title}:`);
+    Object.entries(totals).forEach(([key, minutes]) => lines.push(`    - ${key}: ${minutes} min`));
+  }
+
+  const unscheduled = summary.services.filter(service => service.weeklyMinutes === undefined);
+  if (unscheduled.length > 0) {
+    lines.push('  Not counted:');
+    unscheduled.forEach(service => lines.push(`    - ${service.pointer}: ${service.reason}`));
+  }
+
+  const { lre } = summary;
+  lines.push(`  LRE: ${lre.outsideGeneralEducationMinutes} of ${lre.schoolWeekMinutes} school-week minutes outside general education (implies ${lre.impliedPercentage}% in general education)`);
+  if (lre.message) {
+    lines.push(`  ${lre.consistent ? '✅' : '⚠️'} ${lre.message}`);
+  }
+  return lines;
+}
+
+function serviceMinutes(row: Record<string, unknown>, list: string, pointer: string, settings: Required<ServiceMinutesOptions>): ServiceMinutes {
+  const location = text(row['Location of Service']);
+  const service: ServiceMinutes = {
+    pointer,
+    list,
+    description: text(row.Description),
+    providerTitle: text(row['Provider Title']) || UNSPECIFIED,
+    location: location || UNSPECIFIED,
+    goals: goalNumbers(row['Goal Addressed #']),
+    generalEducation: GENERAL_EDUCATION.test(location)
+  };
+
+  const duration = typeof row['Amount of Time'] === 'string' ? parseDuration(row['Amount of Time']) : undefined;
+  const frequency = typeof row.Frequency === 'string' ? parseFrequency(row.Frequency) : undefined;
+  service.minutesPerSession = duration?.minutes;
+  service.frequency = frequency;
+
+  if (!duration) {
+    service.reason = text(row['Amount of Time']) ? `Amount of Time "${text(row['Amount of Time'])}" is not a length of time` : 'no Amount of Time';
+  } else if (!frequency) {
+    service.reason = text(row.Frequency) ? `Frequency "${text(row.Frequency)}" is not a count per day, week or month` : 'no Frequency';
+  } else {
+    const sessionsPerWeek = frequency.per === 'day'
+      ? frequency.count * settings.schoolDaysPerWeek
+      : frequency.per === 'month' ? frequency.count / WEEKS_PER_MONTH : frequency.count;
+    service.weeklyMinutes = Math.round(duration.minutes * sessionsPerWeek);
+  }
+  return service;
+}
+
+function checkLre(stated: unknown, outside: number, uncountedServices: number, settings: Required<ServiceMinutesOptions>): LreCheck {
+  const schoolWeekMinutes = settings.schoolDayMinutes * settings.schoolDaysPerWeek;
+  const impliedPercentage = Math.max(0, Math.round(100 * (1 - outside / schoolWeekMinutes)));
+  const check: LreCheck = { schoolWeekMinutes, outsideGeneralEducationMinutes: outside, impliedPercentage, uncountedServices };
+
+  // A stated 0% (all day outside general education) is checked like any other value
+  if (typeof stated !== 'number') {
+    return check;
+  }
+
+  check.statedPercentage = stated;
+  // Minutes of a service that was not counted may be outside general education too
+  if (uncountedServices > 0) {
+    check.inconclusive = true;
+    check.message = `Stated ${stated}% in general education cannot be checked: ${uncountedServices} service(s) not counted (counted services leave ${impliedPercentage}%)`;
+    return check;
+  }
+
+  const gap = Math.abs(stated - impliedPercentage);
+  check.consistent = gap <= settings.lreTolerance;
+  check.message = check.consistent
+    ? `Stated ${stated}% in general education matches the services (${impliedPercentage}%)`
+    : `Stated ${stated}% in general education, but ${outside} weekly service minutes outside general education leave ${impliedPercentage}% (${gap} points apart)`;
+  return check;
+}
+
+function rollup(services: ServiceMinutes[], keys: (service: ServiceMinutes) => string[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const service of services) {
+    for (const key of keys(service)) {
+      totals[key] = (totals[key] || 0) + (service.weeklyMinutes as number);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Goal numbers from "Goal Addressed #" (a number, or text such as "1, 2" on older extractions)
+ */
+function goalNumbers(value: unknown): number[] {
+  if (typeof value === 'number') return value > 0 ? [value] : [];
+  if (typeof value !== 'string') return [];
+  return (value.match(/\d+/g) || []).map(Number).filter(goal => goal > 0);
+}
+
+function sum(services: ServiceMinutes[]): number {
+  return services.reduce((total, service) => total + (service.weeklyMinutes || 0), 0);
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function formatHours(minutes: number): string {
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
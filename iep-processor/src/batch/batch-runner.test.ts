@@ -0,0 +1,81 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { configureLogger } from '../logging/logger';
+import { RateLimitError } from '../providers';
+import { hashFile } from '../utils/hash';
+import { ProcessingResult } from '../main';
+import { runBatch } from './batch-runner';
+
+configureLogger({ quiet: true });
+
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'iep-batch-'));
+after(() => fs.rmSync(scratchDir, { recursive: true, force: true }));
+
+let runs = 0;
+function batchDir(files: Record<string, string>): { files: string[]; outputDir: string } {
+  const dir = path.join(scratchDir, `run-${++runs}`);
+  fs.mkdirSync(dir);
+  return {
+    files: Object.entries(files).map(([name, content]) => {
+      fs.writeFileSync(path.join(dir, name), content);
+      return path.join(dir, name);
+    }),
+    outputDir: path.join(dir, 'output')
+  };
+}
+
+const succeed = async (): Promise<ProcessingResult> => ({ success: true, usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0.01 } });
+
+test('results record the content that was queued, even if the file changes while it runs', async () => {
+  const { files: [file], outputDir } = batchDir({ 'a.pdf': 'first version' });
+  const queuedHash = hashFile(file);
+  await runBatch([file], {
+    outputDir,
+    run: async filePath => {
+      fs.writeFileSync(filePath, 'edited while processing');
+      return { success: true };
+    }
+  });
+  const stored = JSON.parse(fs.readFileSync(path.join(outputDir, 'a_extraction_result.json'), 'utf8'));
+  assert.equal(stored.sourceHash, queuedHash);
+
+  // The edited file was never processed, so the next run processes it
+  const rerun = await runBatch([file], { outputDir, run: succeed });
+  assert.deepEqual([rerun.completed, rerun.skipped], [1, 0]);
+});
+
+test('a file whose result cannot be written ends failed and the batch goes on', async () => {
+  const { files, outputDir } = batchDir({ 'a.pdf': 'one', 'b.pdf': 'two' });
+  // A directory where the result file should go makes the write throw
+  fs.mkdirSync(path.join(outputDir, 'a_extraction_result.json'), { recursive: true });
+  const summary = await runBatch(files, { outputDir, run: succeed });
+  const [a, b] = summary.results;
+  assert.equal(a.status, 'failed');
+  assert.equal(a.errorCode, 'PROCESSING_FAILED');
+  assert.ok(a.completedAt);
+  assert.equal(b.status, 'completed');
+  const manifest = JSON.parse(fs.readFileSync(summary.manifestPath, 'utf8'));
+  assert.equal(manifest.entries[files[0]].status, 'failed');
+});
+
+test('transient failures are retried; completed files are skipped and copies marked duplicates', async () => {
+  const { files, outputDir } = batchDir({ 'a.pdf': 'same', 'a (1).pdf': 'same' });
+  let calls = 0;
+  const summary = await runBatch(files, {
+    outputDir,
+    retryDelayMs: 0,
+    run: async () => {
+      if (++calls === 1) throw new RateLimitError('slow down');
+      return succeed();
+    }
+  });
+  assert.deepEqual(summary.results.map(entry => entry.status), ['completed', 'duplicate']);
+  assert.equal(summary.results[0].attempts, 2);
+  assert.equal(summary.results[1].duplicateOf, files[0]);
+
+  const rerun = await runBatch(files, { outputDir, run: succeed });
+  assert.deepEqual([rerun.completed, rerun.skipped, rerun.duplicates], [0, 1, 1]);
+});
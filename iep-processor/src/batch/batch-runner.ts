@@ -0,0 +1,444 @@
+/**
+ * Resumable Batch Processing
+ *
+ * Runs processIEP over many documents with bounded concurrency and keeps a
+ * manifest on disk (batch_manifest.json in the output directory) with every
+ * file's status, attempts, cost and output path. The manifest is rewritten
+ * after each change, so a crashed or cancelled batch resumes where it
+ * stopped when run again with the same output directory.
+ *
+ * Features:
+ * - Bounded concurrency (default 1)
+ * - Retries files that failed with a transient error (rate limit, timeout,
+ *   unavailable) up to maxAttempts per run, with a delay between attempts
+ * - Files are identified by content hash: completed files are skipped on
+ *   re-runs (when their result file still holds that content's result),
+ *   edited files are processed again, and copies of a file
+ *   (e.g. "name (1).pdf") are not processed but recorded as duplicates of it
+ * - A file that cannot be read fails with READ_FAILED; the rest of the batch runs
+ * - A file whose processing or result writing throws ends failed, never running
+ * - Cancellation through an AbortSignal: no new files start, running files
+ *   finish and are recorded, the rest stay pending for the next run
+ * - Batch budget (processing.budget.maxBatchUsd or env IEP_MAX_BATCH_USD):
+ *   files that no longer fit fail with BUDGET_EXCEEDED and are retried on
+ *   the next run
+ * - One result JSON (and validation report) per file plus batch_summary.json;
+ *   result names are reserved when the run is planned, so same-named files
+ *   (a/x.pdf, b/x.pdf, x.docx) never write the same result, even concurrently
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { setTimeout as delay } from 'timers/promises';
+import { ProcessingErrorCode, ProcessingOptions, ProcessingResult, processIEP, toProcessingError } from '../main';
+import { hashFile } from '../utils/hash';
+import { createBatchBudget } from '../budget/budget-guard';
+import { logger } from '../logging/logger';
+
+export type ManifestStatus = 'pending' | 'running' | 'completed' | 'failed' | 'duplicate';
+
+/**
+ * One document of a batch
+ */
+export interface ManifestEntry {
+  /** Path of the document as given */
+  file: string;
+  /** SHA-256 of the document's bytes */
+  hash: string;
+  status: ManifestStatus;
+  /** Processing attempts over all runs */
+  attempts: number;
+  /** Cost of every attempt, in USD */
+  cost: number;
+  /** Result JSON (for duplicates: the result of the original) */
+  output?: string;
+  /** Validation outcome of the completed result */
+  valid?: boolean;
+  form?: string;
+  /** Error of the last failed attempt */
+  error?: string;
+  errorCode?: ProcessingErrorCode;
+  /** File with the same content whose result this entry shares */
+  duplicateOf?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Persistent state of a batch
+ */
+export interface BatchManifest {
+  version: 1;
+  createdAt: string;
+  updatedAt: string;
+  outputDir: string;
+  /** Keyed by document path */
+  entries: Record<string, ManifestEntry>;
+}
+
+/**
+ * Outcome of one batch run
+ */
+export interface BatchSummary {
+  startedAt: string;
+  finishedAt: string;
+  /** The run was cancelled before every file was processed */
+  cancelled: boolean;
+  files: number;
+  /** Processed successfully in this run */
+  completed: number;
+  /** Already completed in an earlier run with the same content */
+  skipped: number;
+  duplicates: number;
+  failed: number;
+  /** Not started because the run was cancelled */
+  pending: number;
+  /** Completed with validation errors */
+  invalid: number;
+  /** Cost of this run's attempts, in USD */
+  runCost: number;
+  /** Cost of every attempt recorded in the manifest, in USD */
+  totalCost: number;
+  manifestPath: string;
+  results: ManifestEntry[];
+}
+
+/**
+ * Batch settings
+ */
+export interface BatchRunOptions {
+  /** Where results, the manifest and the summary are written */
+  outputDir: string;
+  /** Options passed to every processIEP call */
+  processing?: ProcessingOptions;
+  /** Files processed at once (default: 1) */
+  concurrency?: number;
+  /** Attempts per file in one run (default: 2) */
+  maxAttempts?: number;
+  /** Wait between attempts of a file, in ms (default: 2000) */
+  retryDelayMs?: number;
+  /** Stops starting new files when aborted */
+  signal?: AbortSignal;
+  /** Processes one file (default: processIEP) */
+  run?: (filePath: string, options: ProcessingOptions) => Promise<ProcessingResult>;
+}
+
+export const MANIFEST_FILE = 'batch_manifest.json';
+export const SUMMARY_FILE = 'batch_summary.json';
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+/**
+ * Process documents, resuming from the manifest in the output directory
+ *
+ * @param files - Document paths
+ * @param options - Output directory, processing options, concurrency, retries and cancellation
+ * @returns Summary of the run (also written to batch_summary.json)
+ */
+export async function runBatch(files: string[], options: BatchRunOptions): Promise<BatchSummary> {
+  const startedAt = new Date().toISOString();
+  const concurrency = Math.max(1, options.concurrency || 1);
+  const maxAttempts = Math.max(1, options.maxAttempts || DEFAULT_MAX_ATTEMPTS);
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const run = options.run || processIEP;
+  const processing: ProcessingOptions = {
+    ...options.processing,
+    budget: { ...options.processing?.budget, batch: createBatchBudget(options.processing?.budget) }
+  };
+
+  fs.mkdirSync(options.outputDir, { recursive: true });
+  const manifestPath = path.join(options.outputDir, MANIFEST_FILE);
+  const manifest: BatchManifest = loadManifest(manifestPath) || {
+    version: 1,
+    createdAt: startedAt,
+    updatedAt: startedAt,
+    outputDir: options.outputDir,
+    entries: {}
+  };
+  const save = () => saveManifest(manifestPath, manifest);
+
+  // Decide what this run has to do
+  const queue: ManifestEntry[] = [];
+  const copies = new Map<string, ManifestEntry[]>();
+  let skipped = 0;
+  for (const file of files) {
+    const previous = manifest.entries[file];
+    let hash: string;
+    try {
+      hash = hashFile(file);
+    } catch (error) {
+      const message = `Cannot read "${file}": ${error instanceof Error ? error.message : error}`;
+      manifest.entries[file] = {
+        ...(previous || { file, hash: '', attempts: 0, cost: 0 }),
+        status: 'failed',
+        output: undefined,
+        duplicateOf: undefined,
+        error: message,
+        errorCode: 'READ_FAILED',
+        completedAt: new Date().toISOString()
+      };
+      logger.warn('File skipped', { file, code: 'READ_FAILED', error: message });
+      continue;
+    }
+
+    if (previous?.hash === hash && previous.status === 'completed' && holdsResultOf(previous.output, hash, file)) {
+      skipped++;
+      continue;
+    }
+
+    // A former duplicate gets a result of its own, not its original's
+    const entry: ManifestEntry = previous?.hash === hash
+      ? { ...previous, status: 'pending', duplicateOf: undefined, output: previous.duplicateOf === undefined ? previous.output : undefined }
+      : { file, hash, status: 'pending', attempts: 0, cost: 0 };
+    manifest.entries[file] = entry;
+
+    const original = Object.values(manifest.entries).find(candidate =>
+      candidate !== entry && candidate.hash === hash && candidate.status === 'completed' && holdsResultOf(candidate.output, hash, candidate.file));
+    const queued = queue.find(candidate => candidate.hash === hash);
+    if (original) {
+      markDuplicate(entry, original);
+    } else if (queued) {
+      copies.set(hash, [...(copies.get(hash) || []), entry]);
+    } else {
+      queue.push(entry);
+    }
+  }
+  const names = reserveResultNames(queue, manifest, options.outputDir);
+  save();
+
+  logger.info('Batch started', { files: files.length, queued: queue.length, skipped, concurrency });
+
+  let runCost = 0;
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < queue.length && !options.signal?.aborted) {
+      const entry = queue[next++];
+      await processEntry(entry);
+      (copies.get(entry.hash) || []).forEach(copy => markDuplicate(copy, entry));
+      save();
+    }
+  };
+
+  const processEntry = async (entry: ManifestEntry): Promise<void> => {
+    entry.status = 'running';
+    entry.startedAt = new Date().toISOString();
+    save();
+
+    try {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        entry.attempts++;
+        logger.info(`Processing attempt ${attempt}/${maxAttempts}`, { file: entry.file });
+
+        let result: ProcessingResult;
+        try {
+          result = await run(entry.file, processing);
+        } catch (error) {
+          result = { success: false, error: toProcessingError(error) };
+        }
+        const cost = result.usage?.cost_usd || 0;
+        entry.cost += cost;
+        runCost += cost;
+
+        if (result.success) {
+          // The hash taken when the file was queued: the file may have changed since
+          entry.output = writeResult(entry.file, entry.hash, result, options.outputDir, names.get(entry));
+          entry.status = 'completed';
+          entry.valid = result.validation?.valid;
+          entry.form = result.form?.id;
+          entry.error = undefined;
+          entry.errorCode = undefined;
+          entry.completedAt = new Date().toISOString();
+          return;
+        }
+
+        entry.error = result.error?.message;
+        entry.errorCode = result.error?.code;
+        logger.warn(`Attempt ${attempt} failed`, { file: entry.file, correlationId: result.correlationId, code: entry.errorCode, error: entry.error });
+        if (attempt === maxAttempts || !result.error?.transient || options.signal?.aborted) {
+          break;
+        }
+        try {
+          await delay(retryDelayMs, undefined, { signal: options.signal });
+        } catch {
+          break;
+        }
+      }
+    } catch (error) {
+      const failure = toProcessingError(error);
+      entry.error = failure.message;
+      entry.errorCode = failure.code;
+      logger.error('File failed', { file: entry.file, code: failure.code, error: failure.message });
+    } finally {
+      if (entry.status === 'running') {
+        entry.status = 'failed';
+        entry.completedAt = new Date().toISOString();
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+  const cancelled = Boolean(options.signal?.aborted) && queue.some(entry => entry.status === 'pending');
+  if (cancelled) {
+    logger.warn('Batch cancelled; run again with the same output directory to resume');
+  }
+
+  const results = files.map(file => manifest.entries[file]);
+  const count = (status: ManifestStatus) => results.filter(entry => entry.status === status).length;
+  const summary: BatchSummary = {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    cancelled,
+    files: files.length,
+    completed: queue.filter(entry => entry.status === 'completed').length,
+    skipped,
+    duplicates: count('duplicate'),
+    failed: count('failed'),
+    pending: count('pending'),
+    invalid: results.filter(entry => entry.status === 'completed' && entry.valid === false).length,
+    runCost,
+    totalCost: results.reduce((sum, entry) => sum + entry.cost, 0),
+    manifestPath,
+    results
+  };
+  fs.writeFileSync(path.join(options.outputDir, SUMMARY_FILE), JSON.stringify(summary, null, 2));
+
+  logger.info('Batch finished', {
+    completed: summary.completed,
+    skipped,
+    duplicates: summary.duplicates,
+    failed: summary.failed,
+    pending: summary.pending,
+    costUsd: Number(runCost.toFixed(6))
+  });
+  return summary;
+}
+
+/**
+ * Read a batch manifest
+ *
+ * @param manifestPath - Path of batch_manifest.json
+ * @returns The manifest, or undefined when there is none yet
+ */
+export function loadManifest(manifestPath: string): BatchManifest | undefined {
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+  let manifest: BatchManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Batch manifest ${manifestPath} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  if (manifest?.version !== 1 || typeof manifest.entries !== 'object' || manifest.entries === null) {
+    throw new Error(`Batch manifest ${manifestPath} has an unknown format`);
+  }
+
+  // Files that were running when the previous run stopped start over
+  for (const entry of Object.values(manifest.entries)) {
+    if (entry.status === 'running') {
+      entry.status = 'pending';
+    }
+  }
+  return manifest;
+}
+
+/**
+ * Write the manifest through a temporary file so a crash never leaves it half-written
+ */
+function saveManifest(manifestPath: string, manifest: BatchManifest): void {
+  manifest.updatedAt = new Date().toISOString();
+  const temporary = `${manifestPath}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(manifest, null, 2));
+  fs.renameSync(temporary, manifestPath);
+}
+
+/**
+ * Whether a result file exists and was written for a document with this content
+ *
+ * Results written before sourceHash was recorded are matched by source file name.
+ */
+function holdsResultOf(output: string | undefined, hash: string, file: string): boolean {
+  if (!output || !fs.existsSync(output)) {
+    return false;
+  }
+  try {
+    const stored = JSON.parse(fs.readFileSync(output, 'utf8')) as { sourceFile?: string; sourceHash?: string };
+    return stored.sourceHash !== undefined ? stored.sourceHash === hash : stored.sourceFile === path.basename(file);
+  } catch {
+    return false;
+  }
+}
+
+function markDuplicate(entry: ManifestEntry, original: ManifestEntry): void {
+  entry.status = 'duplicate';
+  entry.duplicateOf = original.file;
+  entry.output = original.output;
+  entry.valid = original.valid;
+  entry.form = original.form;
+  entry.error = original.error;
+  entry.errorCode = original.errorCode;
+}
+
+/**
+ * Choose the result file name of every queued document before any is processed
+ *
+ * A document keeps the name of its earlier result; otherwise it gets its
+ * base name, then its file name with the extension, then that plus its
+ * content hash, whichever no other document of the batch holds.
+ *
+ * @returns Name prefix per queued entry
+ */
+function reserveResultNames(queue: ManifestEntry[], manifest: BatchManifest, outputDir: string): Map<ManifestEntry, string> {
+  const queued = new Set(queue);
+  const taken = new Set(Object.values(manifest.entries)
+    .filter(entry => !queued.has(entry) && entry.duplicateOf === undefined && entry.output)
+    .map(entry => path.resolve(entry.output as string)));
+  const isFree = (name: string) => !taken.has(path.resolve(outputDir, `${name}_extraction_result.json`));
+
+  const names = new Map<ManifestEntry, string>();
+  // Documents with an earlier result claim their names first
+  for (const entry of [...queue.filter(entry => entry.output), ...queue.filter(entry => !entry.output)]) {
+    const fileName = path.basename(entry.file).replace(/\./g, '_');
+    const candidates = [
+      entry.output ? path.basename(entry.output).replace(/_extraction_result\.json$/, '') : undefined,
+      path.basename(entry.file, path.extname(entry.file)),
+      fileName,
+      `${fileName}_${entry.hash.substring(0, 8)}`
+    ].filter((name): name is string => Boolean(name));
+    let name = candidates.find(isFree);
+    for (let suffix = 2; !name; suffix++) {
+      name = isFree(`${candidates[candidates.length - 1]}_${suffix}`) ? `${candidates[candidates.length - 1]}_${suffix}` : undefined;
+    }
+    taken.add(path.resolve(outputDir, `${name}_extraction_result.json`));
+    names.set(entry, name);
+  }
+  return names;
+}
+
+/**
+ * Write a document's result (<name>_extraction_result.json) and validation report
+ *
+ * @param file - Document the result is for
+ * @param sourceHash - SHA-256 of the document as it was processed (hashed before processing, not after)
+ * @param result - Its ProcessingResult
+ * @param outputDir - Destination directory
+ * @param name - File name prefix (default: the document's base name)
+ * @returns Path of the result JSON
+ */
+export function writeResult(
+  file: string,
+  sourceHash: string,
+  result: ProcessingResult,
+  outputDir: string,
+  name: string = path.basename(file, path.extname(file))
+): string {
+  fs.mkdirSync(outputDir, { recursive: true });
+  const output = path.join(outputDir, `${name}_extraction_result.json`);
+  fs.writeFileSync(output, JSON.stringify({ sourceFile: path.basename(file), sourceHash, timestamp: new Date().toISOString(), ...result }, null, 2));
+  if (result.report) {
+    fs.writeFileSync(path.join(outputDir, `${name}_validation_report.txt`), result.report);
+  }
+  return output;
+}
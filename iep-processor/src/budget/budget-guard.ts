@@ -0,0 +1,175 @@
+/**
+ * Budget Guardrails
+ *
+ * Refuses an extraction before any model call when its pre-flight estimate
+ * would exceed a spending cap. Caps come from the budget options or the
+ * environment:
+ * - per run (one document): maxRunUsd / IEP_MAX_RUN_USD
+ * - per batch: maxBatchUsd / IEP_MAX_BATCH_USD
+ * - per UTC day, across runs: maxDailyUsd / IEP_MAX_DAILY_USD (checked against the spend ledger)
+ *
+ * Documents processed at the same time reserve their estimate until they
+ * finish, so concurrent workers cannot overshoot a batch or daily cap
+ * together. Finished documents count with their actual cost.
+ */
+
+import * as path from 'path';
+import { CostEstimate } from './cost-estimate';
+import { ledgerFileFromEnv, spentOnDay, utcDay } from './spend-ledger';
+
+/**
+ * Spending caps in USD
+ */
+export interface BudgetOptions {
+  /** Cap per document (default: env IEP_MAX_RUN_USD) */
+  maxRunUsd?: number;
+  /** Cap per batch (default: env IEP_MAX_BATCH_USD) */
+  maxBatchUsd?: number;
+  /** Cap per UTC day, including earlier runs in the ledger (default: env IEP_MAX_DAILY_USD) */
+  maxDailyUsd?: number;
+  /** Spend ledger (default: env IEP_LEDGER_FILE or ./output/spend-ledger.jsonl) */
+  ledgerFile?: string;
+  /** Spend of the batch the document belongs to (set by processBatchIEPs and runBatch) */
+  batch?: BatchBudget;
+}
+
+/**
+ * Running spend of one batch, shared by its documents
+ */
+export interface BatchBudget {
+  limitUsd?: number;
+  spentUsd: number;
+  /** Estimates of documents still in progress */
+  reservedUsd: number;
+}
+
+/**
+ * An estimate held against the caps while its document is processed
+ */
+export interface BudgetReservation {
+  estimatedUsd: number;
+  /** Release the estimate and count the actual cost instead */
+  settle(costUsd: number): void;
+}
+
+/**
+ * Budget refusal with a machine-readable code
+ * - BUDGET_EXCEEDED: the estimate does not fit a cap
+ * - PRICING_UNKNOWN: a cap is set but the model has no price to estimate with
+ */
+export class BudgetError extends Error {
+  constructor(
+    public readonly code: 'BUDGET_EXCEEDED' | 'PRICING_UNKNOWN',
+    message: string
+  ) {
+    super(message);
+    this.name = 'BudgetError';
+  }
+}
+
+// Reserved estimates per ledger file and UTC day, for the daily cap
+const reservedToday = new Map<string, number>();
+
+/**
+ * Fill unset caps and the ledger file from the environment
+ *
+ * @throws Error - a cap that is not a positive number
+ */
+export function resolveBudget(options: BudgetOptions = {}): BudgetOptions {
+  return {
+    ...options,
+    maxRunUsd: checkCap('maxRunUsd', options.maxRunUsd ?? envCap('IEP_MAX_RUN_USD')),
+    maxBatchUsd: checkCap('maxBatchUsd', options.maxBatchUsd ?? envCap('IEP_MAX_BATCH_USD')),
+    maxDailyUsd: checkCap('maxDailyUsd', options.maxDailyUsd ?? envCap('IEP_MAX_DAILY_USD')),
+    ledgerFile: options.ledgerFile || ledgerFileFromEnv()
+  };
+}
+
+/**
+ * Start the shared spend of a batch
+ *
+ * @param options - Budget options of the batch (the cap defaults to env IEP_MAX_BATCH_USD)
+ */
+export function createBatchBudget(options: BudgetOptions = {}): BatchBudget {
+  return { limitUsd: resolveBudget(options).maxBatchUsd, spentUsd: 0, reservedUsd: 0 };
+}
+
+/**
+ * Whether any cap applies
+ */
+export function hasBudgetCaps(options: BudgetOptions): boolean {
+  return options.maxRunUsd !== undefined || options.maxDailyUsd !== undefined || options.batch?.limitUsd !== undefined;
+}
+
+/**
+ * Check an estimate against every cap and hold it until the document finishes
+ *
+ * @param estimate - Pre-flight estimate of the document
+ * @param options - Resolved budget options (see resolveBudget)
+ * @throws BudgetError
+ */
+export function reserveBudget(estimate: CostEstimate, options: BudgetOptions): BudgetReservation {
+  const batch = options.batch;
+  if (hasBudgetCaps(options) && !estimate.priced) {
+    throw new BudgetError('PRICING_UNKNOWN', `No pricing for model ${estimate.model}, so its cost cannot be checked against the budget; add it to the pricing file`);
+  }
+
+  const cost = estimate.costUsd;
+  if (options.maxRunUsd !== undefined && cost > options.maxRunUsd) {
+    throw new BudgetError('BUDGET_EXCEEDED', `Estimated cost ${usd(cost)} exceeds the per-run budget of ${usd(options.maxRunUsd)}`);
+  }
+  if (batch?.limitUsd !== undefined && batch.spentUsd + batch.reservedUsd + cost > batch.limitUsd) {
+    throw new BudgetError('BUDGET_EXCEEDED', `Estimated cost ${usd(cost)} on top of ${usd(batch.spentUsd + batch.reservedUsd)} spent or in progress exceeds the batch budget of ${usd(batch.limitUsd)}`);
+  }
+
+  const dayKey = `${path.resolve(options.ledgerFile || ledgerFileFromEnv())}#${utcDay()}`;
+  if (options.maxDailyUsd !== undefined) {
+    const spent = spentOnDay(options.ledgerFile || ledgerFileFromEnv()) + (reservedToday.get(dayKey) || 0);
+    if (spent + cost > options.maxDailyUsd) {
+      throw new BudgetError('BUDGET_EXCEEDED', `Estimated cost ${usd(cost)} on top of ${usd(spent)} spent today exceeds the daily budget of ${usd(options.maxDailyUsd)}`);
+    }
+  }
+
+  if (batch) batch.reservedUsd += cost;
+  reservedToday.set(dayKey, (reservedToday.get(dayKey) || 0) + cost);
+
+  let settled = false;
+  return {
+    estimatedUsd: cost,
+    settle(costUsd: number): void {
+      if (settled) return;
+      settled = true;
+      if (batch) {
+        batch.reservedUsd -= cost;
+        batch.spentUsd += costUsd;
+      }
+      const remaining = (reservedToday.get(dayKey) || 0) - cost;
+      if (remaining > 0) {
+        reservedToday.set(dayKey, remaining);
+      } else {
+        reservedToday.delete(dayKey);
+      }
+    }
+  };
+}
+
+function envCap(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return undefined;
+  const cap = Number(value);
+  if (!Number.isFinite(cap) || cap <= 0) {
+    throw new Error(`${name} must be a positive amount in USD, got "${value}"`);
+  }
+  return cap;
+}
+
+function checkCap(name: string, cap: number | undefined): number | undefined {
+  if (cap !== undefined && (!Number.isFinite(cap) || cap <= 0)) {
+    throw new Error(`Budget ${name} must be a positive amount in USD, got ${cap}`);
+  }
+  return cap;
+}
+
+function usd(amount: number): string {
+  return `$${amount.toFixed(4)}`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Pre-flight Cost Estimate
+ *
+ * Forecasts what an extraction will cost before any model call, from the
+ * document's page count (or text length), the prompt and schema size, the
+ * number of model calls and the reasoning effort. The token figures are
+ * rough and err on the high side, so a budget check against them refuses
+ * work rather than overspending.
+ *
+ * Features:
+ * - Uploaded PDFs are counted per page (page image plus extracted text)
+ * - DOCX has no pages, so its page count is estimated from its text length
+ * - Text input is counted from its length (about 4 characters per token)
+ * - Output scales with page count; reasoning with output and effort
+ * - Unpriced models are flagged instead of estimated at $0
+ */
+
+import { DocumentFormat, DocumentInputMode } from '../ingestion/document-loader';
+import { ReasoningEffort } from '../providers/types';
+import { PricingTable, calculateCost, findModelPricing, getPricingTable } from '../providers/pricing';
+
+/**
+ * What is sent to the model
+ */
+export interface CostEstimateInput {
+  model: string;
+  pageCount: number;
+  /** Document format (a DOCX is always loaded as one page) */
+  format?: DocumentFormat;
+  /** Length of the text layer (text and file+text input; default: estimated from pageCount) */
+  characterCount?: number;
+  inputMode: DocumentInputMode;
+  /** Length of the prompt plus the JSON schema */
+  promptCharacters: number;
+  reasoningEffort: ReasoningEffort;
+  /** Model calls that each send the whole document (default: 1) */
+  calls?: number;
+  /** Complete extraction outputs across those calls (default: 1) */
+  outputs?: number;
+}
+
+/**
+ * Forecast cost of an extraction
+ */
+export interface CostEstimate {
+  model: string;
+  pageCount: number;
+  calls: number;
+  inputTokens: number;
+  /** Output tokens, including reasoning tokens */
+  outputTokens: number;
+  reasoningTokens: number;
+  costUsd: number;
+  /** False when the model has no price, so costUsd is meaningless */
+  priced: boolean;
+  /** costUsd per model, when the estimate covers several (see combineEstimates) */
+  byModel?: Record<string, number>;
+}
+
+const CHARS_PER_TOKEN = 4;
+// An uploaded PDF page is sent as an image plus its extracted text
+const FILE_TOKENS_PER_PAGE = 1_500;
+const TEXT_TOKENS_PER_PAGE = 700;
+const OUTPUT_TOKENS_PER_PAGE = 400;
+// Text of one printed page, for documents without pagination
+const CHARS_PER_DOCX_PAGE = 3_000;
+const MIN_OUTPUT_TOKENS = 2_000;
+// Reasoning tokens per output token
+const REASONING_FACTOR: Record<ReasoningEffort, number> = { low: 0.5, medium: 1.5, high: 3 };
+
+/**
+ * Estimate the tokens and cost of an extraction
+ *
+ * @param input - Model, document size, prompt size and call counts
+ * @param table - Pricing table (default: the one in effect)
+ * @returns CostEstimate
+ */
+export function estimateCost(input: CostEstimateInput, table: PricingTable = getPricingTable()): CostEstimate {
+  const calls = input.calls ?? 1;
+  const outputs = input.outputs ?? 1;
+  const pricing = findModelPricing(input.model, table);
+  const pageCount = input.format === 'docx' && input.characterCount !== undefined
+    ? Math.max(1, Math.ceil(input.characterCount / CHARS_PER_DOCX_PAGE))
+    : input.pageCount;
+
+  const textTokens = input.characterCount !== undefined
+    ? Math.ceil(input.characterCount / CHARS_PER_TOKEN)
+    : pageCount * TEXT_TOKENS_PER_PAGE;
+  const documentTokens = input.inputMode === 'text'
+    ? textTokens
+    : pageCount * FILE_TOKENS_PER_PAGE + (input.inputMode === 'file+text' ? textTokens : 0);
+  const inputTokens = calls * (documentTokens + Math.ceil(input.promptCharacters / CHARS_PER_TOKEN));
+
+  const answerTokens = outputs * Math.max(MIN_OUTPUT_TOKENS, pageCount * OUTPUT_TOKENS_PER_PAGE);
+  const reasoningTokens = pricing?.reasoning === 0 ? 0 : Math.ceil(answerTokens * REASONING_FACTOR[input.reasoningEffort]);
+  const outputTokens = answerTokens + reasoningTokens;
+
+  return {
+    model: input.model,
+    pageCount,
+    calls,
+    inputTokens,
+    outputTokens,
+    reasoningTokens,
+    costUsd: pricing ? calculateCost(input.model, { input: inputTokens, output: outputTokens, reasoning: reasoningTokens }, table) : 0,
+    priced: pricing !== undefined
+  };
+}
+
+/**
+ * Add up estimates of several extractions (e.g. comparison runs on other models)
+ */
+export function combineEstimates(estimates: CostEstimate[]): CostEstimate {
+  const byModel: Record<string, number> = {};
+  for (const estimate of estimates) {
+    for (const [model, costUsd] of Object.entries(estimate.byModel || { [estimate.model]: estimate.costUsd })) {
+      byModel[model] = (byModel[model] || 0) + costUsd;
+    }
+  }
+  const combined = estimates.reduce((total, estimate) => ({
+    model: total.model,
+    pageCount: total.pageCount,
+    calls: total.calls + estimate.calls,
+    inputTokens: total.inputTokens + estimate.inputTokens,
+    outputTokens: total.outputTokens + estimate.outputTokens,
+    reasoningTokens: total.reasoningTokens + estimate.reasoningTokens,
+    costUsd: total.costUsd + estimate.costUsd,
+    priced: total.priced && estimate.priced
+  }));
+  return { ...combined, byModel };
+}
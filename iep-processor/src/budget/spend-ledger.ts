@@ -0,0 +1,144 @@
+/**
+ * Spend Ledger
+ *
+ * Append-only record of what every processed document cost, one JSON line
+ * per document (default ./output/spend-ledger.jsonl, env IEP_LEDGER_FILE).
+ * The daily budget cap is checked against it, so spend is counted across
+ * separate runs and processes.
+ *
+ * Features:
+ * - Cost, tokens, model and document (name and content hash) per entry
+ * - Spend summary by model, by document and by UTC day
+ * - Unreadable lines are skipped, so a torn last write never breaks the ledger
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Spend of one processed document
+ */
+export interface LedgerEntry {
+  timestamp: string;
+  /** UTC day (YYYY-MM-DD) the spend counts toward */
+  day: string;
+  /** Document file name */
+  document: string;
+  /** SHA-256 of the document's bytes */
+  documentHash: string;
+  provider: string;
+  model: string;
+  costUsd: number;
+  /** Pre-flight estimate the budget check used */
+  estimatedUsd?: number;
+  /** False when the model has no price and costUsd is 0 for that reason */
+  priced: boolean;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+}
+
+/**
+ * Spend per model, document or day
+ */
+export interface SpendTotals {
+  costUsd: number;
+  /** Ledger entries (documents processed) */
+  count: number;
+}
+
+/**
+ * Ledger totals
+ */
+export interface SpendSummary {
+  costUsd: number;
+  entries: number;
+  /** Entries of models without a price */
+  unpriced: number;
+  byModel: Record<string, SpendTotals>;
+  byDocument: Record<string, SpendTotals>;
+  byDay: Record<string, SpendTotals>;
+}
+
+export const DEFAULT_LEDGER_FILE = './output/spend-ledger.jsonl';
+
+/**
+ * Ledger file in effect (env IEP_LEDGER_FILE or ./output/spend-ledger.jsonl)
+ */
+export function ledgerFileFromEnv(): string {
+  return process.env.IEP_LEDGER_FILE || DEFAULT_LEDGER_FILE;
+}
+
+/**
+ * UTC day of a date, as YYYY-MM-DD
+ */
+export function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Append an entry to the ledger (creating it and its directory)
+ */
+export function appendLedgerEntry(ledgerFile: string, entry: LedgerEntry): void {
+  fs.mkdirSync(path.dirname(ledgerFile), { recursive: true });
+  fs.appendFileSync(ledgerFile, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Read every entry of a ledger
+ *
+ * @returns Entries in the order they were written (none when the file does not exist)
+ */
+export function readLedger(ledgerFile: string): LedgerEntry[] {
+  if (!fs.existsSync(ledgerFile)) {
+    return [];
+  }
+  const entries: LedgerEntry[] = [];
+  for (const line of fs.readFileSync(ledgerFile, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line);
+      if (typeof entry?.costUsd === 'number' && typeof entry.day === 'string') {
+        entries.push(entry);
+      }
+    } catch {
+      // A line cut short by a crash mid-write
+    }
+  }
+  return entries;
+}
+
+/**
+ * Spend recorded for one UTC day
+ */
+export function spentOnDay(ledgerFile: string, day: string = utcDay()): number {
+  return readLedger(ledgerFile)
+    .filter(entry => entry.day === day)
+    .reduce((sum, entry) => sum + entry.costUsd, 0);
+}
+
+/**
+ * Total ledger entries by model, document and day
+ *
+ * @param entries - Ledger entries
+ * @param range - First and last UTC day to include (YYYY-MM-DD, inclusive)
+ */
+export function summarizeSpend(entries: LedgerEntry[], range: { since?: string; until?: string } = {}): SpendSummary {
+  const summary: SpendSummary = { costUsd: 0, entries: 0, unpriced: 0, byModel: {}, byDocument: {}, byDay: {} };
+  const add = (totals: Record<string, SpendTotals>, key: string, costUsd: number) => {
+    const current = totals[key] || (totals[key] = { costUsd: 0, count: 0 });
+    current.costUsd += costUsd;
+    current.count++;
+  };
+
+  for (const entry of entries) {
+    if ((range.since && entry.day < range.since) || (range.until && entry.day > range.until)) continue;
+    summary.costUsd += entry.costUsd;
+    summary.entries++;
+    if (!entry.priced) summary.unpriced++;
+    add(summary.byModel, entry.model, entry.costUsd);
+    add(summary.byDocument, entry.document, entry.costUsd);
+    add(summary.byDay, entry.day, entry.costUsd);
+  }
+  return summary;
+}
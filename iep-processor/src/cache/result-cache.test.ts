@@ -0,0 +1,84 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheKeyParts, cacheKey, cacheStats, readCachedResult, resolveCacheOptions, writeCachedResult } from './result-cache';
+
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'iep-cache-'));
+after(() => fs.rmSync(scratchDir, { recursive: true, force: true }));
+
+const PARTS: CacheKeyParts = {
+  documentHash: 'a'.repeat(64),
+  provider: 'openai',
+  model: 'gpt-5-2025-08-07',
+  reasoningEffort: 'medium',
+  promptHash: 'b'.repeat(64),
+  schema: 'iep-form@2.0.0',
+  form: 'iep',
+  options: { strategy: 'single-shot' }
+};
+
+let caches = 0;
+const options = (overrides: { maxBytes?: number; maxAgeDays?: number } = {}) =>
+  ({ dir: path.join(scratchDir, `cache-${++caches}`), maxBytes: 1024 * 1024, maxAgeDays: 30, ...overrides });
+
+test('a stored result is read back under the same key only', () => {
+  const cache = options();
+  const key = cacheKey(PARTS);
+  assert.equal(writeCachedResult(key, PARTS, { success: true, model: 'gpt-5-2025-08-07' }, cache), true);
+  assert.equal(readCachedResult(key, cache)?.result.model, 'gpt-5-2025-08-07');
+  assert.notEqual(cacheKey({ ...PARTS, reasoningEffort: 'high' }), key);
+  assert.notEqual(cacheKey({ ...PARTS, options: { strategy: 'hybrid' } }), key);
+  assert.equal(readCachedResult(cacheKey({ ...PARTS, model: 'other' }), cache), undefined);
+});
+
+test('failed results are not stored and stale entries are deleted', () => {
+  const cache = options();
+  assert.equal(writeCachedResult(cacheKey(PARTS), PARTS, { success: false }, cache), false);
+  assert.equal(cacheStats(cache).entries, 0);
+
+  writeCachedResult(cacheKey(PARTS), PARTS, { success: true }, cache);
+  const file = path.join(cache.dir, `${cacheKey(PARTS)}.json`);
+  const entry = JSON.parse(fs.readFileSync(file, 'utf8'));
+  fs.writeFileSync(file, JSON.stringify({ ...entry, createdAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString() }));
+  assert.equal(readCachedResult(cacheKey(PARTS), cache), undefined);
+  assert.equal(cacheStats(cache).entries, 0);
+});
+
+test('the least recently used entries go first when the cache is full', () => {
+  const probe = options();
+  writeCachedResult(cacheKey(PARTS), PARTS, { success: true }, probe);
+  const entryBytes = cacheStats(probe).bytes;
+
+  const cache = options({ maxBytes: entryBytes * 2 + entryBytes / 2 });
+  const keys = ['one', 'two', 'three'].map(model => ({ key: cacheKey({ ...PARTS, model }), parts: { ...PARTS, model } }));
+  const write = (index: number) => writeCachedResult(keys[index].key, keys[index].parts, { success: true }, cache);
+  write(0);
+  write(1);
+  // A hit makes the first entry the most recently used
+  const past = new Date(Date.now() - 60_000);
+  fs.utimesSync(path.join(cache.dir, `${keys[1].key}.json`), past, past);
+  readCachedResult(keys[0].key, cache);
+  write(2);
+  assert.deepEqual(keys.map(({ key }) => fs.existsSync(path.join(cache.dir, `${key}.json`))), [true, false, true]);
+});
+
+test('IEP_CACHE=off disables the cache; the other variables fill unset options', () => {
+  const saved = { ...process.env };
+  try {
+    process.env.IEP_CACHE = 'off';
+    assert.equal(resolveCacheOptions(), undefined);
+    delete process.env.IEP_CACHE;
+    process.env.IEP_CACHE_DIR = path.join(scratchDir, 'from-env');
+    process.env.IEP_CACHE_MAX_MB = '2';
+    process.env.IEP_CACHE_MAX_AGE_DAYS = '7';
+    assert.deepEqual(resolveCacheOptions({ maxAgeDays: 1 }), { dir: path.join(scratchDir, 'from-env'), maxBytes: 2 * 1024 * 1024, maxAgeDays: 1 });
+    process.env.IEP_CACHE_MAX_MB = '-1';
+    assert.throws(() => resolveCacheOptions(), /IEP_CACHE_MAX_MB must be a positive number/);
+  } finally {
+    for (const name of ['IEP_CACHE', 'IEP_CACHE_DIR', 'IEP_CACHE_MAX_MB', 'IEP_CACHE_MAX_AGE_DAYS']) {
+      if (saved[name] === undefined) delete process.env[name]; else process.env[name] = saved[name];
+    }
+  }
+});
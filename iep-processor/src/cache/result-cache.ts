@@ -0,0 +1,261 @@
+/**
+ * Result Cache
+ *
+ * Stores complete ProcessingResults on disk (default ./output/cache, env
+ * IEP_CACHE_DIR), one JSON file per key, so re-running an identical
+ * document with identical settings costs nothing. The key is the SHA-256 of
+ * the document's bytes plus everything that shapes the result: provider and
+ * model, reasoning effort, prompt (hashed), schema id and version, form
+ * type, strategy, input mode and the optional steps.
+ *
+ * Invalidation:
+ * - Any change to the key: an edited document, another model or effort, a
+ *   changed prompt, a new schema version, other processing options
+ * - CACHE_FORMAT_VERSION, bumped when the result shape or built-in section
+ *   and repair prompts change
+ * - Entries older than maxAgeDays (default 30, env IEP_CACHE_MAX_AGE_DAYS)
+ * - Failed results are never stored; a result with validation errors is,
+ *   so processing it again needs cache: false (--no-cache)
+ * - Results of providers marked cacheable: false (fixtures, cassette replay)
+ *   are neither read nor stored
+ *
+ * Size limit: after each write the least recently used entries are removed
+ * until the cache fits maxBytes (default 500 MB, env IEP_CACHE_MAX_MB).
+ * IEP_CACHE=off disables the cache.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { hashJson } from '../utils/hash';
+import type { ProcessingResult } from '../main';
+
+/**
+ * Where the cache lives and its limits
+ */
+export interface ResultCacheOptions {
+  /** Cache directory (default: env IEP_CACHE_DIR or ./output/cache) */
+  dir?: string;
+  /** Largest total size before least recently used entries are evicted (default: env IEP_CACHE_MAX_MB or 500 MB) */
+  maxBytes?: number;
+  /** Entries older than this are stale (default: env IEP_CACHE_MAX_AGE_DAYS or 30) */
+  maxAgeDays?: number;
+}
+
+/**
+ * Everything a cached result depends on
+ */
+export interface CacheKeyParts {
+  documentHash: string;
+  provider: string;
+  model: string;
+  reasoningEffort: string;
+  /** SHA-256 of the extraction prompt */
+  promptHash: string;
+  /** Schema id and version (id@version) */
+  schema: string;
+  form: string;
+  /** Strategy, input mode and optional steps */
+  options: Record<string, unknown>;
+}
+
+/**
+ * Cache outcome reported in ProcessingResult.cache
+ */
+export interface CacheInfo {
+  hit: boolean;
+  key: string;
+  /** When the cached result was produced (hits only) */
+  cachedAt?: string;
+  /** What the cached result cost when it was produced (hits only) */
+  originalCostUsd?: number;
+}
+
+/**
+ * One cache file
+ */
+interface CacheEntry {
+  formatVersion: number;
+  key: string;
+  parts: CacheKeyParts;
+  createdAt: string;
+  result: ProcessingResult;
+}
+
+/**
+ * Files and total size of the cache
+ */
+export interface CacheStats {
+  dir: string;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  maxAgeDays: number;
+}
+
+export const CACHE_FORMAT_VERSION = 1;
+export const DEFAULT_CACHE_DIR = './output/cache';
+
+const DEFAULT_MAX_MB = 500;
+const DEFAULT_MAX_AGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fill unset cache options from the environment
+ *
+ * @returns Resolved options, or undefined when IEP_CACHE=off
+ */
+export function resolveCacheOptions(options: ResultCacheOptions = {}): Required<ResultCacheOptions> | undefined {
+  if (process.env.IEP_CACHE === 'off') {
+    return undefined;
+  }
+  return {
+    dir: options.dir || process.env.IEP_CACHE_DIR || DEFAULT_CACHE_DIR,
+    maxBytes: options.maxBytes ?? envNumber('IEP_CACHE_MAX_MB', DEFAULT_MAX_MB) * 1024 * 1024,
+    maxAgeDays: options.maxAgeDays ?? envNumber('IEP_CACHE_MAX_AGE_DAYS', DEFAULT_MAX_AGE_DAYS)
+  };
+}
+
+/**
+ * Cache key of a set of key parts
+ */
+export function cacheKey(parts: CacheKeyParts): string {
+  return hashJson({ formatVersion: CACHE_FORMAT_VERSION, ...parts });
+}
+
+/**
+ * Look up a result
+ *
+ * Stale, unreadable and mismatching entries are deleted. A hit marks the
+ * entry as recently used.
+ *
+ * @returns The stored result and when it was produced, or undefined on a miss
+ */
+export function readCachedResult(
+  key: string,
+  options: Required<ResultCacheOptions>
+): { result: ProcessingResult; createdAt: string } | undefined {
+  const file = entryPath(options.dir, key);
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+
+  let entry: CacheEntry | undefined;
+  try {
+    entry = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    entry = undefined;
+  }
+  const age = entry ? Date.now() - Date.parse(entry.createdAt) : Infinity;
+  if (!entry || entry.formatVersion !== CACHE_FORMAT_VERSION || entry.key !== key || !entry.result?.success || !(age <= options.maxAgeDays * DAY_MS)) {
+    fs.rmSync(file, { force: true });
+    return undefined;
+  }
+
+  // Last use is the access time; the modification time stays the creation time
+  fs.utimesSync(file, new Date(), fs.statSync(file).mtime);
+  return { result: entry.result, createdAt: entry.createdAt };
+}
+
+/**
+ * Store a successful result, then evict
+ * least recently used entries beyond the size limit
+ *
+ * @returns Whether the result was stored
+ */
+export function writeCachedResult(
+  key: string,
+  parts: CacheKeyParts,
+  result: ProcessingResult,
+  options: Required<ResultCacheOptions>
+): boolean {
+  if (!result.success) {
+    return false;
+  }
+
+  fs.mkdirSync(options.dir, { recursive: true });
+  const file = entryPath(options.dir, key);
+  const entry: CacheEntry = { formatVersion: CACHE_FORMAT_VERSION, key, parts, createdAt: new Date().toISOString(), result };
+  const temporary = `${file}.tmp`;
+  fs.writeFileSync(temporary, JSON.stringify(entry));
+  fs.renameSync(temporary, file);
+
+  pruneCache(options);
+  return true;
+}
+
+/**
+ * Remove stale entries, then the least recently used ones until the cache fits maxBytes
+ *
+ * @returns Number of entries removed
+ */
+export function pruneCache(options: Required<ResultCacheOptions>): number {
+  const files = listEntries(options.dir).sort((a, b) => b.usedAt - a.usedAt);
+  let removed = 0;
+  let bytes = 0;
+  for (const file of files) {
+    const stale = Date.now() - file.createdAt > options.maxAgeDays * DAY_MS;
+    if (stale || bytes + file.bytes > options.maxBytes) {
+      fs.rmSync(file.path, { force: true });
+      removed++;
+    } else {
+      bytes += file.bytes;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Delete every entry
+ *
+ * @returns Number of entries removed
+ */
+export function clearCache(options: Required<ResultCacheOptions>): number {
+  const files = listEntries(options.dir);
+  files.forEach(file => fs.rmSync(file.path, { force: true }));
+  return files.length;
+}
+
+/**
+ * Entry count and size of the cache
+ */
+export function cacheStats(options: Required<ResultCacheOptions>): CacheStats {
+  const files = listEntries(options.dir);
+  return {
+    dir: options.dir,
+    entries: files.length,
+    bytes: files.reduce((sum, file) => sum + file.bytes, 0),
+    maxBytes: options.maxBytes,
+    maxAgeDays: options.maxAgeDays
+  };
+}
+
+function entryPath(dir: string, key: string): string {
+  return path.join(dir, `${key}.json`);
+}
+
+/**
+ * Cache files with their size, creation time (mtime) and last use (atime,
+ * set on every hit)
+ */
+function listEntries(dir: string): Array<{ path: string; bytes: number; createdAt: number; usedAt: number }> {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir)
+    .filter(name => /^[0-9a-f]{64}\.json$/.test(name))
+    .map(name => {
+      const file = path.join(dir, name);
+      const stats = fs.statSync(file);
+      return { path: file, bytes: stats.size, createdAt: stats.mtimeMs, usedAt: stats.atimeMs };
+    });
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return number;
+}
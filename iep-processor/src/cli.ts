@@ -0,0 +1,761 @@
+/**
+ * iep Command Line Interface
+ *
+ * One entry point for everything the project runs from a shell: extraction
+ * of single files and folders, re-validation and reports of stored results,
+ * the accuracy assessment, comparing two extractions and migrating stored
+ * results to the current schema.
+ *
+ * Usage: npm run iep -- <command> [arguments] [flags]
+ *
+ *   extract <file|dir>   Extract a document, or every PDF/DOCX in a folder
+ *   validate <json>      Re-validate a stored extraction result
+ *   report <json>        Print the validation report of a stored result
+ *   assess <dir>         Run the accuracy assessment over sample documents
+ *   diff <a> <b>         Compare extraction <b> against extraction <a>
+ *   migrate <dir>        Upgrade stored results to the current schema
+ *   estimate <file|dir>  Forecast the cost of extracting documents
+ *   spend                Spend recorded in the ledger by day, model and document
+ *   cache <action>       Result cache: stats, prune or clear
+ *
+ * Features:
+ * - Shared flags: --provider, --model, --effort, --output-dir, --format,
+ *   --concurrency (see USAGE)
+ * - --format json writes one JSON document to stdout; progress goes to stderr
+ * - Folder extraction runs through the resumable batch runner: re-running
+ *   skips finished files, Ctrl-C cancels cleanly
+ * - Budget caps per document, batch and day (--max-cost, --max-batch-cost,
+ *   --max-daily-cost) refuse work before any model call
+ * - Identical documents are served from the result cache; --no-cache skips it
+ * - Logs go to stderr (--log-format pretty | json); --quiet silences them
+ * - Exit codes for CI (see EXIT_CODES)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+import { ExtractionStrategy, ProcessingOptions, ProcessingResult, estimateProcessingCost, processIEP } from './main';
+import { BatchSummary, runBatch, writeResult } from './batch/batch-runner';
+import { createProvider, ReasoningEffort } from './providers';
+import { FormDefinition, FormType } from './forms/types';
+import { getForm, isFormType, listForms, validateForm } from './forms';
+import { generateValidationReport } from './validation/ajv-validator';
+import { summarizeServiceMinutes } from './analytics/service-minutes';
+import { normalizeFormData } from './normalization/field-normalization';
+import { scoreFields } from './evaluation/field-scorer';
+import { AssessmentSummary, SectionWeights, runAccuracyAssessment } from './accuracy-assessment';
+import { FileMigration, migrateDirectory } from './schema/migrate-outputs';
+import { concurrencyFromEnv } from './server/job-queue';
+import { BudgetOptions, resolveBudget } from './budget/budget-guard';
+import { CostEstimate } from './budget/cost-estimate';
+import { SpendTotals, readLedger, spentOnDay, summarizeSpend } from './budget/spend-ledger';
+import { cacheStats, clearCache, pruneCache, resolveCacheOptions } from './cache/result-cache';
+import { configureLogger } from './logging/logger';
+import { hashFile } from './utils/hash';
+
+/**
+ * Process exit codes
+ * - ok: command succeeded
+ * - failed: a document or file could not be processed
+ * - usage: bad command line
+ * - invalid: an extraction has validation errors
+ * - different: diff found differing fields
+ * - targetsNotMet: the accuracy assessment missed its targets
+ * - overBudget: a budget cap refused documents (or the estimate exceeds one)
+ * - cancelled: a batch was interrupted (resume by running it again)
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  invalid: 3,
+  different: 4,
+  targetsNotMet: 5,
+  overBudget: 6,
+  cancelled: 130
+} as const;
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
+type OutputFormat = 'text' | 'json';
+
+const USAGE = `Usage: iep <command> [arguments] [flags]
+
+Commands:
+  extract <file|dir>   Extract a document, or every PDF/DOCX in a folder
+  validate <json>      Re-validate a stored extraction result
+  report <json>        Print the validation report of a stored result
+  assess <dir>         Run the accuracy assessment over sample PDFs
+  diff <a> <b>         Compare extraction <b> against extraction <a>
+  migrate <dir>        Upgrade stored results to the current schema
+  estimate <file|dir>  Forecast the cost of extracting documents
+  spend                Spend recorded in the ledger by day, model and document
+  cache <action>       Result cache: stats | prune (remove stale, enforce size) | clear
+
+Flags:
+  --provider <name>      openai | anthropic | fixture (default: IEP_PROVIDER or openai)
+  --model <id>           Model of the provider (default: the provider's default)
+  --effort <level>       Reasoning effort: low | medium | high (default: medium)
+  --output-dir, -o <dir> Where results are written (extract: ./output, migrate: <dir>/migrated)
+  --format <format>      text | json (default: text)
+  --concurrency <n>      Documents processed at once (extract, assess; default: MAX_CONCURRENT or 2)
+  --attempts <n>         Attempts per document of a folder (extract; default: 2)
+  --strategy <name>      single-shot | hybrid | multi-pass (extract)
+  --pass-concurrency <n> Multi-pass passes run at once (extract; default: IEP_PASS_CONCURRENCY or 2)
+  --form-type <id>       ${listForms().map(form => form.id).join(' | ')} (extract; default: detected)
+  --limit <n>            Sample documents to assess (assess; default: 5), documents listed (spend; default: 10)
+  --ground-truth <dir>   Ground-truth directory (assess; default: ./ground-truth)
+  --weights <file>       JSON file of section weight overrides (assess)
+  --dry-run              Report without writing files (migrate)
+  --max-cost <usd>       Budget per document (extract, estimate; default: IEP_MAX_RUN_USD)
+  --max-batch-cost <usd> Budget per folder run (extract, estimate; default: IEP_MAX_BATCH_USD)
+  --max-daily-cost <usd> Budget per UTC day, all runs (extract, estimate; default: IEP_MAX_DAILY_USD)
+  --since <YYYY-MM-DD>   First day to include (spend)
+  --no-cache             Neither read nor write the result cache (extract, assess)
+  --log-format <format>  Log lines on stderr: pretty | json (default: LOG_FORMAT or pretty)
+  --quiet, -q            No log output, only the command's result
+  --help, -h             Show this help
+
+Exit codes: 0 ok, 1 processing failed, 2 usage error, 3 validation errors,
+4 extractions differ, 5 accuracy targets not met, 6 over budget, 130 batch cancelled`;
+
+const OPTIONS = {
+  provider: { type: 'string' },
+  model: { type: 'string' },
+  effort: { type: 'string' },
+  'output-dir': { type: 'string', short: 'o' },
+  format: { type: 'string' },
+  concurrency: { type: 'string' },
+  attempts: { type: 'string' },
+  strategy: { type: 'string' },
+  'pass-concurrency': { type: 'string' },
+  'form-type': { type: 'string' },
+  limit: { type: 'string' },
+  'ground-truth': { type: 'string' },
+  weights: { type: 'string' },
+  'dry-run': { type: 'boolean' },
+  'max-cost': { type: 'string' },
+  'max-batch-cost': { type: 'string' },
+  'max-daily-cost': { type: 'string' },
+  since: { type: 'string' },
+  'no-cache': { type: 'boolean' },
+  'log-format': { type: 'string' },
+  quiet: { type: 'boolean', short: 'q' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high'];
+const STRATEGIES: ExtractionStrategy[] = ['single-shot', 'hybrid', 'multi-pass'];
+const DOCUMENT_EXTENSIONS = ['.pdf', '.docx'];
+const BUDGET_CODES = ['BUDGET_EXCEEDED', 'PRICING_UNKNOWN'];
+
+/**
+ * Thrown for command lines the CLI cannot run (exit code 2)
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Run one CLI command
+ *
+ * @param argv - Arguments after the executable (process.argv.slice(2))
+ * @returns Exit code
+ */
+export async function runCli(argv: string[]): Promise<ExitCode> {
+  let flags: Flags;
+  let positionals: string[];
+  try {
+    ({ values: flags, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+  } catch (error) {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    console.error(USAGE);
+    return EXIT_CODES.usage;
+  }
+
+  const [command, ...args] = positionals;
+  if (flags.help || !command) {
+    console.log(USAGE);
+    return flags.help ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+
+  try {
+    const format = choice<OutputFormat>('format', flags.format, ['text', 'json']) || 'text';
+    configureLogger({ format: choice('log-format', flags['log-format'], ['pretty', 'json']), quiet: flags.quiet });
+
+    switch (command) {
+      case 'extract':
+        return await extractCommand(requireArgs(args, ['file|dir']), flags, format);
+      case 'validate':
+        return validateCommand(requireArgs(args, ['json']), format);
+      case 'report':
+        return reportCommand(requireArgs(args, ['json']), format);
+      case 'assess':
+        return await assessCommand(requireArgs(args, ['dir']), flags, format);
+      case 'diff':
+        return diffCommand(requireArgs(args, ['a', 'b']), format);
+      case 'migrate':
+        return migrateCommand(requireArgs(args, ['dir']), flags, format);
+      case 'estimate':
+        return await estimateCommand(requireArgs(args, ['file|dir']), flags, format);
+      case 'spend':
+        return spendCommand(flags, format);
+      case 'cache':
+        return cacheCommand(requireArgs(args, ['action']), format);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(chalk.red(error.message));
+      console.error(USAGE);
+      return EXIT_CODES.usage;
+    }
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    return EXIT_CODES.failed;
+  }
+}
+
+/**
+ * extract <file|dir>: process documents and write one result per document
+ */
+async function extractCommand([target]: string[], flags: Flags, format: OutputFormat): Promise<ExitCode> {
+  const options = processingOptions(flags);
+  const batchConcurrency = concurrency(flags);
+  const maxAttempts = positiveInteger('attempts', flags.attempts);
+  if (!fs.existsSync(target)) {
+    throw new UsageError(`No such file or directory: ${target}`);
+  }
+  const outputDir = flags['output-dir'] || './output';
+
+  if (fs.statSync(target).isDirectory()) {
+    return extractDirectory(target, outputDir, options, batchConcurrency, maxAttempts, format);
+  }
+
+  const sourceHash = hashFile(target);
+  const result = await processIEP(target, options);
+  const output = writeResult(target, sourceHash, result, outputDir);
+  const errors = result.validation?.issues.filter(issue => issue.severity === 'error').length ?? 0;
+
+  if (format === 'json') {
+    printJson({ file: target, success: result.success, output, form: result.form?.id, valid: result.validation?.valid, errors, cost: result.usage?.cost_usd || 0, cached: result.cache?.hit ?? false, correlationId: result.correlationId, error: result.error });
+  } else if (!result.success) {
+    console.log(chalk.red(`\n❌ ${target} [${result.error?.code}]: ${result.error?.message}`));
+  } else {
+    const validity = result.validation?.valid ? chalk.green('valid') : chalk.yellow(`${errors} validation errors`);
+    const cached = result.cache?.hit ? ', cached' : '';
+    console.log(`\n✅ ${target} -> ${output} (${validity}, $${(result.usage?.cost_usd || 0).toFixed(4)}${cached})`);
+  }
+
+  if (!result.success) return BUDGET_CODES.includes(result.error?.code || '') ? EXIT_CODES.overBudget : EXIT_CODES.failed;
+  return result.validation?.valid === false ? EXIT_CODES.invalid : EXIT_CODES.ok;
+}
+
+/**
+ * Folder extraction through the resumable batch runner; Ctrl-C stops
+ * starting new files and a second Ctrl-C exits at once
+ */
+async function extractDirectory(
+  dir: string,
+  outputDir: string,
+  options: ProcessingOptions,
+  batchConcurrency: number,
+  maxAttempts: number | undefined,
+  format: OutputFormat
+): Promise<ExitCode> {
+  const files = listDocuments(dir);
+  if (files.length === 0) {
+    throw new UsageError(`No PDF or DOCX files in ${dir}`);
+  }
+
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    if (controller.signal.aborted) process.exit(EXIT_CODES.cancelled);
+    console.error(chalk.yellow('\n⏹️  Cancelling: waiting for running files (Ctrl-C again to exit now)'));
+    controller.abort();
+  };
+  process.on('SIGINT', onInterrupt);
+
+  let summary: BatchSummary;
+  try {
+    summary = await runBatch(files, { outputDir, processing: options, concurrency: batchConcurrency, maxAttempts, signal: controller.signal });
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+
+  if (format === 'json') {
+    printJson(summary);
+  } else {
+    console.log(chalk.bold.blue(`\n📦 EXTRACTION - ${summary.files} file(s)`));
+    for (const entry of summary.results) {
+      if (entry.status === 'failed') {
+        console.log(chalk.red(`   ❌ ${entry.file} [${entry.errorCode}]: ${entry.error} (${entry.attempts} attempts)`));
+      } else if (entry.status === 'pending') {
+        console.log(chalk.gray(`   ⏸️  ${entry.file}: not started`));
+      } else if (entry.status === 'duplicate') {
+        console.log(chalk.gray(`   ⏭️  ${entry.file}: same content as ${entry.duplicateOf}`));
+      } else {
+        const validity = entry.valid ? chalk.green('valid') : chalk.yellow('validation errors');
+        console.log(`   ✅ ${entry.file} -> ${entry.output} (${validity}, $${entry.cost.toFixed(4)})`);
+      }
+    }
+    console.log(`\n   Completed: ${summary.completed} | Skipped: ${summary.skipped} | Duplicates: ${summary.duplicates} | Failed: ${summary.failed} | Pending: ${summary.pending}`);
+    console.log(`   Cost: $${summary.runCost.toFixed(4)} this run, $${summary.totalCost.toFixed(4)} in total`);
+    console.log(`   Output: ${outputDir} (manifest: ${summary.manifestPath})`);
+  }
+
+  if (summary.cancelled) return EXIT_CODES.cancelled;
+  if (summary.results.some(entry => entry.status === 'failed' && !BUDGET_CODES.includes(entry.errorCode || ''))) return EXIT_CODES.failed;
+  if (summary.failed > 0) return EXIT_CODES.overBudget;
+  return summary.invalid > 0 ? EXIT_CODES.invalid : EXIT_CODES.ok;
+}
+
+/**
+ * validate <json>: re-run validation on a stored result
+ */
+function validateCommand([file]: string[], format: OutputFormat): ExitCode {
+  const { form, data } = loadExtraction(file);
+  const validation = validateForm(form, data);
+
+  if (format === 'json') {
+    printJson({ file, form: form.id, validation });
+  } else {
+    const errors = validation.issues.filter(issue => issue.severity === 'error');
+    const warnings = validation.issues.filter(issue => issue.severity === 'warning');
+    console.log(`${validation.valid ? chalk.green('✅ valid') : chalk.red('❌ invalid')} ${file} (${form.name}): ${errors.length} errors, ${warnings.length} warnings`);
+    for (const issue of [...errors, ...warnings]) {
+      console.log(`   ${issue.severity === 'error' ? chalk.red('error  ') : chalk.yellow('warning')} ${issue.pointer || 'root'}: ${issue.message}`);
+    }
+  }
+  return validation.valid ? EXIT_CODES.ok : EXIT_CODES.invalid;
+}
+
+/**
+ * report <json>: validation report of a stored result
+ */
+function reportCommand([file]: string[], format: OutputFormat): ExitCode {
+  const { form, data, stored } = loadExtraction(file);
+  const validation = validateForm(form, data);
+  const serviceMinutes = form.id === 'iep' ? summarizeServiceMinutes(data) : undefined;
+
+  if (format === 'json') {
+    printJson({ file, form: form.id, validation, normalized: normalizeFormData(data), serviceMinutes });
+  } else {
+    console.log(generateValidationReport(validation, stored.provenance, serviceMinutes));
+  }
+  return EXIT_CODES.ok;
+}
+
+/**
+ * assess <dir>: accuracy assessment over sample PDFs
+ */
+async function assessCommand([sampleDir]: string[], flags: Flags, format: OutputFormat): Promise<ExitCode> {
+  if (!fs.existsSync(sampleDir) || !fs.statSync(sampleDir).isDirectory()) {
+    throw new UsageError(`Not a directory: ${sampleDir}`);
+  }
+  const limit = positiveInteger('limit', flags.limit) ?? 5;
+  const weights = flags.weights ? readJson(flags.weights) as SectionWeights : undefined;
+  const processing = processingOptions(flags);
+
+  const summary = await runAccuracyAssessment(sampleDir, limit, { weights, groundTruthDir: flags['ground-truth'], processing, concurrency: concurrency(flags) });
+
+  if (format === 'json') {
+    printJson(summary);
+  } else {
+    printAssessment(summary);
+  }
+  if (summary.processed === 0) return EXIT_CODES.failed;
+  return summary.targetsMet ? EXIT_CODES.ok : EXIT_CODES.targetsNotMet;
+}
+
+/**
+ * Text rendering of an accuracy assessment: each file, the averages, section
+ * completeness, ground-truth accuracy and the Phase 2 criteria
+ */
+function printAssessment(summary: AssessmentSummary): void {
+  console.log(chalk.bold.blue('\n🎯 PHASE 2 ACCURACY ASSESSMENT'));
+  console.log('='.repeat(60));
+
+  for (const { fileName, analysis, metrics, processingTime, cost } of summary.results) {
+    console.log(`\n📊 ${chalk.blue(fileName)}`);
+    console.log(`   ${chalk.green('✅')} Overall Score: ${chalk.bold(metrics.overallScore + '%')}`);
+    console.log(`   📝 Content: ${metrics.contentCompleteness}% | 🎯 Accuracy: ${metrics.fieldAccuracy}%${metrics.groundTruth ? '' : ' (estimated, no ground truth)'} | 🏗️ Structure: ${metrics.structuralIntegrity}%`);
+    if (metrics.groundTruth) {
+      console.log(`   🧾 Ground truth: precision ${metrics.precision}% | recall ${metrics.recall}%`);
+    }
+    for (const [section, sectionAnalysis] of Object.entries(analysis.sections)) {
+      if (!sectionAnalysis.applicable) {
+        console.log(`   ${chalk.gray(`${section}: n/a`)}`);
+      } else {
+        const missing = sectionAnalysis.failed.length > 0 ? chalk.gray(` (missing: ${sectionAnalysis.failed.join(', ')})`) : '';
+        console.log(`   ${section}: ${sectionAnalysis.completeness}%${missing}`);
+      }
+    }
+    console.log(`   ⏱️ Time: ${processingTime}ms | 💰 Cost: $${cost.toFixed(6)}`);
+  }
+  for (const { fileName, error } of summary.failures) {
+    console.log(chalk.red(`\n❌ ${fileName}: ${error}`));
+  }
+
+  console.log(chalk.bold.green('\n📈 ACCURACY ASSESSMENT SUMMARY'));
+  console.log('='.repeat(60));
+  console.log(`📊 Files Processed: ${chalk.bold(summary.processed)}/${summary.files}`);
+  console.log(`🎯 Average Overall Score: ${chalk.bold(summary.averageScore + '%')}`);
+  console.log(`📝 Average Content Completeness: ${chalk.bold(summary.averageContentCompleteness + '%')}`);
+  console.log(`🎯 Average Goals Completeness: ${chalk.bold(summary.averageGoalsCompleteness + '%')}`);
+  console.log(`📄 Average Present Level Length: ${chalk.bold(summary.averagePresentLevelLength)} chars`);
+  console.log(`⏱️ Total Processing Time: ${chalk.bold(Math.round(summary.totalTime / 1000))}s`);
+  console.log(`💰 Total Cost: ${chalk.bold('$' + summary.totalCost.toFixed(4))}`);
+
+  console.log(chalk.bold.blue('\n📋 SECTION COMPLETENESS'));
+  for (const { section, completeness, files } of summary.sections) {
+    console.log(completeness === undefined ? `   ${section}: n/a` : `   ${section}: ${completeness}% (${files} files)`);
+  }
+
+  if (summary.groundTruth) {
+    const { files, score } = summary.groundTruth;
+    console.log(chalk.bold.blue(`\n🧾 GROUND-TRUTH ACCURACY (${files}/${summary.processed} annotated files)`));
+    console.log(`Overall: precision ${Math.round(score.overall.precision * 100)}% | recall ${Math.round(score.overall.recall * 100)}% | F1 ${Math.round(score.overall.f1 * 100)}%`);
+    for (const [section, counts] of Object.entries(score.sections)) {
+      console.log(`   ${section}: P ${Math.round(counts.precision * 100)}% | R ${Math.round(counts.recall * 100)}% | F1 ${Math.round(counts.f1 * 100)}%`);
+    }
+  } else {
+    console.log(chalk.yellow(`\nNo ground truth found in ${summary.groundTruthDir} - field accuracy is estimated`));
+  }
+
+  console.log(chalk.bold.yellow('\n🎯 PHASE 2 SUCCESS CRITERIA:'));
+  for (const { label, passed, value } of summary.criteria) {
+    console.log(`${label}: ${passed ? chalk.green('✅ PASS') : chalk.red('❌ FAIL')} (${value})`);
+  }
+  if (summary.targetsMet) {
+    console.log(chalk.bold.green('\n🎉 PHASE 2 COMPLETE - ACCURACY TARGETS MET!'));
+    console.log(chalk.green('Ready for Phase 3 - Production Readiness'));
+  } else {
+    console.log(chalk.bold.yellow('\n⚠️ PHASE 2 IN PROGRESS - CONTINUE ACCURACY IMPROVEMENTS'));
+    console.log(chalk.yellow('Focus on areas that need improvement above'));
+  }
+}
+
+/**
+ * diff <a> <b>: field-by-field comparison of two extractions, <a> as reference
+ */
+function diffCommand([reference, candidate]: string[], format: OutputFormat): ExitCode {
+  const expected = loadExtraction(reference).data;
+  const actual = loadExtraction(candidate).data;
+  const score = scoreFields(expected, actual);
+  const differences = score.details.filter(detail => detail.outcome !== 'correct');
+
+  if (format === 'json') {
+    printJson({ reference, candidate, overall: score.overall, sections: score.sections, differences });
+  } else {
+    const { overall } = score;
+    console.log(`${candidate} vs ${reference}: ${differences.length} differing fields (precision ${Math.round(overall.precision * 100)}% | recall ${Math.round(overall.recall * 100)}% | F1 ${Math.round(overall.f1 * 100)}%)`);
+    for (const difference of differences) {
+      const detail = difference.outcome === 'missing'
+        ? `expected ${JSON.stringify(difference.expected)}`
+        : difference.outcome === 'spurious'
+          ? `unexpected ${JSON.stringify(difference.actual)}`
+          : `expected ${JSON.stringify(difference.expected)}, got ${JSON.stringify(difference.actual)}`;
+      console.log(`   ${difference.outcome.padEnd(9)} ${difference.pointer}: ${detail}`);
+    }
+  }
+  return differences.length > 0 ? EXIT_CODES.different : EXIT_CODES.ok;
+}
+
+/**
+ * migrate <dir>: upgrade stored results to the current schema
+ */
+function migrateCommand([inputDir]: string[], flags: Flags, format: OutputFormat): ExitCode {
+  if (!fs.existsSync(inputDir) || !fs.statSync(inputDir).isDirectory()) {
+    throw new UsageError(`Not a directory: ${inputDir}`);
+  }
+  const dryRun = Boolean(flags['dry-run']);
+  const outputDir = flags['output-dir'] || path.join(inputDir, 'migrated');
+  const outcomes = migrateDirectory(inputDir, { outputDir, dryRun });
+  const count = (status: FileMigration['status']) => outcomes.filter(outcome => outcome.status === status).length;
+
+  if (format === 'json') {
+    printJson({ inputDir, outputDir, dryRun, outcomes });
+  } else {
+    console.log(chalk.bold.blue(`\n📦 MIGRATION ${dryRun ? '(dry run) ' : ''}- ${inputDir}`));
+    for (const outcome of outcomes) {
+      if (outcome.status === 'migrated' || outcome.status === 'current') {
+        const from = outcome.from ? `${outcome.from.id} ${outcome.from.version}` : 'unknown';
+        const validity = outcome.valid ? chalk.green('valid') : chalk.yellow('has validation issues');
+        console.log(`   ✅ ${outcome.file}: ${from} (${validity}, ${outcome.unmappedCount} unmapped values)`);
+      } else if (outcome.status === 'skipped') {
+        console.log(chalk.gray(`   ⏭️  ${outcome.file}: skipped - ${outcome.reason}`));
+      } else {
+        console.log(chalk.red(`   ❌ ${outcome.file}: ${outcome.reason}`));
+      }
+    }
+    console.log(`\n   Migrated: ${count('migrated')} | Already current: ${count('current')} | Skipped: ${count('skipped')} | Failed: ${count('failed')}`);
+    if (!dryRun) {
+      console.log(`   Output: ${outputDir}`);
+    }
+  }
+  return count('failed') > 0 ? EXIT_CODES.failed : EXIT_CODES.ok;
+}
+
+/**
+ * estimate <file|dir>: forecast extraction cost and check it against the budget caps
+ */
+async function estimateCommand([target]: string[], flags: Flags, format: OutputFormat): Promise<ExitCode> {
+  const options = processingOptions(flags);
+  if (!fs.existsSync(target)) {
+    throw new UsageError(`No such file or directory: ${target}`);
+  }
+  const files = fs.statSync(target).isDirectory() ? listDocuments(target) : [target];
+  if (files.length === 0) {
+    throw new UsageError(`No PDF or DOCX files in ${target}`);
+  }
+
+  const estimates: Array<{ file: string; estimate?: CostEstimate & { form: FormType }; error?: string }> = [];
+  for (const file of files) {
+    try {
+      estimates.push({ file, estimate: await estimateProcessingCost(file, options) });
+    } catch (error) {
+      estimates.push({ file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const estimated = estimates.flatMap(({ estimate }) => estimate ? [estimate] : []);
+  const totalUsd = estimated.reduce((sum, estimate) => sum + estimate.costUsd, 0);
+  const priced = estimated.every(estimate => estimate.priced);
+  const budget = resolveBudget(options.budget);
+  const capped = budget.maxRunUsd !== undefined || budget.maxBatchUsd !== undefined || budget.maxDailyUsd !== undefined;
+  const spentToday = budget.maxDailyUsd !== undefined ? spentOnDay(budget.ledgerFile!) : undefined;
+  const overBudget = [
+    budget.maxRunUsd !== undefined && estimated.some(estimate => estimate.costUsd > budget.maxRunUsd!) ? `a document exceeds the per-run budget of $${budget.maxRunUsd}` : undefined,
+    budget.maxBatchUsd !== undefined && totalUsd > budget.maxBatchUsd ? `the total exceeds the batch budget of $${budget.maxBatchUsd}` : undefined,
+    budget.maxDailyUsd !== undefined && totalUsd + spentToday! > budget.maxDailyUsd ? `the total plus $${spentToday!.toFixed(4)} spent today exceeds the daily budget of $${budget.maxDailyUsd}` : undefined
+  ].filter((reason): reason is string => !!reason);
+
+  if (format === 'json') {
+    printJson({ files: estimates, totalUsd, priced, spentToday, overBudget });
+  } else {
+    console.log(chalk.bold.blue(`\n💰 COST ESTIMATE - ${files.length} file(s)`));
+    for (const { file, estimate, error } of estimates) {
+      if (!estimate) {
+        console.log(chalk.red(`   ❌ ${file}: ${error}`));
+      } else {
+        const cost = estimate.priced ? `$${estimate.costUsd.toFixed(4)}` : chalk.yellow(`unknown (no pricing for ${estimate.model})`);
+        console.log(`   📄 ${file}: ${cost} (${estimate.form}, ${estimate.pageCount} pages, ${estimate.calls} call(s), ~${estimate.inputTokens} input / ${estimate.outputTokens} output tokens)`);
+      }
+    }
+    console.log(`\n   Total: $${totalUsd.toFixed(4)}${priced ? '' : chalk.yellow(' (some models are not priced)')}`);
+    for (const reason of overBudget) {
+      console.log(chalk.red(`   ⛔ Over budget: ${reason}`));
+    }
+  }
+
+  // Unpriced models cannot be checked against a cap, so extract would refuse them
+  if (overBudget.length > 0 || (capped && !priced)) return EXIT_CODES.overBudget;
+  return estimates.some(({ error }) => error) ? EXIT_CODES.failed : EXIT_CODES.ok;
+}
+
+/**
+ * spend: totals of the spend ledger (env IEP_LEDGER_FILE or ./output/spend-ledger.jsonl)
+ */
+function spendCommand(flags: Flags, format: OutputFormat): ExitCode {
+  const since = flags.since;
+  if (since !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+    throw new UsageError('--since must be a date (YYYY-MM-DD)');
+  }
+  const limit = positiveInteger('limit', flags.limit) ?? 10;
+  const ledgerFile = resolveBudget().ledgerFile!;
+  const summary = summarizeSpend(readLedger(ledgerFile), { since });
+
+  if (format === 'json') {
+    printJson({ ledgerFile, since, ...summary });
+    return EXIT_CODES.ok;
+  }
+
+  const rows = (totals: Record<string, SpendTotals>, limit?: number) => Object.entries(totals)
+    .sort(([, a], [, b]) => b.costUsd - a.costUsd)
+    .slice(0, limit)
+    .forEach(([key, total]) => console.log(`   ${key}: $${total.costUsd.toFixed(4)} (${total.count} document(s))`));
+
+  console.log(chalk.bold.blue(`\n💰 SPEND - ${ledgerFile}${since ? ` since ${since}` : ''}`));
+  console.log(`   Total: $${summary.costUsd.toFixed(4)} over ${summary.entries} document(s)`);
+  if (summary.unpriced > 0) {
+    console.log(chalk.yellow(`   ⚠️ ${summary.unpriced} document(s) processed with unpriced models count as $0`));
+  }
+  console.log(chalk.bold('\nBy day:'));
+  Object.keys(summary.byDay).sort().forEach(day => console.log(`   ${day}: $${summary.byDay[day].costUsd.toFixed(4)} (${summary.byDay[day].count} document(s))`));
+  console.log(chalk.bold('\nBy model:'));
+  rows(summary.byModel);
+  console.log(chalk.bold(`\nBy document (top ${limit}):`));
+  rows(summary.byDocument, limit);
+  return EXIT_CODES.ok;
+}
+
+/**
+ * cache <stats|prune|clear>: inspect or empty the result cache
+ */
+function cacheCommand([action]: string[], format: OutputFormat): ExitCode {
+  const options = resolveCacheOptions();
+  if (!options) {
+    throw new UsageError('The result cache is disabled (IEP_CACHE=off)');
+  }
+
+  let removed: number | undefined;
+  switch (action) {
+    case 'stats':
+      break;
+    case 'prune':
+      removed = pruneCache(options);
+      break;
+    case 'clear':
+      removed = clearCache(options);
+      break;
+    default:
+      throw new UsageError(`Unknown cache action: ${action} (expected stats, prune or clear)`);
+  }
+
+  const stats = cacheStats(options);
+  if (format === 'json') {
+    printJson({ action, removed, ...stats });
+  } else {
+    if (removed !== undefined) {
+      console.log(`🗑️  Removed ${removed} cached result(s)`);
+    }
+    const megabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    console.log(`💾 ${stats.dir}: ${stats.entries} result(s), ${megabytes(stats.bytes)} of ${megabytes(stats.maxBytes)} MB, kept ${stats.maxAgeDays} days`);
+  }
+  return EXIT_CODES.ok;
+}
+
+/**
+ * PDF and DOCX files in a folder (copies such as "name (1).pdf" are
+ * recognized by content in the batch runner)
+ */
+function listDocuments(dir: string): string[] {
+  // "name.pdf" before "name (1).pdf", so the copy is the one marked duplicate
+  const sortKey = (name: string) => {
+    const original = name.replace(/ \(\d+\)(\.[^.]+)$/, '$1');
+    return [original, original === name ? '' : name];
+  };
+  return fs.readdirSync(dir)
+    .filter(name => DOCUMENT_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .map(name => ({ name, key: sortKey(name) }))
+    .sort((a, b) => compare(a.key[0], b.key[0]) || compare(a.key[1], b.key[1]))
+    .map(({ name }) => path.join(dir, name));
+}
+
+/**
+ * Read a stored result (or bare extraction data) and the form it was extracted as
+ */
+function loadExtraction(file: string): { form: FormDefinition; data: unknown; stored: Partial<ProcessingResult> } {
+  const stored = readJson(file) as Record<string, any>;
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) {
+    throw new Error(`${file} is not a JSON object`);
+  }
+  const data = stored.data ?? stored.extractedData ?? stored;
+  if (stored.success === false && data === stored) {
+    throw new Error(`${file} holds a failed result: ${stored.error?.message ?? stored.error}`);
+  }
+
+  const formId: string | undefined = stored.form?.id;
+  const form = formId && isFormType(formId)
+    ? getForm(formId)
+    : listForms().find(candidate => typeof data === 'object' && data !== null && candidate.rootKey in data);
+  if (!form) {
+    throw new Error(`${file} does not hold extraction data of a known form; migrate older results first (iep migrate)`);
+  }
+  return { form, data, stored };
+}
+
+function processingOptions(flags: Flags): ProcessingOptions {
+  const formType = flags['form-type'];
+  if (formType !== undefined && !isFormType(formType)) {
+    throw new UsageError(`--form-type must be one of ${listForms().map(form => form.id).join(', ')}`);
+  }
+  return {
+    provider: flags.provider || flags.model ? createProvider(flags.provider, { model: flags.model }) : undefined,
+    reasoningEffort: choice('effort', flags.effort, EFFORTS),
+    strategy: choice('strategy', flags.strategy, STRATEGIES),
+    passConcurrency: positiveInteger('pass-concurrency', flags['pass-concurrency']),
+    formType: formType as FormType | undefined,
+    generateReport: true,
+    budget: budgetOptions(flags),
+    cache: flags['no-cache'] ? false : undefined
+  };
+}
+
+function budgetOptions(flags: Flags): BudgetOptions {
+  return {
+    maxRunUsd: amount('max-cost', flags['max-cost']),
+    maxBatchUsd: amount('max-batch-cost', flags['max-batch-cost']),
+    maxDailyUsd: amount('max-daily-cost', flags['max-daily-cost'])
+  };
+}
+
+function concurrency(flags: Flags): number {
+  return positiveInteger('concurrency', flags.concurrency) ?? concurrencyFromEnv();
+}
+
+function requireArgs(args: string[], names: string[]): string[] {
+  if (args.length < names.length) {
+    throw new UsageError(`Missing argument: <${names[args.length]}>`);
+  }
+  return args;
+}
+
+function choice<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${flag} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function positiveInteger(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new UsageError(`--${flag} must be a positive integer`);
+  }
+  return number;
+}
+
+function amount(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new UsageError(`--${flag} must be a positive amount in USD`);
+  }
+  return number;
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function readJson(file: string): unknown {
+  if (!fs.existsSync(file)) {
+    throw new UsageError(`No such file: ${file}`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  // Output piped into e.g. head may be cut short
+  process.stdout.on('error', error => {
+    if ((error as NodeJS.ErrnoException).code !== 'EPIPE') throw error;
+  });
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProvenanceReport } from '../provenance/field-provenance';
+import { buildReviewQueue, confidenceBand, scoreConfidence } from './field-confidence';
+
+const DATA = {
+  IEP: {
+    "CHILD'S INFORMATION": { NAME: 'Jordan Sample', ZIP: '4300', 'DATE OF BIRTH': '01/15/2014', 'IN PRESCHOOL': false },
+    '3. PROFILE': { Strengths: 'Jordan reads well and enjoys band.' }
+  }
+};
+const NAME = "/IEP/CHILD'S INFORMATION/NAME";
+const ZIP = "/IEP/CHILD'S INFORMATION/ZIP";
+const DOB = "/IEP/CHILD'S INFORMATION/DATE OF BIRTH";
+const PRESCHOOL = "/IEP/CHILD'S INFORMATION/IN PRESCHOOL";
+const STRENGTHS = '/IEP/3. PROFILE/Strengths';
+
+function provenance(fields: ProvenanceReport['fields']): ProvenanceReport {
+  return { textLayerAvailable: true, fields, summary: { total: 0, exact: 0, fuzzy: 0, notFound: 0, unchecked: 0, possiblyHallucinated: 0 } };
+}
+
+test('other runs give an agreement signal', () => {
+  const other = structuredClone(DATA);
+  other.IEP["CHILD'S INFORMATION"].NAME = 'Jordan Simple';
+  const report = scoreConfidence(DATA, [DATA, other]);
+  assert.equal(report.runs, 3);
+  assert.equal(report.fields[NAME].signals.agreement, 0.5);
+  assert.deepEqual(report.fields[NAME].reasons, ['1/2 other runs disagree']);
+  assert.equal(scoreConfidence(DATA).fields[NAME].signals.agreement, undefined);
+});
+
+test('provenance corroborates values found in the document', () => {
+  const report = scoreConfidence(DATA, [], provenance({
+    [NAME]: { status: 'exact', page: 1, span: 'Jordan Sample', score: 1, possiblyHallucinated: false },
+    [STRENGTHS]: { status: 'fuzzy', page: 2, span: 'Jordan reads well', score: 0.8, possiblyHallucinated: false },
+    [DOB]: { status: 'not-found', possiblyHallucinated: true }
+  }));
+  assert.equal(report.fields[NAME].confidence, 1);
+  assert.equal(report.fields[STRENGTHS].signals.corroboration, 0.8);
+  assert.deepEqual(report.fields[STRENGTHS].reasons, ['only 80% of words found in the document']);
+  assert.equal(report.fields[DOB].signals.corroboration, 0);
+  assert.ok(report.fields[DOB].reasons.includes('no supporting text in the document'));
+});
+
+test('values that do not normalize fail the format signal', () => {
+  const report = scoreConfidence(DATA);
+  assert.deepEqual(report.fields[ZIP], { confidence: 0, signals: { format: 0 }, reasons: ['not a valid ZIP code'] });
+  assert.equal(report.fields[DOB].signals.format, 1);
+});
+
+test('signals are weighted and single-run checkboxes stay unscored', () => {
+  const other = structuredClone(DATA);
+  const report = scoreConfidence(DATA, [other], provenance({ [DOB]: { status: 'not-found', possiblyHallucinated: true } }));
+  // agreement 1 x 0.4 + corroboration 0 x 0.4 + format 1 x 0.2
+  assert.equal(report.fields[DOB].confidence, 0.6);
+  assert.equal(scoreConfidence(DATA).fields[PRESCHOOL].confidence, undefined);
+});
+
+test('the review queue lists fields under the threshold, lowest first, with their page', () => {
+  const located = provenance({
+    [NAME]: { status: 'exact', page: 1, span: 'Jordan Sample', score: 1, possiblyHallucinated: false },
+    [STRENGTHS]: { status: 'fuzzy', page: 2, span: 'Jordan reads', score: 0.5, possiblyHallucinated: false }
+  });
+  const report = scoreConfidence(DATA, [], located);
+  const queue = buildReviewQueue(report, DATA, located);
+  assert.deepEqual(queue.map(item => item.pointer), [ZIP, STRENGTHS]);
+  assert.equal(queue[1].page, 2);
+  assert.equal(queue[0].value, '4300');
+  assert.equal(report.sections["CHILD'S INFORMATION"].lowConfidenceFields, 1);
+});
+
+test('scores fall into the readme bands', () => {
+  assert.deepEqual([95, 90, 89, 70, 69, 50, 49].map(confidenceBand), ['excellent', 'excellent', 'good', 'good', 'fair', 'fair', 'poor']);
+});
@@ -0,0 +1,299 @@
+/**
+ * Per-Field Confidence Scores
+ *
+ * Scores every extracted value from up to three signals:
+ * - agreement: how closely repeated or multi-model extractions agree with the
+ *   primary value (exact match for short values, word overlap for narratives)
+ * - corroboration: whether the value was found in the text layer (provenance)
+ * - format: whether dates, phone numbers, ZIPs, frequencies and amounts of
+ *   time normalize (see field-normalization.ts) and emails and goal
+ *   references look like what the form prints
+ *
+ * Confidence is the weighted mean of the signals that apply to a field;
+ * checkboxes from a single run have no signal and are left unscored. Scores
+ * roll up per top-level section and per document, using the readme bands
+ * (90-100% excellent, 70-89% good, 50-69% fair, <50% poor). Fields under
+ * the review threshold form the human review queue.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NormalizedKind, fieldKind, normalizeValue } from '../normalization/field-normalization';
+import { ProvenanceReport } from '../provenance/field-provenance';
+import { getByPointer, listLeaves, parsePointer, topLevelSection } from '../utils/json-pointer';
+
+/**
+ * Signals behind a field's confidence (each 0-1, absent when not applicable)
+ */
+export interface ConfidenceSignals {
+  agreement?: number;
+  corroboration?: number;
+  format?: number;
+}
+
+/**
+ * Confidence of a single extracted value
+ */
+export interface FieldConfidence {
+  /** 0-1, absent when no signal applies */
+  confidence?: number;
+  signals: ConfidenceSignals;
+  /** Why the score is low, in plain words */
+  reasons: string[];
+}
+
+export type ConfidenceBand = 'excellent' | 'good' | 'fair' | 'poor';
+
+/**
+ * Confidence rolled up over a section or the whole document
+ */
+export interface ConfidenceRollup {
+  /** 0-100 */
+  score: number;
+  band: ConfidenceBand;
+  scoredFields: number;
+  lowConfidenceFields: number;
+}
+
+/**
+ * Confidence for a whole extraction
+ */
+export interface ConfidenceReport {
+  threshold: number;
+  /** Number of extractions compared (1 = no agreement signal) */
+  runs: number;
+  fields: Record<string, FieldConfidence>;
+  sections: Record<string, ConfidenceRollup>;
+  document: ConfidenceRollup;
+}
+
+/**
+ * Entry in the human review queue
+ */
+export interface ReviewQueueItem {
+  pointer: string;
+  section: string;
+  value: unknown;
+  confidence: number;
+  signals: ConfidenceSignals;
+  reasons: string[];
+  page?: number;
+}
+
+/**
+ * Options for scoring
+ */
+export interface ConfidenceOptions {
+  /** Fields below this confidence (0-1) go to the review queue (default: 0.7) */
+  threshold?: number;
+  /** Signal weights (default: agreement 0.4, corroboration 0.4, format 0.2) */
+  weights?: Required<ConfidenceSignals>;
+}
+
+const DEFAULT_THRESHOLD = 0.7;
+const DEFAULT_WEIGHTS: Required<ConfidenceSignals> = { agreement: 0.4, corroboration: 0.4, format: 0.2 };
+// Values with at least this many words are compared by word overlap, not equality
+const NARRATIVE_WORDS = 4;
+// Format names used in review reasons ("not a valid ZIP code")
+const FORMAT_NAMES: Record<NormalizedKind, string> = {
+  date: 'date',
+  phone: 'phone number',
+  zip: 'ZIP code',
+  frequency: 'frequency',
+  duration: 'amount of time'
+};
+
+/**
+ * Score every extracted value
+ *
+ * @param data - Primary extraction
+ * @param comparisons - Other extractions of the same document (repeated runs or other models)
+ * @param provenance - Text-layer provenance for the primary extraction, if available
+ * @param options - Review threshold and signal weights
+ * @returns Per-field scores with section and document rollups
+ */
+export function scoreConfidence(
+  data: unknown,
+  comparisons: unknown[] = [],
+  provenance?: ProvenanceReport,
+  options: ConfidenceOptions = {}
+): ConfidenceReport {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const weights = options.weights || DEFAULT_WEIGHTS;
+  const fields: Record<string, FieldConfidence> = {};
+
+  for (const leaf of listLeaves(data)) {
+    if (leaf.value === null || leaf.value === '' || typeof leaf.value === 'undefined') {
+      continue;
+    }
+
+    const signals: ConfidenceSignals = {};
+    const reasons: string[] = [];
+
+    if (comparisons.length > 0) {
+      const similarities = comparisons.map(other => similarity(leaf.value, getByPointer(other, leaf.pointer)));
+      signals.agreement = round(similarities.reduce((sum, value) => sum + value, 0) / similarities.length);
+      if (signals.agreement < 1) {
+        reasons.push(`${similarities.filter(value => value < 1).length}/${comparisons.length} other runs disagree`);
+      }
+    }
+
+    const located = provenance?.fields[leaf.pointer];
+    if (located && located.status !== 'unchecked') {
+      signals.corroboration = located.status === 'exact' ? 1 : located.status === 'fuzzy' ? (located.score || 0) : 0;
+      if (located.status === 'not-found') {
+        reasons.push('no supporting text in the document');
+      } else if (located.status === 'fuzzy') {
+        reasons.push(`only ${Math.round((located.score || 0) * 100)}% of words found in the document`);
+      }
+    }
+
+    const formatCheck = checkFormat(leaf.pointer, leaf.value);
+    if (formatCheck) {
+      signals.format = formatCheck.valid ? 1 : 0;
+      if (!formatCheck.valid) reasons.push(`not a valid ${formatCheck.kind}`);
+    }
+
+    fields[leaf.pointer] = { confidence: combine(signals, weights), signals, reasons };
+  }
+
+  const bySection = new Map<string, FieldConfidence[]>();
+  for (const [pointer, field] of Object.entries(fields)) {
+    const section = topLevelSection(pointer);
+    bySection.set(section, [...(bySection.get(section) || []), field]);
+  }
+
+  const sections: Record<string, ConfidenceRollup> = {};
+  for (const [section, sectionFields] of bySection) {
+    sections[section] = rollup(sectionFields, threshold);
+  }
+
+  return {
+    threshold,
+    runs: comparisons.length + 1,
+    fields,
+    sections,
+    document: rollup(Object.values(fields), threshold)
+  };
+}
+
+/**
+ * Fields under the review threshold, lowest confidence first
+ *
+ * @param report - Confidence report
+ * @param data - The scored extraction (for the values)
+ * @param provenance - Provenance, to point reviewers at a page
+ */
+export function buildReviewQueue(report: ConfidenceReport, data: unknown, provenance?: ProvenanceReport): ReviewQueueItem[] {
+  return Object.entries(report.fields)
+    .filter(([, field]) => field.confidence !== undefined && field.confidence < report.threshold)
+    .map(([pointer, field]) => ({
+      pointer,
+      section: topLevelSection(pointer),
+      value: getByPointer(data, pointer),
+      confidence: field.confidence as number,
+      signals: field.signals,
+      reasons: field.reasons,
+      page: provenance?.fields[pointer]?.page
+    }))
+    .sort((a, b) => a.confidence - b.confidence);
+}
+
+/**
+ * Write the review queue for a document as JSON
+ *
+ * @param outputPath - Destination .json file (directories are created)
+ * @param sourceFile - Document the queue belongs to
+ * @param queue - Review queue items
+ */
+export function exportReviewQueue(outputPath: string, sourceFile: string, queue: ReviewQueueItem[]): void {
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify({
+    sourceFile: path.basename(sourceFile),
+    createdAt: new Date().toISOString(),
+    itemCount: queue.length,
+    items: queue
+  }, null, 2));
+}
+
+/**
+ * Readme band for a 0-100 score
+ */
+export function confidenceBand(score: number): ConfidenceBand {
+  if (score >= 90) return 'excellent';
+  if (score >= 70) return 'good';
+  if (score >= 50) return 'fair';
+  return 'poor';
+}
+
+/**
+ * Similarity of two values: equality for short values, word overlap for narratives
+ */
+function similarity(a: unknown, b: unknown): number {
+  if (b === undefined || b === null) return 0;
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 1;
+
+  const leftWords = new Set(left.match(/[a-z0-9]+/g) || []);
+  const rightWords = new Set(right.match(/[a-z0-9]+/g) || []);
+  if (leftWords.size < NARRATIVE_WORDS && rightWords.size < NARRATIVE_WORDS) return 0;
+
+  const shared = [...leftWords].filter(word => rightWords.has(word)).length;
+  const union = new Set([...leftWords, ...rightWords]).size;
+  return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * Format check for fields whose names say what they hold
+ */
+function checkFormat(pointer: string, value: unknown): { kind: string; valid: boolean } | undefined {
+  if (typeof value === 'boolean') return undefined;
+  const name = (parsePointer(pointer).pop() || '').toUpperCase();
+  const text = String(value).trim();
+
+  const kind = fieldKind(pointer);
+  if (kind) {
+    return { kind: FORMAT_NAMES[kind], valid: normalizeValue(kind, text).value !== undefined };
+  }
+  if (/EMAIL/.test(name)) {
+    return { kind: 'email address', valid: /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text) };
+  }
+  if (/GOAL ADDRESSED/.test(name)) {
+    return { kind: 'goal number', valid: /^\d+(\s*[,&]\s*\d+)*$/.test(text) || /^(n\/a|all)$/i.test(text) };
+  }
+  return undefined;
+}
+
+function combine(signals: ConfidenceSignals, weights: Required<ConfidenceSignals>): number | undefined {
+  let total = 0;
+  let weight = 0;
+  for (const key of Object.keys(weights) as Array<keyof ConfidenceSignals>) {
+    const value = signals[key];
+    if (value !== undefined) {
+      total += value * weights[key];
+      weight += weights[key];
+    }
+  }
+  return weight === 0 ? undefined : round(total / weight);
+}
+
+function rollup(fields: FieldConfidence[], threshold: number): ConfidenceRollup {
+  const scored = fields.filter(field => field.confidence !== undefined);
+  const mean = scored.length === 0 ? 0 : scored.reduce((sum, field) => sum + (field.confidence as number), 0) / scored.length;
+  const score = Math.round(mean * 100);
+  return {
+    score,
+    band: confidenceBand(score),
+    scoredFields: scored.length,
+    lowConfidenceFields: scored.filter(field => (field.confidence as number) < threshold).length
+  };
+}
+
+function normalize(value: unknown): string {
+  return String(value).toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateScores, scoreFields } from './field-scorer';
+
+const outcomes = (report: ReturnType<typeof scoreFields>) =>
+  Object.fromEntries(report.details.map(detail => [detail.pointer, detail.outcome]));
+
+test('each leaf is correct, incorrect, missing or spurious', () => {
+  const report = scoreFields(
+    { IEP: { A: { NAME: 'Jordan Sample', GRADE: '6', SCHOOL: 'Lakeside' } } },
+    { IEP: { A: { NAME: 'Jordan Sample', GRADE: '7', CITY: 'Sampleton' } } }
+  );
+  assert.deepEqual(outcomes(report), {
+    '/IEP/A/NAME': 'correct',
+    '/IEP/A/GRADE': 'incorrect',
+    '/IEP/A/SCHOOL': 'missing',
+    '/IEP/A/CITY': 'spurious'
+  });
+  assert.deepEqual(report.overall, { truePositives: 1, falsePositives: 2, falseNegatives: 2, precision: 0.333, recall: 0.333, f1: 0.333 });
+});
+
+test('blank text, unchecked boxes and zeros are not scored', () => {
+  const report = scoreFields(
+    { IEP: { NAME: 'Jordan Sample', NOTES: '', PRESCHOOL: false, MINUTES: 0, END: null } },
+    { IEP: { NAME: 'Someone Else', NOTES: '  ', PRESCHOOL: false, MINUTES: 0, END: null } }
+  );
+  assert.deepEqual(outcomes(report), { '/IEP/NAME': 'incorrect' });
+  assert.equal(report.overall.precision, 0);
+});
+
+test('dates, phones and frequencies match in any printed form', () => {
+  const report = scoreFields(
+    { IEP: { 'DATE OF BIRTH': '2014-01-15', 'HOME PHONE': '614-555-0100', Frequency: '2x/week' } },
+    { IEP: { 'DATE OF BIRTH': '1/15/2014', 'HOME PHONE': '(614) 555 0100', Frequency: '2 times per week' } }
+  );
+  assert.deepEqual(report.details.map(detail => [detail.match, detail.outcome]), [['date', 'correct'], ['phone', 'correct'], ['frequency', 'correct']]);
+});
+
+test('IDs are exact, short text is normalized and narratives are fuzzy', () => {
+  const narrative = 'Jordan reads at a third grade level and needs support with word problems';
+  const report = scoreFields(
+    { IEP: { 'ID NUMBER': 'A12', AREA: 'Reading, Fluency', PROFILE: narrative } },
+    { IEP: { 'ID NUMBER': 'a12', AREA: 'reading fluency', PROFILE: narrative.replace('needs support', 'needs help') } }
+  );
+  assert.deepEqual(report.details.map(detail => [detail.match, detail.outcome]), [['exact', 'incorrect'], ['normalized', 'correct'], ['fuzzy', 'correct']]);
+  assert.ok((report.details[2].similarity ?? 0) >= 0.8);
+});
+
+test('rules override the defaults; array indices collapse into one field', () => {
+  const expected = { IEP: { GOALS: [{ AREA: 'Reading' }, { AREA: 'Math' }], NOTES: 'Reviewed' } };
+  const actual = { IEP: { GOALS: [{ AREA: 'Reading comprehension' }, { AREA: 'Math' }], NOTES: 'Something else' } };
+  const report = scoreFields(expected, actual, { '/IEP/GOALS/*/AREA': { match: 'fuzzy', threshold: 0.6 }, '/IEP/NOTES': { match: 'ignore' } });
+  assert.deepEqual(outcomes(report), { '/IEP/GOALS/0/AREA': 'correct', '/IEP/GOALS/1/AREA': 'correct' });
+  assert.equal(report.fields['/IEP/GOALS/*/AREA'].truePositives, 2);
+});
+
+test('reports aggregate over documents', () => {
+  const one = scoreFields({ IEP: { NAME: 'A' } }, { IEP: { NAME: 'A' } });
+  const two = scoreFields({ IEP: { NAME: 'B' } }, { IEP: { NAME: 'C' } });
+  const total = aggregateScores([one, two]);
+  assert.equal(total.details.length, 2);
+  assert.deepEqual([total.overall.truePositives, total.overall.falsePositives, total.overall.falseNegatives], [1, 1, 1]);
+});
@@ -0,0 +1,272 @@
+/**
+ * Field-Level Accuracy Scorer
+ *
+ * Compares an extraction with its hand-verified ground truth leaf by leaf and
+ * reports precision, recall and F1 overall, per top-level section and per
+ * field (array indices collapsed to "*", so every goal's AREA is one field).
+ *
+ * Every non-empty leaf is one decision:
+ * - correct: present in both and matching -> true positive
+ * - incorrect: present in both, not matching -> false positive and false negative
+ * - missing: in the ground truth only -> false negative
+ * - spurious: in the extraction only -> false positive
+ *
+ * "", null, false and 0 are empty: the strict schema makes every field
+ * present, so blank text, unchecked boxes and unset numbers would otherwise
+ * all score as correct.
+ *
+ * Default comparison by field: exact for IDs, numbers and checkboxes; same
+ * date for dates; same digits for phones; same count and period for
+ * frequencies; fuzzy word similarity for narratives; case- and
+ * punctuation-insensitive for other text. Ground-truth rules override these.
+ */
+
+import { GroundTruth, MatchKind, ToleranceRule, findRule } from './ground-truth';
+import { fieldKind, formatFrequency, parseDate, parseFrequency, parsePhone } from '../normalization/field-normalization';
+import { listLeaves, parsePointer, toPointer, topLevelSection, JsonLeaf } from '../utils/json-pointer';
+
+export type FieldOutcome = 'correct' | 'incorrect' | 'missing' | 'spurious';
+
+/**
+ * Comparison of a single leaf
+ */
+export interface FieldScore {
+  pointer: string;
+  section: string;
+  match: MatchKind;
+  outcome: FieldOutcome;
+  expected?: unknown;
+  actual?: unknown;
+  /** Word similarity for fuzzy matches */
+  similarity?: number;
+}
+
+/**
+ * Precision/recall counts for a group of fields
+ */
+export interface ScoreCounts {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/**
+ * Scores for one document, or aggregated over several
+ */
+export interface ScoreReport {
+  overall: ScoreCounts;
+  sections: Record<string, ScoreCounts>;
+  /** Keyed by field pattern with array indices replaced by "*" */
+  fields: Record<string, ScoreCounts>;
+  details: FieldScore[];
+}
+
+// Default similarity needed for narratives to count as correct
+const DEFAULT_FUZZY_THRESHOLD = 0.8;
+// Ground-truth text with at least this many words is compared fuzzily by default
+const NARRATIVE_WORDS = 8;
+
+/**
+ * Score an extraction against its ground truth
+ *
+ * @param extracted - Extracted IEP data
+ * @param truth - Hand-verified ground truth with optional tolerance rules
+ * @returns Overall, per-section and per-field precision/recall with leaf details
+ */
+export function scoreAgainstGroundTruth(extracted: unknown, truth: GroundTruth): ScoreReport {
+  return scoreFields(truth.data, extracted, truth.rules);
+}
+
+/**
+ * Score an extraction against a reference extraction of any form
+ *
+ * @param reference - Data taken as correct
+ * @param extracted - Data to score
+ * @param rules - Tolerance rules by pointer pattern (default: by field)
+ * @returns Overall, per-section and per-field precision/recall with leaf details
+ */
+export function scoreFields(reference: unknown, extracted: unknown, rules?: Record<string, ToleranceRule>): ScoreReport {
+  const expected = leafMap(reference);
+  const actual = leafMap(extracted);
+  const pointers = [...new Set([...expected.keys(), ...actual.keys()])];
+
+  const details: FieldScore[] = [];
+  for (const pointer of pointers) {
+    const expectedValue = expected.get(pointer);
+    const actualValue = actual.get(pointer);
+    const rule = findRule(rules, pointer) || defaultRule(pointer, expectedValue ?? actualValue);
+    if (rule.match === 'ignore') continue;
+
+    const score: FieldScore = {
+      pointer,
+      section: topLevelSection(pointer),
+      match: rule.match,
+      outcome: 'correct',
+      expected: expectedValue,
+      actual: actualValue
+    };
+
+    if (expectedValue === undefined) {
+      score.outcome = 'spurious';
+    } else if (actualValue === undefined) {
+      score.outcome = 'missing';
+    } else {
+      const comparison = compareValues(expectedValue, actualValue, rule);
+      score.outcome = comparison.matches ? 'correct' : 'incorrect';
+      if (comparison.similarity !== undefined) score.similarity = comparison.similarity;
+    }
+    details.push(score);
+  }
+
+  return summarize(details);
+}
+
+/**
+ * Combine per-document reports into one (details are concatenated)
+ */
+export function aggregateScores(reports: ScoreReport[]): ScoreReport {
+  return summarize(reports.flatMap(report => report.details));
+}
+
+/**
+ * Compare two leaf values under a tolerance rule
+ *
+ * @returns Whether they match, plus the similarity for fuzzy comparisons
+ */
+export function compareValues(expected: unknown, actual: unknown, rule: ToleranceRule): { matches: boolean; similarity?: number } {
+  switch (rule.match) {
+    case 'exact':
+      return { matches: String(expected).trim() === String(actual).trim() };
+    case 'date': {
+      const left = parseDate(String(expected));
+      const right = parseDate(String(actual));
+      return { matches: left !== undefined ? left === right : normalizeText(expected) === normalizeText(actual) };
+    }
+    case 'phone': {
+      const left = parsePhone(String(expected));
+      const right = parsePhone(String(actual));
+      return { matches: left !== undefined ? left === right : String(expected).replace(/\D/g, '') === String(actual).replace(/\D/g, '') };
+    }
+    case 'frequency': {
+      const left = parseFrequency(String(expected));
+      const right = parseFrequency(String(actual));
+      return {
+        matches: left !== undefined
+          ? !!right && formatFrequency(left) === formatFrequency(right)
+          : normalizeText(expected) === normalizeText(actual)
+      };
+    }
+    case 'fuzzy': {
+      const similarity = wordSimilarity(String(expected), String(actual));
+      return { matches: similarity >= (rule.threshold ?? DEFAULT_FUZZY_THRESHOLD), similarity: Math.round(similarity * 100) / 100 };
+    }
+    case 'ignore':
+      return { matches: true };
+    default:
+      return { matches: normalizeText(expected) === normalizeText(actual) };
+  }
+}
+
+/**
+ * Default rule from the field name and the value type
+ */
+function defaultRule(pointer: string, value: unknown): ToleranceRule {
+  if (typeof value === 'boolean' || typeof value === 'number') return { match: 'exact' };
+
+  const kind = fieldKind(pointer);
+  if (kind === 'phone' || kind === 'date' || kind === 'frequency') return { match: kind };
+
+  const name = (parsePointer(pointer).filter(segment => !/^\d+$/.test(segment)).pop() || '').toUpperCase();
+  if (/\bID\b|NUMBER|#|^ZIP|^STATE$|^GRADE$/.test(name)) return { match: 'exact' };
+
+  const words = String(value).trim().split(/\s+/).length;
+  return words >= NARRATIVE_WORDS ? { match: 'fuzzy', threshold: DEFAULT_FUZZY_THRESHOLD } : { match: 'normalized' };
+}
+
+/**
+ * Non-empty leaves keyed by pointer ("", null, false and 0 are treated as absent)
+ */
+function leafMap(data: unknown): Map<string, JsonLeaf['value']> {
+  const map = new Map<string, JsonLeaf['value']>();
+  if (data === null || typeof data !== 'object') return map;
+  for (const leaf of listLeaves(data)) {
+    if (leaf.value === null || typeof leaf.value === 'undefined') continue;
+    if (typeof leaf.value === 'string' && leaf.value.trim() === '') continue;
+    if (leaf.value === false || leaf.value === 0) continue;
+    map.set(leaf.pointer, leaf.value);
+  }
+  return map;
+}
+
+function summarize(details: FieldScore[]): ScoreReport {
+  const sections = new Map<string, FieldScore[]>();
+  const fields = new Map<string, FieldScore[]>();
+  for (const detail of details) {
+    sections.set(detail.section, [...(sections.get(detail.section) || []), detail]);
+    const field = fieldPattern(detail.pointer);
+    fields.set(field, [...(fields.get(field) || []), detail]);
+  }
+
+  return {
+    overall: count(details),
+    sections: Object.fromEntries([...sections].map(([section, scores]) => [section, count(scores)])),
+    fields: Object.fromEntries([...fields].map(([field, scores]) => [field, count(scores)])),
+    details
+  };
+}
+
+function count(scores: FieldScore[]): ScoreCounts {
+  const truePositives = scores.filter(score => score.outcome === 'correct').length;
+  const falsePositives = scores.filter(score => score.outcome === 'incorrect' || score.outcome === 'spurious').length;
+  const falseNegatives = scores.filter(score => score.outcome === 'incorrect' || score.outcome === 'missing').length;
+  const precision = truePositives + falsePositives === 0 ? 1 : truePositives / (truePositives + falsePositives);
+  const recall = truePositives + falseNegatives === 0 ? 1 : truePositives / (truePositives + falseNegatives);
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(f1)
+  };
+}
+
+/**
+ * Pointer with array indices replaced by "*"
+ */
+function fieldPattern(pointer: string): string {
+  return toPointer(parsePointer(pointer).map(segment => (/^\d+$/.test(segment) ? '*' : segment)));
+}
+
+function normalizeText(value: unknown): string {
+  return String(value).toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Dice coefficient over word multisets
+ */
+function wordSimilarity(a: string, b: string): number {
+  const left = normalizeText(a).split(' ').filter(Boolean);
+  const right = normalizeText(b).split(' ').filter(Boolean);
+  if (left.length === 0 && right.length === 0) return 1;
+
+  const counts = new Map<string, number>();
+  left.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  let shared = 0;
+  for (const word of right) {
+    const remaining = counts.get(word) || 0;
+    if (remaining > 0) {
+      shared++;
+      counts.set(word, remaining - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
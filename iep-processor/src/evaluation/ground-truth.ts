@@ -0,0 +1,116 @@
+/**
+ * Ground-Truth Annotations
+ *
+ * A ground-truth file is a hand-verified extraction of one sample document,
+ * stored as <sample basename>.json in the ground-truth directory:
+ *
+ *   {
+ *     "sourceFile": "sample_iep.pdf",
+ *     "annotatedBy": "initials",
+ *     "annotatedAt": "2025-01-15",
+ *     "data": { "IEP": { ... } },
+ *     "rules": {
+ *       "/IEP/3. PROFILE": { "match": "fuzzy", "threshold": 0.7 },
+ *       "/IEP/IEP TIMELINES/OTHER": { "match": "ignore" }
+ *     }
+ *   }
+ *
+ * `data` has the FormSpecificIEPData shape. `rules` are optional per-field
+ * tolerance overrides keyed by JSON pointer. A "*" segment matches any array
+ * index or key, so one rule can cover the AREA of every goal. Fields without
+ * a rule use the scorer's defaults.
+ *
+ * Ground-truth files hold student data and are git-ignored.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { FormSpecificIEPData } from '../types/form-specific-iep-data';
+import { parsePointer } from '../utils/json-pointer';
+
+/**
+ * How a field is compared against ground truth
+ * - exact: identical after trimming (IDs, numbers, booleans)
+ * - date: same calendar date in any printed format
+ * - phone: same digits
+ * - frequency: same count and period ("2x/week" = "2 times per week")
+ * - normalized: case, whitespace and punctuation ignored
+ * - fuzzy: word-level similarity at or above the threshold (narratives)
+ * - ignore: not scored
+ */
+export type MatchKind = 'exact' | 'date' | 'phone' | 'frequency' | 'normalized' | 'fuzzy' | 'ignore';
+
+/**
+ * Per-field tolerance rule
+ */
+export interface ToleranceRule {
+  match: MatchKind;
+  /** Minimum similarity (0-1) for fuzzy matches */
+  threshold?: number;
+}
+
+/**
+ * A hand-verified extraction of one sample
+ */
+export interface GroundTruth {
+  sourceFile: string;
+  annotatedBy?: string;
+  annotatedAt?: string;
+  notes?: string;
+  data: FormSpecificIEPData;
+  rules?: Record<string, ToleranceRule>;
+}
+
+/**
+ * Default directory for ground-truth files
+ */
+export const DEFAULT_GROUND_TRUTH_DIR = path.join(process.cwd(), 'ground-truth');
+
+/**
+ * Path of the ground-truth file for a sample document
+ */
+export function groundTruthPath(groundTruthDir: string, samplePath: string): string {
+  return path.join(groundTruthDir, `${path.basename(samplePath, path.extname(samplePath))}.json`);
+}
+
+/**
+ * Load the ground truth for a sample, if it has been annotated
+ *
+ * @param samplePath - Path to the sample document
+ * @param groundTruthDir - Directory of ground-truth files (default: ./ground-truth)
+ * @returns GroundTruth, or undefined when the sample has no annotation
+ */
+export function loadGroundTruth(samplePath: string, groundTruthDir: string = DEFAULT_GROUND_TRUTH_DIR): GroundTruth | undefined {
+  const filePath = groundTruthPath(groundTruthDir, samplePath);
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!parsed?.data?.IEP) {
+    throw new Error(`Invalid ground truth ${filePath}: expected { "data": { "IEP": { ... } } }`);
+  }
+  return parsed as GroundTruth;
+}
+
+/**
+ * Rule for a pointer: the most specific matching pattern wins
+ * (fewest wildcards, then longest)
+ */
+export function findRule(rules: Record<string, ToleranceRule> | undefined, pointer: string): ToleranceRule | undefined {
+  if (!rules) return undefined;
+  const segments = parsePointer(pointer);
+
+  let best: { rule: ToleranceRule; wildcards: number; length: number } | undefined;
+  for (const [pattern, rule] of Object.entries(rules)) {
+    const patternSegments = parsePointer(pattern);
+    if (patternSegments.length !== segments.length) continue;
+    if (!patternSegments.every((segment, index) => segment === '*' || segment === segments[index])) continue;
+
+    const wildcards = patternSegments.filter(segment => segment === '*').length;
+    if (!best || wildcards < best.wildcards || (wildcards === best.wildcards && pattern.length > best.length)) {
+      best = { rule, wildcards, length: pattern.length };
+    }
+  }
+  return best?.rule;
+}
@@ -1,65 +1,17 @@
-import OpenAI from 'openai';
-import * as fs from 'fs';
-import * as path from 'path';
+import { FormSpecificIEPData, ApiUsage } from '../types/form-specific-iep-data';
+import { ExtractionProvider, ReasoningEffort, createProvider } from '../providers';
+import { DocumentInputMode, LoadedDocument, loadDocument, formatDocumentText } from '../ingestion/document-loader';
+import { SectionData, loadExtractionSchema, pickSections } from './schema-sections';
+import { compactExtractionSchema, getExtractionSchema } from '../schema/registry';
+import type { FormData, FormDefinition } from '../forms/types';
+import { logger } from '../logging/logger';
 
 // Load environment variables
 import * as dotenv from 'dotenv';
 dotenv.config();
 
-// Types for API usage and response
-interface ApiUsage {
-  prompt_tokens: number;
-  completion_tokens: number;
-  reasoning_tokens: number;
-  total_tokens: number;
-  cost_usd: number;
-}
-
-interface FormSpecificIEPData {
-  [key: string]: any;
-}
-
-/**
- * Calculate cost for o4-mini-2025-04-16 model
- */
-function calculate_cost(model: string, inputTokens: number, outputTokens: number, cachedInputTokens: number = 0): number {
-  // Pricing known for o4-mini-2025-04-16; default to 0 for unknown models
-  if (model === 'o4-mini-2025-04-16') {
-    const inputCostPerToken = 1.10 / 1000000;  // $1.10 per million input tokens
-    const outputCostPerToken = 4.40 / 1000000; // $4.40 per million output tokens
-    return (inputTokens * inputCostPerToken) + (outputTokens * outputCostPerToken);
-  }
-  if (model === 'gpt-5-2025-08-07') {
-    // GPT-5 pricing provided by user
-    const inputCostPerToken = 1.25 / 1_000_000;     // $1.25 per million
-    const cachedInputCostPerToken = 0.125 / 1_000_000; // $0.125 per million
-    const outputCostPerToken = 10.00 / 1_000_000;   // $10.00 per million
-    const nonCachedInput = Math.max(0, inputTokens - (cachedInputTokens || 0));
-    return (nonCachedInput * inputCostPerToken) + (cachedInputTokens * cachedInputCostPerToken) + (outputTokens * outputCostPerToken);
-  }
-  // TODO: add pricing for other models when available
-  return 0;
-}
-
-/**
- * Extract IEP data using OpenAI Responses API with complete master schema compliance
- */
-export async function extractWithFormSpecificCompliance(
-  filePath: string,
-  reasoningEffort: 'low' | 'medium' | 'high' = 'medium'
-): Promise<{data: FormSpecificIEPData; usage?: ApiUsage; model: string}> {
-  
-  const client = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY
-  });
-
-  // Prefer GPT-5 by default; allow override via env
-  const MODEL = process.env.OPENAI_MODEL || 'gpt-5-2025-08-07';
-
-  console.log(`📄 Processing: ${filePath.split('/').pop()}`);
-
-  // Enhanced comprehensive prompt for complete extraction
-  const prompt = `You are an expert at extracting structured data from IEP (Individualized Education Program) documents.
+// Enhanced comprehensive prompt for complete extraction
+export const FORM_SPECIFIC_PROMPT = `You are an expert at extracting structured data from IEP (Individualized Education Program) documents.
 
 Your task is to extract ALL information from this IEP document and structure it according to the provided JSON schema.
 
@@ -72,8 +24,10 @@ CRITICAL: You MUST extract ALL sections from the schema, including:
 **REQUIRED TOP-LEVEL SECTIONS:**
 - CHILD'S INFORMATION (all demographic fields)
 - PARENT/GUARDIAN INFORMATION (Parent/Guardian 1 and 2)
-- MEETING INFORMATION (dates, participants, meeting type)
+- MEETING INFORMATION (meeting date, meeting type checkboxes)
 - IEP TIMELINES (ETR dates, review dates)
+- IEP EFFECTIVE DATES
+- AMENDMENTS (one entry per amendment, [] if none)
 
 **ALL NUMBERED SECTIONS (1-15):**
 - "1. FUTURE PLANNING"
@@ -83,16 +37,14 @@ CRITICAL: You MUST extract ALL sections from the schema, including:
 - "5. POSTSECONDARY TRANSITION"
 - "6. MEASURABLE ANNUAL GOALS" (with PRESENT LEVEL and METHODS)
 - "7. SPECIALLY DESIGNED SERVICES" (with GOAL ADDRESSED, BEGIN/END dates)
-- "8. TRANSPORTATION"
+- "8. TRANSPORTATION AS A RELATED SERVICE"
 - "9. NONACADEMIC AND EXTRACURRICULAR ACTIVITIES"
 - "10. GENERAL FACTORS"
 - "11. LEAST RESTRICTIVE ENVIRONMENT"
 - "12. STATEWIDE AND DISTRICT WIDE TESTING"
-- "13. MEETING PARTICIPANTS"
-- "14. SIGNATURES"
-- "15. AMENDMENTS"
-- "16. IEP TEAM MEETING INFORMATION"
-- "17. SIGNATURES"
+- "13. EXEMPTIONS"
+- "14. MEETING PARTICIPANTS"
+- "15. SIGNATURES"
 
 **EXTRACTION RULES:**
 1. Extract ALL sections even if they appear empty - use "" for missing text, [] for missing arrays
@@ -167,17 +119,19 @@ CRITICAL: You MUST extract ALL sections from the schema, including:
 - For each service include: Description, Goal Addressed #, Provider Title, Location of Service, Begin Date, End Date, Amount of Time, Frequency
 - **CRITICAL: For Frequency, extract the COMPLETE frequency including numbers (e.g., "2 times per week", "5 times per week", "daily") - never just "per week"**
 - **CRITICAL: For Amount of Time, extract exact time values (e.g., "30 minutes", "60 minutes", "2 hours")**
-- Split into: SPECIALLY DESIGNED INSTRUCTION, RELATED SERVICES, ACCOMMODATIONS, MODIFICATIONS, ASSISTIVE TECHNOLOGY, SUPPORT FOR SCHOOL PERSONNEL
+- Split into: SPECIALLY DESIGNED INSTRUCTION, RELATED SERVICES, ASSISTIVE TECHNOLOGY, ACCOMMODATIONS, MODIFICATIONS, SUPPORT FOR SCHOOL PERSONNEL, SERVICE(S) TO SUPPORT MEDICAL NEEDS
 
 9️⃣ SECTIONS 8-15:
-- 8. TRANSPORTATION (all checkboxes and details)
-- 9. LEAST RESTRICTIVE ENVIRONMENT (full justification)
-- 10. TESTING AND EXEMPTIONS (all tables and accommodations)
-- 11-15. All remaining sections including Meeting Participants and Signatures
+- 8. TRANSPORTATION AS A RELATED SERVICE (all checkboxes and details)
+- 9. NONACADEMIC AND EXTRACURRICULAR ACTIVITIES
+- 10. GENERAL FACTORS (all checkboxes)
+- 11. LEAST RESTRICTIVE ENVIRONMENT (full justification, percentage of time in general education as a number)
+- 12. STATEWIDE AND DISTRICT WIDE TESTING and 13. EXEMPTIONS (all tables and accommodations)
+- 14. MEETING PARTICIPANTS and 15. SIGNATURES
 
 🚨 QUALITY CHECKS:
 - Verify all required sections are present
-- Ensure no custom field names - use exact master schema names
+- Ensure no custom field names - use exact schema names
 - Split combined strings into discrete fields
 - Extract complete service details with provider info
 - Include all dates and boolean values
@@ -185,94 +139,209 @@ CRITICAL: You MUST extract ALL sections from the schema, including:
 
 Extract EVERYTHING you see. This is a real IEP document with real data - extract it all!`;
 
-  try {
-    // Load the optimized form-specific schema (12k chars, all critical fields from canonical)
-    const schemaPath = path.join(process.cwd(), 'the_schema_optimized.json');
-    const formSchema = JSON.parse(fs.readFileSync(schemaPath, 'utf8'));
-
-    console.log(`   - Uploading file to OpenAI...`);
-    
-    // Upload file to OpenAI for Responses API
-    const file = await client.files.create({
-      file: fs.createReadStream(filePath),
-      purpose: 'user_data'
-    });
-
-    console.log(`   - File uploaded with ID: ${file.id}`);
-    console.log(`   - Calling OpenAI Responses API with form-specific schema...`);
-    
-    // Call OpenAI Responses API with proper file reference and complete master schema
-    const response = await client.responses.create({
-      model: MODEL,
-      reasoning: {
-        effort: reasoningEffort
-      },
-      input: [{
-        role: "user",
-        content: [
-          {
-            type: "input_file",
-            file_id: file.id
-          },
-          {
-            type: "input_text",
-            text: prompt
-          }
-        ]
-      }],
-      text: {
-        format: {
-          type: "json_schema",
-          name: "complete_iep_extraction",
-          strict: true,
-          schema: formSchema
-        }
-      }
-    });
-
-    console.log(`   - Parsing response...`);
-    
-    // Clean up uploaded file
-    await client.files.delete(file.id);
-    
-    // Parse the response
-    console.log(`   - Raw response text: ${response.output_text.substring(0, 200)}...`);
-    const extractedData = JSON.parse(response.output_text);
-    
-    // Calculate cost and usage
-    const responseUsage = response.usage;
-    const reasoningTokens = (responseUsage as any)?.reasoning_tokens || 0;
-    // Try to detect cached input tokens from known fields if present
-    const cachedInputTokens = (
-      (responseUsage as any)?.input_cached_tokens ||
-      (responseUsage as any)?.prompt_tokens_details?.cached_tokens ||
-      0
-    );
-    const usage: ApiUsage = {
-      prompt_tokens: responseUsage?.input_tokens || 0,
-      completion_tokens: responseUsage?.output_tokens || 0,
-      reasoning_tokens: reasoningTokens,
-      total_tokens: (responseUsage?.input_tokens || 0) + (responseUsage?.output_tokens || 0) + reasoningTokens,
-      cost_usd: calculate_cost(
-        MODEL,
-        responseUsage?.input_tokens || 0,
-        responseUsage?.output_tokens || 0,
-        cachedInputTokens
-      )
-    };
-
-    console.log(`   - Tokens: ${usage.total_tokens} (${reasoningTokens} reasoning)`);
-    console.log(`   - Cost: $${usage.cost_usd.toFixed(6)}`);
-    console.log(`✅ Extraction completed successfully`);
-
-    return {
-      data: extractedData,
-      usage,
-      model: MODEL
-    };
-
-  } catch (error) {
-    console.error(`   - Extraction failed: ${error}`);
-    throw error;
+/**
+ * Extract IEP data with complete canonical schema compliance
+ *
+ * @param filePath - Path to the IEP PDF file
+ * @param reasoningEffort - Reasoning effort for providers that support it
+ * @param provider - Extraction backend (default: resolved from IEP_PROVIDER, OpenAI otherwise)
+ * @param input - Input mode (default: file) and an already loaded text layer, if any
+ */
+export async function extractWithFormSpecificCompliance(
+  filePath: string,
+  reasoningEffort: ReasoningEffort = 'medium',
+  provider: ExtractionProvider = createProvider(),
+  input: { inputMode?: DocumentInputMode; document?: LoadedDocument } = {}
+): Promise<{data: FormSpecificIEPData; usage?: ApiUsage; model: string}> {
+
+  logger.info('Extracting', { file: filePath, provider: provider.name, model: provider.model });
+
+  // Provider failures propagate as ProviderErrors (see src/providers/errors.ts)
+  const formSchema = compactExtractionSchema(loadExtractionSchema());
+
+  const result = await provider.extract({
+    filePath,
+    prompt: FORM_SPECIFIC_PROMPT,
+    schema: formSchema,
+    schemaName: 'complete_iep_extraction',
+    reasoningEffort,
+    ...await resolveDocumentInput(filePath, input)
+  });
+  const usage = result.usage;
+
+  logUsage(usage);
+
+  return {
+    data: result.data,
+    usage,
+    model: result.model
+  };
+}
+
+/**
+ * Extract any registered form in a single call with its own prompt and schema
+ *
+ * @param form - Form definition (see src/forms)
+ * @param filePath - Path to the document
+ * @param reasoningEffort - Reasoning effort for providers that support it
+ * @param provider - Extraction backend
+ * @param input - Input mode and an already loaded text layer, if any
+ */
+export async function extractForm(
+  form: FormDefinition,
+  filePath: string,
+  reasoningEffort: ReasoningEffort = 'medium',
+  provider: ExtractionProvider = createProvider(),
+  input: { inputMode?: DocumentInputMode; document?: LoadedDocument } = {}
+): Promise<{data: FormData; usage?: ApiUsage; model: string}> {
+
+  logger.info(`Extracting ${form.name}`, { file: filePath, provider: provider.name, model: provider.model });
+
+  const result = await provider.extract<FormData>({
+    filePath,
+    prompt: form.prompt,
+    schema: compactExtractionSchema(getExtractionSchema(form.schemaFile)),
+    schemaName: form.schemaName,
+    reasoningEffort,
+    ...await resolveDocumentInput(filePath, input)
+  });
+
+  logUsage(result.usage);
+  return result;
+}
+
+/**
+ * Extract only the given top-level sections with a focused prompt and a
+ * sub-schema restricted to those sections
+ *
+ * @param filePath - Path to the IEP document
+ * @param sections - Top-level section names under IEP
+ * @param reasoningEffort - Reasoning effort for providers that support it
+ * @param provider - Extraction backend
+ * @param input - Input mode and an already loaded text layer, if any
+ * @returns Partial { IEP: { ...sections } } data with usage
+ */
+export async function extractSections(
+  filePath: string,
+  sections: string[],
+  reasoningEffort: ReasoningEffort = 'medium',
+  provider: ExtractionProvider = createProvider(),
+  input: { inputMode?: DocumentInputMode; document?: LoadedDocument } = {}
+): Promise<{data: SectionData; usage?: ApiUsage; model: string}> {
+
+  logger.debug('Extracting sections', { sections: sections.join(', ') });
+
+  const schema = compactExtractionSchema(pickSections(loadExtractionSchema(), sections));
+  const result = await provider.extract<SectionData>({
+    filePath,
+    prompt: buildSectionPrompt(sections),
+    schema,
+    schemaName: 'iep_section_extraction',
+    reasoningEffort,
+    ...await resolveDocumentInput(filePath, input)
+  });
+
+  return result;
+}
+
+/**
+ * Scope the full extraction prompt down to a subset of sections
+ */
+export function buildSectionPrompt(sections: string[]): string {
+  return `${FORM_SPECIFIC_PROMPT}
+
+**🎯 SCOPE FOR THIS REQUEST (OVERRIDES THE SECTION LISTS ABOVE):**
+Extract ONLY the following top-level sections under "IEP", exactly as named in the provided schema:
+${sections.map(section => `- "${section}"`).join('\n')}
+Ignore every other section. Use the section boundary rules above to find where each section starts and ends.`;
+}
+
+/**
+ * Ask the model for a targeted correction of a previous extraction
+ *
+ * The previous JSON and its validation errors are sent along with the
+ * document, and the model returns the complete corrected extraction against
+ * the full schema.
+ *
+ * @param filePath - Path to the IEP document
+ * @param previous - Extraction that failed validation
+ * @param errors - Validation and critical-check messages for that extraction
+ * @param reasoningEffort - Reasoning effort for providers that support it
+ * @param provider - Extraction backend
+ * @param input - Input mode and an already loaded text layer, if any
+ * @returns Corrected data with usage
+ */
+export async function repairExtraction(
+  filePath: string,
+  previous: FormSpecificIEPData,
+  errors: string[],
+  reasoningEffort: ReasoningEffort = 'medium',
+  provider: ExtractionProvider = createProvider(),
+  input: { inputMode?: DocumentInputMode; document?: LoadedDocument } = {}
+): Promise<{data: FormSpecificIEPData; usage?: ApiUsage; model: string}> {
+
+  logger.info('Requesting correction', { issues: errors.length });
+
+  const result = await provider.extract({
+    filePath,
+    prompt: buildRepairPrompt(previous, errors),
+    schema: compactExtractionSchema(loadExtractionSchema()),
+    schemaName: 'complete_iep_extraction',
+    reasoningEffort,
+    ...await resolveDocumentInput(filePath, input)
+  });
+
+  return result;
+}
+
+// Keep correction prompts bounded when a broken extraction yields hundreds of errors
+const MAX_REPAIR_ERRORS = 50;
+
+/**
+ * Build the correction prompt from a previous extraction and its errors
+ */
+export function buildRepairPrompt(previous: FormSpecificIEPData, errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPAIR_ERRORS);
+  const omitted = errors.length - listed.length;
+
+  return `${FORM_SPECIFIC_PROMPT}
+
+**🔧 CORRECTION REQUEST (OVERRIDES THE TASK ABOVE):**
+A previous extraction of this document failed validation. Re-read the document and return the COMPLETE corrected JSON.
+- Fix every issue listed below, checking each fix against the document.
+- Keep every value that is not affected by an issue exactly as it is.
+- If a service references a goal number that is missing from GOALS, look for that goal in the document before changing the reference.
+- Do not invent values to satisfy a check; use "" or [] when the document does not contain the information.
+
+VALIDATION ISSUES:
+${listed.map((error, index) => `${index + 1}. ${error}`).join('\n')}${omitted > 0 ? `\n... and ${omitted} more` : ''}
+
+PREVIOUS EXTRACTION:
+${JSON.stringify(previous, null, 2)}`;
+}
+
+/**
+ * Load the text layer when the input mode needs it
+ */
+async function resolveDocumentInput(
+  filePath: string,
+  input: { inputMode?: DocumentInputMode; document?: LoadedDocument }
+): Promise<{ inputMode: DocumentInputMode; documentText?: string }> {
+  // Text and file+text modes send the local page-indexed text layer
+  const inputMode = input.inputMode || 'file';
+  if (inputMode === 'file') {
+    return { inputMode };
+  }
+  const document = input.document || await loadDocument(filePath, { requireTextLayer: true });
+  logger.debug('Sending the text layer', { pages: document.pageCount, characters: document.text.length });
+  return { inputMode, documentText: formatDocumentText(document) };
+}
+
+/**
+ * Log the token usage and cost of an extraction call
+ */
+export function logUsage(usage: ApiUsage | undefined): void {
+  if (usage) {
+    logger.info('Model usage', { totalTokens: usage.total_tokens, reasoningTokens: usage.reasoning_tokens || 0, costUsd: usage.cost_usd });
   }
 }
@@ -0,0 +1,85 @@
+/**
+ * Hybrid Extraction: rule-based pass first, model only for the rest
+ *
+ * Runs the deterministic rule-based parser over the text layer, then calls
+ * the model only for the sections the parser could not fill (free-text
+ * sections, repeating tables, or sections whose labels were not all found).
+ * Dates, phone numbers and IDs in rule-filled sections are therefore read
+ * verbatim from the form instead of being generated.
+ */
+
+import { FormSpecificIEPData, ApiUsage } from '../types/form-specific-iep-data';
+import { ExtractionProvider, ReasoningEffort } from '../providers';
+import { DocumentInputMode, LoadedDocument } from '../ingestion/document-loader';
+import { extractByRules } from './rule-based-extractor';
+import { extractSections, logUsage } from './form-specific-extractor';
+import { loadExtractionSchema, mergeSectionResults } from './schema-sections';
+import { emptyUsage } from '../utils/usage';
+import { logger } from '../logging/logger';
+
+/**
+ * Where each top-level section came from
+ */
+export type SectionSource = 'rules' | 'model';
+
+/**
+ * Extract IEP data with the rule-based parser and fill the gaps with the model
+ *
+ * @param filePath - Path to the IEP document
+ * @param document - Loaded document with a usable text layer
+ * @param reasoningEffort - Reasoning effort for the model call
+ * @param provider - Extraction backend for the remaining sections
+ * @param inputMode - How the document is presented to the model
+ * @returns Merged data, model usage and the source of every section
+ */
+export async function extractHybrid(
+  filePath: string,
+  document: LoadedDocument,
+  reasoningEffort: ReasoningEffort,
+  provider: ExtractionProvider,
+  inputMode: DocumentInputMode = 'file'
+): Promise<{data: FormSpecificIEPData; usage?: ApiUsage; model: string; sectionSources: Record<string, SectionSource>}> {
+
+  logger.info('Extracting (hybrid)', { file: filePath, provider: provider.name, model: provider.model });
+
+  const schema = loadExtractionSchema();
+  const rules = extractByRules(document, schema);
+
+  const sectionSources: Record<string, SectionSource> = {};
+  for (const section of rules.filledSections) {
+    sectionSources[section] = 'rules';
+  }
+
+  if (rules.unfilledSections.length === 0) {
+    logger.info('All sections filled from the text layer; no model call needed');
+    return {
+      data: rules.data as unknown as FormSpecificIEPData,
+      usage: emptyUsage(),
+      model: 'rules',
+      sectionSources
+    };
+  }
+
+  const modelResult = await extractSections(
+    filePath,
+    rules.unfilledSections,
+    reasoningEffort,
+    provider,
+    { inputMode, document }
+  );
+  for (const section of rules.unfilledSections) {
+    sectionSources[section] = 'model';
+  }
+
+  const data = mergeSectionResults(schema, [modelResult.data, rules.data]);
+
+  logUsage(modelResult.usage);
+  logger.info('Hybrid extraction completed', { ruleSections: rules.filledSections.length, modelSections: rules.unfilledSections.length });
+
+  return {
+    data: data as unknown as FormSpecificIEPData,
+    usage: modelResult.usage,
+    model: modelResult.model,
+    sectionSources
+  };
+}
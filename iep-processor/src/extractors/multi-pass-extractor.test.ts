@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiUsage } from '../types/form-specific-iep-data';
+import { ExtractionProvider, ExtractionRequest } from '../providers/types';
+import { ProviderError } from '../providers/errors';
+import { configureLogger } from '../logging/logger';
+import { DEFAULT_PASSES, extractMultiPass, planPasses } from './multi-pass-extractor';
+import { listSections, loadExtractionSchema } from './schema-sections';
+
+configureLogger({ quiet: true });
+
+const FILE = 'synthetic-iep.pdf';
+const USAGE: ApiUsage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, cost_usd: 0.01 };
+
+/**
+ * Provider answering every section with its own name, tracking calls in flight
+ */
+function stubProvider(fail?: (sections: string[]) => Error | undefined) {
+  const stats = { calls: 0, inFlight: 0, maxInFlight: 0 };
+  const provider: ExtractionProvider = {
+    name: 'stub',
+    model: 'stub-model',
+    async extract<T>(request: ExtractionRequest) {
+      const sections = Object.keys(request.schema.properties.IEP.properties);
+      stats.calls++;
+      stats.inFlight++;
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      stats.inFlight--;
+      const error = fail?.(sections);
+      if (error) throw error;
+      const data = { IEP: Object.fromEntries(sections.map(section => [section, { extractedAs: section }])) };
+      return { data: data as T, usage: USAGE, model: 'stub-model' };
+    }
+  };
+  return { provider, stats };
+}
+
+test('passes match sections without their numbers and leave the rest to a final pass', () => {
+  const plan = planPasses(["CHILD'S INFORMATION", '4. PROFILE', '9. MEASURABLE ANNUAL GOALS', 'NEW SECTION']);
+  assert.deepEqual(plan, [
+    { name: 'child-parent-info', sections: ["CHILD'S INFORMATION"] },
+    { name: 'profile', sections: ['4. PROFILE'] },
+    { name: 'goals', sections: ['9. MEASURABLE ANNUAL GOALS'] },
+    { name: 'remaining', sections: ['NEW SECTION'] }
+  ]);
+});
+
+test('no more passes run at once than the concurrency allows', async () => {
+  for (const concurrency of [1, 3]) {
+    const { provider, stats } = stubProvider();
+    const result = await extractMultiPass(FILE, 'low', provider, {}, DEFAULT_PASSES, concurrency);
+    assert.equal(stats.calls, result.passes.length);
+    assert.equal(stats.maxInFlight, concurrency);
+    assert.equal(result.usage.cost_usd.toFixed(2), (0.01 * result.passes.length).toFixed(2));
+  }
+});
+
+test('pass results are merged in schema order with every section extracted once', async () => {
+  const { provider } = stubProvider();
+  const result = await extractMultiPass(FILE, 'low', provider, {}, DEFAULT_PASSES, 2);
+  const sections = Object.keys(result.data.IEP);
+  assert.deepEqual(sections, listSections(loadExtractionSchema()));
+  assert.deepEqual(result.passes.flatMap(pass => pass.sections).sort(), [...sections].sort());
+  for (const section of sections) {
+    assert.deepEqual((result.data.IEP as Record<string, unknown>)[section], { extractedAs: section });
+  }
+});
+
+test('a failed pass fails the extraction under its code with the usage of every pass', async () => {
+  const { provider } = stubProvider(sections =>
+    sections.some(section => section.endsWith('MEASURABLE ANNUAL GOALS')) ? new ProviderError('TRUNCATED', 'output cut off') : undefined
+  );
+  await assert.rejects(extractMultiPass(FILE, 'low', provider, {}, DEFAULT_PASSES, 2), (error: unknown) => {
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.code, 'TRUNCATED');
+    assert.match(error.message, /1 pass\(es\): goals \(output cut off\)/);
+    const passes = planPasses(listSections(loadExtractionSchema())).length;
+    assert.equal(error.usage?.cost_usd.toFixed(2), (0.01 * (passes - 1)).toFixed(2));
+    return true;
+  });
+});
+
+test('concurrency must be a positive integer', async () => {
+  const { provider, stats } = stubProvider();
+  for (const concurrency of [0, 1.5, NaN]) {
+    await assert.rejects(extractMultiPass(FILE, 'low', provider, {}, DEFAULT_PASSES, concurrency), /positive integer/);
+  }
+  assert.equal(stats.calls, 0);
+});
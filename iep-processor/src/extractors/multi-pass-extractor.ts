@@ -0,0 +1,213 @@
+/**
+ * Multi-Pass Extraction: one focused model call per group of sections
+ *
+ * Single-shot extraction asks for the whole schema in one strict call, and
+ * long IEPs lose goals past page breaks. Multi-pass splits the schema into
+ * per-section sub-schemas, runs a focused call for each pass and deep-merges
+ * the results into one document. Usage is tracked per pass.
+ *
+ * Passes are matched by section title without its number, so they keep
+ * working when sections are renumbered. Sections not claimed by any pass are
+ * extracted together in a final "remaining" pass.
+ *
+ * At most `concurrency` passes run at once (default: env IEP_PASS_CONCURRENCY
+ * or 2): every pass is an upload plus a model call, and a batch or the HTTP
+ * service multiplies them by its own concurrency.
+ */
+
+import { FormSpecificIEPData, ApiUsage } from '../types/form-specific-iep-data';
+import { ExtractionProvider, ProviderError, ProviderErrorCode, ReasoningEffort } from '../providers';
+import { DocumentInputMode, LoadedDocument } from '../ingestion/document-loader';
+import { extractSections, logUsage } from './form-specific-extractor';
+import { SectionData, listSections, loadExtractionSchema, mergeSectionResults, stripSectionNumber } from './schema-sections';
+import { failedUsage, sumUsage } from '../utils/usage';
+import { logger } from '../logging/logger';
+
+/**
+ * A group of sections extracted in one model call
+ */
+export interface PassDefinition {
+  name: string;
+  /** Section titles without their form numbers */
+  sections: string[];
+}
+
+/**
+ * Outcome of a single pass
+ */
+export interface ExtractionPass {
+  name: string;
+  sections: string[];
+  model?: string;
+  usage?: ApiUsage;
+  durationMs: number;
+  error?: string;
+  errorCode?: ProviderErrorCode;
+}
+
+/**
+ * Default pass layout for the IEP form
+ */
+export const DEFAULT_PASSES: PassDefinition[] = [
+  {
+    name: 'child-parent-info',
+    sections: ["CHILD'S INFORMATION", 'PARENT/GUARDIAN INFORMATION', 'MEETING INFORMATION', 'IEP TIMELINES', 'IEP EFFECTIVE DATES', 'AMENDMENTS']
+  },
+  {
+    name: 'profile',
+    sections: ['FUTURE PLANNING', 'SPECIAL INSTRUCTIONAL FACTORS', 'PROFILE', 'EXTENDED SCHOOL YEAR SERVICES']
+  },
+  {
+    name: 'transition',
+    sections: ['POSTSECONDARY TRANSITION']
+  },
+  {
+    name: 'goals',
+    sections: ['MEASURABLE ANNUAL GOALS']
+  },
+  {
+    name: 'services',
+    sections: ['SPECIALLY DESIGNED SERVICES', 'TRANSPORTATION AS A RELATED SERVICE', 'NONACADEMIC AND EXTRACURRICULAR ACTIVITIES', 'GENERAL FACTORS', 'LEAST RESTRICTIVE ENVIRONMENT']
+  },
+  {
+    name: 'testing',
+    sections: ['STATEWIDE AND DISTRICT WIDE TESTING', 'EXEMPTIONS']
+  },
+  {
+    name: 'signatures',
+    sections: ['MEETING PARTICIPANTS', 'IEP TEAM MEETING INFORMATION', 'SIGNATURES']
+  }
+];
+
+export const DEFAULT_PASS_CONCURRENCY = 2;
+
+/**
+ * Pass concurrency from IEP_PASS_CONCURRENCY, or the default
+ */
+export function passConcurrencyFromEnv(): number {
+  const value = parseInt(process.env.IEP_PASS_CONCURRENCY || '', 10);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_PASS_CONCURRENCY;
+}
+
+/**
+ * Resolve pass definitions against the schema's actual section names
+ *
+ * @param schemaSections - Top-level section names from the schema
+ * @param passes - Pass layout (default: DEFAULT_PASSES)
+ * @returns Passes with full section names; empty passes are dropped
+ */
+export function planPasses(schemaSections: string[], passes: PassDefinition[] = DEFAULT_PASSES): PassDefinition[] {
+  const claimed = new Set<string>();
+  const planned: PassDefinition[] = [];
+
+  for (const pass of passes) {
+    const sections = schemaSections.filter(section =>
+      !claimed.has(section) && pass.sections.includes(stripSectionNumber(section))
+    );
+    sections.forEach(section => claimed.add(section));
+    if (sections.length > 0) {
+      planned.push({ name: pass.name, sections });
+    }
+  }
+
+  const remaining = schemaSections.filter(section => !claimed.has(section));
+  if (remaining.length > 0) {
+    planned.push({ name: 'remaining', sections: remaining });
+  }
+
+  return planned;
+}
+
+/**
+ * Extract IEP data with one focused call per pass and merge the results
+ *
+ * @param filePath - Path to the IEP document
+ * @param reasoningEffort - Reasoning effort for every pass
+ * @param provider - Extraction backend
+ * @param input - Input mode and an already loaded text layer, if any
+ * @param passes - Pass layout (default: DEFAULT_PASSES)
+ * @param concurrency - Passes run at once (default: env IEP_PASS_CONCURRENCY or 2)
+ * @returns Merged data, total usage and per-pass details
+ * @throws Error - concurrency is not a positive integer
+ */
+export async function extractMultiPass(
+  filePath: string,
+  reasoningEffort: ReasoningEffort,
+  provider: ExtractionProvider,
+  input: { inputMode?: DocumentInputMode; document?: LoadedDocument } = {},
+  passes: PassDefinition[] = DEFAULT_PASSES,
+  concurrency: number = passConcurrencyFromEnv()
+): Promise<{data: FormSpecificIEPData; usage: ApiUsage; model: string; passes: ExtractionPass[]}> {
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Pass concurrency must be a positive integer, got ${concurrency}`);
+  }
+  logger.info('Extracting (multi-pass)', { file: filePath, provider: provider.name, model: provider.model, concurrency });
+
+  const schema = loadExtractionSchema();
+  const plan = planPasses(listSections(schema), passes);
+
+  logger.debug('Passes planned', { passes: plan.map(pass => pass.name).join(', ') });
+
+  const runPass = async (pass: PassDefinition): Promise<{ record: ExtractionPass; data?: SectionData }> => {
+    const startTime = Date.now();
+    try {
+      const result = await extractSections(filePath, pass.sections, reasoningEffort, provider, input);
+      const record: ExtractionPass = {
+        name: pass.name,
+        sections: pass.sections,
+        model: result.model,
+        usage: result.usage,
+        durationMs: Date.now() - startTime
+      };
+      logger.info('Pass completed', { pass: pass.name, costUsd: result.usage?.cost_usd || 0, durationMs: record.durationMs });
+      return { record, data: result.data };
+    } catch (error) {
+      const record: ExtractionPass = {
+        name: pass.name,
+        sections: pass.sections,
+        usage: failedUsage(error),
+        durationMs: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error),
+        errorCode: error instanceof ProviderError ? error.code : undefined
+      };
+      logger.warn('Pass failed', { pass: pass.name, code: record.errorCode, error: record.error });
+      return { record, data: undefined };
+    }
+  };
+
+  // Passes start in plan order; results keep that order for the merge
+  const outcomes: Array<{ record: ExtractionPass; data?: SectionData }> = new Array(plan.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < plan.length) {
+      const i = next++;
+      outcomes[i] = await runPass(plan[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, plan.length) }, worker));
+
+  const records = outcomes.map(outcome => outcome.record);
+  const failed = records.filter(record => record.error);
+  if (failed.length > 0) {
+    const message = `Multi-pass extraction failed in ${failed.length} pass(es): ${failed.map(record => `${record.name} (${record.error})`).join('; ')}`;
+    // Reported under the first failed pass's code, with the usage of every pass that was billed
+    const usage = sumUsage(records.map(record => record.usage));
+    throw failed[0].errorCode
+      ? new ProviderError(failed[0].errorCode, message, { provider: provider.name, usage })
+      : Object.assign(new Error(message), { usage });
+  }
+
+  const data = mergeSectionResults(schema, outcomes.map(outcome => outcome.data as SectionData));
+  const usage = sumUsage(records.map(record => record.usage));
+
+  logUsage(usage);
+  logger.info('Multi-pass extraction completed', { passes: records.length });
+
+  return {
+    data: data as unknown as FormSpecificIEPData,
+    usage,
+    model: records[0]?.model || provider.model,
+    passes: records
+  };
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiUsage, FormSpecificIEPData } from '../types/form-specific-iep-data';
+import { ExtractionProvider } from '../providers/types';
+import { configureLogger } from '../logging/logger';
+import { runRepairLoop } from './repair-loop';
+
+configureLogger({ quiet: true });
+
+const FILE = 'synthetic-iep.pdf';
+const VALID: FormSpecificIEPData = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'fixtures', 'default.json'), 'utf8'));
+
+const usage = (cost_usd: number): ApiUsage => ({ prompt_tokens: 100, completion_tokens: 50, total_tokens: 150, cost_usd });
+
+/**
+ * The valid fixture without some of its sections (one validation error each)
+ */
+function withoutSections(...sections: string[]): FormSpecificIEPData {
+  const data = structuredClone(VALID);
+  for (const section of sections) delete (data.IEP as Record<string, unknown>)[section];
+  return data;
+}
+
+/**
+ * Provider answering repair calls in turn (an Error is thrown)
+ */
+function repairProvider(answers: Array<FormSpecificIEPData | Error>) {
+  let calls = 0;
+  const provider: ExtractionProvider = {
+    name: 'stub',
+    model: 'stub-model',
+    async extract<T>() {
+      const answer = answers[calls++];
+      if (answer instanceof Error) throw answer;
+      return { data: answer as T, usage: usage(0.1), model: 'stub-model' };
+    }
+  };
+  return { provider, calls: () => calls };
+}
+
+const initial = (data: FormSpecificIEPData, cost = 0.1) => ({ data, usage: usage(cost), model: 'stub-model', durationMs: 1 });
+
+test('valid data is not sent for repair', async () => {
+  const { provider, calls } = repairProvider([]);
+  const result = await runRepairLoop(FILE, initial(VALID), 'low', provider);
+  assert.equal(calls(), 0);
+  assert.equal(result.repair.stopReason, 'valid');
+  assert.equal(result.repair.attempts.length, 1);
+});
+
+test('a repair that validates is kept and its cost added', async () => {
+  const { provider, calls } = repairProvider([VALID]);
+  const result = await runRepairLoop(FILE, initial(withoutSections('3. PROFILE')), 'low', provider);
+  assert.equal(calls(), 1);
+  assert.equal(result.validation.valid, true);
+  assert.equal(result.repair.stopReason, 'valid');
+  assert.equal(result.repair.selectedIteration, 1);
+  assert.equal(result.repair.initialErrorCount, 1);
+  assert.equal(result.repair.finalErrorCount, 0);
+  assert.equal(result.usage.cost_usd.toFixed(2), '0.20');
+});
+
+test('a repair with more issues never replaces a better earlier attempt', async () => {
+  const { provider } = repairProvider([withoutSections('3. PROFILE', '4. EXTENDED SCHOOL YEAR SERVICES', 'AMENDMENTS')]);
+  const result = await runRepairLoop(FILE, initial(withoutSections('3. PROFILE')), 'low', provider, {}, { maxIterations: 1 });
+  assert.equal(result.repair.stopReason, 'max-iterations');
+  assert.equal(result.repair.selectedIteration, 0);
+  assert.equal(result.repair.finalErrorCount, 1);
+  assert.equal(result.repair.attempts[1].errors.length > 1, true);
+});
+
+test('no repair starts when it would exceed the cost cap', async () => {
+  const { provider, calls } = repairProvider([VALID]);
+  const result = await runRepairLoop(FILE, initial(withoutSections('3. PROFILE'), 0.5), 'low', provider, {}, { maxCostUsd: 0.8 });
+  assert.equal(calls(), 0);
+  assert.equal(result.repair.stopReason, 'cost-cap');
+});
+
+test('a failed repair call stops the loop and keeps the extraction', async () => {
+  const { provider } = repairProvider([new Error('upstream unavailable')]);
+  const result = await runRepairLoop(FILE, initial(withoutSections('3. PROFILE')), 'low', provider);
+  assert.equal(result.repair.stopReason, 'repair-failed');
+  assert.equal(result.repair.selectedIteration, 0);
+  assert.equal(result.repair.attempts[1].error, 'upstream unavailable');
+});
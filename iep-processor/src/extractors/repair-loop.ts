@@ -0,0 +1,184 @@
+/**
+ * Self-Correcting Extraction Loop
+ *
+ * When an extraction fails Ajv validation or the critical form checks
+ * (e.g. "references Goal #3 not present in GOALS"), the errors and the
+ * previous JSON are sent back to the model for a targeted correction. The
+ * loop stops when the data validates, the iteration cap is reached, or the
+ * next repair would exceed the cost cap.
+ *
+ * Every attempt is recorded with its errors and cost. The attempt with the
+ * fewest issues is kept, so a repair that makes things worse never replaces
+ * a better earlier result.
+ */
+
+import { FormSpecificIEPData, ApiUsage, ValidationResult } from '../types/form-specific-iep-data';
+import { ExtractionProvider, ReasoningEffort } from '../providers';
+import { DocumentInputMode, LoadedDocument } from '../ingestion/document-loader';
+import { validateFormSpecificData } from '../validation/ajv-validator';
+import { repairExtraction } from './form-specific-extractor';
+import { failedUsage, sumUsage } from '../utils/usage';
+import { logger, timeSpan } from '../logging/logger';
+
+/**
+ * Repair loop limits
+ */
+export interface RepairOptions {
+  /** Maximum number of repair calls after the initial extraction (default: 2) */
+  maxIterations?: number;
+  /** Maximum total cost in USD for extraction plus repairs (default: no cap) */
+  maxCostUsd?: number;
+}
+
+/**
+ * Why the loop stopped
+ */
+export type RepairStopReason = 'valid' | 'max-iterations' | 'cost-cap' | 'repair-failed';
+
+/**
+ * One extraction or repair attempt
+ */
+export interface RepairAttempt {
+  /** 0 for the initial extraction, 1..n for repairs */
+  iteration: number;
+  kind: 'extraction' | 'repair';
+  model?: string;
+  valid: boolean;
+  errors: string[];
+  usage?: ApiUsage;
+  cost_usd: number;
+  durationMs: number;
+  /** Set when the repair call itself failed */
+  error?: string;
+}
+
+/**
+ * Record of a repair loop run
+ */
+export interface RepairLog {
+  attempts: RepairAttempt[];
+  stopReason: RepairStopReason;
+  /** Iteration whose data was kept */
+  selectedIteration: number;
+  initialErrorCount: number;
+  finalErrorCount: number;
+}
+
+/**
+ * Validate an extraction and repair it until it passes or a cap is reached
+ *
+ * @param filePath - Path to the IEP document
+ * @param initial - Result of the initial extraction and how long it took
+ * @param reasoningEffort - Reasoning effort for repair calls
+ * @param provider - Extraction backend
+ * @param input - Input mode and an already loaded text layer, if any
+ * @param options - Iteration and cost caps
+ * @returns Best data, its validation, total usage and the attempt log
+ */
+export async function runRepairLoop(
+  filePath: string,
+  initial: { data: FormSpecificIEPData; usage?: ApiUsage; model: string; durationMs: number },
+  reasoningEffort: ReasoningEffort,
+  provider: ExtractionProvider,
+  input: { inputMode?: DocumentInputMode; document?: LoadedDocument } = {},
+  options: RepairOptions = {}
+): Promise<{data: FormSpecificIEPData; validation: ValidationResult; usage: ApiUsage; repair: RepairLog}> {
+
+  const maxIterations = options.maxIterations ?? 2;
+  const maxCostUsd = options.maxCostUsd ?? Infinity;
+
+  let validation = await timeSpan('validate', () => validateFormSpecificData(initial.data), { iteration: 0 });
+  const attempts: RepairAttempt[] = [{
+    iteration: 0,
+    kind: 'extraction',
+    model: initial.model,
+    valid: validation.valid,
+    errors: validation.errors,
+    usage: initial.usage,
+    cost_usd: initial.usage?.cost_usd || 0,
+    durationMs: initial.durationMs
+  }];
+
+  let best = { iteration: 0, data: initial.data, validation };
+  let current = best;
+  let stopReason: RepairStopReason = validation.valid ? 'valid' : 'max-iterations';
+
+  for (let iteration = 1; iteration <= maxIterations && !current.validation.valid; iteration++) {
+    // Project the next call from the most recent one so the cap is not overshot
+    const spent = attempts.reduce((sum, attempt) => sum + attempt.cost_usd, 0);
+    const projected = attempts[attempts.length - 1].cost_usd;
+    if (spent + projected > maxCostUsd) {
+      logger.warn('Repair stopped: the next attempt would exceed the cost cap', { maxCostUsd });
+      stopReason = 'cost-cap';
+      break;
+    }
+
+    logger.info(`Repair attempt ${iteration}/${maxIterations}`, { issues: current.validation.errors.length });
+    const startTime = Date.now();
+
+    try {
+      const repaired = await repairExtraction(
+        filePath,
+        current.data,
+        current.validation.errors,
+        reasoningEffort,
+        provider,
+        input
+      );
+      validation = await timeSpan('validate', () => validateFormSpecificData(repaired.data), { iteration });
+
+      attempts.push({
+        iteration,
+        kind: 'repair',
+        model: repaired.model,
+        valid: validation.valid,
+        errors: validation.errors,
+        usage: repaired.usage,
+        cost_usd: repaired.usage?.cost_usd || 0,
+        durationMs: Date.now() - startTime
+      });
+      logger.info('Repair attempt completed', { iteration, issuesBefore: current.validation.errors.length, issuesAfter: validation.errors.length });
+
+      current = { iteration, data: repaired.data, validation };
+      if (validation.errors.length <= best.validation.errors.length) {
+        best = current;
+      }
+      if (validation.valid) {
+        stopReason = 'valid';
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('Repair attempt failed', { iteration, error: message });
+      attempts.push({
+        iteration,
+        kind: 'repair',
+        valid: false,
+        errors: [],
+        // A response that arrived but was unusable is still billed
+        usage: failedUsage(error),
+        cost_usd: failedUsage(error)?.cost_usd || 0,
+        durationMs: Date.now() - startTime,
+        error: message
+      });
+      stopReason = 'repair-failed';
+      break;
+    }
+  }
+
+  if (best.iteration !== current.iteration) {
+    logger.info('Keeping the attempt with the fewest issues', { iteration: best.iteration });
+  }
+
+  return {
+    data: best.data,
+    validation: best.validation,
+    usage: sumUsage(attempts.map(attempt => attempt.usage)),
+    repair: {
+      attempts,
+      stopReason,
+      selectedIteration: best.iteration,
+      initialErrorCount: attempts[0].errors.length,
+      finalErrorCount: best.validation.errors.length
+    }
+  };
+}
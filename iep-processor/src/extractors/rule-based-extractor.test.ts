@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoadedDocument } from '../ingestion/document-loader';
+import { configureLogger } from '../logging/logger';
+import { extractByRules } from './rule-based-extractor';
+
+configureLogger({ quiet: true });
+
+const SECTION = '1. GENERAL FACTORS';
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    IEP: {
+      type: 'object',
+      properties: {
+        [SECTION]: {
+          type: 'object',
+          properties: {
+            'Is the child in preschool?': { type: 'boolean' },
+            'ANNUAL REVIEW': { type: 'boolean' },
+            AMENDMENT: { type: 'boolean' },
+            'MINUTES PER WEEK': { type: 'integer' }
+          }
+        }
+      }
+    }
+  }
+};
+
+function extract(body: string) {
+  const text = `${SECTION}\n${body}\n`;
+  const document: LoadedDocument = {
+    filePath: 'synthetic.pdf',
+    format: 'pdf',
+    pageCount: 1,
+    pages: [{ pageNumber: 1, text }],
+    text,
+    hasTextLayer: true,
+    imageOnlyPages: []
+  };
+  return extractByRules(document, SCHEMA);
+}
+
+function section(body: string): Record<string, unknown> | undefined {
+  return (extract(body).data.IEP as Record<string, Record<string, unknown>>)[SECTION];
+}
+
+const lines = (preschool: string, annual: string, amendment: string, minutes = '120') =>
+  `Is the child in preschool? ${preschool}\n${annual} ANNUAL REVIEW\n${amendment} AMENDMENT\nMINUTES PER WEEK: ${minutes}`;
+
+test('recognized checked and unchecked glyphs are read', () => {
+  assert.deepEqual(section(lines('☐ Yes ☒ No', '☒', '☐')), {
+    'Is the child in preschool?': false,
+    'ANNUAL REVIEW': true,
+    AMENDMENT: false,
+    'MINUTES PER WEEK': 120
+  });
+  assert.equal(section(lines('[X] Yes [ ] No', '[x]', '[ ]'))?.['Is the child in preschool?'], true);
+});
+
+test('a Yes/No pair with neither box ticked reads as unchecked', () => {
+  assert.equal(section(lines('☐ Yes ☐ No', '☒', '☐'))?.['Is the child in preschool?'], false);
+});
+
+test('an unknown glyph leaves the section to the model', () => {
+  for (const body of [lines('? Yes ? No', '☒', '☐'), lines('☐ Yes ☒ No', '?', '☐'), lines('☐ Yes ☒ No', '☒', '')]) {
+    const result = extract(body);
+    assert.deepEqual(result.filledSections, []);
+    assert.deepEqual(result.unfilledSections, [SECTION]);
+    assert.equal(result.fieldsFound, 3);
+    assert.equal(result.fieldsTotal, 4);
+  }
+});
+
+test('numbers are read only when they are plain numbers', () => {
+  assert.equal(section(lines('☐ Yes ☒ No', '☒', '☐', '1,200'))?.['MINUTES PER WEEK'], 1200);
+  assert.equal(section(lines('☐ Yes ☒ No', '☒', '☐', ''))?.['MINUTES PER WEEK'], 0);
+  for (const unreadable of ['N/A', '90-120', '2.5']) {
+    assert.deepEqual(extract(lines('☐ Yes ☒ No', '☒', '☐', unreadable)).unfilledSections, [SECTION]);
+  }
+});
@@ -0,0 +1,299 @@
+/**
+ * Deterministic Rule-Based Extractor for the fixed IEP form layout
+ *
+ * Fills as much of the extraction as possible from the PDF text layer without
+ * calling a model. The form prints every label whether or not it has a value,
+ * so printed label/value pairs and checkboxes can be read directly:
+ *
+ *   NAME: Jane Doe        ID NUMBER: 123456
+ *   Is the child in preschool?   ☐ Yes  ☒ No
+ *   ☒ ANNUAL REVIEW
+ *
+ * Section boundaries follow the same rules given to the model: a section runs
+ * from its header ("3. PROFILE") until the next section header
+ * ("4. EXTENDED SCHOOL YEAR"); page breaks do not end sections, and repeated
+ * running headers on continuation pages are stitched back together.
+ *
+ * The parser is driven by the extraction schema: labels are the schema
+ * property names. A section is only accepted when it is made of scalar fields
+ * and every label was found with a readable value; free-text sections (schema
+ * type string), sections with repeating tables (arrays), number fields
+ * holding something other than a number and checkboxes without a recognized
+ * checked or unchecked glyph are left to the model.
+ */
+
+import { LoadedDocument } from '../ingestion/document-loader';
+import { SectionData, listSections, getSectionSchema } from './schema-sections';
+import { emptyValue } from '../schema/registry';
+import { logger } from '../logging/logger';
+
+/**
+ * Result of the rule-based pass
+ */
+export interface RuleBasedExtraction {
+  /** Sections that were filled completely from the text layer */
+  data: SectionData;
+  filledSections: string[];
+  /** Sections that need the model (free text, tables, or labels not found) */
+  unfilledSections: string[];
+  fieldsFound: number;
+  fieldsTotal: number;
+}
+
+// Checkbox glyphs as they come out of common PDF text layers
+const CHECKED = '☒☑■✔✓⊠';
+const CHECKED_MARK = `(?:[${CHECKED}]|\\[\\s*[xX]\\s*\\]|\\(\\s*[xX]\\s*\\))`;
+const UNCHECKED = '☐□◻❏';
+const UNCHECKED_MARK = `(?:[${UNCHECKED}]|\\[\\s*\\]|\\(\\s*\\))`;
+
+/**
+ * Run the rule-based pass over a loaded document
+ *
+ * @param document - Document with a usable text layer
+ * @param schema - Extraction schema whose property names are the form labels
+ * @returns Filled sections plus the sections left for the model
+ */
+export function extractByRules(document: LoadedDocument, schema: Record<string, any>): RuleBasedExtraction {
+  const sectionNames = listSections(schema);
+  const sectionTexts = splitIntoSections(document.text, sectionNames);
+
+  const filled: Record<string, any> = {};
+  const filledSections: string[] = [];
+  const unfilledSections: string[] = [];
+  let fieldsFound = 0;
+  let fieldsTotal = 0;
+
+  for (const section of sectionNames) {
+    const sectionSchema = getSectionSchema(schema, section);
+    const text = sectionTexts.get(section);
+
+    if (!text || !sectionSchema || !isScalarObject(sectionSchema)) {
+      unfilledSections.push(section);
+      continue;
+    }
+
+    const result = fillObject(sectionSchema, text);
+    fieldsFound += result.found;
+    fieldsTotal += result.total;
+
+    if (result.found === result.total) {
+      filled[section] = result.value;
+      filledSections.push(section);
+    } else {
+      unfilledSections.push(section);
+    }
+  }
+
+  logger.info('Rule-based pass completed', { sections: `${filledSections.length}/${sectionNames.length}`, labels: `${fieldsFound}/${fieldsTotal}` });
+
+  return {
+    data: { IEP: filled },
+    filledSections,
+    unfilledSections,
+    fieldsFound,
+    fieldsTotal
+  };
+}
+
+/**
+ * Split document text into top-level sections by their printed headers
+ *
+ * Numbered sections match on "N. FIRST WORD" at the start of a line, so
+ * "4. EXTENDED SCHOOL YEAR" matches "4. EXTENDED SCHOOL YEAR SERVICES" and
+ * "6. MEASURABLE ANNUAL GOALS (continued)" continues section 6.
+ *
+ * @param text - Full document text
+ * @param sectionNames - Top-level section names from the schema
+ * @returns Section name to section body (header line excluded)
+ */
+export function splitIntoSections(text: string, sectionNames: string[]): Map<string, string> {
+  const normalized = normalizeText(text);
+  const occurrences: Array<{ section: string; start: number; bodyStart: number }> = [];
+
+  for (const section of sectionNames) {
+    const pattern = headerPattern(section);
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(normalized)) !== null) {
+      occurrences.push({ section, start: match.index, bodyStart: match.index + match[0].length });
+    }
+  }
+
+  occurrences.sort((a, b) => a.start - b.start);
+
+  const sections = new Map<string, string>();
+  occurrences.forEach((occurrence, index) => {
+    const end = index + 1 < occurrences.length ? occurrences[index + 1].start : normalized.length;
+    const body = normalized.substring(occurrence.bodyStart, end);
+    const existing = sections.get(occurrence.section);
+    sections.set(occurrence.section, existing ? `${existing}\n${body}` : body);
+  });
+
+  return sections;
+}
+
+/**
+ * Normalize characters that differ between PDF text layers and schema labels
+ */
+export function normalizeText(text: string): string {
+  return text
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/ /g, ' ')
+    .replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Header regex for a section name, anchored at the start of a line
+ */
+function headerPattern(section: string): RegExp {
+  const numbered = section.match(/^(\d+)\.\s+(\S+)/);
+  if (numbered) {
+    return new RegExp(`^[ \\t]*${numbered[1]}\\.[ \\t]+${escapeRegExp(numbered[2])}\\b[^\\n]*`, 'gm');
+  }
+  return new RegExp(`^[ \\t]*${escapeRegExp(section)}[^\\n]*`, 'gm');
+}
+
+/**
+ * True when an object schema only contains scalars and nested scalar objects
+ */
+function isScalarObject(node: Record<string, any>): boolean {
+  if (node.type !== 'object' || !node.properties) return false;
+  return Object.values<any>(node.properties).every(child =>
+    child.type === 'object' ? isScalarObject(child) : ['string', 'number', 'integer', 'boolean'].includes(child.type)
+  );
+}
+
+/**
+ * Fill an object schema from its section text
+ *
+ * Nested objects are located by their own title ("Parent/Guardian 1") and
+ * filled from the text between that title and the next sibling title, which
+ * keeps repeated labels such as NAME apart.
+ */
+function fillObject(node: Record<string, any>, text: string): { value: Record<string, any>; found: number; total: number } {
+  const properties: Record<string, any> = node.properties;
+  const value: Record<string, any> = {};
+  let found = 0;
+  let total = 0;
+
+  // Ranges for nested objects, in the order their titles appear
+  const nestedKeys = Object.keys(properties).filter(key => properties[key].type === 'object');
+  const nestedStarts = nestedKeys
+    .map(key => ({ key, index: findLabel(text, key) }))
+    .filter(entry => entry.index >= 0)
+    .sort((a, b) => a.index - b.index);
+
+  // Scalar labels bound each other's values
+  const scalarKeys = Object.keys(properties).filter(key => properties[key].type !== 'object');
+  const labelPositions = scalarKeys
+    .map(key => ({ key, index: findLabel(text, key) }))
+    .filter(entry => entry.index >= 0)
+    .sort((a, b) => a.index - b.index);
+
+  for (const key of Object.keys(properties)) {
+    const child = properties[key];
+
+    if (child.type === 'object') {
+      const position = nestedStarts.findIndex(entry => entry.key === key);
+      if (position < 0) {
+        total += countLeaves(child);
+        value[key] = emptyValue(child);
+        continue;
+      }
+      const start = nestedStarts[position].index + key.length;
+      const end = position + 1 < nestedStarts.length ? nestedStarts[position + 1].index : text.length;
+      const nested = fillObject(child, text.substring(start, end));
+      value[key] = nested.value;
+      found += nested.found;
+      total += nested.total;
+      continue;
+    }
+
+    total++;
+    const position = labelPositions.findIndex(entry => entry.key === key);
+    if (position < 0) {
+      value[key] = emptyValue(child);
+      continue;
+    }
+
+    const labelStart = labelPositions[position].index;
+    const valueStart = labelStart + key.length;
+    const nextLabel = position + 1 < labelPositions.length ? labelPositions[position + 1].index : text.length;
+    const lineEnd = text.indexOf('\n', valueStart);
+    const valueEnd = Math.min(nextLabel, lineEnd >= 0 ? lineEnd : text.length);
+    const raw = text.substring(valueStart, valueEnd);
+
+    const scalar = child.type === 'boolean'
+      ? readCheckbox(text, labelStart, raw)
+      : readScalar(child.type, raw);
+    if (scalar === undefined) {
+      value[key] = emptyValue(child);
+      continue;
+    }
+    found++;
+    value[key] = scalar;
+  }
+
+  return { value, found, total };
+}
+
+/**
+ * Find a label in text on word boundaries (case-sensitive, as printed)
+ */
+function findLabel(text: string, label: string): number {
+  const pattern = new RegExp(`(^|[^A-Za-z0-9])${escapeRegExp(normalizeText(label))}(?![A-Za-z0-9])`);
+  const match = pattern.exec(text);
+  return match ? match.index + match[1].length : -1;
+}
+
+/**
+ * Read a string or number value printed after a label
+ *
+ * A blank number field reads as 0, the form's empty value (as "" is for
+ * text). Anything else that is not a plain number ("N/A", "85-90", "2.5" for
+ * an integer) is undefined: guessing a number would fabricate the value.
+ */
+function readScalar(type: string, raw: string): string | number | undefined {
+  const cleaned = raw.replace(/^[\s:#-]+/, '').replace(/[\s_]+$/, '').replace(/\s{2,}/g, ' ').replace(/^_+$/, '');
+  if (type === 'number' || type === 'integer') {
+    if (cleaned === '') return 0;
+    const match = cleaned.replace(/(\d),(?=\d{3}\b)/g, '$1').match(/^-?\d+(?:\.\d+)?(?=\s*%?$)/);
+    const number = match ? Number(match[0]) : NaN;
+    return Number.isNaN(number) || (type === 'integer' && !Number.isInteger(number)) ? undefined : number;
+  }
+  return cleaned;
+}
+
+/**
+ * Read a checkbox: either a Yes/No pair after the label, or a mark directly
+ * in front of the label itself
+ *
+ * Only a recognized glyph gives an answer; a missing or unknown one (an OCR
+ * artifact, a font the text layer maps to "?") is undefined, not unchecked.
+ */
+function readCheckbox(text: string, labelStart: number, raw: string): boolean | undefined {
+  const answer = raw.match(new RegExp(`${CHECKED_MARK}\\s*(Yes|No)\\b`, 'i'));
+  if (answer) {
+    return answer[1].toLowerCase() === 'yes';
+  }
+  if (/\b(Yes|No)\b/i.test(raw)) {
+    // Neither box of the pair is ticked
+    return new RegExp(`${UNCHECKED_MARK}\\s*Yes\\b.*${UNCHECKED_MARK}\\s*No\\b`, 'i').test(raw) ? false : undefined;
+  }
+  const before = text.substring(Math.max(0, labelStart - 4), labelStart);
+  if (new RegExp(`${CHECKED_MARK}\\s*$`).test(before)) return true;
+  if (new RegExp(`${UNCHECKED_MARK}\\s*$`).test(before)) return false;
+  return undefined;
+}
+
+/**
+ * Number of scalar leaves under a schema node
+ */
+function countLeaves(node: Record<string, any>): number {
+  if (node.type !== 'object') return 1;
+  return Object.values<any>(node.properties || {}).reduce((sum, child) => sum + countLeaves(child), 0);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,109 @@
+/**
+ * Extraction schema helpers
+ *
+ * Loads the strict structured-output schema and derives per-section
+ * sub-schemas from it, so callers can ask the model for a subset of the
+ * top-level IEP sections and still get strict, schema-compliant output.
+ */
+
+import { getExtractionSchema } from '../schema/registry';
+
+/**
+ * Partial extraction holding a subset of the top-level IEP sections
+ */
+export type SectionData = { IEP: Record<string, any> };
+
+/**
+ * Strict structured-output schema, derived from the canonical schema by the
+ * schema registry
+ */
+export function loadExtractionSchema(): Record<string, any> {
+  return getExtractionSchema();
+}
+
+/**
+ * Names of the top-level sections under IEP, in schema order
+ */
+export function listSections(schema: Record<string, any>): string[] {
+  return Object.keys(schema.properties?.IEP?.properties || {});
+}
+
+/**
+ * Sub-schema for a single top-level section
+ */
+export function getSectionSchema(schema: Record<string, any>, section: string): Record<string, any> | undefined {
+  return schema.properties?.IEP?.properties?.[section];
+}
+
+/**
+ * Build a strict schema containing only the given top-level sections
+ *
+ * @param schema - Full extraction schema
+ * @param sections - Section names to keep (unknown names are ignored)
+ * @returns Schema of the same { IEP: { ... } } shape restricted to those sections
+ */
+export function pickSections(schema: Record<string, any>, sections: string[]): Record<string, any> {
+  const iepSchema = schema.properties.IEP;
+  const keep = listSections(schema).filter(section => sections.includes(section));
+
+  const properties: Record<string, any> = {};
+  for (const section of keep) {
+    properties[section] = iepSchema.properties[section];
+  }
+
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      IEP: {
+        ...iepSchema,
+        properties,
+        required: keep
+      }
+    }
+  };
+}
+
+/**
+ * Deep-merge partial { IEP: { ... } } results into one document, ordering
+ * the sections as the schema does. Objects merge key by key; for scalars and
+ * arrays the later part wins.
+ */
+export function mergeSectionResults(schema: Record<string, any>, parts: SectionData[]): SectionData {
+  const merged = parts.reduce<Record<string, any>>((target, part) => deepMerge(target, part?.IEP || {}), {});
+
+  const ordered: Record<string, any> = {};
+  for (const section of listSections(schema)) {
+    if (section in merged) ordered[section] = merged[section];
+  }
+  for (const section of Object.keys(merged)) {
+    if (!(section in ordered)) ordered[section] = merged[section];
+  }
+
+  return { IEP: ordered };
+}
+
+/**
+ * Section title without its form number ("3. PROFILE" -> "PROFILE")
+ */
+export function stripSectionNumber(section: string): string {
+  return section.replace(/^\d+\.\s*/, '');
+}
+
+/**
+ * Recursively merge plain objects; non-object values from source replace target
+ */
+export function deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    const existing = result[key];
+    result[key] = isPlainObject(existing) && isPlainObject(value)
+      ? deepMerge(existing, value)
+      : value;
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ETR_FORM, IEP_FORM, classifyDocument, listForms } from './index';
+
+const IEP_TEXT = 'PR-07 INDIVIDUALIZED EDUCATION PROGRAM\n6. MEASURABLE ANNUAL GOALS\n7. SPECIALLY DESIGNED SERVICES';
+const ETR_TEXT = 'PR-06 EVALUATION TEAM REPORT\nELIGIBILITY DETERMINATION\nAreas assessed: reading';
+const PROGRESS_TEXT = 'PROGRESS REPORT\nReporting period: Q2\nProgress toward annual goal 1: Sufficient progress';
+const PLAN_504_TEXT = 'SECTION 504 ACCOMMODATION PLAN\nThe impairment substantially limits reading.';
+
+test('each form is recognized from its own headers', () => {
+  const forms = listForms();
+  assert.equal(classifyDocument(IEP_TEXT, forms).formId, 'iep');
+  assert.equal(classifyDocument(ETR_TEXT, forms).formId, 'etr');
+  assert.equal(classifyDocument(PROGRESS_TEXT, forms).formId, 'progress-report');
+  assert.equal(classifyDocument(PLAN_504_TEXT, forms).formId, '504-plan');
+});
+
+test('the score is the matched share of signal weight, with every candidate listed', () => {
+  const result = classifyDocument(IEP_TEXT, listForms());
+  // PR-07 (3) + title (1) + goals (2) + services (2) of 11
+  assert.equal(result.confidence, 0.73);
+  assert.deepEqual(result.candidates[0].matched, ['IEP title', 'PR-07 form number', 'Measurable annual goals', 'Specially designed services']);
+  assert.equal(result.candidates.length, listForms().length);
+  assert.ok(result.candidates.every((candidate, index) => index === 0 || candidate.score <= result.candidates[index - 1].score));
+});
+
+test('a document under every threshold is left unclassified', () => {
+  const result = classifyDocument('INDIVIDUALIZED EDUCATION PROGRAM\nMeeting notes', listForms());
+  assert.equal(result.formId, undefined);
+  assert.equal(result.confidence, 0);
+  assert.equal(result.candidates[0].formId, 'iep');
+  assert.equal(result.candidates[0].score, 0.09);
+});
+
+test('equal scores go to the form listed first', () => {
+  const signals = [{ label: 'Shared header', pattern: /SHARED HEADER/, weight: 1 }];
+  const iep = { ...IEP_FORM, detection: { signals, threshold: 0.5 } };
+  const etr = { ...ETR_FORM, detection: { signals, threshold: 0.5 } };
+  assert.equal(classifyDocument('SHARED HEADER', [iep, etr]).formId, 'iep');
+  assert.equal(classifyDocument('SHARED HEADER', [etr, iep]).formId, 'etr');
+});
@@ -0,0 +1,69 @@
+/**
+ * Document Form Classifier
+ *
+ * Decides which registered form a document is from its text layer, before
+ * any model call. Each form lists weighted text signals (form title, form
+ * number, section headers); a form's score is the matched share of its total
+ * signal weight. The best-scoring form wins if it reaches its threshold.
+ *
+ * Features:
+ * - Deterministic and free: regular expressions over the local text layer
+ * - Every candidate reported with its score and matched signals
+ * - Header signals weighted above phrases that also appear in other forms
+ */
+
+import { FormDefinition, FormType } from './types';
+
+/**
+ * Score of one form for a document
+ */
+export interface FormCandidate {
+  formId: FormType;
+  /** Matched share of the form's signal weight (0-1) */
+  score: number;
+  /** Labels of the signals found in the text */
+  matched: string[];
+}
+
+/**
+ * Classification of a document
+ */
+export interface FormClassification {
+  /** Best-scoring form at or above its threshold; undefined if none matched */
+  formId?: FormType;
+  /** Score of the chosen form (0 when unmatched) */
+  confidence: number;
+  /** Every form, best first */
+  candidates: FormCandidate[];
+}
+
+/**
+ * Classify a document by its text
+ *
+ * @param text - Document text layer
+ * @param forms - Forms to consider, in tie-breaking order
+ * @returns The detected form (if any) and every candidate's score
+ */
+export function classifyDocument(text: string, forms: FormDefinition[]): FormClassification {
+  const scored = forms.map(form => {
+    const { signals, threshold } = form.detection;
+    const matched = signals.filter(signal => signal.pattern.test(text));
+    const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+    const matchedWeight = matched.reduce((sum, signal) => sum + signal.weight, 0);
+    const score = totalWeight > 0 ? Math.round((matchedWeight / totalWeight) * 100) / 100 : 0;
+    return {
+      candidate: { formId: form.id, score, matched: matched.map(signal => signal.label) },
+      accepted: score >= threshold
+    };
+  });
+
+  // Stable sort keeps registry order between equal scores
+  scored.sort((a, b) => b.candidate.score - a.candidate.score);
+  const best = scored.find(entry => entry.accepted);
+
+  return {
+    formId: best?.candidate.formId,
+    confidence: best?.candidate.score || 0,
+    candidates: scored.map(entry => entry.candidate)
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Evaluation Team Report form (PR-06 ETR)
+ */
+
+import { ETRFormData } from '../types/etr-form.generated';
+import { ETR_BUSINESS_RULES } from '../validation/business-rules';
+import { ValidationIssue, createIssue } from '../validation/issues';
+import { FormDefinition } from './types';
+
+const ETR_PROMPT = `You are an expert at extracting structured data from ETR (Evaluation Team Report) documents.
+
+Your task is to extract ALL information from this ETR document and structure it according to the provided JSON schema.
+
+Return JSON matching the complete schema structure. For sections not found in the document, include them with empty values ("", [], or false as appropriate).
+
+**REQUIRED SECTIONS UNDER "ETR":**
+- CHILD'S INFORMATION (all demographic fields)
+- PARENT/GUARDIAN INFORMATION
+- EVALUATION INFORMATION (type of evaluation checkboxes, referral, consent, completion and next due dates)
+- ASSESSMENT AREAS (one entry per area assessed, e.g. academic, cognitive, communication, motor, social-emotional)
+- ELIGIBILITY DETERMINATION (the three determination questions, disability category, basis)
+- TEAM MEMBERS (one entry per signature line, with agree/disagree)
+
+**EXTRACTION RULES:**
+1. Use EXACT field names from the schema
+2. For boolean fields, set true/false based on checkboxes or selections
+3. Extract complete findings text, including standard scores and percentiles; don't summarize
+4. Keep dates as written on the form
+
+Extract EVERYTHING you see. This is a real ETR document with real data - extract it all!`;
+
+export const ETR_FORM: FormDefinition<'etr'> = {
+  id: 'etr',
+  name: 'Evaluation Team Report (ETR)',
+  rootKey: 'ETR',
+  schemaFile: 'etr-form.schema.json',
+  schemaName: 'etr_extraction',
+  prompt: ETR_PROMPT,
+  detection: {
+    signals: [
+      { label: 'ETR title', pattern: /EVALUATION\s+TEAM\s+REPORT/i, weight: 3 },
+      { label: 'PR-06 form number', pattern: /\bPR-06\b/i, weight: 3 },
+      { label: 'Eligibility determination', pattern: /ELIGIBILITY\s+DETERMINATION/i, weight: 2 },
+      { label: 'Assessment areas', pattern: /ASSESSMENT\s+AREA|AREAS?\s+ASSESSED/i, weight: 1 },
+      { label: 'Reevaluation', pattern: /RE-?EVALUATION/i, weight: 1 },
+      { label: 'Disability category', pattern: /DISABILITY\s+CATEGORY|CATEGORY\s+OF\s+DISABILITY/i, weight: 1 }
+    ],
+    threshold: 0.5
+  },
+  sectionStrategies: false,
+  checkCriticalIssues: checkCriticalETRIssues,
+  businessRules: ETR_BUSINESS_RULES
+};
+
+/**
+ * Checks an ETR extraction for issues the schema cannot express
+ */
+function checkCriticalETRIssues(data: unknown): ValidationIssue[] {
+  const etr = (data as Partial<ETRFormData> | null | undefined)?.ETR;
+  if (!etr || typeof etr !== 'object') {
+    return [createIssue('critical.missing-root', 'error', ['ETR'], 'Missing root ETR structure')];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const eligibility = etr['ELIGIBILITY DETERMINATION'];
+  if (eligibility?.['Is the child eligible for special education services?'] && !eligibility['DISABILITY CATEGORY']) {
+    issues.push(createIssue(
+      'critical.missing-field',
+      'error',
+      ['ETR', 'ELIGIBILITY DETERMINATION', 'DISABILITY CATEGORY'],
+      'Child is marked eligible but no DISABILITY CATEGORY was extracted'
+    ));
+  }
+  if (!Array.isArray(etr['ASSESSMENT AREAS']) || etr['ASSESSMENT AREAS'].length === 0) {
+    issues.push(createIssue('critical.empty-list', 'error', ['ETR', 'ASSESSMENT AREAS'], 'No ASSESSMENT AREAS extracted'));
+  }
+  return issues;
+}
@@ -0,0 +1,33 @@
+/**
+ * IEP form (PR-07 Individualized Education Program)
+ */
+
+import { FORM_SPECIFIC_PROMPT } from '../extractors/form-specific-extractor';
+import { checkCriticalFormIssues } from '../validation/ajv-validator';
+import { IEP_BUSINESS_RULES } from '../validation/business-rules';
+import { IEP_SCHEMA_FILE } from '../schema/registry';
+import { FormDefinition } from './types';
+
+export const IEP_FORM: FormDefinition<'iep'> = {
+  id: 'iep',
+  name: 'Individualized Education Program (IEP)',
+  rootKey: 'IEP',
+  schemaFile: IEP_SCHEMA_FILE,
+  schemaName: 'complete_iep_extraction',
+  prompt: FORM_SPECIFIC_PROMPT,
+  detection: {
+    signals: [
+      { label: 'IEP title', pattern: /INDIVIDUALIZED\s+EDUCATION\s+PROGRAM/i, weight: 1 },
+      { label: 'PR-07 form number', pattern: /\bPR-07\b/i, weight: 3 },
+      { label: 'Measurable annual goals', pattern: /MEASURABLE\s+ANNUAL\s+GOALS/i, weight: 2 },
+      { label: 'Specially designed services', pattern: /SPECIALLY\s+DESIGNED\s+(SERVICES|INSTRUCTION)/i, weight: 2 },
+      { label: 'Future planning', pattern: /FUTURE\s+PLANNING/i, weight: 1 },
+      { label: 'Least restrictive environment', pattern: /LEAST\s+RESTRICTIVE\s+ENVIRONMENT/i, weight: 1 },
+      { label: 'IEP timelines', pattern: /IEP\s+TIMELINES|IEP\s+EFFECTIVE\s+DATES/i, weight: 1 }
+    ],
+    threshold: 0.5
+  },
+  sectionStrategies: true,
+  checkCriticalIssues: checkCriticalFormIssues,
+  businessRules: IEP_BUSINESS_RULES
+};
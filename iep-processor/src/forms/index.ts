@@ -0,0 +1,94 @@
+/**
+ * Form registry
+ *
+ * Every supported document type: IEP, ETR, progress report and 504 plan.
+ * Each form has its own canonical schema (schemas/), generated types
+ * (src/types/), extraction prompt, critical checks and classifier signals.
+ */
+
+import { ValidationResult } from '../types/form-specific-iep-data';
+import {
+  SectionValidationOptions,
+  validateAgainstSchema,
+  validateFormSpecificData,
+  validateSection,
+  validateSectionAgainstSchema
+} from '../validation/ajv-validator';
+import { FormDefinition, FormType } from './types';
+import { IEP_FORM } from './iep';
+import { ETR_FORM } from './etr';
+import { PROGRESS_REPORT_FORM } from './progress-report';
+import { SECTION_504_PLAN_FORM } from './section-504-plan';
+
+export * from './types';
+export * from './classifier';
+export { IEP_FORM } from './iep';
+export { ETR_FORM } from './etr';
+export { PROGRESS_REPORT_FORM } from './progress-report';
+export { SECTION_504_PLAN_FORM } from './section-504-plan';
+
+// Registry order is the classifier's tie-breaking order
+const FORMS: FormDefinition[] = [IEP_FORM, ETR_FORM, PROGRESS_REPORT_FORM, SECTION_504_PLAN_FORM];
+
+/**
+ * Every registered form, in registry order
+ */
+export function listForms(): FormDefinition[] {
+  return [...FORMS];
+}
+
+/**
+ * Look up a form by id
+ *
+ * @param id - Form id (iep, etr, progress-report, 504-plan)
+ * @returns FormDefinition
+ */
+export function getForm(id: FormType | string): FormDefinition {
+  const form = FORMS.find(candidate => candidate.id === id);
+  if (!form) {
+    throw new Error(`Unknown form type: ${id} (expected ${FORMS.map(candidate => candidate.id).join(', ')})`);
+  }
+  return form;
+}
+
+/**
+ * Check whether a string is a registered form id
+ */
+export function isFormType(id: string): id is FormType {
+  return FORMS.some(form => form.id === id);
+}
+
+/**
+ * Validate extracted data against a form's canonical schema and critical checks
+ *
+ * @param form - Form the data was extracted as
+ * @param data - Extracted data
+ * @returns ValidationResult
+ */
+export function validateForm(form: FormDefinition, data: unknown): ValidationResult {
+  if (form.id === 'iep') {
+    return validateFormSpecificData(data);
+  }
+  return validateAgainstSchema(data, form.schemaFile, form.checkCriticalIssues, form.businessRules);
+}
+
+/**
+ * Validate one section of a form's data (see validateSection)
+ *
+ * @param form - Form the data was extracted as
+ * @param data - The whole extracted document
+ * @param sectionPath - Top-level section name or JSON pointer
+ * @param options - Replacement value for the section
+ * @returns ValidationResult for the section only
+ */
+export function validateFormSection(
+  form: FormDefinition,
+  data: unknown,
+  sectionPath: string,
+  options: SectionValidationOptions = {}
+): ValidationResult {
+  if (form.id === 'iep') {
+    return validateSection(data, sectionPath, options);
+  }
+  return validateSectionAgainstSchema(data, sectionPath, form.schemaFile, form.checkCriticalIssues, form.businessRules, options);
+}
@@ -0,0 +1,79 @@
+/**
+ * IEP goal progress report form
+ */
+
+import { ProgressReportFormData } from '../types/progress-report.generated';
+import { ValidationIssue, createIssue } from '../validation/issues';
+import { FormDefinition } from './types';
+
+const PROGRESS_REPORT_PROMPT = `You are an expert at extracting structured data from IEP goal progress reports.
+
+Your task is to extract ALL information from this progress report and structure it according to the provided JSON schema.
+
+Return JSON matching the complete schema structure. For sections not found in the document, include them with empty values ("", [], or false as appropriate).
+
+**REQUIRED SECTIONS UNDER "PROGRESS REPORT":**
+- CHILD'S INFORMATION
+- REPORTING PERIOD (period name, start/end, date of report, and the IEP dates if printed)
+- GOALS (one entry per goal reported, with its NUMBER as shown, progress checkboxes, data/evidence and comments)
+- REPORTED BY
+
+**EXTRACTION RULES:**
+1. Use EXACT field names from the schema
+2. Check exactly the PROGRESS box marked on the form for each goal
+3. Copy data/evidence and comments verbatim; don't summarize
+4. Keep dates as written on the form
+
+Extract EVERYTHING you see. This is a real progress report with real data - extract it all!`;
+
+export const PROGRESS_REPORT_FORM: FormDefinition<'progress-report'> = {
+  id: 'progress-report',
+  name: 'IEP Progress Report',
+  rootKey: 'PROGRESS REPORT',
+  schemaFile: 'progress-report.schema.json',
+  schemaName: 'progress_report_extraction',
+  prompt: PROGRESS_REPORT_PROMPT,
+  detection: {
+    signals: [
+      { label: 'Progress report title', pattern: /\bPROGRESS\s+REPORT\b/i, weight: 3 },
+      { label: 'Reporting period', pattern: /REPORTING\s+PERIOD|GRADING\s+PERIOD/i, weight: 2 },
+      { label: 'Progress toward goal', pattern: /PROGRESS\s+(TOWARD|TOWARDS|ON)\s+(THE\s+)?(ANNUAL\s+)?GOAL/i, weight: 2 },
+      { label: 'Progress codes', pattern: /(IN)?SUFFICIENT\s+PROGRESS|GOAL\s+MET|NOT\s+ADDRESSED/i, weight: 2 }
+    ],
+    threshold: 0.5
+  },
+  sectionStrategies: false,
+  checkCriticalIssues: checkCriticalProgressReportIssues,
+  businessRules: []
+};
+
+/**
+ * Checks a progress report extraction for issues the schema cannot express
+ */
+function checkCriticalProgressReportIssues(data: unknown): ValidationIssue[] {
+  const root = 'PROGRESS REPORT';
+  const report = (data as Partial<ProgressReportFormData> | null | undefined)?.[root];
+  if (!report || typeof report !== 'object') {
+    return [createIssue('critical.missing-root', 'error', [root], 'Missing root PROGRESS REPORT structure')];
+  }
+
+  const issues: ValidationIssue[] = [];
+  const period = report['REPORTING PERIOD'];
+  for (const field of ['START', 'END'] as const) {
+    if (!period?.[field]) {
+      issues.push(createIssue('critical.missing-field', 'error', [root, 'REPORTING PERIOD', field], `REPORTING PERIOD is missing its ${field} date`));
+    }
+  }
+
+  const goals = Array.isArray(report.GOALS) ? report.GOALS : [];
+  if (goals.length === 0) {
+    issues.push(createIssue('critical.empty-list', 'error', [root, 'GOALS'], 'No GOALS extracted'));
+  }
+  goals.forEach((goal, index) => {
+    const progress = goal?.PROGRESS;
+    if (!progress || !Object.values(progress).some(Boolean)) {
+      issues.push(createIssue('critical.missing-field', 'error', [root, 'GOALS', index, 'PROGRESS'], `Goal ${goal?.NUMBER ?? index + 1} has no PROGRESS status checked`));
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,76 @@
+/**
+ * Section 504 accommodation plan form
+ */
+
+import { Section504PlanFormData } from '../types/section-504-plan.generated';
+import { ValidationIssue, createIssue } from '../validation/issues';
+import { FormDefinition } from './types';
+
+const SECTION_504_PROMPT = `You are an expert at extracting structured data from Section 504 accommodation plans.
+
+Your task is to extract ALL information from this 504 plan and structure it according to the provided JSON schema.
+
+Return JSON matching the complete schema structure. For sections not found in the document, include them with empty values ("", [], or false as appropriate).
+
+**REQUIRED SECTIONS UNDER "504 PLAN":**
+- STUDENT INFORMATION
+- MEETING INFORMATION (meeting date, meeting type checkboxes, plan start and review dates)
+- DISABILITY DETERMINATION (impairment, major life activities affected, how the impairment substantially limits them, sources of information)
+- ACCOMMODATIONS (one entry per accommodation, with setting and responsible staff)
+- PARTICIPANTS
+
+**EXTRACTION RULES:**
+1. Use EXACT field names from the schema
+2. Split accommodation tables into one entry per row; don't merge rows
+3. Extract complete text content; don't summarize
+4. Keep dates as written on the form
+
+Extract EVERYTHING you see. This is a real 504 plan with real data - extract it all!`;
+
+export const SECTION_504_PLAN_FORM: FormDefinition<'504-plan'> = {
+  id: '504-plan',
+  name: 'Section 504 Plan',
+  rootKey: '504 PLAN',
+  schemaFile: 'section-504-plan.schema.json',
+  schemaName: 'section_504_plan_extraction',
+  prompt: SECTION_504_PROMPT,
+  detection: {
+    signals: [
+      { label: 'Section 504 title', pattern: /SECTION\s+504/i, weight: 3 },
+      { label: '504 reference', pattern: /\b504\b/, weight: 2 },
+      { label: 'Accommodation plan', pattern: /ACCOMMODATION\s+PLAN/i, weight: 2 },
+      { label: 'Major life activities', pattern: /MAJOR\s+LIFE\s+ACTIVIT/i, weight: 2 },
+      { label: 'Substantial limitation', pattern: /SUBSTANTIALLY\s+LIMITS?/i, weight: 1 }
+    ],
+    // IEPs often mention Section 504; require a 504-specific phrase as well
+    threshold: 0.6
+  },
+  sectionStrategies: false,
+  checkCriticalIssues: checkCritical504Issues,
+  businessRules: []
+};
+
+/**
+ * Checks a 504 plan extraction for issues the schema cannot express
+ */
+function checkCritical504Issues(data: unknown): ValidationIssue[] {
+  const root = '504 PLAN';
+  const plan = (data as Partial<Section504PlanFormData> | null | undefined)?.[root];
+  if (!plan || typeof plan !== 'object') {
+    return [createIssue('critical.missing-root', 'error', [root], 'Missing root 504 PLAN structure')];
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(plan.ACCOMMODATIONS) || plan.ACCOMMODATIONS.length === 0) {
+    issues.push(createIssue('critical.empty-list', 'error', [root, 'ACCOMMODATIONS'], 'No ACCOMMODATIONS extracted'));
+  }
+  if (!plan['DISABILITY DETERMINATION']?.['PHYSICAL OR MENTAL IMPAIRMENT']) {
+    issues.push(createIssue(
+      'critical.missing-field',
+      'error',
+      [root, 'DISABILITY DETERMINATION', 'PHYSICAL OR MENTAL IMPAIRMENT'],
+      'DISABILITY DETERMINATION is missing the PHYSICAL OR MENTAL IMPAIRMENT'
+    ));
+  }
+  return issues;
+}
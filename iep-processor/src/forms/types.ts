@@ -0,0 +1,76 @@
+/**
+ * Form registry types
+ *
+ * A form definition bundles everything the pipeline needs to handle one kind
+ * of special-education document: its canonical schema, extraction prompt,
+ * critical checks and the text signals the classifier uses to recognize it.
+ */
+
+import { FormSpecificIEPData } from '../types/form-specific-iep-data';
+import { ETRFormData } from '../types/etr-form.generated';
+import { ProgressReportFormData } from '../types/progress-report.generated';
+import { Section504PlanFormData } from '../types/section-504-plan.generated';
+import { BusinessRule } from '../validation/business-rules';
+import { ValidationIssue } from '../validation/issues';
+
+/**
+ * Extracted data type per form id
+ */
+export interface FormDataMap {
+  'iep': FormSpecificIEPData;
+  'etr': ETRFormData;
+  'progress-report': ProgressReportFormData;
+  '504-plan': Section504PlanFormData;
+}
+
+/**
+ * Registered form ids
+ */
+export type FormType = keyof FormDataMap;
+
+/**
+ * Extracted data of any registered form
+ */
+export type FormData = FormDataMap[FormType];
+
+/**
+ * A text signal that suggests a document is a given form
+ */
+export interface FormSignal {
+  /** Human-readable name reported with classification candidates */
+  label: string;
+  pattern: RegExp;
+  /** Relative importance; form titles and form numbers weigh the most */
+  weight: number;
+}
+
+/**
+ * How the classifier recognizes a form
+ */
+export interface FormDetection {
+  signals: FormSignal[];
+  /** Share of the total signal weight (0-1) a document must match */
+  threshold: number;
+}
+
+/**
+ * Everything needed to extract and validate one form type
+ */
+export interface FormDefinition<K extends FormType = FormType> {
+  id: K;
+  name: string;
+  /** Top-level key of the extracted data ("IEP", "ETR", ...) */
+  rootKey: string;
+  /** Canonical schema file name in schemas/ */
+  schemaFile: string;
+  /** Structured-output schema name sent to the provider */
+  schemaName: string;
+  prompt: string;
+  detection: FormDetection;
+  /** Whether the hybrid, multi-pass and repair extractors support this form */
+  sectionStrategies: boolean;
+  /** Structural checks beyond the schema (code critical.*) */
+  checkCriticalIssues(data: unknown): ValidationIssue[];
+  /** Cross-field and timeline rules run after the schema check */
+  businessRules: BusinessRule[];
+}
@@ -0,0 +1,79 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { DocumentIngestionError, loadDocument } from './document-loader';
+
+const SYNTHETIC_PDF = path.join(process.cwd(), 'fixtures', 'synthetic-iep.pdf');
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'iep-loader-'));
+after(() => fs.rmSync(scratchDir, { recursive: true, force: true }));
+
+function scratchFile(name: string, content: string | Buffer): string {
+  const file = path.join(scratchDir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+/**
+ * A valid one-page PDF with no text on the page (what a scan looks like to the loader)
+ */
+function blankPdf(): string {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R >>',
+    '<< /Length 0 >>\nstream\n\nendstream'
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
+
+async function rejectsWith(promise: Promise<unknown>, code: DocumentIngestionError['code']): Promise<void> {
+  await assert.rejects(promise, (error: unknown) => error instanceof DocumentIngestionError && error.code === code);
+}
+
+test('importing the loader leaves the pdf.js log level alone until a PDF is read', async () => {
+  const pdfJs = createRequire(import.meta.url)('pdf-parse/lib/pdf.js/v1.9.426/build/pdf.js');
+  assert.notEqual(pdfJs.PDFJS.verbosity, 0);
+  await loadDocument(SYNTHETIC_PDF);
+  assert.equal(pdfJs.PDFJS.verbosity, 0);
+});
+
+test('a PDF under 4 KB is read page by page from its text layer', async () => {
+  assert.ok(fs.statSync(SYNTHETIC_PDF).size < 4096);
+  const document = await loadDocument(SYNTHETIC_PDF);
+  assert.equal(document.format, 'pdf');
+  assert.equal(document.pageCount, 1);
+  assert.equal(document.hasTextLayer, true);
+  assert.deepEqual(document.imageOnlyPages, []);
+  assert.match(document.text, /Jordan Sample/);
+});
+
+test('a PDF without text is reported as image-only', async () => {
+  const file = scratchFile('scan.pdf', blankPdf());
+  const document = await loadDocument(file);
+  assert.equal(document.hasTextLayer, false);
+  assert.deepEqual(document.imageOnlyPages, [1]);
+  await rejectsWith(loadDocument(file, { requireTextLayer: true }), 'NO_TEXT_EXTRACTED');
+});
+
+test('files that are not what their extension says fail with PARSE_FAILED', async () => {
+  await rejectsWith(loadDocument(scratchFile('corrupt.pdf', 'garbage')), 'PARSE_FAILED');
+  await rejectsWith(loadDocument(scratchFile('corrupt.docx', 'garbage')), 'PARSE_FAILED');
+});
+
+test('unsupported and missing files are refused', async () => {
+  await rejectsWith(loadDocument(scratchFile('notes.txt', 'text')), 'UNSUPPORTED_FORMAT');
+  await rejectsWith(loadDocument(path.join(scratchDir, 'missing.pdf')), 'READ_FAILED');
+});
@@ -0,0 +1,261 @@
+/**
+ * Document Ingestion
+ *
+ * Turns PDF and DOCX IEPs into page-indexed text using the local text layer
+ * (pdf-parse for PDFs, mammoth for DOCX). The text can be sent to the model
+ * instead of, or alongside, the uploaded file.
+ *
+ * Scanned (image-only) PDFs have no usable text layer. They are detected by
+ * the amount of text per page and reported with a clear "No text extracted"
+ * error so callers can fall back to file upload or OCR. Files pdf-parse or
+ * mammoth cannot open at all (corrupt, or not a PDF/DOCX despite the
+ * extension) fail with PARSE_FAILED.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import pdfParse from 'pdf-parse/lib/pdf-parse.js';
+import mammoth from 'mammoth';
+
+/**
+ * Supported document formats
+ */
+export type DocumentFormat = 'pdf' | 'docx';
+
+/**
+ * How the document is presented to the model
+ * - file: upload the original file (PDF only)
+ * - text: send the local page-indexed text only
+ * - file+text: upload the file and send the text alongside it
+ */
+export type DocumentInputMode = 'file' | 'text' | 'file+text';
+
+/**
+ * Text of a single page (1-based page number)
+ */
+export interface DocumentPage {
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * A document loaded from its local text layer
+ */
+export interface LoadedDocument {
+  filePath: string;
+  format: DocumentFormat;
+  pageCount: number;
+  pages: DocumentPage[];
+  text: string;
+  hasTextLayer: boolean;
+  /** Pages with too little text to be anything but scanned images */
+  imageOnlyPages: number[];
+}
+
+/**
+ * Summary of a loaded document, safe to include in processing results
+ */
+export interface DocumentSummary {
+  format: DocumentFormat;
+  pageCount: number;
+  hasTextLayer: boolean;
+  imageOnlyPages: number[];
+  characterCount: number;
+}
+
+/**
+ * Ingestion failure with a machine-readable code
+ */
+export class DocumentIngestionError extends Error {
+  constructor(
+    public readonly code: 'UNSUPPORTED_FORMAT' | 'NO_TEXT_EXTRACTED' | 'READ_FAILED' | 'PARSE_FAILED',
+    message: string
+  ) {
+    super(message);
+    this.name = 'DocumentIngestionError';
+  }
+}
+
+// A page with fewer non-whitespace characters than this is treated as image-only
+const MIN_CHARS_PER_PAGE = 40;
+
+// pdf.js verbosity level that prints errors only
+const PDFJS_ERRORS_ONLY = 0;
+
+interface PdfJsMessageHandler {
+  on(action: string, callback: (data: unknown) => void, scope?: unknown): void;
+}
+
+// The parts of a pdf.js page that pdf-parse hands to pagerender
+interface PdfJsPage {
+  pageIndex?: number;
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
+
+let pdfJsSilenced = false;
+
+/**
+ * Let only errors of pdf.js (the build pdf-parse loads) through: its warnings,
+ * e.g. "Warning: Indexing all PDF objects", are printed to stdout. pdf-parse
+ * runs the pdf.js worker in-process, and the worker keeps a level of its own,
+ * so that level is set as the worker is set up. Done once, on the first PDF.
+ */
+function silencePdfJsWarnings(): void {
+  if (pdfJsSilenced) return;
+  pdfJsSilenced = true;
+  const require = createRequire(import.meta.url);
+  const build = 'pdf-parse/lib/pdf.js/v1.9.426/build';
+  require(`${build}/pdf.js`).PDFJS.verbosity = PDFJS_ERRORS_ONLY;
+
+  const { WorkerMessageHandler } = require(`${build}/pdf.worker.js`) as {
+    WorkerMessageHandler: { setup(handler: PdfJsMessageHandler, port: unknown): void };
+  };
+  const setup = WorkerMessageHandler.setup;
+  WorkerMessageHandler.setup = (handler, port) => {
+    const on = handler.on;
+    handler.on = (action, callback, scope) => {
+      on.call(handler, action, callback, scope);
+      if (action === 'configure') {
+        callback.call(scope, { verbosity: PDFJS_ERRORS_ONLY });
+      }
+    };
+    setup.call(WorkerMessageHandler, handler, port);
+  };
+}
+
+/**
+ * Determine the document format from the file extension
+ */
+export function detectDocumentFormat(filePath: string): DocumentFormat {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.pdf') return 'pdf';
+  if (extension === '.docx') return 'docx';
+  throw new DocumentIngestionError(
+    'UNSUPPORTED_FORMAT',
+    `Unsupported document format "${extension || 'none'}" for ${path.basename(filePath)} (expected .pdf or .docx)`
+  );
+}
+
+/**
+ * Load a PDF or DOCX document into page-indexed text
+ *
+ * @param filePath - Path to the IEP document
+ * @param options - Set requireTextLayer to throw when a PDF has no usable text
+ * @returns LoadedDocument
+ * @throws DocumentIngestionError - unsupported format, unreadable or corrupt file, or no text layer when required
+ */
+export async function loadDocument(
+  filePath: string,
+  options: { requireTextLayer?: boolean } = {}
+): Promise<LoadedDocument> {
+  const format = detectDocumentFormat(filePath);
+
+  let buffer: Buffer;
+  try {
+    buffer = fs.readFileSync(filePath);
+  } catch (error) {
+    throw new DocumentIngestionError('READ_FAILED', `Failed to read "${filePath}": ${error}`);
+  }
+
+  let pages: DocumentPage[];
+  try {
+    pages = format === 'pdf' ? await readPdfPages(buffer) : await readDocxPages(buffer);
+  } catch (error) {
+    throw new DocumentIngestionError(
+      'PARSE_FAILED',
+      `Cannot open "${path.basename(filePath)}" as a ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const imageOnlyPages = pages
+    .filter(page => page.text.replace(/\s/g, '').length < MIN_CHARS_PER_PAGE)
+    .map(page => page.pageNumber);
+  const hasTextLayer = pages.length > 0 && imageOnlyPages.length < pages.length;
+
+  if (options.requireTextLayer && !hasTextLayer) {
+    throw new DocumentIngestionError(
+      'NO_TEXT_EXTRACTED',
+      `No text extracted from "${path.basename(filePath)}": the ${format.toUpperCase()} appears to be image-based (scanned) and needs OCR`
+    );
+  }
+
+  return {
+    filePath,
+    format,
+    pageCount: pages.length,
+    pages,
+    text: pages.map(page => page.text).join('\n\n'),
+    hasTextLayer,
+    imageOnlyPages
+  };
+}
+
+/**
+ * Render a loaded document as page-delimited text for the model prompt
+ */
+export function formatDocumentText(document: LoadedDocument): string {
+  return document.pages
+    .map(page => `=== PAGE ${page.pageNumber} ===\n${page.text}`)
+    .join('\n\n');
+}
+
+/**
+ * Summarize a loaded document for processing results
+ */
+export function summarizeDocument(document: LoadedDocument): DocumentSummary {
+  return {
+    format: document.format,
+    pageCount: document.pageCount,
+    hasTextLayer: document.hasTextLayer,
+    imageOnlyPages: document.imageOnlyPages,
+    characterCount: document.text.length
+  };
+}
+
+/**
+ * Extract text per page from a PDF text layer
+ */
+async function readPdfPages(buffer: Buffer): Promise<DocumentPage[]> {
+  const pages: DocumentPage[] = [];
+  silencePdfJsWarnings();
+
+  // pdf.js copies a Buffer with Buffer's own constructor, which puts small
+  // files (< 4 KB) in Node's shared pool, and then reads the pool's
+  // ArrayBuffer from offset 0 ("bad XRef entry"); a plain Uint8Array is safe
+  await pdfParse(new Uint8Array(buffer), {
+    // Same line-joining as pdf-parse's default renderer, but keeps pages apart
+    pagerender: async (pageData: PdfJsPage) => {
+      const textContent = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false
+      });
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of textContent.items) {
+        if (lastY === item.transform[5] || lastY === undefined) {
+          text += item.str;
+        } else {
+          text += '\n' + item.str;
+        }
+        lastY = item.transform[5];
+      }
+      const pageNumber = typeof pageData.pageIndex === 'number' ? pageData.pageIndex + 1 : pages.length + 1;
+      pages.push({ pageNumber, text });
+      return text;
+    }
+  });
+
+  return pages.sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+/**
+ * Extract text from a DOCX file. DOCX has no fixed pagination, so the whole
+ * document is returned as page 1 (cost estimates count its pages from the text length).
+ */
+async function readDocxPages(buffer: Buffer): Promise<DocumentPage[]> {
+  const result = await mammoth.extractRawText({ buffer });
+  return [{ pageNumber: 1, text: result.value }];
+}
@@ -0,0 +1,197 @@
+/**
+ * Structured Logging
+ *
+ * One winston logger for the whole pipeline. Every line carries the
+ * correlation id of the document being processed, so the lines of
+ * concurrent documents in a batch or the HTTP service can be told apart.
+ * Timing spans (upload, model call, parse, validate) are logged and
+ * collected per document.
+ *
+ * Configuration (configureLogger, or the environment):
+ * - LOG_LEVEL: error | warn | info | debug | silent (default: info)
+ * - LOG_FORMAT: pretty (one readable line) | json (one JSON object per line)
+ * - LOG_REDACT=off: log values as they are (local debugging only)
+ *
+ * Features:
+ * - All output goes to stderr; stdout is left to the CLI's own output
+ * - Quiet mode for library use: configureLogger({ quiet: true })
+ * - PII redaction of every logged field and message (see redaction.ts)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import winston from 'winston';
+import { redactField, redactText } from './redaction';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * Logger settings
+ */
+export interface LoggerOptions {
+  /** Lowest level written, or silent (default: env LOG_LEVEL or info) */
+  level?: LogLevel | 'silent';
+  /** Line format (default: env LOG_FORMAT or pretty) */
+  format?: 'pretty' | 'json';
+  /** Write nothing at all */
+  quiet?: boolean;
+  /** Redact PII from logged values (default: on unless LOG_REDACT=off) */
+  redact?: boolean;
+}
+
+/**
+ * Duration of one timed step
+ */
+export interface SpanRecord {
+  name: string;
+  durationMs: number;
+  ok: boolean;
+}
+
+/**
+ * Per-document log context
+ */
+export interface LogContext {
+  correlationId: string;
+  /** Spans finished within the context, in order */
+  spans: SpanRecord[];
+}
+
+/**
+ * A running span
+ */
+export interface Span {
+  /** Log and record the duration; returns it in ms */
+  end(fields?: Record<string, unknown>): number;
+  /** Like end, for a step that threw */
+  fail(error: unknown, fields?: Record<string, unknown>): number;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+let redactionEnabled = process.env.LOG_REDACT !== 'off';
+
+// Adds the correlation id of the current document
+const withContext = winston.format(info => {
+  const context = contextStorage.getStore();
+  if (context) {
+    info.correlationId = context.correlationId;
+  }
+  return info;
+});
+
+const redact = winston.format(info => {
+  if (!redactionEnabled) {
+    return info;
+  }
+  info.message = redactText(String(info.message));
+  for (const key of Object.keys(info)) {
+    if (key !== 'level' && key !== 'message' && key !== 'timestamp' && key !== 'correlationId') {
+      info[key] = redactField(key, info[key]);
+    }
+  }
+  return info;
+});
+
+const pretty = winston.format.printf(({ level, message, timestamp, correlationId, ...fields }) => {
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+  return [timestamp, level.toUpperCase().padEnd(5), correlationId ? `[${String(correlationId).substring(0, 8)}]` : undefined, message, ...details]
+    .filter(Boolean)
+    .join(' ');
+});
+
+/**
+ * The shared logger
+ */
+export const logger = winston.createLogger({
+  transports: [new winston.transports.Console({ stderrLevels: ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly'] })]
+});
+
+try {
+  configureLogger();
+} catch (error) {
+  // A typo in LOG_LEVEL or LOG_FORMAT should not stop every import of the pipeline
+  configureLogger({ level: 'info', format: 'pretty' });
+  logger.warn(`${error instanceof Error ? error.message : error}; using info and pretty`);
+}
+
+/**
+ * Change level, format, quiet mode or redaction; unset options fall back to the environment
+ *
+ * @throws Error - an unknown level or format
+ */
+export function configureLogger(options: LoggerOptions = {}): void {
+  const level = options.level || process.env.LOG_LEVEL || 'info';
+  const format = options.format || process.env.LOG_FORMAT || 'pretty';
+  if (!['error', 'warn', 'info', 'debug', 'silent'].includes(level)) {
+    throw new Error(`Unknown log level "${level}" (expected error, warn, info, debug or silent)`);
+  }
+  if (format !== 'pretty' && format !== 'json') {
+    throw new Error(`Unknown log format "${format}" (expected pretty or json)`);
+  }
+
+  redactionEnabled = options.redact ?? process.env.LOG_REDACT !== 'off';
+  logger.silent = Boolean(options.quiet) || level === 'silent';
+  logger.level = level === 'silent' ? 'error' : level;
+  logger.format = winston.format.combine(
+    withContext(),
+    redact(),
+    winston.format.timestamp(),
+    format === 'json' ? winston.format.json() : pretty
+  );
+}
+
+/**
+ * Run a function with its own correlation id and span list
+ *
+ * @param correlationId - Id to log (default: the enclosing context's id, or a new random id)
+ * @param run - Work to do; receives the context to read its spans afterwards
+ */
+export function withLogContext<T>(correlationId: string | undefined, run: (context: LogContext) => Promise<T>): Promise<T> {
+  const context: LogContext = { correlationId: correlationId || contextStorage.getStore()?.correlationId || randomUUID(), spans: [] };
+  return contextStorage.run(context, () => run(context));
+}
+
+/**
+ * Start timing a step (upload, model, parse, validate, ...)
+ *
+ * @param name - Step name
+ * @param fields - Logged with the span's end
+ */
+export function startSpan(name: string, fields: Record<string, unknown> = {}): Span {
+  const started = process.hrtime.bigint();
+  const context = contextStorage.getStore();
+  let finished: number | undefined;
+
+  const finish = (ok: boolean, extra: Record<string, unknown>): number => {
+    if (finished !== undefined) return finished;
+    finished = Math.round(Number(process.hrtime.bigint() - started) / 1e6);
+    context?.spans.push({ name, durationMs: finished, ok });
+    logger.log(ok ? 'info' : 'warn', `${name} ${ok ? 'finished' : 'failed'}`, { span: name, durationMs: finished, ...fields, ...extra });
+    return finished;
+  };
+  return {
+    end: (extra = {}) => finish(true, extra),
+    fail: (error, extra = {}) => finish(false, { error: error instanceof Error ? error.message : String(error), ...extra })
+  };
+}
+
+/**
+ * Time an async step as a span
+ *
+ * @param name - Step name
+ * @param run - The step
+ * @param fields - Logged with the span's end
+ */
+export async function timeSpan<T>(name: string, run: () => Promise<T> | T, fields: Record<string, unknown> = {}): Promise<T> {
+  const span = startSpan(name, fields);
+  try {
+    const result = await run();
+    span.end();
+    return result;
+  } catch (error) {
+    span.fail(error);
+    throw error;
+  }
+}
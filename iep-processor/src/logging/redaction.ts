@@ -0,0 +1,97 @@
+/**
+ * PII Redaction for Log Output
+ *
+ * IEP documents are full of student data, so nothing read from a document
+ * or returned by a model may reach the logs as is. Log fields are redacted
+ * by name, and every logged string is scrubbed of contact details.
+ *
+ * Features:
+ * - Personal fields (names, date of birth, address, phone, email, SSN) are
+ *   replaced by [REDACTED]
+ * - Content fields (text, output, prompt, data) are replaced by their size
+ * - Document paths are replaced by a short hash plus the extension, since
+ *   file names usually carry the student's name
+ * - Email addresses, phone numbers, SSNs and PDF/DOCX paths in any string
+ *   are masked. A path with spaces is masked whole when it is quoted or
+ *   starts with a directory separator, so messages quote document names.
+ */
+
+import * as path from 'path';
+import { sha256 } from '../utils/hash';
+
+// Field names compare lower-case with separators removed (student_name = studentName)
+const PERSONAL_FIELDS = new Set([
+  'name', 'studentname', 'firstname', 'lastname', 'middlename', 'parentname', 'guardianname',
+  'dateofbirth', 'dob', 'birthdate', 'address', 'street', 'phone', 'telephone', 'email', 'ssn'
+]);
+const CONTENT_FIELDS = new Set(['text', 'documenttext', 'output', 'rawoutput', 'outputtext', 'prompt', 'data', 'content']);
+const PATH_FIELDS = new Set(['file', 'filepath', 'filename', 'document', 'path', 'outputpath']);
+
+// A quoted path, a path from a separator (absolute, ./, ~/) up to the extension, or a path without spaces
+const PATH_PATTERN = /(["'`])[^"'`\n]*?\.(?:pdf|docx)\1|(?:[A-Z]:|~|\.{1,2})?[\\/][^"'`\n]*?\.(?:pdf|docx)\b|(?:[\w.~-]*[\\/])*[\w.~()-]+\.(?:pdf|docx)\b/gi;
+
+const PATTERNS: Array<[RegExp, string | ((match: string, quote?: string) => string)]> = [
+  [/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[EMAIL]'],
+  [/\b\d{3}-\d{2}-\d{4}\b/g, '[SSN]'],
+  [/(?:\+?1[-.\s]?)?\(?\b\d{3}\)?[-.\s]\d{3}[-.\s]\d{4}\b/g, '[PHONE]'],
+  [PATH_PATTERN, (match, quote) => quote ? `${quote}${redactPath(match.slice(1, -1))}${quote}` : redactPath(match)]
+];
+
+/**
+ * Mask email addresses, phone numbers, SSNs and document paths in a string
+ */
+export function redactText(text: string): string {
+  return PATTERNS.reduce(
+    (result, [pattern, replacement]) => typeof replacement === 'string' ? result.replace(pattern, replacement) : result.replace(pattern, replacement),
+    text
+  );
+}
+
+/**
+ * Stand-in for a document path: hash of the path plus the extension
+ */
+export function redactPath(filePath: string): string {
+  return `doc:${sha256(filePath).substring(0, 10)}${path.extname(filePath).toLowerCase()}`;
+}
+
+/**
+ * Redact one log field by its name, recursing into objects and arrays
+ *
+ * @param key - Field name
+ * @param value - Field value
+ */
+export function redactField(key: string, value: unknown): unknown {
+  const field = key.toLowerCase().replace(/[-_\s]/g, '');
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (PERSONAL_FIELDS.has(field)) {
+    return '[REDACTED]';
+  }
+  if (PATH_FIELDS.has(field) && typeof value === 'string') {
+    return redactPath(value);
+  }
+  if (CONTENT_FIELDS.has(field)) {
+    return typeof value === 'string' ? `[REDACTED ${value.length} chars]` : '[REDACTED]';
+  }
+  return redactValue(value);
+}
+
+/**
+ * Redact every field of a value
+ */
+export function redactValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value instanceof Error) {
+    return redactText(value.message);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactField(key, item)]));
+  }
+  return value;
+}
@@ -11,11 +11,109 @@
  * - Detailed error reporting
  * - Cost tracking and usage statistics
  * - Proper error handling and cleanup
+ * - Pluggable extraction providers (OpenAI, Anthropic, offline fixtures)
+ * - PDF and DOCX input with optional local text-layer extraction
+ * - Hybrid mode: deterministic rule-based parsing, model only for the rest
+ * - Multi-pass mode: one focused call per section group, deep-merged
+ * - Optional repair loop feeding validation errors back to the model
+ * - Optional field-level provenance (page and source span per value)
+ * - Optional per-field confidence with a low-confidence review queue
+ * - Results stamped with the schema id and version (see src/schema/migrations.ts)
+ * - Canonical dates, phones, ZIPs, frequencies and amounts of time alongside
+ *   the raw values (see src/normalization/field-normalization.ts)
+ * - Weekly service minutes per provider, location and goal for IEPs, checked
+ *   against the LRE percentage (see src/analytics/service-minutes.ts)
+ * - Multiple form types (IEP, ETR, progress report, 504 plan) detected from
+ *   the text layer; unrecognized documents are refused or routed (src/forms)
+ * - Failures carry an error code (rate limit, refusal, truncated output, ...)
+ *   and whether retrying may help (see src/providers/errors.ts)
+ * - Pre-flight cost estimate checked against per-run, per-batch and per-day
+ *   budgets before any model call; spend recorded in a ledger (src/budget)
+ * - Results cached by document hash and settings; a cache hit costs $0
+ *   (see src/cache/result-cache.ts)
+ * - Structured, PII-redacted logs with a correlation id per document and
+ *   timing spans for upload, model call, parse and validate (src/logging)
  */
 
-import { extractWithFormSpecificCompliance } from './extractors/form-specific-extractor';
+import * as path from 'path';
+import { extractForm, extractWithFormSpecificCompliance } from './extractors/form-specific-extractor';
+import { extractHybrid, SectionSource } from './extractors/hybrid-extractor';
+import { extractMultiPass, ExtractionPass, DEFAULT_PASSES } from './extractors/multi-pass-extractor';
+import { runRepairLoop, RepairOptions, RepairLog } from './extractors/repair-loop';
 import { validateFormSpecificData, generateValidationReport } from './validation/ajv-validator';
+import {
+  FormCandidate,
+  FormData,
+  FormDefinition,
+  FormType,
+  classifyDocument,
+  getForm,
+  listForms,
+  validateForm
+} from './forms';
 import { FormSpecificIEPData, ApiUsage, ValidationResult } from './types/form-specific-iep-data';
+import { ExtractionProvider, ProviderError, ProviderErrorCode, ReasoningEffort, createProvider } from './providers';
+import { ProvenanceReport, buildProvenance } from './provenance/field-provenance';
+import { NormalizationReport, normalizeFormData } from './normalization/field-normalization';
+import { ServiceMinutesSummary, summarizeServiceMinutes } from './analytics/service-minutes';
+import {
+  ConfidenceOptions,
+  ConfidenceReport,
+  ReviewQueueItem,
+  buildReviewQueue,
+  scoreConfidence
+} from './confidence/field-confidence';
+import { emptyUsage, failedUsage, sumUsage } from './utils/usage';
+import { SchemaInfo, compactExtractionSchema, getExtractionSchema, getSchemaInfo } from './schema/registry';
+import { hashFile, sha256 } from './utils/hash';
+import { CostEstimate, combineEstimates, estimateCost } from './budget/cost-estimate';
+import {
+  BudgetError,
+  BudgetOptions,
+  BudgetReservation,
+  createBatchBudget,
+  reserveBudget,
+  resolveBudget
+} from './budget/budget-guard';
+import { appendLedgerEntry, utcDay } from './budget/spend-ledger';
+import { findModelPricing } from './providers/pricing';
+import {
+  CacheInfo,
+  CacheKeyParts,
+  ResultCacheOptions,
+  cacheKey,
+  readCachedResult,
+  resolveCacheOptions,
+  writeCachedResult
+} from './cache/result-cache';
+import {
+  DocumentIngestionError,
+  DocumentInputMode,
+  DocumentSummary,
+  LoadedDocument,
+  detectDocumentFormat,
+  loadDocument,
+  summarizeDocument
+} from './ingestion/document-loader';
+import { SpanRecord, logger, timeSpan, withLogContext } from './logging/logger';
+
+/**
+ * Extraction strategy
+ * - single-shot: one model call for the whole document
+ * - hybrid: rule-based parser on the text layer, model only for unfilled sections
+ * - multi-pass: one focused call per section group, results deep-merged
+ */
+export type ExtractionStrategy = 'single-shot' | 'hybrid' | 'multi-pass';
+
+/**
+ * Confidence scoring options
+ */
+export interface ConfidenceProcessingOptions extends ConfidenceOptions {
+  /** Extra extractions with the same provider for the agreement signal (default: 0) */
+  additionalRuns?: number;
+  /** Other providers whose extractions are compared for the agreement signal */
+  compareProviders?: ExtractionProvider[];
+}
 
 /**
  * Processing options for IEP extraction
@@ -24,6 +122,68 @@ export interface ProcessingOptions {
   reasoningEffort?: 'low' | 'medium' | 'high';
   validateOutput?: boolean;
   generateReport?: boolean;
+  /** Extraction backend (default: resolved from IEP_PROVIDER, OpenAI otherwise) */
+  provider?: ExtractionProvider;
+  /** Send the uploaded file, its local text layer, or both (default: file; DOCX always uses text) */
+  inputMode?: DocumentInputMode;
+  /** Extraction strategy (default: single-shot) */
+  strategy?: ExtractionStrategy;
+  /** Multi-pass passes run at once (default: env IEP_PASS_CONCURRENCY or 2) */
+  passConcurrency?: number;
+  /** Feed validation errors back to the model for correction (requires validation) */
+  repair?: RepairOptions;
+  /** Locate every extracted value in the text layer (page + verbatim span) */
+  provenance?: boolean;
+  /** Score every value and build the low-confidence review queue */
+  confidence?: ConfidenceProcessingOptions;
+  /** Form type of the document (default: detected from the text layer) */
+  formType?: FormType;
+  /** Documents matching no registered form: refuse them (default) or extract as the given form */
+  unmatched?: 'reject' | FormType;
+  /** Spending caps and spend ledger (default: caps from env IEP_MAX_RUN_USD, IEP_MAX_DAILY_USD) */
+  budget?: BudgetOptions;
+  /** Result cache location and limits, or false to neither read nor write it (default: enabled unless IEP_CACHE=off) */
+  cache?: ResultCacheOptions | false;
+  /** Id on every log line of this document (default: the caller's log context id, or a random UUID) */
+  correlationId?: string;
+}
+
+/**
+ * Form a document was processed as, and how that was decided
+ * - specified: formType option
+ * - classified: detected from the text layer
+ * - routed: no form matched; the unmatched option chose one
+ * - assumed: no text layer to classify; the unmatched option chose one
+ */
+export interface FormDetectionInfo {
+  id: FormType;
+  name: string;
+  source: 'specified' | 'classified' | 'routed' | 'assumed';
+  /** Classifier score of the chosen form (classified only) */
+  confidence?: number;
+  /** Every form's classifier score, best first */
+  candidates?: FormCandidate[];
+}
+
+/**
+ * Error codes of a failed ProcessingResult
+ * - provider codes (RATE_LIMIT, TIMEOUT, UNAVAILABLE, REFUSAL, TRUNCATED,
+ *   INVALID_JSON, SCHEMA_REJECTED, REQUEST_FAILED)
+ * - document ingestion codes (UNSUPPORTED_FORMAT, NO_TEXT_EXTRACTED, READ_FAILED, PARSE_FAILED)
+ * - budget codes (BUDGET_EXCEEDED, PRICING_UNKNOWN): refused before any model call
+ * - FORM_UNMATCHED: the document matches no registered form
+ * - PROCESSING_FAILED: anything else
+ */
+export type ProcessingErrorCode = ProviderErrorCode | DocumentIngestionError['code'] | BudgetError['code'] | 'FORM_UNMATCHED' | 'PROCESSING_FAILED';
+
+/**
+ * Why processing failed
+ */
+export interface ProcessingError {
+  code: ProcessingErrorCode;
+  message: string;
+  /** Processing the document again may succeed (rate limit, timeout, unavailable) */
+  transient: boolean;
 }
 
 /**
@@ -31,19 +191,50 @@ export interface ProcessingOptions {
  */
 export interface ProcessingResult {
   success: boolean;
-  data?: FormSpecificIEPData;
+  /** Schema id and version the data conforms to */
+  schema?: SchemaInfo;
+  /** Detected or specified form type */
+  form?: FormDetectionInfo;
+  /** Every form's classifier score when the document matched none and was refused */
+  formCandidates?: FormCandidate[];
+  data?: FormData;
+  /** Canonical values of dates, phones, ZIPs, frequencies and amounts of time in data, by JSON pointer */
+  normalized?: NormalizationReport;
+  /** Weekly service minutes per service, provider, location and goal (IEP only) */
+  serviceMinutes?: ServiceMinutesSummary;
+  /** Page and source span per JSON pointer in data (provenance option only) */
+  provenance?: ProvenanceReport;
   validation?: ValidationResult;
   usage?: ApiUsage;
   model?: string;
-  error?: string;
+  /** Pre-flight cost estimate the budget was checked against */
+  costEstimate?: CostEstimate;
+  /** Whether the result came from the result cache (usage is zero on a hit) */
+  cache?: CacheInfo;
+  error?: ProcessingError;
   report?: string;
   processingTime?: number;
+  document?: DocumentSummary;
+  /** Source of each top-level section (hybrid strategy only) */
+  sectionSources?: Record<string, SectionSource>;
+  /** Per-pass models, usage and timing (multi-pass strategy only) */
+  passes?: ExtractionPass[];
+  /** Every extraction and repair attempt with its errors and cost (repair only) */
+  repair?: RepairLog;
+  /** Per-field, per-section and document confidence (confidence option only) */
+  confidence?: ConfidenceReport;
+  /** Fields below the confidence threshold, lowest first */
+  reviewQueue?: ReviewQueueItem[];
+  /** Id on every log line of this document */
+  correlationId?: string;
+  /** Duration of each upload, model call, parse and validate step, in order */
+  timings?: SpanRecord[];
 }
 
 /**
  * Process an IEP document with form-specific extraction and validation
  * 
- * @param filePath - Path to the IEP PDF file
+ * @param filePath - Path to the IEP PDF or DOCX file
  * @param options - Processing options
  * @returns Promise with complete processing results
  */
@@ -51,131 +242,615 @@ export async function processIEP(
   filePath: string, 
   options: ProcessingOptions = {}
 ): Promise<ProcessingResult> {
+  return withLogContext(options.correlationId, async context => {
+    const result = await processDocument(filePath, options);
+    return { ...result, correlationId: context.correlationId, timings: context.spans };
+  });
+}
+
+/**
+ * processIEP within the document's log context
+ */
+async function processDocument(
+  filePath: string,
+  options: ProcessingOptions
+): Promise<ProcessingResult> {
   
   const startTime = Date.now();
   
-  console.log(`🚀 Starting form-specific IEP processing...`);
-  console.log(`   File: ${filePath}`);
-  console.log(`   Reasoning effort: ${options.reasoningEffort || 'medium'}`);
-  console.log(`   Validation: ${options.validateOutput !== false ? 'enabled' : 'disabled'}`);
+  logger.info('Processing started', {
+    file: filePath,
+    reasoningEffort: options.reasoningEffort || 'medium',
+    strategy: options.strategy || 'single-shot',
+    validation: options.validateOutput !== false
+  });
   
+  let document: LoadedDocument | undefined;
+  let costEstimate: CostEstimate | undefined;
+  let reservation: BudgetReservation | undefined;
+  let provider: ExtractionProvider | undefined;
+  let budget: BudgetOptions | undefined;
+  // Usage of the main provider; comparison runs are kept apart for the ledger
+  let usage: ApiUsage | undefined;
+  const comparisonSpend: Array<{ provider: ExtractionProvider; usage: ApiUsage | undefined }> = [];
+
   try {
-    // Step 1: Extract IEP data using form-specific schema
-    console.log(`\n📊 Step 1: Form-specific extraction...`);
-    const extractionResult = await extractWithFormSpecificCompliance(
-      filePath, 
-      options.reasoningEffort || 'medium'
+    provider = options.provider || createProvider();
+    budget = resolveBudget(options.budget);
+    const inputMode = resolveInputMode(filePath, options);
+
+    let strategy = options.strategy || 'single-shot';
+    let repairOptions = options.repair;
+
+    // Step 0: Determine the form type (reads the text layer)
+    logger.debug('Step 0: reading the text layer and detecting the form type');
+    const detection = await detectForm(filePath, options, inputMode !== 'file' || strategy === 'hybrid');
+    document = detection.document;
+    if (!detection.form) {
+      const best = detection.candidates?.[0];
+      const processingTime = Date.now() - startTime;
+      const reason = document.hasTextLayer
+        ? `Document does not match any registered form type${best && best.score > 0 ? ` (closest: ${best.formId} at ${best.score})` : ''}`
+        : 'Document has no text layer to classify (scanned; needs OCR)';
+      logger.error(reason, { closest: best?.formId, score: best?.score });
+      return {
+        success: false,
+        error: {
+          code: 'FORM_UNMATCHED',
+          message: `${reason}; set formType or unmatched to process it anyway`,
+          transient: false
+        },
+        formCandidates: detection.candidates,
+        processingTime,
+        document: summarizeDocument(document)
+      };
+    }
+
+    const form = getForm(detection.form.id);
+    logger.info('Form type determined', { form: form.id, source: detection.form.source, confidence: detection.form.confidence });
+    if (!form.sectionStrategies && (strategy !== 'single-shot' || repairOptions)) {
+      logger.warn(`${form.name} supports single-shot extraction only; ignoring strategy and repair options`);
+      strategy = 'single-shot';
+      repairOptions = undefined;
+    }
+
+    // Same document and settings processed before: reuse the result at no cost
+    const cacheable = [provider, ...(options.confidence?.compareProviders || [])].every(candidate => candidate.cacheable !== false);
+    if (!cacheable && options.cache !== false) {
+      logger.debug('Result cache skipped: provider output is not from a live model', { provider: provider.name });
+    }
+    const cache = options.cache === false || !cacheable ? undefined : resolveCacheOptions(options.cache);
+    let cached: { key: string; parts: CacheKeyParts } | undefined;
+    if (cache) {
+      const parts = cacheKeyParts(filePath, form, strategy, provider, inputMode, options, repairOptions);
+      cached = { key: cacheKey(parts), parts };
+      const hit = readCachedResult(cached.key, cache);
+      if (hit) {
+        logger.info('Cache hit; no model call', { cacheKey: cached.key.substring(0, 12), cachedAt: hit.createdAt });
+        return {
+          ...hit.result,
+          usage: emptyUsage(),
+          costEstimate: undefined,
+          processingTime: Date.now() - startTime,
+          cache: { hit: true, key: cached.key, cachedAt: hit.createdAt, originalCostUsd: hit.result.usage?.cost_usd }
+        };
+      }
+    }
+
+    // Pre-flight: check the estimated cost against the budget before any model call
+    costEstimate = forecastCost(form, strategy, provider, document, inputMode, options, repairOptions);
+    logger.info('Cost estimated', {
+      estimatedUsd: costEstimate.priced ? Number(costEstimate.costUsd.toFixed(4)) : undefined,
+      priced: costEstimate.priced,
+      pages: costEstimate.pageCount,
+      calls: costEstimate.calls
+    });
+    reservation = reserveBudget(costEstimate, budget);
+
+    // Step 1: Extract data using the form's schema
+    logger.debug('Step 1: form-specific extraction');
+    const extractionStart = Date.now();
+    const extractionResult = await runExtraction(
+      form,
+      strategy,
+      filePath,
+      options.reasoningEffort || 'medium',
+      provider,
+      { inputMode, document },
+      options.passConcurrency
     );
     
-    console.log(`✅ Extraction completed successfully`);
+    logger.info('Extraction completed', { model: extractionResult.model });
     
+    let data = extractionResult.data;
+    usage = extractionResult.usage;
+    let repair: RepairLog | undefined;
+
     // Step 2: Validate extracted data (unless disabled)
     let validation: ValidationResult | undefined;
-    if (options.validateOutput !== false) {
-      console.log(`\n🔍 Step 2: Schema validation...`);
-      validation = validateFormSpecificData(extractionResult.data);
+    if (options.validateOutput !== false && repairOptions) {
+      logger.debug('Step 2: schema validation with repair loop');
+      // Only forms with sectionStrategies (the IEP) reach the repair loop
+      const repaired = await runRepairLoop(
+        filePath,
+        { ...extractionResult, data: extractionResult.data as FormSpecificIEPData, durationMs: Date.now() - extractionStart },
+        options.reasoningEffort || 'medium',
+        provider,
+        { inputMode, document },
+        repairOptions
+      );
+      data = repaired.data;
+      usage = repaired.usage;
+      validation = repaired.validation;
+      repair = repaired.repair;
+
+      if (validation.valid) {
+        logger.info('Validation passed', { repairAttempts: repair.attempts.length - 1 });
+      } else {
+        logger.warn('Validation issues remain', { issues: validation.errors.length, stopReason: repair.stopReason });
+      }
+    } else if (options.validateOutput !== false) {
+      logger.debug('Step 2: schema validation');
+      const validated = data;
+      validation = await timeSpan('validate', () => validateForm(form, validated));
       
       if (validation.valid) {
-        console.log(`✅ Validation passed - perfect schema compliance`);
+        logger.info('Validation passed');
       } else {
-        console.log(`⚠️ Validation issues found - see details below`);
+        logger.warn('Validation issues found', { issues: validation.errors.length });
+      }
+    }
+    
+    const normalized = normalizeFormData(data);
+    logger.debug('Values normalized', { normalized: normalized.summary.normalized, total: normalized.summary.total });
+    const serviceMinutes = form.id === 'iep' ? summarizeServiceMinutes(data) : undefined;
+    if (serviceMinutes) {
+      logger.debug('Service minutes summarized', { weeklyMinutes: serviceMinutes.totalWeeklyMinutes });
+    }
+
+    // Step 3: Locate values in the document (if requested)
+    let provenance: ProvenanceReport | undefined;
+    if (options.provenance || options.confidence) {
+      logger.debug('Step 3: field provenance');
+      provenance = buildProvenance(data, document);
+      logger.info('Values located in the text layer', { located: provenance.summary.exact + provenance.summary.fuzzy, total: provenance.summary.total });
+      if (provenance.summary.possiblyHallucinated > 0) {
+        logger.warn('Values without supporting text', { count: provenance.summary.possiblyHallucinated });
       }
     }
     
-    // Step 3: Generate report (if requested)
+    // Step 4: Score confidence against comparison runs (if requested)
+    let confidence: ConfidenceReport | undefined;
+    let reviewQueue: ReviewQueueItem[] | undefined;
+    if (options.confidence) {
+      logger.debug('Step 4: confidence scoring');
+      const comparisonProviders: ExtractionProvider[] = [
+        ...Array(options.confidence.additionalRuns || 0).fill(provider),
+        ...(options.confidence.compareProviders || [])
+      ];
+      const comparisons = await Promise.all(comparisonProviders.map(async comparisonProvider => {
+        try {
+          const comparison = await runExtraction(form, strategy, filePath, options.reasoningEffort || 'medium', comparisonProvider, { inputMode, document }, options.passConcurrency);
+          comparisonSpend.push({ provider: comparisonProvider, usage: comparison.usage });
+          return comparison;
+        } catch (error) {
+          logger.warn('Comparison run failed', { provider: comparisonProvider.name, error: error instanceof Error ? error.message : String(error) });
+          // Failed comparison runs may still have been billed
+          comparisonSpend.push({ provider: comparisonProvider, usage: failedUsage(error) });
+          return undefined;
+        }
+      }));
+      const completed = comparisons.filter((comparison): comparison is NonNullable<typeof comparison> => !!comparison);
+
+      confidence = scoreConfidence(data, completed.map(comparison => comparison.data), provenance, options.confidence);
+      reviewQueue = buildReviewQueue(confidence, data, provenance);
+      logger.info('Confidence scored', {
+        score: confidence.document.score,
+        band: confidence.document.band,
+        runs: confidence.runs,
+        reviewQueue: reviewQueue.length
+      });
+    }
+    
+    // Step 5: Generate report (if requested)
     let report: string | undefined;
     if (options.generateReport && validation) {
-      console.log(`\n📋 Step 3: Generating validation report...`);
-      report = generateValidationReport(validation);
+      logger.debug('Step 5: validation report');
+      report = generateValidationReport(validation, provenance, serviceMinutes);
     }
     
+    recordSpend(filePath, [{ provider, usage }, ...comparisonSpend], costEstimate, budget);
+    // The result reports what every run cost together
+    if (comparisonSpend.length > 0) {
+      usage = sumUsage([usage, ...comparisonSpend.map(spend => spend.usage)]);
+    }
+    reservation?.settle(usage?.cost_usd || 0);
+
     const processingTime = Date.now() - startTime;
     
-    console.log(`\n🎉 Processing completed successfully!`);
-    console.log(`   Processing time: ${processingTime}ms`);
-    console.log(`   Total cost: $${extractionResult.usage?.cost_usd.toFixed(6) || 'unknown'}`);
+    logger.info('Processing completed', { durationMs: processingTime, costUsd: usage?.cost_usd, valid: validation?.valid });
     
-    return {
+    const result: ProcessingResult = {
       success: true,
-      data: extractionResult.data,
+      schema: getSchemaInfo(form.schemaFile),
+      form: detection.form,
+      data,
+      normalized,
+      serviceMinutes,
+      provenance,
       validation,
-      usage: extractionResult.usage,
+      usage,
       model: extractionResult.model,
+      costEstimate,
       report,
-      processingTime
+      processingTime,
+      document: summarizeDocument(document),
+      sectionSources: extractionResult.sectionSources,
+      passes: extractionResult.passes,
+      repair,
+      confidence,
+      reviewQueue
     };
+    if (cache && cached) {
+      try {
+        writeCachedResult(cached.key, cached.parts, result, cache);
+      } catch (error) {
+        logger.warn('Failed to cache the result', { error: error instanceof Error ? error.message : String(error) });
+      }
+      result.cache = { hit: false, key: cached.key };
+    }
+    return result;
     
   } catch (error) {
+    // A failed run may still have been billed: passes that succeeded, unusable responses, finished steps
+    const billedByMain = sumUsage([usage, failedUsage(error)]);
+    const billed = sumUsage([billedByMain, ...comparisonSpend.map(spend => spend.usage)]);
+    if (provider && budget && billed.total_tokens + billed.cost_usd > 0) {
+      recordSpend(filePath, [{ provider, usage: billedByMain }, ...comparisonSpend], costEstimate, budget);
+    }
+    reservation?.settle(billed.cost_usd);
     const processingTime = Date.now() - startTime;
-    const errorMessage = error instanceof Error ? error.message : String(error);
+    const processingError = toProcessingError(error);
     
-    console.error(`❌ Processing failed after ${processingTime}ms`);
-    console.error(`   Error: ${errorMessage}`);
+    logger.error('Processing failed', { durationMs: processingTime, code: processingError.code, error: processingError.message, costUsd: billed.cost_usd });
     
     return {
       success: false,
-      error: errorMessage,
-      processingTime
+      error: processingError,
+      usage: billed.total_tokens + billed.cost_usd > 0 ? billed : undefined,
+      processingTime,
+      costEstimate,
+      document: document ? summarizeDocument(document) : undefined
+    };
+  }
+}
+
+/**
+ * Decide which form a document is and load its text layer
+ *
+ * @param filePath - Path to the document
+ * @param options - formType and unmatched options
+ * @param requireTextLayer - Fail when the document has no text layer (text input or hybrid)
+ * @returns The form (undefined when refused), the loaded document and the classifier scores
+ */
+async function detectForm(
+  filePath: string,
+  options: ProcessingOptions,
+  requireTextLayer: boolean
+): Promise<{ form?: FormDetectionInfo; document: LoadedDocument; candidates?: FormCandidate[] }> {
+  // Loaded even when the file is uploaded as is: a file pdf-parse or mammoth
+  // cannot open is corrupt, and is refused before any model call
+  const document = await loadDocument(filePath, { requireTextLayer });
+
+  if (options.formType) {
+    const form = getForm(options.formType);
+    return { form: { id: form.id, name: form.name, source: 'specified' }, document };
+  }
+
+  // A readable PDF without a text layer (scanned) cannot be classified, so it is unmatched
+  const classification = document.hasTextLayer ? classifyDocument(document.text, listForms()) : undefined;
+  if (classification) {
+    logger.debug('Document classified', { candidates: classification.candidates.map(candidate => `${candidate.formId} ${candidate.score}`).join(', ') });
+  }
+
+  if (classification?.formId) {
+    const form = getForm(classification.formId);
+    return {
+      form: { id: form.id, name: form.name, source: 'classified', confidence: classification.confidence, candidates: classification.candidates },
+      document,
+      candidates: classification.candidates
     };
   }
+
+  const unmatched = options.unmatched || 'reject';
+  if (unmatched === 'reject') {
+    return { document, candidates: classification?.candidates };
+  }
+  const form = getForm(unmatched);
+  logger.warn(classification ? `No form type matched; routing to ${form.name}` : `No text to classify; processing as ${form.name}`);
+  return {
+    form: { id: form.id, name: form.name, source: classification ? 'routed' : 'assumed', candidates: classification?.candidates },
+    document,
+    candidates: classification?.candidates
+  };
+}
+
+/**
+ * Dispatch extraction to the selected strategy
+ *
+ * Forms without section strategies always use a single call with their own
+ * prompt and schema.
+ */
+async function runExtraction(
+  form: FormDefinition,
+  strategy: ExtractionStrategy,
+  filePath: string,
+  reasoningEffort: ReasoningEffort,
+  provider: ExtractionProvider,
+  input: { inputMode: DocumentInputMode; document?: LoadedDocument },
+  passConcurrency?: number
+): Promise<{ data: FormData; usage?: ApiUsage; model: string; sectionSources?: Record<string, SectionSource>; passes?: ExtractionPass[] }> {
+  if (!form.sectionStrategies) {
+    return extractForm(form, filePath, reasoningEffort, provider, input);
+  }
+  switch (strategy) {
+    case 'hybrid':
+      if (!input.document) {
+        throw new Error('Hybrid extraction requires the document text layer');
+      }
+      return extractHybrid(filePath, input.document, reasoningEffort, provider, input.inputMode);
+    case 'multi-pass':
+      return extractMultiPass(filePath, reasoningEffort, provider, input, DEFAULT_PASSES, passConcurrency);
+    default:
+      return extractWithFormSpecificCompliance(filePath, reasoningEffort, provider, input);
+  }
+}
+
+/**
+ * Extraction input of a document: DOCX files cannot be uploaded for
+ * extraction, so they always go through the text layer
+ */
+function resolveInputMode(filePath: string, options: ProcessingOptions): DocumentInputMode {
+  const format = detectDocumentFormat(filePath);
+  if (format === 'docx' && options.inputMode && options.inputMode !== 'text') {
+    logger.warn('DOCX input cannot be uploaded as a file; using the text layer instead');
+  }
+  return format === 'docx' ? 'text' : (options.inputMode || 'file');
+}
+
+/**
+ * Estimate every model call processIEP will make for a document
+ *
+ * Multi-pass sends the document once per pass; the repair loop (at most
+ * maxIterations calls) and confidence comparison runs send it again with a
+ * full answer each.
+ */
+function forecastCost(
+  form: FormDefinition,
+  strategy: ExtractionStrategy,
+  provider: ExtractionProvider,
+  document: LoadedDocument,
+  inputMode: DocumentInputMode,
+  options: ProcessingOptions,
+  repairOptions: RepairOptions | undefined
+): CostEstimate {
+  const base = {
+    pageCount: document.pageCount,
+    format: document.format,
+    characterCount: document.text.length,
+    inputMode,
+    promptCharacters: form.prompt.length + JSON.stringify(compactExtractionSchema(getExtractionSchema(form.schemaFile))).length,
+    reasoningEffort: options.reasoningEffort || 'medium'
+  };
+  const passes = strategy === 'multi-pass' ? DEFAULT_PASSES.length : 1;
+  const repairs = options.validateOutput !== false && repairOptions ? repairOptions.maxIterations ?? 2 : 0;
+  const runs = 1 + (options.confidence?.additionalRuns || 0);
+
+  return combineEstimates([
+    estimateCost({ ...base, model: provider.model, calls: runs * passes + repairs, outputs: runs + repairs }),
+    ...(options.confidence?.compareProviders || []).map(comparison =>
+      estimateCost({ ...base, model: comparison.model, calls: passes }))
+  ]);
+}
+
+/**
+ * Everything the result of processIEP depends on, for the result cache
+ */
+function cacheKeyParts(
+  filePath: string,
+  form: FormDefinition,
+  strategy: ExtractionStrategy,
+  provider: ExtractionProvider,
+  inputMode: DocumentInputMode,
+  options: ProcessingOptions,
+  repairOptions: RepairOptions | undefined
+): CacheKeyParts {
+  const schema = getSchemaInfo(form.schemaFile);
+  const confidence = options.confidence;
+  return {
+    documentHash: hashFile(filePath),
+    provider: provider.name,
+    model: provider.model,
+    reasoningEffort: options.reasoningEffort || 'medium',
+    promptHash: sha256(form.prompt),
+    schema: `${schema.id}@${schema.version}`,
+    form: form.id,
+    options: {
+      strategy,
+      inputMode,
+      validateOutput: options.validateOutput !== false,
+      generateReport: Boolean(options.generateReport),
+      repair: options.validateOutput !== false ? repairOptions : undefined,
+      provenance: Boolean(options.provenance),
+      confidence: confidence && {
+        ...confidence,
+        compareProviders: confidence.compareProviders?.map(comparison => `${comparison.name}:${comparison.model}`)
+      }
+    }
+  };
+}
+
+/**
+ * Add a processed document to the spend ledger, one entry per provider and
+ * model; a ledger that cannot be written only warns, the extraction has
+ * already been paid for
+ *
+ * @param spend - Usage of the main provider first, then of each comparison run
+ */
+function recordSpend(
+  filePath: string,
+  spend: Array<{ provider: ExtractionProvider; usage: ApiUsage | undefined }>,
+  estimate: CostEstimate | undefined,
+  budget: BudgetOptions
+): void {
+  const byModel = new Map<string, { provider: ExtractionProvider; usages: Array<ApiUsage | undefined> }>();
+  for (const { provider, usage } of spend) {
+    const key = `${provider.name}:${provider.model}`;
+    byModel.set(key, { provider, usages: [...(byModel.get(key)?.usages || []), usage] });
+  }
+
+  try {
+    const timestamp = new Date().toISOString();
+    const documentHash = hashFile(filePath);
+    for (const { provider, usages } of byModel.values()) {
+      const usage = sumUsage(usages);
+      appendLedgerEntry(budget.ledgerFile!, {
+        timestamp,
+        day: utcDay(),
+        document: path.basename(filePath),
+        documentHash,
+        provider: provider.name,
+        model: provider.model,
+        costUsd: usage.cost_usd,
+        estimatedUsd: estimate?.byModel?.[provider.model] ?? estimate?.costUsd,
+        priced: findModelPricing(provider.model) !== undefined,
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        reasoningTokens: usage.reasoning_tokens || 0
+      });
+    }
+  } catch (error) {
+    logger.warn('Failed to record spend', { ledgerFile: budget.ledgerFile, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Estimate what processing a document will cost, without calling the model
+ *
+ * Detects the form type like processIEP does; the provider's model is only
+ * used for its price.
+ *
+ * @param filePath - Path to the IEP PDF or DOCX file
+ * @param options - Processing options of the planned run
+ * @returns CostEstimate with the form it was made for
+ */
+export async function estimateProcessingCost(
+  filePath: string,
+  options: ProcessingOptions = {}
+): Promise<CostEstimate & { form: FormType }> {
+  const provider = options.provider || createProvider();
+  const inputMode = resolveInputMode(filePath, options);
+  const detection = await detectForm(filePath, options, false);
+  if (!detection.form) {
+    throw new Error('Document does not match any registered form type; set formType or unmatched to estimate it anyway');
+  }
+
+  const form = getForm(detection.form.id);
+  const sectional = form.sectionStrategies;
+  const estimate = forecastCost(form, sectional ? options.strategy || 'single-shot' : 'single-shot', provider, detection.document, inputMode, options, sectional ? options.repair : undefined);
+  return { ...estimate, form: form.id };
+}
+
+/**
+ * Batch settings
+ */
+export interface BatchOptions {
+  /** Files processed at once (default: 1) */
+  concurrency?: number;
 }
 
 /**
  * Process multiple IEP files in batch
+ *
+ * Results are kept in memory only; runBatch (src/batch/batch-runner.ts)
+ * records progress on disk and resumes interrupted batches. Once the batch
+ * budget (options.budget.maxBatchUsd or env IEP_MAX_BATCH_USD) is used up,
+ * the remaining files fail with BUDGET_EXCEEDED without a model call.
  * 
  * @param filePaths - Array of file paths to process
  * @param options - Processing options
- * @returns Promise with array of processing results
+ * @param batchOptions - Concurrency
+ * @returns Promise with array of processing results, in input order
  */
 export async function processBatchIEPs(
   filePaths: string[],
-  options: ProcessingOptions = {}
+  options: ProcessingOptions = {},
+  batchOptions: BatchOptions = {}
 ): Promise<ProcessingResult[]> {
+  const concurrency = Math.max(1, batchOptions.concurrency || 1);
+  const processing: ProcessingOptions = { ...options, budget: { ...options.budget, batch: createBatchBudget(options.budget) } };
   
-  console.log(`🔄 Starting batch processing of ${filePaths.length} files...`);
+  logger.info('Batch started', { files: filePaths.length, concurrency });
   
-  const results: ProcessingResult[] = [];
-  let totalCost = 0;
-  let successCount = 0;
+  const results: ProcessingResult[] = new Array(filePaths.length);
+  let next = 0;
   
-  for (let i = 0; i < filePaths.length; i++) {
-    const filePath = filePaths[i];
-    console.log(`\n📄 Processing file ${i + 1}/${filePaths.length}: ${filePath}`);
-    
-    try {
-      const result = await processIEP(filePath, options);
-      results.push(result);
+  const worker = async (): Promise<void> => {
+    while (next < filePaths.length) {
+      const i = next++;
+      const filePath = filePaths[i];
+      logger.info(`Processing file ${i + 1}/${filePaths.length}`, { file: filePath });
       
-      if (result.success) {
-        successCount++;
-        totalCost += result.usage?.cost_usd || 0;
+      try {
+        results[i] = await processIEP(filePath, processing);
+      } catch (error) {
+        logger.error('Failed to process file', { file: filePath, error: error instanceof Error ? error.message : String(error) });
+        results[i] = {
+          success: false,
+          error: toProcessingError(error)
+        };
       }
-      
-    } catch (error) {
-      console.error(`❌ Failed to process ${filePath}: ${error}`);
-      results.push({
-        success: false,
-        error: error instanceof Error ? error.message : String(error)
-      });
     }
-  }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, filePaths.length) }, worker));
+  
+  const successful = results.filter(result => result.success);
+  // Failed documents may have been billed too
+  const totalCost = results.reduce((sum, result) => sum + (result.usage?.cost_usd || 0), 0);
   
-  console.log(`\n📊 Batch processing completed:`);
-  console.log(`   Total files: ${filePaths.length}`);
-  console.log(`   Successful: ${successCount}`);
-  console.log(`   Failed: ${filePaths.length - successCount}`);
-  console.log(`   Total cost: $${totalCost.toFixed(6)}`);
+  logger.info('Batch completed', {
+    files: filePaths.length,
+    successful: successful.length,
+    failed: filePaths.length - successful.length,
+    costUsd: Number(totalCost.toFixed(6))
+  });
   
   return results;
 }
 
+/**
+ * Describe a thrown error as a ProcessingError
+ *
+ * @param error - Thrown value
+ * @returns Code, message and whether a retry may help
+ */
+export function toProcessingError(error: unknown): ProcessingError {
+  if (error instanceof ProviderError) {
+    return { code: error.code, message: error.message, transient: error.transient };
+  }
+  if (error instanceof DocumentIngestionError || error instanceof BudgetError) {
+    return { code: error.code, message: error.message, transient: false };
+  }
+  return { code: 'PROCESSING_FAILED', message: error instanceof Error ? error.message : String(error), transient: false };
+}
+
 /**
  * Validate an already extracted IEP data object
  * 
  * @param data - The extracted IEP data to validate
  * @returns Validation result
  */
-export function validateIEPData(data: any): ValidationResult {
+export function validateIEPData(data: unknown): ValidationResult {
   return validateFormSpecificData(data);
 }
 
@@ -183,9 +858,9 @@ export function validateIEPData(data: any): ValidationResult {
  * Quick validation check - returns just true/false
  * 
  * @param data - The extracted IEP data to validate
- * @returns True if valid, false otherwise
+ * @returns True (and data typed as FormSpecificIEPData) if valid, false otherwise
  */
-export function isValidIEPData(data: any): boolean {
+export function isValidIEPData(data: unknown): data is FormSpecificIEPData {
   const result = validateFormSpecificData(data);
   return result.valid;
 }
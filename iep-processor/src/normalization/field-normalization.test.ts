@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fieldKind, normalizationIssues, normalizeFormData, parseDate, parseFrequency } from './field-normalization';
+
+test('simple and spelled frequencies read as a count per period', () => {
+  assert.deepEqual(parseFrequency('2x/week'), { count: 2, per: 'week' });
+  assert.deepEqual(parseFrequency('twice weekly'), { count: 2, per: 'week' });
+  assert.deepEqual(parseFrequency('30 minutes 3 sessions a month'), { count: 3, per: 'month' });
+  assert.deepEqual(parseFrequency('daily'), { count: 1, per: 'day' });
+  assert.deepEqual(parseFrequency('every other week'), { count: 0.5, per: 'week' });
+  assert.equal(parseFrequency('per week'), undefined);
+  assert.equal(parseFrequency('quarterly'), undefined);
+});
+
+test('a count every N periods is divided by N', () => {
+  assert.deepEqual(parseFrequency('once every two weeks'), { count: 0.5, per: 'week' });
+  assert.deepEqual(parseFrequency('every 2 weeks'), { count: 0.5, per: 'week' });
+  assert.deepEqual(parseFrequency('3 times every 2 months'), { count: 1.5, per: 'month' });
+  assert.deepEqual(parseFrequency('every week'), { count: 1, per: 'week' });
+});
+
+test('ranges are left unread instead of taking one end', () => {
+  for (const range of ['2-3 times per week', '2 to 3 times per week', 'two or three times a week', '1–2x/day']) {
+    assert.equal(parseFrequency(range), undefined, range);
+  }
+});
+
+test('two nested rates multiply; any other mix is unread', () => {
+  assert.deepEqual(parseFrequency('2 times per day, 5 days per week'), { count: 10, per: 'week' });
+  assert.deepEqual(parseFrequency('twice a day, three days a week'), { count: 6, per: 'week' });
+  assert.equal(parseFrequency('2 times per week, 5 days per day'), undefined);
+  assert.equal(parseFrequency('once a day, once a week, once a month'), undefined);
+});
+
+test('date fields are named by whole words', () => {
+  assert.equal(fieldKind("/IEP/CHILD'S INFORMATION/DATE OF BIRTH"), 'date');
+  assert.equal(fieldKind('/IEP/6. MEASURABLE ANNUAL GOALS/GOALS/0/Objectives/Benchmarks/1/Date of Mastery'), 'date');
+  assert.equal(fieldKind('/student/birth_date'), 'date');
+  assert.equal(fieldKind('/student/DOB'), 'date');
+  assert.equal(fieldKind('/IEP/EFFECTIVE/END'), 'date');
+  assert.equal(fieldKind('/IEP/LAST UPDATED'), undefined);
+  assert.equal(fieldKind('/IEP/BIRTHPLACE'), undefined);
+  assert.equal(fieldKind('/IEP/Transfer of Rights discussed by 17th birthday (Yes/No)'), undefined);
+  assert.equal(fieldKind('/IEP/SERVICES/0/Frequency'), 'frequency');
+});
+
+test('unreadable values are reported as warnings; blanks and N/A are skipped', () => {
+  const report = normalizeFormData({
+    IEP: { 'MEETING DATE': '02/30/2024', 'END DATE': 'N/A', 'HOME PHONE': '', Frequency: '2-3 times per week', ZIP: '43000' }
+  });
+  assert.deepEqual(report.summary, { total: 3, normalized: 1, unparseable: 2 });
+  assert.deepEqual(normalizationIssues(report).map(issue => issue.pointer), ['/IEP/MEETING DATE', '/IEP/Frequency']);
+  assert.equal(parseDate('March 5, 2024'), '2024-03-05');
+});
@@ -0,0 +1,319 @@
+/**
+ * Field Normalization
+ *
+ * Turns the strings a model copies off the form into canonical values after
+ * extraction. The extracted data is left as written; canonical values are
+ * reported alongside it by JSON pointer, so the raw text is never lost.
+ *
+ * Features:
+ * - Dates -> ISO 8601 (MM/DD/YYYY, M-D-YY, M.D.YYYY, YYYY-MM-DD, "March 5, 2024", "5 March 2024")
+ * - Phone numbers -> E.164 (+1XXXXXXXXXX, extensions dropped)
+ * - ZIP codes -> 5 or 9 digits (12345, 12345-6789)
+ * - Service frequency -> { count, per: day | week | month } (ranges left unread)
+ * - Amount of time -> { minutes }
+ * - Field kind decided from the field name, shared with the field scorer and
+ *   confidence format checks
+ * - Values that cannot be read become validation warnings
+ *   (code normalization.unparseable)
+ */
+
+import { ValidationIssue, createIssue } from '../validation/issues';
+import { listLeaves, parsePointer } from '../utils/json-pointer';
+
+/**
+ * Kinds of field that have a canonical form
+ */
+export type NormalizedKind = 'date' | 'phone' | 'zip' | 'frequency' | 'duration';
+
+/**
+ * How often a service is delivered
+ */
+export interface Frequency {
+  count: number;
+  per: 'day' | 'week' | 'month';
+}
+
+/**
+ * Length of a session
+ */
+export interface Duration {
+  minutes: number;
+}
+
+/**
+ * One normalized field: the raw string and its canonical value
+ * (value is absent when the raw string could not be read)
+ */
+export type NormalizedField =
+  | { kind: 'date' | 'phone' | 'zip'; raw: string; value?: string }
+  | { kind: 'frequency'; raw: string; value?: Frequency }
+  | { kind: 'duration'; raw: string; value?: Duration };
+
+/**
+ * Canonical values for a document, keyed by JSON pointer
+ */
+export interface NormalizationReport {
+  fields: Record<string, NormalizedField>;
+  summary: {
+    /** Non-blank fields of a normalizable kind */
+    total: number;
+    normalized: number;
+    unparseable: number;
+  };
+}
+
+// What each kind is expected to look like, for warnings
+const EXPECTED: Record<NormalizedKind, string> = {
+  date: 'a calendar date (e.g. 03/15/2024)',
+  phone: 'a 10-digit US phone number',
+  zip: 'a 5- or 9-digit ZIP code',
+  frequency: 'a count per day, week or month (e.g. "2 times per week")',
+  duration: 'a length of time (e.g. "30 minutes")'
+};
+
+// Values that say "nothing here" rather than being unreadable
+const NOT_APPLICABLE = /^(n\/?a|none|-+)$/i;
+
+/**
+ * Kind of a field from its name (the last non-index segment of the pointer)
+ *
+ * @param pointer - JSON pointer of the field
+ * @returns The kind, or undefined for fields without a canonical form
+ */
+export function fieldKind(pointer: string): NormalizedKind | undefined {
+  const name = (parsePointer(pointer).filter(segment => !/^\d+$/.test(segment)).pop() || '').toUpperCase();
+  if (/PHONE/.test(name)) return 'phone';
+  if (/^ZIP/.test(name)) return 'zip';
+  // Whole words only: UPDATED and BIRTHPLACE are not dates
+  if (/(^|[^A-Z])(DATE|DOB|BIRTH_?DATE)($|[^A-Z])|^BEGIN$|^START$|^END$|^NEXT IEP REVIEW$/.test(name)) return 'date';
+  if (/^FREQUENCY$/.test(name)) return 'frequency';
+  if (/^AMOUNT OF TIME$|DURATION/.test(name)) return 'duration';
+  return undefined;
+}
+
+/**
+ * Normalize every field of a known kind in extracted data
+ *
+ * @param data - Extracted form data (need not be schema-valid)
+ * @returns Canonical values by pointer; blank and N/A values are skipped
+ */
+export function normalizeFormData(data: unknown): NormalizationReport {
+  const fields: Record<string, NormalizedField> = {};
+  if (data !== null && typeof data === 'object') {
+    for (const leaf of listLeaves(data)) {
+      if (typeof leaf.value !== 'string') continue;
+      const kind = fieldKind(leaf.pointer);
+      const raw = leaf.value.trim();
+      if (!kind || raw === '' || NOT_APPLICABLE.test(raw)) continue;
+      fields[leaf.pointer] = normalizeValue(kind, leaf.value);
+    }
+  }
+
+  const total = Object.keys(fields).length;
+  const normalized = Object.values(fields).filter(field => field.value !== undefined).length;
+  return { fields, summary: { total, normalized, unparseable: total - normalized } };
+}
+
+/**
+ * Normalize one raw string as the given kind
+ */
+export function normalizeValue(kind: NormalizedKind, raw: string): NormalizedField {
+  switch (kind) {
+    case 'date':
+      return { kind, raw, value: parseDate(raw) };
+    case 'phone':
+      return { kind, raw, value: parsePhone(raw) };
+    case 'zip':
+      return { kind, raw, value: parseZip(raw) };
+    case 'frequency':
+      return { kind, raw, value: parseFrequency(raw) };
+    case 'duration':
+      return { kind, raw, value: parseDuration(raw) };
+  }
+}
+
+/**
+ * One warning per field that could not be normalized
+ *
+ * @param report - Result of normalizeFormData
+ */
+export function normalizationIssues(report: NormalizationReport): ValidationIssue[] {
+  return Object.entries(report.fields)
+    .filter(([, field]) => field.value === undefined)
+    .map(([pointer, field]) => createIssue(
+      'normalization.unparseable',
+      'warning',
+      pointer,
+      `could not read "${field.raw}" as ${EXPECTED[field.kind]}`,
+      { expected: EXPECTED[field.kind], actual: field.raw }
+    ));
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Parse a form date to YYYY-MM-DD
+ *
+ * Two-digit years below 70 are 20xx, the rest 19xx. Impossible dates
+ * (02/30) are rejected.
+ */
+export function parseDate(value: string): string | undefined {
+  const text = value.trim();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:T[\d:.]+Z?)?$/);
+  if (match) return isoDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})([/.-])(\d{1,2})\2(\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[4].length === 2 ? (+match[4] < 70 ? 2000 : 1900) + +match[4] : +match[4];
+    return isoDate(year, +match[1], +match[3]);
+  }
+
+  match = text.match(/^([A-Za-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  if (match) return isoDate(+match[3], monthNumber(match[1]), +match[2]);
+
+  match = text.match(/^(\d{1,2})\s+([A-Za-z]{3,})\.?,?\s+(\d{4})$/);
+  if (match) return isoDate(+match[3], monthNumber(match[2]), +match[1]);
+
+  return undefined;
+}
+
+/**
+ * Parse a US phone number to E.164 (+1XXXXXXXXXX), dropping any extension
+ */
+export function parsePhone(value: string): string | undefined {
+  const number = value.replace(/\s*(?:ext\.?|extension|x)\s*\d+\s*$/i, '').trim();
+  if (!/^\+?[\d\s().-]+$/.test(number)) return undefined;
+
+  const digits = number.replace(/\D/g, '');
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return undefined;
+}
+
+/**
+ * Parse a ZIP or ZIP+4 to 12345 or 12345-6789
+ */
+export function parseZip(value: string): string | undefined {
+  const match = value.trim().match(/^(\d{5})(?:[\s-]?(\d{4}))?$/);
+  if (!match) return undefined;
+  return match[2] ? `${match[1]}-${match[2]}` : match[1];
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  once: 1, twice: 2, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+
+const PERIODS: Record<string, Frequency['per']> = {
+  day: 'day', daily: 'day', week: 'week', weekly: 'week', wk: 'week', month: 'month', monthly: 'month', mo: 'month'
+};
+const PERIOD_ORDER: Array<Frequency['per']> = ['day', 'week', 'month'];
+const COUNT_PATTERN = `(\\d+(?:\\.\\d+)?(?![\\d.])|\\b(?:${Object.keys(NUMBER_WORDS).join('|')})\\b)(?!\\s*(?:min|hour|hr))`;
+const NUMBER_PATTERN = `(?:\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+// "2-3 times", "1-2x", "two to three times": a range has no single count
+const RANGE = new RegExp(`\\b${NUMBER_PATTERN}\\s*(?:-|–|—|to|or)\\s*${NUMBER_PATTERN}(?:\\b|(?=x))`);
+// "every two weeks", "every 3 days": one period spanning several units
+const INTERVAL = new RegExp(`\\bevery\\s+(${NUMBER_PATTERN})\\s+(day|week|month|wk|mo)s\\b`);
+
+/**
+ * Parse a service frequency
+ *
+ * "2x/week", "2 times per week", "twice weekly", "3 sessions a month" and
+ * "daily" are read; a bare "per week" has no count and is not. Quarterly,
+ * yearly and per-grading-period frequencies are not day/week/month and are
+ * not read either. Two nested rates multiply ("2 times per day, 5 days per
+ * week" is 10 per week); any other mix of rates is not read. A count every
+ * N periods is divided by N ("once every two weeks" is 0.5 per week). Ranges
+ * ("2-3 times per week") have no single count and are not read.
+ */
+export function parseFrequency(value: string): Frequency | undefined {
+  const text = value.toLowerCase();
+  if (RANGE.test(text)) return undefined;
+
+  const interval = text.match(INTERVAL);
+  if (interval) {
+    const periods = NUMBER_WORDS[interval[1]] ?? Number(interval[1]);
+    const base = parseFrequency(text.replace(INTERVAL, `every ${interval[2]}`));
+    return base && periods > 0 ? { count: base.count / periods, per: base.per } : undefined;
+  }
+
+  // Periods counted against: "per week", "a day", "/wk", "weekly" (not the "days" of "5 days per week")
+  const rates = [...text.matchAll(/(?:\b(?:per|a|an|each|every)\s+|\/\s*)(day|week|month|wk|mo)s?\b|\b(daily|weekly|monthly)\b/g)];
+  if (rates.length > 1) {
+    return parseNestedFrequency(text, rates);
+  }
+
+  // The last period is the one counted against ("5 days per week" is per week)
+  const period = [...text.matchAll(/\b(daily|weekly|monthly|day|week|month|wk|mo)s?\b/g)].pop();
+  if (!period) return undefined;
+  const per = ({ daily: 'day', weekly: 'week', monthly: 'month', wk: 'week', mo: 'month' } as Record<string, Frequency['per']>)[period[1]]
+    || (period[1] as Frequency['per']);
+
+  // Prefer the count next to "x"/"times" so "30 minutes 2 times per week" reads 2
+  const counted = text.match(/(\d+(?:\.\d+)?)\s*(?:x|times?|sessions?|days?)\b/);
+  const numeric = counted || text.match(/(\d+(?:\.\d+)?)(?!\s*(?:min|hour|hr))\b/);
+  const spelled = text.match(/\b(once|twice|one|two|three|four|five|six|seven|eight|nine|ten)\b/);
+
+  let count: number | undefined;
+  if (numeric) {
+    count = Number(numeric[1]);
+  } else if (spelled) {
+    count = NUMBER_WORDS[spelled[1]];
+  } else if (/\bevery other\b/.test(text)) {
+    count = 0.5;
+  } else if (/^(daily|weekly|monthly)$/.test(period[1]) || /\b(each|every)\s+(day|week|month)\b/.test(text)) {
+    count = 1;
+  }
+  return count !== undefined && count > 0 ? { count, per } : undefined;
+}
+
+/**
+ * "2 times per day, 5 days per week": the count before the inner rate times
+ * the number of inner periods per outer period
+ */
+function parseNestedFrequency(text: string, rates: RegExpMatchArray[]): Frequency | undefined {
+  const [inner, outer] = rates.map(rate => PERIODS[rate[1] || rate[2]]);
+  if (rates.length !== 2 || PERIOD_ORDER.indexOf(inner) >= PERIOD_ORDER.indexOf(outer)) return undefined;
+
+  const lastCount = (segment: string, pattern: string) => {
+    const match = [...segment.matchAll(new RegExp(pattern, 'g'))].pop();
+    return match ? NUMBER_WORDS[match[1]] ?? Number(match[1]) : undefined;
+  };
+  const innerEnd = (rates[0].index as number) + rates[0][0].length;
+  const perInner = lastCount(text.substring(0, rates[0].index), COUNT_PATTERN);
+  const innerPerOuter = lastCount(text.substring(innerEnd, rates[1].index), `${COUNT_PATTERN}\\s*${inner}s?\\b`);
+
+  return perInner && innerPerOuter ? { count: perInner * innerPerOuter, per: outer } : undefined;
+}
+
+/**
+ * Parse a session length ("30 minutes", "1.5 hours", "1 hr 15 min", "45 min/session")
+ */
+export function parseDuration(value: string): Duration | undefined {
+  const text = value.toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?)\b/);
+  const minutes = text.match(/(\d+(?:\.\d+)?)\s*(?:minutes?|mins?)\b/);
+  if (!hours && !minutes) return undefined;
+
+  const total = (hours ? Number(hours[1]) * 60 : 0) + (minutes ? Number(minutes[1]) : 0);
+  return total > 0 ? { minutes: Math.round(total) } : undefined;
+}
+
+/**
+ * Canonical "count/per" text of a frequency, for comparisons
+ */
+export function formatFrequency(frequency: Frequency): string {
+  return `${frequency.count}/${frequency.per}`;
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.substring(0, 3).toLowerCase()) + 1;
+}
+
+function isoDate(year: number, month: number, day: number): string | undefined {
+  if (month < 1) return undefined;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject rollovers such as 02/30
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoadedDocument } from '../ingestion/document-loader';
+import { buildProvenance } from './field-provenance';
+
+const PAGES = [
+  "CHILD'S INFORMATION\nNAME: Jordan   Sample    DATE OF BIRTH: 01/15/2014\nHOME PHONE: (614) 555-0100",
+  'PROFILE\nJordan reads at a third grade level and\nneeds support with multi-step word problems in math class.'
+];
+
+function document(pages: string[] = PAGES, imageOnlyPages: number[] = []): LoadedDocument {
+  return {
+    filePath: 'synthetic-iep.pdf',
+    format: 'pdf',
+    pageCount: pages.length,
+    pages: pages.map((text, index) => ({ pageNumber: index + 1, text })),
+    text: pages.join('\n'),
+    hasTextLayer: pages.some(text => text.trim().length > 0),
+    imageOnlyPages
+  };
+}
+
+test('values are located verbatim, including printed date and phone forms', () => {
+  const { fields } = buildProvenance({ IEP: { NAME: 'jordan sample', DOB: '2014-01-15', PHONE: '614.555.0100' } }, document());
+  assert.deepEqual(fields['/IEP/NAME'], { status: 'exact', page: 1, span: 'Jordan   Sample', score: 1, possiblyHallucinated: false });
+  assert.equal(fields['/IEP/DOB'].span, '01/15/2014');
+  assert.equal(fields['/IEP/PHONE'].span, '(614) 555-0100');
+});
+
+test('reflowed narratives match fuzzily on their page', () => {
+  const { fields } = buildProvenance({ IEP: { PROFILE: 'Jordan reads at a third grade level and needs help with multi-step word problems.' } }, document());
+  assert.equal(fields['/IEP/PROFILE'].status, 'fuzzy');
+  assert.equal(fields['/IEP/PROFILE'].page, 2);
+  assert.ok((fields['/IEP/PROFILE'].score ?? 0) >= 0.75);
+});
+
+test('values with no supporting text are flagged unless pages are image-only', () => {
+  const data = { IEP: { SCHOOL: 'Lakeside Middle School' } };
+  assert.deepEqual(buildProvenance(data, document()).fields['/IEP/SCHOOL'], { status: 'not-found', possiblyHallucinated: true });
+  assert.deepEqual(buildProvenance(data, document([...PAGES, ''], [3])).fields['/IEP/SCHOOL'], { status: 'not-found', possiblyHallucinated: false });
+});
+
+test('checkboxes are unchecked and empty values are not listed', () => {
+  const report = buildProvenance({ IEP: { PRESCHOOL: false, BAND: true, NOTES: '', MINUTES: 0, END: null } }, document());
+  assert.deepEqual(Object.keys(report.fields), ['/IEP/PRESCHOOL', '/IEP/BAND']);
+  assert.equal(report.summary.unchecked, 2);
+});
+
+test('without a text layer nothing is flagged', () => {
+  const report = buildProvenance({ IEP: { NAME: 'Jordan Sample' } }, document(['', '']));
+  assert.equal(report.textLayerAvailable, false);
+  assert.deepEqual(report.fields['/IEP/NAME'], { status: 'unchecked', possiblyHallucinated: false });
+});
@@ -0,0 +1,326 @@
+/**
+ * Field-Level Provenance
+ *
+ * Maps every extracted value to the page and verbatim text span it came from,
+ * using the document's local text layer. Case managers can then check any
+ * value against the PDF, and values with no supporting text are flagged as
+ * possibly hallucinated.
+ *
+ * Matching, per value:
+ * - exact: the value appears on a page, ignoring case and whitespace. ISO
+ *   dates also match their printed forms (01/15/2024, 1/15/24) and phone
+ *   numbers match with any separators.
+ * - fuzzy: for longer text, a window of the page contains most of the value's
+ *   words (narratives reflowed or lightly edited by the model).
+ * - not-found: no supporting text. Flagged as possibly hallucinated unless
+ *   the document has image-only pages the value could be on.
+ * - unchecked: booleans (checkbox state) cannot be located in the text.
+ *
+ * Empty values ("", 0, null) are not listed. Searches start on the page of
+ * the previous match, since the JSON follows the form's order.
+ */
+
+import { LoadedDocument } from '../ingestion/document-loader';
+import { normalizeText } from '../extractors/rule-based-extractor';
+import { listLeaves } from '../utils/json-pointer';
+
+/**
+ * How a value was located in the text layer
+ */
+export type ProvenanceStatus = 'exact' | 'fuzzy' | 'not-found' | 'unchecked';
+
+/**
+ * Provenance of a single extracted value
+ */
+export interface FieldProvenance {
+  status: ProvenanceStatus;
+  /** 1-based page number of the supporting text */
+  page?: number;
+  /** Verbatim text from the page */
+  span?: string;
+  /** Share of the value's words found in the span (1 for exact matches) */
+  score?: number;
+  possiblyHallucinated: boolean;
+}
+
+/**
+ * Provenance for a whole extraction, keyed by JSON pointer
+ */
+export interface ProvenanceReport {
+  textLayerAvailable: boolean;
+  fields: Record<string, FieldProvenance>;
+  summary: {
+    total: number;
+    exact: number;
+    fuzzy: number;
+    notFound: number;
+    unchecked: number;
+    possiblyHallucinated: number;
+  };
+}
+
+// Minimum share of a value's words that must appear together for a fuzzy match
+const FUZZY_THRESHOLD = 0.75;
+// Values with fewer words than this must match exactly
+const MIN_FUZZY_WORDS = 4;
+
+interface IndexedPage {
+  pageNumber: number;
+  original: string;
+  /** Lowercased text with whitespace runs collapsed to one space */
+  normalized: string;
+  /** Offset in original for every offset in normalized */
+  offsets: number[];
+  words: Array<{ word: string; start: number; end: number }>;
+}
+
+/**
+ * Locate every extracted value in the document text layer
+ *
+ * @param data - Extracted IEP data
+ * @param document - Loaded document (text layer may be missing)
+ * @returns Provenance keyed by JSON pointer with a summary
+ */
+export function buildProvenance(data: unknown, document: LoadedDocument): ProvenanceReport {
+  const pages = document.pages.map(indexPage);
+  const textLayerAvailable = document.hasTextLayer;
+  const partialTextLayer = document.imageOnlyPages.length > 0;
+
+  const fields: Record<string, FieldProvenance> = {};
+  let lastPage = 0;
+
+  for (const leaf of listLeaves(data)) {
+    if (leaf.value === null || leaf.value === '' || leaf.value === 0 || typeof leaf.value === 'undefined') {
+      continue;
+    }
+
+    if (typeof leaf.value === 'boolean' || !textLayerAvailable) {
+      fields[leaf.pointer] = { status: 'unchecked', possiblyHallucinated: false };
+      continue;
+    }
+
+    const value = String(leaf.value);
+    const ordered = [...pages.slice(lastPage), ...pages.slice(0, lastPage)];
+    const match = findExact(value, ordered) || findFuzzy(value, ordered);
+
+    if (match) {
+      fields[leaf.pointer] = { ...match, possiblyHallucinated: false };
+      lastPage = pages.findIndex(page => page.pageNumber === match.page);
+    } else {
+      fields[leaf.pointer] = { status: 'not-found', possiblyHallucinated: !partialTextLayer };
+    }
+  }
+
+  const entries = Object.values(fields);
+  return {
+    textLayerAvailable,
+    fields,
+    summary: {
+      total: entries.length,
+      exact: entries.filter(field => field.status === 'exact').length,
+      fuzzy: entries.filter(field => field.status === 'fuzzy').length,
+      notFound: entries.filter(field => field.status === 'not-found').length,
+      unchecked: entries.filter(field => field.status === 'unchecked').length,
+      possiblyHallucinated: entries.filter(field => field.possiblyHallucinated).length
+    }
+  };
+}
+
+/**
+ * Render provenance as report lines: summary, then the fields that need review
+ *
+ * @param report - Provenance report
+ * @param limit - Maximum fields listed per group (default: 25)
+ */
+export function formatProvenanceReport(report: ProvenanceReport, limit: number = 25): string[] {
+  const lines: string[] = [];
+  const { summary } = report;
+
+  lines.push('FIELD PROVENANCE:');
+  if (!report.textLayerAvailable) {
+    lines.push('  No text layer - values could not be located in the document.');
+    return lines;
+  }
+
+  lines.push(`  Located exactly: ${summary.exact}/${summary.total}`);
+  lines.push(`  Located approximately: ${summary.fuzzy}/${summary.total}`);
+  lines.push(`  Not found: ${summary.notFound}/${summary.total}`);
+  lines.push(`  Not checkable (checkboxes): ${summary.unchecked}/${summary.total}`);
+
+  const entries = Object.entries(report.fields);
+  const notFound = entries.filter(([, field]) => field.status === 'not-found');
+  if (notFound.length > 0) {
+    lines.push('');
+    lines.push('  NO SUPPORTING TEXT (possibly hallucinated):');
+    notFound.slice(0, limit).forEach(([pointer, field]) => {
+      lines.push(`    - ${pointer}${field.possiblyHallucinated ? '' : ' (document has image-only pages)'}`);
+    });
+    if (notFound.length > limit) {
+      lines.push(`    ... and ${notFound.length - limit} more`);
+    }
+  }
+
+  const fuzzy = entries.filter(([, field]) => field.status === 'fuzzy');
+  if (fuzzy.length > 0) {
+    lines.push('');
+    lines.push('  APPROXIMATE MATCHES:');
+    fuzzy.slice(0, limit).forEach(([pointer, field]) => {
+      lines.push(`    - ${pointer} (page ${field.page}, ${Math.round((field.score || 0) * 100)}% of words): "${truncate(field.span || '', 80)}"`);
+    });
+    if (fuzzy.length > limit) {
+      lines.push(`    ... and ${fuzzy.length - limit} more`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Normalize a page for searching and keep the offset map back to the original
+ */
+function indexPage(page: { pageNumber: number; text: string }): IndexedPage {
+  const original = normalizeText(page.text);
+  let normalized = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < original.length; i++) {
+    const char = original[i];
+    if (/\s/.test(char)) {
+      if (normalized.endsWith(' ')) continue;
+      normalized += ' ';
+    } else {
+      normalized += char.toLowerCase();
+    }
+    offsets.push(i);
+  }
+
+  const words: IndexedPage['words'] = [];
+  const wordPattern = /[a-z0-9]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(normalized)) !== null) {
+    words.push({ word: match[0], start: match.index, end: match.index + match[0].length });
+  }
+
+  return { pageNumber: page.pageNumber, original, normalized, offsets, words };
+}
+
+/**
+ * Find a value verbatim (or in one of its printed variants) on a page
+ */
+function findExact(value: string, pages: IndexedPage[]): Omit<FieldProvenance, 'possiblyHallucinated'> | undefined {
+  const patterns = valuePatterns(value);
+  for (const page of pages) {
+    for (const pattern of patterns) {
+      const match = pattern.exec(page.normalized);
+      if (match) {
+        return {
+          status: 'exact',
+          page: page.pageNumber,
+          span: originalSpan(page, match.index, match.index + match[0].length),
+          score: 1
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the page window containing the largest share of a value's words
+ */
+function findFuzzy(value: string, pages: IndexedPage[]): Omit<FieldProvenance, 'possiblyHallucinated'> | undefined {
+  const valueWords = normalizeText(value).toLowerCase().match(/[a-z0-9]+/g) || [];
+  if (valueWords.length < MIN_FUZZY_WORDS) return undefined;
+
+  let best: { page: IndexedPage; start: number; end: number; score: number } | undefined;
+
+  for (const page of pages) {
+    const size = valueWords.length;
+    if (page.words.length === 0) continue;
+
+    // Sliding window with multiset counts of the value's words
+    const needed = new Map<string, number>();
+    valueWords.forEach(word => needed.set(word, (needed.get(word) || 0) + 1));
+    let matched = 0;
+
+    for (let i = 0; i < page.words.length; i++) {
+      const incoming = page.words[i].word;
+      const remaining = needed.get(incoming);
+      if (remaining !== undefined) {
+        if (remaining > 0) matched++;
+        needed.set(incoming, remaining - 1);
+      }
+
+      const outgoingIndex = i - size;
+      if (outgoingIndex >= 0) {
+        const outgoing = page.words[outgoingIndex].word;
+        const count = needed.get(outgoing);
+        if (count !== undefined) {
+          if (count >= 0) matched--;
+          needed.set(outgoing, count + 1);
+        }
+      }
+
+      const score = matched / size;
+      if (!best || score > best.score) {
+        const windowStart = Math.max(0, i - size + 1);
+        best = { page, start: page.words[windowStart].start, end: page.words[i].end, score };
+      }
+    }
+  }
+
+  if (!best || best.score < FUZZY_THRESHOLD) return undefined;
+
+  return {
+    status: 'fuzzy',
+    page: best.page.pageNumber,
+    span: originalSpan(best.page, best.start, best.end),
+    score: Math.round(best.score * 100) / 100
+  };
+}
+
+/**
+ * Search patterns for a value: the value itself plus printed date and phone forms
+ */
+function valuePatterns(value: string): RegExp[] {
+  const normalized = normalizeText(value).toLowerCase().replace(/\s+/g, ' ').trim();
+  const variants = [normalized];
+
+  const isoDate = normalized.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoDate) {
+    const [, year, month, day] = isoDate;
+    const m = String(Number(month));
+    const d = String(Number(day));
+    variants.push(`${month}/${day}/${year}`, `${m}/${d}/${year}`, `${month}/${day}/${year.substring(2)}`, `${m}/${d}/${year.substring(2)}`);
+  }
+
+  const patterns = variants.map(variant =>
+    new RegExp(`(?<![a-z0-9])${escapeRegExp(variant).replace(/ /g, ' ?')}(?![a-z0-9])`)
+  );
+
+  const digits = normalized.replace(/\D/g, '');
+  if (/^[\d\s().+-]+$/.test(normalized) && (digits.length === 10 || digits.length === 11)) {
+    const local = digits.slice(-10);
+    patterns.push(new RegExp(`\\(?${local.substring(0, 3)}\\)?[ .-]?${local.substring(3, 6)}[ .-]?${local.substring(6)}(?![0-9])`));
+  }
+
+  return patterns;
+}
+
+/**
+ * Map a normalized range back to the verbatim page text
+ */
+function originalSpan(page: IndexedPage, start: number, end: number): string {
+  const originalStart = page.offsets[start];
+  const originalEnd = end < page.offsets.length ? page.offsets[end] : page.original.length;
+  return page.original.substring(originalStart, originalEnd).trim();
+}
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ');
+  return flat.length > length ? `${flat.substring(0, length - 3)}...` : flat;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,121 @@
+/**
+ * Anthropic Messages API extraction provider
+ *
+ * Sends the PDF inline as a base64 document block and/or its local text
+ * layer (depending on the input mode) and forces a single tool call whose
+ * input_schema is the extraction schema, so the tool input is the
+ * structured result. Reasoning effort has no equivalent here and is ignored.
+ * Transient failures are retried with backoff (see ./errors); the SDK's own
+ * retries are turned off.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import * as fs from 'fs';
+import { ApiUsage } from '../types/form-specific-iep-data';
+import { ExtractionProvider, ExtractionRequest, ExtractionResponse } from './types';
+import { calculateCost } from './pricing';
+import { RefusalError, RetryOptions, TruncatedOutputError, withRetry } from './errors';
+import { logger, timeSpan } from '../logging/logger';
+
+/**
+ * Options for the Anthropic provider
+ */
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  model?: string;
+  maxTokens?: number;
+  /** Retries of transient failures (default: 3 attempts) */
+  retry?: RetryOptions;
+}
+
+/**
+ * Create an extraction provider backed by the Anthropic Messages API
+ *
+ * @param options - API key, model and output limit overrides (default: env ANTHROPIC_API_KEY / ANTHROPIC_MODEL)
+ * @returns ExtractionProvider
+ */
+export function createAnthropicProvider(options: AnthropicProviderOptions = {}): ExtractionProvider {
+  const model = options.model || process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514';
+  const maxTokens = options.maxTokens || 32000;
+
+  return {
+    name: 'anthropic',
+    model,
+
+    async extract<T>(request: ExtractionRequest): Promise<ExtractionResponse<T>> {
+      const client = new Anthropic({
+        apiKey: options.apiKey || process.env.ANTHROPIC_API_KEY,
+        maxRetries: 0
+      });
+
+      const inputMode = request.inputMode || 'file';
+      if (inputMode !== 'file' && !request.documentText) {
+        throw new Error(`Input mode "${inputMode}" requires the document text layer`);
+      }
+
+      const content: Anthropic.TextBlockParam[] = [];
+      if (inputMode !== 'text') {
+        // The 0.29 SDK types predate PDF document blocks, the API accepts them regardless
+        content.push({
+          type: 'document',
+          source: {
+            type: 'base64',
+            media_type: 'application/pdf',
+            data: fs.readFileSync(request.filePath).toString('base64')
+          }
+        } as unknown as Anthropic.TextBlockParam);
+      }
+      if (inputMode !== 'file') {
+        content.push({ type: 'text', text: `DOCUMENT TEXT LAYER:\n\n${request.documentText}` });
+      }
+      content.push({ type: 'text', text: request.prompt });
+
+      const response = await timeSpan('model', () => withRetry('Messages call', () => client.messages.create({
+        model,
+        max_tokens: maxTokens,
+        tools: [{
+          name: request.schemaName,
+          description: 'Record the complete structured IEP extraction.',
+          input_schema: request.schema as Anthropic.Tool.InputSchema
+        }],
+        tool_choice: { type: 'tool', name: request.schemaName },
+        messages: [{
+          role: 'user',
+          content
+        }]
+      }), { ...options.retry, provider: 'anthropic' }), { provider: 'anthropic', model, inputMode });
+
+      logger.debug('Response received', { stopReason: response.stop_reason });
+
+      // An unusable response is billed too, so its usage travels on the error
+      const usage: ApiUsage = {
+        prompt_tokens: response.usage.input_tokens,
+        completion_tokens: response.usage.output_tokens,
+        reasoning_tokens: 0,
+        total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+        cost_usd: calculateCost(model, { input: response.usage.input_tokens, output: response.usage.output_tokens })
+      };
+
+      const input = await timeSpan('parse', () => {
+        // A response cut off by max_tokens holds an incomplete tool input
+        if (response.stop_reason === 'max_tokens') {
+          throw new TruncatedOutputError(`Anthropic output reached max_tokens (${maxTokens}) before the ${request.schemaName} tool call was complete`, { provider: 'anthropic', usage });
+        }
+        const toolUse = response.content.find(block => block.type === 'tool_use');
+        if (!toolUse || toolUse.type !== 'tool_use') {
+          // Answering in text instead of the forced tool call is a refusal; the text may quote the student, so only its length is reported
+          const text = response.content.map(block => block.type === 'text' ? block.text : '').join(' ').trim();
+          logger.warn('Model answered without the tool call', { stopReason: response.stop_reason, textLength: text.length });
+          throw new RefusalError(`Anthropic response did not contain a ${request.schemaName} tool call (stop_reason: ${response.stop_reason}, ${text.length} chars of text)`, { provider: 'anthropic', usage });
+        }
+        return toolUse.input;
+      });
+
+      return {
+        data: input as T,
+        usage,
+        model
+      };
+    }
+  };
+}
@@ -0,0 +1,92 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CassetteMode, cassetteKey, cassetteKeyParts, openCassette } from './cassette';
+import type { OpenAITransport, ResponseCallParams } from './openai-provider';
+import { ExtractionRequest } from './types';
+
+const MODEL = 'gpt-test';
+const scratchDirs: string[] = [];
+after(() => scratchDirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function setup() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'iep-cassette-'));
+  scratchDirs.push(dir);
+  const filePath = path.join(dir, 'document.pdf');
+  fs.writeFileSync(filePath, 'synthetic document');
+  const request: ExtractionRequest = { filePath, prompt: 'Extract', schema: { type: 'object' }, schemaName: 'iep', reasoningEffort: 'low' };
+  const cassettePath = path.join(dir, 'cassettes', `${cassetteKey(cassetteKeyParts(request, MODEL))}.json`);
+  return { dir: path.join(dir, 'cassettes'), request, cassettePath };
+}
+
+function stubTransport(createResponse: () => Promise<{ id: string; output_text: string }>) {
+  const calls: string[] = [];
+  const transport: OpenAITransport = {
+    async uploadFile() {
+      calls.push('upload');
+      return { id: 'file-1' };
+    },
+    async createResponse() {
+      calls.push('response');
+      return createResponse();
+    },
+    async deleteFile() {
+      calls.push('delete');
+    }
+  };
+  return { transport, calls };
+}
+
+const params: ResponseCallParams = { model: MODEL, reasoningEffort: 'low', fileId: 'file-1', prompt: 'Extract', schemaName: 'iep', schema: {} };
+
+async function runExchange(transport: OpenAITransport, request: ExtractionRequest): Promise<string> {
+  const { id } = await transport.uploadFile(request.filePath);
+  try {
+    return (await transport.createResponse({ ...params, fileId: id })).output_text;
+  } finally {
+    await transport.deleteFile(id);
+  }
+}
+
+test('a failed model call leaves no cassette and the next run records again', async () => {
+  const { dir, request, cassettePath } = setup();
+  const failing = stubTransport(async () => {
+    throw new Error('429 rate limited');
+  });
+  const first = openCassette({ mode: 'replay', dir }, request, MODEL, () => failing.transport);
+  await assert.rejects(runExchange(first.transport, request), /rate limited/);
+  assert.equal(fs.existsSync(cassettePath), false);
+
+  const working = stubTransport(async () => ({ id: 'resp-1', output_text: '{"ok":true}' }));
+  const second = openCassette({ mode: 'replay', dir }, request, MODEL, () => working.transport);
+  assert.equal(second.replaying, false);
+  assert.equal(await runExchange(second.transport, request), '{"ok":true}');
+  assert.deepEqual(working.calls, ['upload', 'response', 'delete']);
+});
+
+test('a complete cassette replays without calling the API', async () => {
+  const { dir, request } = setup();
+  const live = stubTransport(async () => ({ id: 'resp-1', output_text: '{"ok":true}' }));
+  await runExchange(openCassette({ mode: 'record', dir }, request, MODEL, () => live.transport).transport, request);
+
+  for (const mode of ['replay', 'strict'] as CassetteMode[]) {
+    const replay = openCassette({ mode, dir }, request, MODEL, () => assert.fail('the API was called'));
+    assert.equal(replay.replaying, true);
+    assert.equal(await runExchange(replay.transport, request), '{"ok":true}');
+  }
+});
+
+test('a cassette without a responses.create exchange counts as missing', () => {
+  const { dir, request, cassettePath } = setup();
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(cassettePath, JSON.stringify({
+    key: path.basename(cassettePath, '.json'),
+    exchanges: [{ type: 'files.create', request: { filename: 'document.pdf', bytes: 18 }, response: { id: 'file-1' } }]
+  }));
+
+  const live = stubTransport(async () => ({ id: 'resp-1', output_text: '{}' }));
+  assert.equal(openCassette({ mode: 'replay', dir }, request, MODEL, () => live.transport).replaying, false);
+  assert.throws(() => openCassette({ mode: 'strict', dir }, request, MODEL, () => live.transport), /No cassette recorded/);
+});
@@ -0,0 +1,225 @@
+/**
+ * Record-and-replay cassettes for the OpenAI Responses exchanges
+ *
+ * A cassette captures the three calls of one extraction (files.create,
+ * responses.create, files.delete) so later runs can replay them for free.
+ * Cassettes are keyed by everything that affects the model output:
+ *
+ *   document hash + model + reasoning effort + schema hash + prompt hash
+ *   (+ input mode, so file uploads and text-layer requests never collide)
+ *
+ * Modes (env IEP_CASSETTE_MODE, directory env IEP_CASSETTE_DIR):
+ * - off: always call the API (default)
+ * - record: always call the API and overwrite the cassette
+ * - replay: replay a matching cassette, record one if none exists
+ * - strict: replay only; fail when no matching cassette exists (CI)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { OpenAITransport, RecordedResponse } from './openai-provider';
+import { ExtractionRequest } from './types';
+import { hashFile, hashJson, sha256 } from '../utils/hash';
+import { logger } from '../logging/logger';
+
+export type CassetteMode = 'off' | 'record' | 'replay' | 'strict';
+
+/**
+ * Cassette configuration
+ */
+export interface CassetteOptions {
+  mode: CassetteMode;
+  dir: string;
+}
+
+/**
+ * Inputs that identify a recorded extraction
+ */
+export interface CassetteKeyParts {
+  documentHash: string;
+  model: string;
+  reasoningEffort: string;
+  schemaHash: string;
+  promptHash: string;
+  inputMode: string;
+}
+
+/**
+ * A single recorded API exchange
+ */
+export type CassetteExchange =
+  | { type: 'files.create'; request: { filename: string; bytes: number }; response: { id: string } }
+  | { type: 'responses.create'; request: { model: string; reasoningEffort: string; schemaName: string }; response: RecordedResponse }
+  | { type: 'files.delete'; request: { id: string }; response: { deleted: boolean } };
+
+/**
+ * On-disk cassette format
+ */
+export interface Cassette {
+  key: string;
+  parts: CassetteKeyParts;
+  document: string;
+  recordedAt: string;
+  exchanges: CassetteExchange[];
+}
+
+const CASSETTE_MODES: CassetteMode[] = ['off', 'record', 'replay', 'strict'];
+
+/**
+ * Read cassette configuration from IEP_CASSETTE_MODE / IEP_CASSETTE_DIR
+ */
+export function cassetteOptionsFromEnv(): CassetteOptions {
+  const mode = (process.env.IEP_CASSETTE_MODE || 'off') as CassetteMode;
+  if (!CASSETTE_MODES.includes(mode)) {
+    throw new Error(`Invalid IEP_CASSETTE_MODE: ${mode} (expected ${CASSETTE_MODES.join(', ')})`);
+  }
+  return {
+    mode,
+    dir: process.env.IEP_CASSETTE_DIR || path.join(process.cwd(), 'cassettes')
+  };
+}
+
+/**
+ * Build the key parts for an extraction request
+ */
+export function cassetteKeyParts(request: ExtractionRequest, model: string): CassetteKeyParts {
+  return {
+    documentHash: hashFile(request.filePath),
+    model,
+    reasoningEffort: request.reasoningEffort,
+    schemaHash: hashJson(request.schema),
+    promptHash: sha256(request.prompt),
+    inputMode: request.inputMode || 'file'
+  };
+}
+
+/**
+ * Derive the cassette key (file name) from its parts
+ */
+export function cassetteKey(parts: CassetteKeyParts): string {
+  return hashJson(parts).substring(0, 32);
+}
+
+/**
+ * Wrap an OpenAI transport with cassette recording or replay
+ *
+ * @param options - Cassette mode and directory
+ * @param request - Extraction request being served
+ * @param model - Model the request is sent to
+ * @param live - Factory for the real transport, only called when the API must be hit
+ * @returns Transport plus a flag telling whether it replays from disk
+ */
+export function openCassette(
+  options: CassetteOptions,
+  request: ExtractionRequest,
+  model: string,
+  live: () => OpenAITransport
+): { transport: OpenAITransport; replaying: boolean } {
+  const parts = cassetteKeyParts(request, model);
+  const key = cassetteKey(parts);
+  const cassettePath = path.join(options.dir, `${key}.json`);
+  const recorded = options.mode === 'record' ? undefined : readCassette(cassettePath);
+
+  if (options.mode === 'strict' && !recorded) {
+    throw new Error(
+      `No cassette recorded for "${path.basename(request.filePath)}" (key ${key}) in ${options.dir}; ` +
+      `re-run with IEP_CASSETTE_MODE=record`
+    );
+  }
+
+  if (recorded) {
+    logger.debug('Replaying cassette', { key });
+    return { transport: createReplayTransport(recorded), replaying: true };
+  }
+
+  logger.debug('Recording cassette', { key });
+  return {
+    transport: createRecordingTransport(live(), {
+      key,
+      parts,
+      document: path.basename(request.filePath),
+      recordedAt: new Date().toISOString(),
+      exchanges: []
+    }, cassettePath),
+    replaying: false
+  };
+}
+
+/**
+ * Read a cassette; one without a responses.create exchange is a recording
+ * cut short and counts as missing
+ */
+function readCassette(cassettePath: string): Cassette | undefined {
+  if (!fs.existsSync(cassettePath)) return undefined;
+  const cassette: Cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf8'));
+  return cassette.exchanges.some(exchange => exchange.type === 'responses.create') ? cassette : undefined;
+}
+
+/**
+ * Serve every call from a recorded cassette
+ */
+function createReplayTransport(cassette: Cassette): OpenAITransport {
+  const find = <K extends CassetteExchange['type']>(type: K) => {
+    const exchange = cassette.exchanges.find(e => e.type === type);
+    if (!exchange) {
+      throw new Error(`Cassette ${cassette.key} has no recorded ${type} exchange`);
+    }
+    return exchange as Extract<CassetteExchange, { type: K }>;
+  };
+
+  return {
+    async uploadFile() {
+      return find('files.create').response;
+    },
+    async createResponse() {
+      return find('responses.create').response;
+    },
+    async deleteFile() {
+      find('files.delete');
+    }
+  };
+}
+
+/**
+ * Pass calls to the live transport and persist the cassette once the model
+ * has answered, and again after the file is deleted (text-only requests
+ * never upload or delete a file). A failed model call writes nothing, so
+ * the next run records again instead of replaying half an extraction.
+ */
+function createRecordingTransport(live: OpenAITransport, cassette: Cassette, cassettePath: string): OpenAITransport {
+  const save = () => {
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true });
+    fs.writeFileSync(cassettePath, JSON.stringify(cassette, null, 2));
+  };
+
+  return {
+    async uploadFile(filePath) {
+      const response = await live.uploadFile(filePath);
+      cassette.exchanges.push({
+        type: 'files.create',
+        request: { filename: path.basename(filePath), bytes: fs.statSync(filePath).size },
+        response
+      });
+      return response;
+    },
+    async createResponse(params) {
+      const response = await live.createResponse(params);
+      cassette.exchanges.push({
+        type: 'responses.create',
+        request: { model: params.model, reasoningEffort: params.reasoningEffort, schemaName: params.schemaName },
+        response
+      });
+      save();
+      return response;
+    },
+    async deleteFile(fileId) {
+      await live.deleteFile(fileId);
+      cassette.exchanges.push({
+        type: 'files.delete',
+        request: { id: fileId },
+        response: { deleted: true }
+      });
+      if (cassette.exchanges.some(exchange => exchange.type === 'responses.create')) save();
+    }
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * Provider Errors and Retries
+ *
+ * Every failure of a provider call surfaces as a ProviderError with a code,
+ * so callers can tell a rate limit from a refusal without parsing messages.
+ * SDK and network errors are classified by HTTP status and error name;
+ * refusals, truncated output and unparseable JSON are raised by the
+ * providers themselves.
+ *
+ * Features:
+ * - Error classes per failure: rate limit, timeout, service unavailable,
+ *   refusal, truncated output, invalid JSON, schema rejection
+ * - Transient errors (rate limit, timeout, unavailable) are retried with
+ *   exponential backoff and full jitter; Retry-After is honored
+ * - Everything else fails on the first attempt
+ * - Usage already billed for a failed call (truncated or unparseable
+ *   output, a refusal) travels on the error, so the spend is still recorded
+ */
+
+import { setTimeout as sleep } from 'timers/promises';
+import type { ApiUsage } from '../types/form-specific-iep-data';
+import { logger } from '../logging/logger';
+
+/**
+ * Kinds of provider failure
+ */
+export type ProviderErrorCode =
+  | 'RATE_LIMIT'
+  | 'TIMEOUT'
+  | 'UNAVAILABLE'
+  | 'REFUSAL'
+  | 'TRUNCATED'
+  | 'INVALID_JSON'
+  | 'SCHEMA_REJECTED'
+  | 'REQUEST_FAILED';
+
+// Failures that may succeed when the same request is sent again
+const TRANSIENT_CODES: ProviderErrorCode[] = ['RATE_LIMIT', 'TIMEOUT', 'UNAVAILABLE'];
+
+/**
+ * A failed provider call
+ */
+export class ProviderError extends Error {
+  /** Provider name (openai, anthropic, fixture) */
+  public readonly provider?: string;
+  /** Wait requested by the API before the next attempt */
+  public readonly retryAfterMs?: number;
+  /** Usage billed before the call failed (a response that arrived but was unusable) */
+  public readonly usage?: ApiUsage;
+
+  constructor(
+    public readonly code: ProviderErrorCode,
+    message: string,
+    options: { provider?: string; retryAfterMs?: number; cause?: unknown; usage?: ApiUsage } = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ProviderError';
+    this.provider = options.provider;
+    this.retryAfterMs = options.retryAfterMs;
+    this.usage = options.usage;
+  }
+
+  /** Whether sending the same request again may succeed */
+  get transient(): boolean {
+    return TRANSIENT_CODES.includes(this.code);
+  }
+}
+
+type ProviderErrorOptions = ConstructorParameters<typeof ProviderError>[2];
+
+/**
+ * 429 from the API
+ */
+export class RateLimitError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions) {
+    super('RATE_LIMIT', message, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The request timed out before a response arrived
+ */
+export class ProviderTimeoutError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions) {
+    super('TIMEOUT', message, options);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+/**
+ * Connection failure, 5xx or overloaded service
+ */
+export class ProviderUnavailableError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions) {
+    super('UNAVAILABLE', message, options);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+/**
+ * The model declined to answer, or the answer was filtered
+ */
+export class RefusalError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions) {
+    super('REFUSAL', message, options);
+    this.name = 'RefusalError';
+  }
+}
+
+/**
+ * The output stopped early (output token limit or incomplete response)
+ */
+export class TruncatedOutputError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions) {
+    super('TRUNCATED', message, options);
+    this.name = 'TruncatedOutputError';
+  }
+}
+
+/**
+ * The output is not parseable JSON
+ */
+export class InvalidJsonError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions) {
+    super('INVALID_JSON', message, options);
+    this.name = 'InvalidJsonError';
+  }
+}
+
+/**
+ * The API refused the extraction schema itself
+ */
+export class SchemaRejectionError extends ProviderError {
+  constructor(message: string, options?: ProviderErrorOptions) {
+    super('SCHEMA_REJECTED', message, options);
+    this.name = 'SchemaRejectionError';
+  }
+}
+
+/**
+ * Turn any error thrown by an SDK call into a ProviderError
+ *
+ * @param error - Thrown value
+ * @param provider - Provider the call was made by
+ * @returns The error itself when it already is a ProviderError
+ */
+export function classifyProviderError(error: unknown, provider?: string): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+
+  const details = (error ?? {}) as { name?: string; status?: number; code?: string; headers?: unknown; message?: string };
+  const message = details.message || String(error);
+  const options = { provider, cause: error, retryAfterMs: retryAfter(details.headers) };
+
+  if (error instanceof SyntaxError) {
+    return new InvalidJsonError(message, options);
+  }
+  if (details.name === 'APIConnectionTimeoutError' || details.status === 408 || details.code === 'ETIMEDOUT') {
+    return new ProviderTimeoutError(message, options);
+  }
+  if (details.status === 429) {
+    // An exhausted quota does not recover by waiting
+    return details.code === 'insufficient_quota' || /quota/i.test(message)
+      ? new ProviderError('REQUEST_FAILED', message, options)
+      : new RateLimitError(message, options);
+  }
+  if (details.name === 'APIConnectionError' || (details.status !== undefined && details.status >= 500)
+    || ['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'].includes(details.code || '')) {
+    return new ProviderUnavailableError(message, options);
+  }
+  if (details.status === 400 && /schema/i.test(message)) {
+    return new SchemaRejectionError(message, options);
+  }
+  return new ProviderError('REQUEST_FAILED', message, options);
+}
+
+/**
+ * Parse provider output as JSON
+ *
+ * @param text - Model output
+ * @param provider - Provider name, for the error
+ * @param usage - Usage of the call that produced the output, carried on the error
+ * @throws InvalidJsonError
+ */
+export function parseJsonOutput(text: string, provider?: string, usage?: ApiUsage): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new InvalidJsonError(`Model output is not valid JSON (${text.length} chars): ${error instanceof Error ? error.message : error}`, { provider, cause: error, usage });
+  }
+}
+
+/**
+ * Retry settings for provider calls
+ */
+export interface RetryOptions {
+  /** Attempts including the first (default: 3) */
+  maxAttempts?: number;
+  /** Backoff cap of the first retry, doubled per retry (default: 1000 ms) */
+  baseDelayMs?: number;
+  /** Largest wait between attempts (default: 30000 ms) */
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+/**
+ * Run a provider call, retrying transient failures
+ *
+ * Waits a random time up to baseDelayMs * 2^(retry - 1) (full jitter, capped
+ * at maxDelayMs) before each retry, or the API's Retry-After when longer.
+ *
+ * @param operation - Name of the call, for logs
+ * @param call - The call
+ * @param options - Provider name and retry settings
+ * @throws ProviderError - the classified error of the last attempt
+ */
+export async function withRetry<T>(
+  operation: string,
+  call: () => Promise<T>,
+  options: RetryOptions & { provider?: string } = {}
+): Promise<T> {
+  const settings = { ...DEFAULT_RETRY, ...options };
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (thrown) {
+      const error = classifyProviderError(thrown, options.provider);
+      if (!error.transient || attempt >= settings.maxAttempts) {
+        throw error;
+      }
+      const backoff = Math.random() * Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** (attempt - 1));
+      const wait = Math.round(Math.min(settings.maxDelayMs, Math.max(backoff, error.retryAfterMs || 0)));
+      logger.warn(`${operation} failed; retrying`, {
+        code: error.code,
+        error: error.message,
+        waitMs: wait,
+        attempt: attempt + 1,
+        maxAttempts: settings.maxAttempts
+      });
+      await sleep(wait);
+    }
+  }
+}
+
+/**
+ * Retry-After (seconds or HTTP date) or retry-after-ms header, in ms
+ */
+function retryAfter(headers: unknown): number | undefined {
+  if (!headers || typeof headers !== 'object') return undefined;
+  const get = (name: string): string | undefined => typeof (headers as Headers).get === 'function'
+    ? (headers as Headers).get(name) ?? undefined
+    : (headers as Record<string, string | undefined>)[name];
+
+  const milliseconds = Number(get('retry-after-ms'));
+  if (Number.isFinite(milliseconds) && milliseconds > 0) return milliseconds;
+
+  const value = get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
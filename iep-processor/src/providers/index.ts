@@ -0,0 +1,39 @@
+/**
+ * Extraction provider registry
+ *
+ * Resolves a provider by name. The default comes from the IEP_PROVIDER
+ * environment variable and falls back to OpenAI.
+ */
+
+import { ExtractionProvider, ProviderName } from './types';
+import { createOpenAIProvider } from './openai-provider';
+import { createAnthropicProvider } from './anthropic-provider';
+import { createFixtureProvider } from './fixture-provider';
+
+export * from './types';
+export * from './errors';
+export { createOpenAIProvider } from './openai-provider';
+export { createAnthropicProvider } from './anthropic-provider';
+export { createFixtureProvider } from './fixture-provider';
+
+/**
+ * Create a built-in provider by name
+ *
+ * @param name - Provider name (default: env IEP_PROVIDER or 'openai')
+ * @param options - Model override (default: the provider's own default)
+ * @returns ExtractionProvider
+ */
+export function createProvider(name?: ProviderName | string, options: { model?: string } = {}): ExtractionProvider {
+  const providerName = name || process.env.IEP_PROVIDER || 'openai';
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAIProvider({ model: options.model });
+    case 'anthropic':
+      return createAnthropicProvider({ model: options.model });
+    case 'fixture':
+      return createFixtureProvider({ model: options.model });
+    default:
+      throw new Error(`Unknown extraction provider: ${providerName} (expected openai, anthropic or fixture)`);
+  }
+}
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureLogger } from '../logging/logger';
+import { RefusalError } from './errors';
+import { OpenAITransport, RecordedResponse, createOpenAIProvider } from './openai-provider';
+import { ExtractionRequest } from './types';
+
+configureLogger({ quiet: true });
+
+const request: ExtractionRequest = { filePath: '/uploads/document.pdf', prompt: 'Extract', schema: { type: 'object' }, schemaName: 'iep', reasoningEffort: 'low' };
+
+function provider(response: Omit<RecordedResponse, 'id'>) {
+  const transport: OpenAITransport = {
+    uploadFile: async () => ({ id: 'file-1' }),
+    createResponse: async () => ({ id: 'resp-1', ...response }),
+    deleteFile: async () => undefined
+  };
+  return createOpenAIProvider({ model: 'gpt-test', cassette: { mode: 'off', dir: '' }, transport });
+}
+
+test('a refusal is reported without the model text, with its usage', async () => {
+  const refusal = 'I cannot help with the IEP of Jane Example, born 2014-03-02.';
+  const extraction = provider({ status: 'completed', refusal, output_text: '', usage: { input_tokens: 100, output_tokens: 20 } }).extract(request);
+  await assert.rejects(extraction, (error: unknown) => {
+    assert.ok(error instanceof RefusalError);
+    assert.equal(error.message, `OpenAI declined the extraction (${refusal.length} chars of refusal text)`);
+    assert.doesNotMatch(error.message, /Jane|2014/);
+    assert.equal(error.usage?.prompt_tokens, 100);
+    return true;
+  });
+});
+
+test('output blocked by the content filter is a refusal', async () => {
+  const extraction = provider({ status: 'incomplete', incomplete_reason: 'content_filter', output_text: '{"IEP": {"Student": "Jane' }).extract(request);
+  await assert.rejects(extraction, {
+    name: 'RefusalError',
+    message: 'OpenAI declined the extraction: output blocked by the content filter'
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * OpenAI Responses API extraction provider
+ *
+ * Uploads the document through the Files API, calls responses.create with a
+ * strict json_schema output format and deletes the uploaded file afterwards,
+ * also when the call fails. The three calls go through an OpenAITransport so
+ * they can be recorded to and replayed from cassettes (see ./cassette);
+ * replayed calls cost $0.
+ * Transient failures are retried with backoff (see ./errors); the SDK's own
+ * retries are turned off.
+ */
+
+import OpenAI from 'openai';
+import * as fs from 'fs';
+import { ApiUsage } from '../types/form-specific-iep-data';
+import { ExtractionProvider, ExtractionRequest, ExtractionResponse, ReasoningEffort } from './types';
+import { calculateCost } from './pricing';
+import { CassetteOptions, cassetteOptionsFromEnv, openCassette } from './cassette';
+import { RefusalError, RetryOptions, TruncatedOutputError, parseJsonOutput, withRetry } from './errors';
+import { logger, timeSpan } from '../logging/logger';
+
+/**
+ * Options for the OpenAI provider
+ */
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  model?: string;
+  /** Record/replay configuration (default: env IEP_CASSETTE_MODE / IEP_CASSETTE_DIR) */
+  cassette?: CassetteOptions;
+  /** Retries of transient failures (default: 3 attempts) */
+  retry?: RetryOptions;
+  /** Transport for calls that reach past the cassette (default: the OpenAI API) */
+  transport?: OpenAITransport;
+}
+
+/**
+ * Parameters for one structured Responses call
+ */
+export interface ResponseCallParams {
+  model: string;
+  reasoningEffort: ReasoningEffort;
+  fileId?: string;
+  documentText?: string;
+  prompt: string;
+  schemaName: string;
+  schema: Record<string, any>;
+}
+
+/**
+ * The parts of a Responses API response the provider relies on
+ */
+export interface RecordedResponse {
+  id: string;
+  status?: string;
+  /** Why an incomplete response stopped (max_output_tokens, content_filter) */
+  incomplete_reason?: string;
+  /** Refusal text when the model declined */
+  refusal?: string;
+  output_text: string;
+  usage?: Record<string, any>;
+}
+
+/**
+ * The three OpenAI calls made per extraction, abstracted so they can be
+ * recorded to and replayed from cassettes
+ */
+export interface OpenAITransport {
+  uploadFile(filePath: string): Promise<{ id: string }>;
+  createResponse(params: ResponseCallParams): Promise<RecordedResponse>;
+  deleteFile(fileId: string): Promise<void>;
+}
+
+/**
+ * Transport that calls the OpenAI API directly
+ */
+function createLiveTransport(client: OpenAI): OpenAITransport {
+  return {
+    async uploadFile(filePath) {
+      const file = await client.files.create({
+        file: fs.createReadStream(filePath),
+        purpose: 'user_data'
+      });
+      return { id: file.id };
+    },
+
+    async createResponse(params) {
+      const content: OpenAI.Responses.ResponseInputContent[] = [];
+      if (params.fileId) {
+        content.push({ type: "input_file", file_id: params.fileId });
+      }
+      if (params.documentText) {
+        content.push({ type: "input_text", text: `DOCUMENT TEXT LAYER:\n\n${params.documentText}` });
+      }
+      content.push({ type: "input_text", text: params.prompt });
+
+      // Call OpenAI Responses API with proper file reference and complete master schema
+      const response = await client.responses.create({
+        model: params.model,
+        reasoning: {
+          effort: params.reasoningEffort
+        },
+        input: [{
+          role: "user",
+          content
+        }],
+        text: {
+          format: {
+            type: "json_schema",
+            name: params.schemaName,
+            strict: true,
+            schema: params.schema
+          }
+        }
+      });
+      const refusal = response.output
+        .flatMap(item => item.type === 'message' ? item.content : [])
+        .find(part => part.type === 'refusal');
+      return {
+        id: response.id,
+        status: response.status,
+        incomplete_reason: response.incomplete_details?.reason,
+        refusal: refusal?.type === 'refusal' ? refusal.refusal : undefined,
+        output_text: response.output_text,
+        usage: response.usage as Record<string, any> | undefined
+      };
+    },
+
+    async deleteFile(fileId) {
+      await client.files.delete(fileId);
+    }
+  };
+}
+
+/**
+ * Create an extraction provider backed by the OpenAI Responses API
+ *
+ * @param options - API key, model and cassette overrides (default: env OPENAI_API_KEY / OPENAI_MODEL / IEP_CASSETTE_MODE)
+ * @returns ExtractionProvider
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions = {}): ExtractionProvider {
+  // Prefer GPT-5 by default; allow override via env
+  const model = options.model || process.env.OPENAI_MODEL || 'gpt-5-2025-08-07';
+  const cassette = options.cassette || cassetteOptionsFromEnv();
+
+  return {
+    name: 'openai',
+    model,
+    // Replayed results depend on the cassette, which is not part of the cache key
+    cacheable: cassette.mode === 'off' || cassette.mode === 'record',
+
+    async extract<T>(request: ExtractionRequest): Promise<ExtractionResponse<T>> {
+      const live = () => options.transport || createLiveTransport(new OpenAI({
+        apiKey: options.apiKey || process.env.OPENAI_API_KEY,
+        maxRetries: 0
+      }));
+      const retry = { ...options.retry, provider: 'openai' };
+      const { transport, replaying } = cassette.mode === 'off'
+        ? { transport: live(), replaying: false }
+        : openCassette(cassette, request, model, live);
+
+      const inputMode = request.inputMode || 'file';
+      const sendFile = inputMode !== 'text';
+      const sendText = inputMode !== 'file';
+      if (sendText && !request.documentText) {
+        throw new Error(`Input mode "${inputMode}" requires the document text layer`);
+      }
+
+      let fileId: string | undefined;
+      let response: RecordedResponse;
+      try {
+        if (sendFile) {
+          // Upload file to OpenAI for Responses API
+          const file = await timeSpan('upload', () => withRetry('File upload', () => transport.uploadFile(request.filePath), retry), { provider: 'openai' });
+          fileId = file.id;
+
+          logger.debug('File uploaded', { fileId: file.id });
+        }
+
+        response = await timeSpan('model', () => withRetry('Responses call', () => transport.createResponse({
+          model,
+          reasoningEffort: request.reasoningEffort,
+          fileId,
+          documentText: sendText ? request.documentText : undefined,
+          prompt: request.prompt,
+          schemaName: request.schemaName,
+          schema: request.schema
+        }), retry), { provider: 'openai', model, inputMode });
+      } finally {
+        // Clean up uploaded file, whether or not the call succeeded
+        if (fileId) {
+          await deleteUpload(transport, fileId, retry);
+        }
+      }
+
+      logger.debug('Response received', { status: response.status, outputLength: response.output_text.length });
+
+      // Calculate cost and usage (output tokens include reasoning tokens); an unusable response is billed too
+      const responseUsage = response.usage as Record<string, any> | undefined;
+      const inputTokens = responseUsage?.input_tokens || 0;
+      const outputTokens = responseUsage?.output_tokens || 0;
+      const reasoningTokens = responseUsage?.output_tokens_details?.reasoning_tokens || responseUsage?.reasoning_tokens || 0;
+      const cachedInputTokens = (
+        responseUsage?.input_tokens_details?.cached_tokens ||
+        responseUsage?.input_cached_tokens ||
+        responseUsage?.prompt_tokens_details?.cached_tokens ||
+        0
+      );
+      // A replayed cassette keeps the recorded token counts but costs nothing
+      const usage: ApiUsage = {
+        prompt_tokens: inputTokens,
+        completion_tokens: outputTokens,
+        reasoning_tokens: reasoningTokens,
+        total_tokens: inputTokens + outputTokens,
+        cost_usd: replaying ? 0 : calculateCost(model, {
+          input: inputTokens,
+          cachedInput: cachedInputTokens,
+          output: outputTokens,
+          reasoning: reasoningTokens
+        })
+      };
+
+      // The refusal text may quote the student, so only its length is reported
+      if (response.refusal) {
+        logger.warn('Model declined the extraction', { refusalLength: response.refusal.length });
+        throw new RefusalError(`OpenAI declined the extraction (${response.refusal.length} chars of refusal text)`, { provider: 'openai', usage });
+      }
+      if (response.incomplete_reason === 'content_filter') {
+        throw new RefusalError('OpenAI declined the extraction: output blocked by the content filter', { provider: 'openai', usage });
+      }
+      if (response.status === 'incomplete') {
+        throw new TruncatedOutputError(`OpenAI response is incomplete (${response.incomplete_reason || 'unknown reason'}) after ${response.output_text.length} chars`, { provider: 'openai', usage });
+      }
+
+      // Parse the response
+      const extractedData = await timeSpan('parse', () => parseJsonOutput(response.output_text, 'openai', usage));
+
+      return {
+        data: extractedData as T,
+        usage,
+        model
+      };
+    }
+  };
+}
+
+/**
+ * Delete an uploaded file; a failed delete is reported but never replaces the call's own outcome
+ */
+async function deleteUpload(transport: OpenAITransport, fileId: string, retry: RetryOptions & { provider: string }): Promise<void> {
+  try {
+    await withRetry('File delete', () => transport.deleteFile(fileId), retry);
+  } catch (error) {
+    logger.warn('Could not delete uploaded file', { fileId, error: error instanceof Error ? error.message : String(error) });
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Model pricing shared by the extraction providers
+ *
+ * Prices are USD per million tokens. The built-in table covers the models
+ * the providers default to; a JSON pricing file (env IEP_PRICING_FILE, or
+ * ./pricing.json when present) adds models or overrides built-in prices:
+ *
+ *   { "models": { "gpt-5": { "input": 1.25, "cachedInput": 0.125, "output": 10 } } }
+ *
+ * Features:
+ * - Cached input, output and reasoning token rates per model
+ * - Dated snapshots fall back to their base model
+ *   (gpt-5-2025-08-07 → gpt-5, claude-sonnet-4-20250514 → claude-sonnet-4)
+ * - Models without a price are reported instead of silently costing $0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../logging/logger';
+
+/**
+ * Prices of one model, USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  /** Input tokens served from the prompt cache (default: input rate) */
+  cachedInput?: number;
+  output: number;
+  /** Reasoning tokens (default: output rate; 0 for models that do not reason) */
+  reasoning?: number;
+}
+
+/**
+ * Prices keyed by model name
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * Token counts of one or more model calls
+ */
+export interface TokenCounts {
+  input: number;
+  /** Part of input served from the prompt cache */
+  cachedInput?: number;
+  /** Output tokens, including reasoning tokens */
+  output: number;
+  /** Part of output spent on reasoning */
+  reasoning?: number;
+}
+
+export const DEFAULT_PRICING_FILE = 'pricing.json';
+
+/**
+ * Built-in prices
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  'gpt-5': { input: 1.25, cachedInput: 0.125, output: 10.00 },
+  'gpt-5-mini': { input: 0.25, cachedInput: 0.025, output: 2.00 },
+  'o4-mini': { input: 1.10, cachedInput: 0.275, output: 4.40 },
+  'claude-sonnet-4': { input: 3.00, cachedInput: 0.30, output: 15.00, reasoning: 0 },
+  'claude-opus-4': { input: 15.00, cachedInput: 1.50, output: 75.00, reasoning: 0 },
+  // Replayed fixtures make no API call
+  fixture: { input: 0, output: 0, reasoning: 0 }
+};
+
+// Snapshot suffixes: -2025-08-07 (OpenAI) and -20250514 (Anthropic)
+const SNAPSHOT_SUFFIX = /-(\d{4}-\d{2}-\d{2}|\d{8})$/;
+
+const loadedTables = new Map<string, PricingTable>();
+const warnedModels = new Set<string>();
+
+/**
+ * Pricing table in effect: the built-in prices merged with the pricing file
+ *
+ * @param filePath - Pricing file (default: env IEP_PRICING_FILE, else ./pricing.json if it exists)
+ * @returns PricingTable (cached per file)
+ */
+export function getPricingTable(filePath: string | undefined = process.env.IEP_PRICING_FILE): PricingTable {
+  const file = filePath || (fs.existsSync(DEFAULT_PRICING_FILE) ? DEFAULT_PRICING_FILE : undefined);
+  if (!file) {
+    return DEFAULT_PRICING;
+  }
+  const key = path.resolve(file);
+  let table = loadedTables.get(key);
+  if (!table) {
+    table = { ...DEFAULT_PRICING, ...loadPricingFile(file) };
+    loadedTables.set(key, table);
+  }
+  return table;
+}
+
+/**
+ * Read and check a pricing file
+ *
+ * @throws Error - missing file, invalid JSON or a model without numeric input/output prices
+ */
+export function loadPricingFile(filePath: string): PricingTable {
+  let parsed: { models?: Record<string, Record<string, unknown>> };
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read pricing file ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!parsed?.models || typeof parsed.models !== 'object') {
+    throw new Error(`Pricing file ${filePath} has no "models" object`);
+  }
+
+  const table: PricingTable = {};
+  for (const [model, prices] of Object.entries(parsed.models)) {
+    const rate = (name: string, required: boolean): number | undefined => {
+      const value = prices?.[name];
+      if (value === undefined && !required) return undefined;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Pricing file ${filePath}: ${model}.${name} must be a non-negative number (USD per million tokens)`);
+      }
+      return value;
+    };
+    table[model] = {
+      input: rate('input', true)!,
+      cachedInput: rate('cachedInput', false),
+      output: rate('output', true)!,
+      reasoning: rate('reasoning', false)
+    };
+  }
+  return table;
+}
+
+/**
+ * Look up a model's prices, falling back from a dated snapshot to its base model
+ *
+ * @returns The prices, or undefined when the model is not in the table
+ */
+export function findModelPricing(model: string, table: PricingTable = getPricingTable()): ModelPricing | undefined {
+  return table[model] ?? table[model.replace(SNAPSHOT_SUFFIX, '')];
+}
+
+/**
+ * Calculate cost in USD for one or more model calls
+ *
+ * Models without a price cost 0; a warning is printed once per model.
+ * Use findModelPricing to tell an unpriced model from a free one.
+ */
+export function calculateCost(model: string, tokens: TokenCounts, table: PricingTable = getPricingTable()): number {
+  const pricing = findModelPricing(model, table);
+  if (!pricing) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      logger.warn('No pricing for model; its cost is reported as $0 (add it to the pricing file)', { model });
+    }
+    return 0;
+  }
+
+  const cachedInput = Math.min(tokens.cachedInput || 0, tokens.input);
+  const reasoning = Math.min(tokens.reasoning || 0, tokens.output);
+  const dollars = (tokens.input - cachedInput) * pricing.input
+    + cachedInput * (pricing.cachedInput ?? pricing.input)
+    + (tokens.output - reasoning) * pricing.output
+    + reasoning * (pricing.reasoning ?? pricing.output);
+  return dollars / 1_000_000;
+}
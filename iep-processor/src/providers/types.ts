@@ -0,0 +1,61 @@
+/**
+ * Extraction Provider Interface
+ *
+ * An extraction provider turns an IEP document plus a prompt and JSON schema
+ * into structured data. The form-specific extractor owns the prompt and the
+ * schema; providers only own the transport (SDK client, file handling,
+ * structured output mechanism, usage accounting).
+ *
+ * Implementations:
+ * - openai: OpenAI Responses API with strict json_schema output
+ * - anthropic: Anthropic Messages API with a forced tool call
+ * - fixture: canned FormSpecificIEPData from disk (no network)
+ */
+
+import { FormSpecificIEPData, ApiUsage } from '../types/form-specific-iep-data';
+import { DocumentInputMode } from '../ingestion/document-loader';
+
+/**
+ * Reasoning effort passed through to providers that support it
+ */
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/**
+ * Names of the built-in providers
+ */
+export type ProviderName = 'openai' | 'anthropic' | 'fixture';
+
+/**
+ * A single structured extraction request
+ */
+export interface ExtractionRequest {
+  filePath: string;
+  prompt: string;
+  schema: Record<string, any>;
+  schemaName: string;
+  reasoningEffort: ReasoningEffort;
+  /** How the document is presented to the model (default: file) */
+  inputMode?: DocumentInputMode;
+  /** Page-indexed text layer, required for text and file+text modes */
+  documentText?: string;
+}
+
+/**
+ * Structured extraction response returned by every provider
+ */
+export interface ExtractionResponse<T = FormSpecificIEPData> {
+  data: T;
+  usage?: ApiUsage;
+  model: string;
+}
+
+/**
+ * Pluggable extraction backend
+ */
+export interface ExtractionProvider {
+  readonly name: ProviderName | string;
+  readonly model: string;
+  /** False when responses are not live model output (fixtures, cassette replay), so results must not be cached */
+  readonly cacheable?: boolean;
+  extract<T = FormSpecificIEPData>(request: ExtractionRequest): Promise<ExtractionResponse<T>>;
+}
@@ -0,0 +1,116 @@
+/**
+ * Schema Code Generator
+ *
+ * Regenerates everything derived from each canonical schema in schemas/:
+ * - src/types/<schema>.generated.ts (the type named by x-type-name,
+ *   e.g. FormSpecificIEPData for iep-form.schema.json)
+ * - schemas/generated/<schema>.extraction.schema.json (strict extraction schema
+ *   as sent to the model)
+ *
+ * Usage:
+ *   npm run schema:generate   write the generated files
+ *   npm run schema:check      exit 1 if they are out of date
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { canonicalSchemaPath, compactExtractionSchema, deriveExtractionSchema, getCanonicalSchema, getSchemaInfo, listSchemaFiles } from './registry';
+
+/**
+ * Paths of the files generated from a canonical schema
+ */
+export function generatedPaths(schemaFile: string): { types: string; extractionSchema: string } {
+  const stem = schemaFile.replace(/\.schema\.json$/, '');
+  return {
+    types: path.join(process.cwd(), 'src', 'types', `${stem}.generated.ts`),
+    extractionSchema: path.join(process.cwd(), 'schemas', 'generated', `${stem}.extraction.schema.json`)
+  };
+}
+
+/**
+ * Render a canonical schema as TypeScript source
+ *
+ * @param schemaFile - File name in schemas/
+ * @returns Source of the generated types file
+ */
+export function renderTypes(schemaFile: string): string {
+  const schema = getCanonicalSchema(schemaFile);
+  const { id, version } = getSchemaInfo(schemaFile);
+  const typeName = schema['x-type-name'];
+  if (!typeName) {
+    throw new Error(`${schemaFile} has no x-type-name`);
+  }
+
+  const lines = [
+    '/**',
+    ` * Generated from ${path.relative(process.cwd(), canonicalSchemaPath(schemaFile))} (${id} v${version}).`,
+    ' * Do not edit by hand: change the schema and run `npm run schema:generate`.',
+    ' */',
+    '',
+    `export interface ${typeName} ${renderNode(schema, 0)}`,
+    ''
+  ];
+  return lines.join('\n');
+}
+
+function renderNode(node: Record<string, any>, depth: number): string {
+  switch (node.type) {
+    case 'object': {
+      const indent = '  '.repeat(depth + 1);
+      const required: string[] = node.required || [];
+      const members = Object.entries<Record<string, any>>(node.properties || {}).map(([name, child]) => {
+        const doc = child.description ? `${indent}/** ${child.description} */\n` : '';
+        const optional = required.includes(name) ? '' : '?';
+        return `${doc}${indent}${JSON.stringify(name)}${optional}: ${renderNode(child, depth + 1)};`;
+      });
+      return `{\n${members.join('\n')}\n${'  '.repeat(depth)}}`;
+    }
+    case 'array':
+      return `Array<${renderNode(node.items || {}, depth)}>`;
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'unknown';
+  }
+}
+
+function run(): void {
+  const check = process.argv.includes('--check');
+  const outputs: Array<[string, string]> = listSchemaFiles().flatMap(schemaFile => {
+    const paths = generatedPaths(schemaFile);
+    return [
+      [paths.types, renderTypes(schemaFile)],
+      [paths.extractionSchema, JSON.stringify(compactExtractionSchema(deriveExtractionSchema(getCanonicalSchema(schemaFile))), null, 2) + '\n']
+    ] as Array<[string, string]>;
+  });
+
+  const stale = outputs.filter(([filePath, content]) =>
+    !fs.existsSync(filePath) || fs.readFileSync(filePath, 'utf8') !== content
+  );
+
+  if (check) {
+    if (stale.length > 0) {
+      stale.forEach(([filePath]) => console.error(`❌ Out of date: ${path.relative(process.cwd(), filePath)}`));
+      console.error('Run `npm run schema:generate` and commit the result.');
+      process.exit(1);
+    }
+    console.log('✅ Generated schema files are up to date');
+    return;
+  }
+
+  for (const [filePath, content] of stale) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    console.log(`📝 Wrote ${path.relative(process.cwd(), filePath)}`);
+  }
+  if (stale.length === 0) {
+    console.log('✅ Generated schema files are up to date');
+  }
+}
+
+run();
@@ -0,0 +1,173 @@
+/**
+ * Bulk Migration of Stored Extraction Results
+ *
+ * Reads every .json file in a directory, upgrades the extraction it holds to
+ * the current schema and writes a ProcessingResult-shaped file (stamped with
+ * the schema id/version, re-validated, with a `migration` record) under the
+ * same name in the output directory.
+ *
+ * Understands the stored result envelopes used so far:
+ * - { success, data, metadata, raw_results, usage }
+ * - { sourceFile, timestamp, success, extractedData, rawResults, usage, ... }
+ * - { sourceFile, timestamp, model, usage, extractedData }
+ * - ProcessingResult (already stamped with `schema`)
+ * - bare extraction data ({ IEP } or a legacy summary)
+ *
+ * Raw model output (raw_results / rawResults) is not carried over. Test
+ * summaries, failed results and unrecognized shapes are skipped and listed.
+ *
+ * Usage: npm run iep -- migrate <inputDir> [--output-dir <dir>] [--dry-run]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProcessingResult } from '../main';
+import { validateFormSpecificData } from '../validation/ajv-validator';
+import { normalizeFormData } from '../normalization/field-normalization';
+import { summarizeServiceMinutes } from '../analytics/service-minutes';
+import { SchemaInfo } from './registry';
+import { SchemaMigrationError, detectSchemaVersion, migrateExtraction } from './migrations';
+
+/**
+ * A stored result after migration
+ */
+export interface MigratedResult extends ProcessingResult {
+  sourceFile?: string;
+  timestamp?: string;
+  migration: {
+    migratedAt: string;
+    from: SchemaInfo;
+    to: SchemaInfo;
+    applied: string[];
+    notes: string[];
+    unmapped: Record<string, unknown>;
+  };
+}
+
+/**
+ * Outcome for one file in a directory migration
+ */
+export interface FileMigration {
+  file: string;
+  status: 'migrated' | 'current' | 'skipped' | 'failed';
+  from?: SchemaInfo;
+  valid?: boolean;
+  unmappedCount?: number;
+  reason?: string;
+}
+
+/**
+ * Options for migrating a directory
+ */
+export interface MigrateDirectoryOptions {
+  /** Destination directory (default: <inputDir>/migrated) */
+  outputDir?: string;
+  /** Report what would happen without writing files */
+  dryRun?: boolean;
+}
+
+/**
+ * Upgrade one stored result file's content
+ *
+ * @param stored - Parsed JSON of a stored result
+ * @returns The migrated result, or the reason it was skipped
+ */
+export function migrateStoredResult(stored: unknown): { result: MigratedResult } | { skipped: string } {
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) {
+    return { skipped: 'not a JSON object' };
+  }
+  const envelope = stored as Record<string, any>;
+  if ('testSummary' in envelope) {
+    return { skipped: 'test summary' };
+  }
+
+  const data = envelope.data ?? envelope.extractedData ?? (envelope.IEP || envelope.studentInfo ? envelope : undefined);
+  if (!data) {
+    return { skipped: envelope.error ? `failed result: ${envelope.error.message ?? envelope.error}` : 'no extraction data' };
+  }
+
+  const stamped = isSchemaInfo(envelope.schema) ? envelope.schema : undefined;
+  const from = stamped || detectSchemaVersion(data);
+  if (!from) {
+    return { skipped: 'unrecognized extraction shape' };
+  }
+
+  const migration = migrateExtraction(data, from);
+  const validation = validateFormSpecificData(migration.data);
+
+  return {
+    result: {
+      success: true,
+      schema: migration.to,
+      data: migration.data,
+      normalized: normalizeFormData(migration.data),
+      serviceMinutes: summarizeServiceMinutes(migration.data),
+      validation,
+      usage: envelope.usage,
+      model: envelope.model || envelope.metadata?.models_used?.[0],
+      processingTime: typeof envelope.processingTime === 'number' ? envelope.processingTime : undefined,
+      sourceFile: envelope.sourceFile,
+      timestamp: envelope.timestamp,
+      migration: {
+        migratedAt: new Date().toISOString(),
+        from: migration.from,
+        to: migration.to,
+        applied: migration.applied,
+        notes: migration.notes,
+        unmapped: migration.unmapped
+      }
+    }
+  };
+}
+
+/**
+ * Migrate every .json file directly inside a directory
+ *
+ * @param inputDir - Directory of stored results
+ * @param options - Output directory and dry-run flag
+ * @returns One entry per file
+ */
+export function migrateDirectory(inputDir: string, options: MigrateDirectoryOptions = {}): FileMigration[] {
+  const outputDir = options.outputDir || path.join(inputDir, 'migrated');
+  if (path.resolve(outputDir) === path.resolve(inputDir)) {
+    throw new Error('Output directory must differ from the input directory');
+  }
+
+  const files = fs.readdirSync(inputDir).filter(file => file.endsWith('.json')).sort();
+  const outcomes: FileMigration[] = [];
+
+  for (const file of files) {
+    try {
+      const stored = JSON.parse(fs.readFileSync(path.join(inputDir, file), 'utf8'));
+      const migrated = migrateStoredResult(stored);
+      if ('skipped' in migrated) {
+        outcomes.push({ file, status: 'skipped', reason: migrated.skipped });
+        continue;
+      }
+
+      const { result } = migrated;
+      outcomes.push({
+        file,
+        status: result.migration.applied.length > 0 ? 'migrated' : 'current',
+        from: result.migration.from,
+        valid: result.validation?.valid,
+        unmappedCount: Object.keys(result.migration.unmapped).length
+      });
+
+      if (!options.dryRun) {
+        fs.mkdirSync(outputDir, { recursive: true });
+        fs.writeFileSync(path.join(outputDir, file), JSON.stringify(result, null, 2));
+      }
+    } catch (error) {
+      const reason = error instanceof SchemaMigrationError || error instanceof SyntaxError ? error.message : String(error);
+      outcomes.push({ file, status: 'failed', reason });
+    }
+  }
+
+  return outcomes;
+}
+
+function isSchemaInfo(value: unknown): value is SchemaInfo {
+  return typeof value === 'object' && value !== null
+    && typeof (value as SchemaInfo).id === 'string' && typeof (value as SchemaInfo).version === 'string';
+}
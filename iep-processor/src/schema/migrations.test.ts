@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  FLATTENED_FORM_SCHEMA,
+  LEGACY_CAMEL_SCHEMA,
+  LEGACY_SNAKE_SCHEMA,
+  SchemaMigrationError,
+  detectSchemaVersion,
+  migrateExtraction,
+  splitAddress
+} from './migrations';
+import { getSchemaInfo } from './registry';
+import { validateFormSpecificData } from '../validation/ajv-validator';
+
+const CURRENT = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'fixtures', 'default.json'), 'utf8'));
+const METHODS = "METHOD(S) FOR MEASURING THE CHILD'S PROGRESS TOWARDS ANNUAL GOAL";
+
+const CAMEL = {
+  studentInfo: {
+    name: 'Jordan Sample',
+    homeAddress: '100 Example Street, Sampleton, OH 43000',
+    parent_contact: 'Cell: 614-555-0100; parent@example.org',
+    school: 'Lakeside Middle'
+  },
+  goals: [{ area: 'Reading', services: ['Speech'], shortTermObjectives: ['Read 90 wpm'] }],
+  services: [{ type: 'Speech therapy', frequency: '2x/week' }, { type: 'Math instruction' }]
+};
+
+const SNAKE = {
+  meta: { generator: 'legacy' },
+  student: { first_name: 'Jordan', last_name: 'Sample' },
+  goals: [{ id: 'G2', statement: 'Will read', criteria: 'with 90% accuracy', short_term_objectives: [{ statement: 'Decode', due_date: '2025-01-15' }] }],
+  services: [{ type: 'Occupational therapy', duration_minutes: 30, frequency: { amount: 2, unit: 'per week' } }],
+  placement: { lre_percentage_general_ed: 80, transportation: true }
+};
+
+const FLATTENED = {
+  IEP: {
+    "CHILD'S INFORMATION": { NAME: 'Jordan Sample', STREET: '100 Example Street, Sampleton, OH 43000' },
+    'MEETING INFORMATION': { 'MEETING TYPE': 'Annual Review' },
+    '3. PROFILE': 'Jordan enjoys band.',
+    '6. MEASURABLE ANNUAL GOALS': [{ [METHODS]: 'Work Samples', 'Objectives/Benchmarks': ['Read 90 wpm'] }],
+    '11. LEAST RESTRICTIVE ENVIRONMENT': 'In general education 80% of the day.'
+  }
+};
+
+test('every generation is recognized by its shape', () => {
+  assert.deepEqual(detectSchemaVersion(CAMEL), LEGACY_CAMEL_SCHEMA);
+  assert.deepEqual(detectSchemaVersion(SNAKE), LEGACY_SNAKE_SCHEMA);
+  assert.deepEqual(detectSchemaVersion(FLATTENED), FLATTENED_FORM_SCHEMA);
+  assert.deepEqual(detectSchemaVersion(CURRENT), getSchemaInfo());
+  assert.equal(detectSchemaVersion({ something: 'else' }), undefined);
+  assert.throws(() => migrateExtraction({ something: 'else' }), SchemaMigrationError);
+});
+
+test('migrated data validates against the current schema', async () => {
+  for (const legacy of [CAMEL, SNAKE, FLATTENED]) {
+    const result = migrateExtraction(structuredClone(legacy));
+    assert.deepEqual(result.to, getSchemaInfo());
+    const validation = await validateFormSpecificData(result.data);
+    assert.deepEqual(validation.errors.filter(error => /required|type/i.test(error)), []);
+  }
+});
+
+test('camelCase summaries keep addresses, contacts and goal links', () => {
+  const result = migrateExtraction(structuredClone(CAMEL));
+  const iep = result.data.IEP as Record<string, any>;
+  assert.equal(result.applied.length, 2);
+  assert.deepEqual(
+    [iep["CHILD'S INFORMATION"].STREET, iep["CHILD'S INFORMATION"].CITY, iep["CHILD'S INFORMATION"].ZIP],
+    ['100 Example Street', 'Sampleton', '43000']
+  );
+  assert.equal(iep['PARENT/GUARDIAN INFORMATION']['Parent/Guardian 1']['CELL PHONE'], '614-555-0100');
+  assert.equal(iep['PARENT/GUARDIAN INFORMATION']['Parent/Guardian 1'].EMAIL, 'parent@example.org');
+  const services = iep['7. SPECIALLY DESIGNED SERVICES'];
+  assert.equal(services['RELATED SERVICES'][0]['Goal Addressed #'], 1);
+  assert.equal(services['SPECIALLY DESIGNED INSTRUCTION'][0].Description, 'Math instruction');
+  assert.equal(result.unmapped['/studentInfo/school'], 'Lakeside Middle');
+});
+
+test('snake_case summaries keep goal numbers, objectives and placement', () => {
+  const iep = migrateExtraction(structuredClone(SNAKE)).data.IEP as Record<string, any>;
+  const goal = iep['6. MEASURABLE ANNUAL GOALS'].GOALS[0];
+  assert.equal(goal.NUMBER, 2);
+  assert.equal(goal['MEASURABLE ANNUAL GOAL'], 'Will read with 90% accuracy');
+  assert.equal(goal['Objectives/Benchmarks'][0]['Date of Mastery'], '2025-01-15');
+  assert.equal(iep['7. SPECIALLY DESIGNED SERVICES']['RELATED SERVICES'][0].Frequency, '2 per week');
+  assert.equal(iep['8. TRANSPORTATION AS A RELATED SERVICE']['Does the child require special transportation?'], true);
+});
+
+test('flattened sections are restructured and leftovers recorded, not dropped', () => {
+  const result = migrateExtraction(structuredClone(FLATTENED));
+  const iep = result.data.IEP as Record<string, any>;
+  assert.equal(iep['MEETING INFORMATION']['MEETING TYPE']['ANNUAL REVIEW'], true);
+  assert.equal(iep['3. PROFILE']['Most Recent Evaluation Information'], 'Jordan enjoys band.');
+  const goal = iep['6. MEASURABLE ANNUAL GOALS'].GOALS[0];
+  assert.equal(goal[METHODS]['Work Samples'], true);
+  assert.equal(goal[METHODS].Portfolios, false);
+  assert.equal(goal['Objectives/Benchmarks'][0]['Objective/Benchmark'], 'Read 90 wpm');
+  assert.ok(result.notes.some(note => /Wrapped bare goal array/.test(note)));
+
+  const withExtra = structuredClone(FLATTENED) as Record<string, any>;
+  withExtra.IEP['OLD SECTION'] = 'kept for review';
+  assert.equal(migrateExtraction(withExtra).unmapped['/IEP/OLD SECTION'], 'kept for review');
+});
+
+test('current data passes through unchanged', () => {
+  const result = migrateExtraction(structuredClone(CURRENT));
+  assert.deepEqual(result.applied, []);
+  assert.deepEqual(result.data, CURRENT);
+  assert.deepEqual(result.unmapped, {});
+});
+
+test('combined addresses split into street, city, state and ZIP', () => {
+  assert.deepEqual(splitAddress('100 Example St., Sampleton, oh 43000-1234'), { STREET: '100 Example St.', CITY: 'Sampleton', STATE: 'OH', ZIP: '43000-1234' });
+  assert.deepEqual(splitAddress('Rural Route 2'), { STREET: 'Rural Route 2', CITY: '', STATE: '', ZIP: '' });
+});
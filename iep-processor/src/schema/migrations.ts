@@ -0,0 +1,658 @@
+/**
+ * Extraction Migrations
+ *
+ * Upgrades extraction JSON written by older schema generations to the current
+ * FormSpecificIEPData shape. Stored outputs come from four generations:
+ *
+ * - iep-legacy-camel 0.1.0: camelCase summary (studentInfo, goals,
+ *   services, presentLevels, ...), combined address and contact strings
+ * - iep-legacy-snake 0.2.0: snake_case summary (meta, student, meeting,
+ *   eligibility, present_levels, ...)
+ * - iep-form 1.0.0: the form-based { IEP } shape with many sections
+ *   flattened to text (the former optimized schema), old section numbering
+ *   and goals sometimes returned as a bare array
+ * - iep-form 2.0.0+: the canonical schema (stamped on ProcessingResult.schema)
+ *
+ * Migrations form a chain ending at the current version. Both legacy
+ * generations are first mapped to iep-form 1.0.0, then 1.0.0 is upgraded to
+ * the canonical shape. A final conform step fills every missing field with
+ * its empty value and coerces scalar types. Nothing is dropped silently:
+ * values with no place in the current shape are kept in `unmapped`, keyed by
+ * their JSON pointer in the input of the step that could not place them.
+ */
+
+import { FormSpecificIEPData } from '../types/form-specific-iep-data';
+import { SchemaInfo, emptyValue, getCanonicalSchema, getSchemaInfo } from './registry';
+import { toPointer } from '../utils/json-pointer';
+
+type JsonObject = Record<string, unknown>;
+
+export const LEGACY_CAMEL_SCHEMA: SchemaInfo = { id: 'iep-legacy-camel', version: '0.1.0' };
+export const LEGACY_SNAKE_SCHEMA: SchemaInfo = { id: 'iep-legacy-snake', version: '0.2.0' };
+export const FLATTENED_FORM_SCHEMA: SchemaInfo = { id: 'iep-form', version: '1.0.0' };
+
+/**
+ * Notes and leftovers collected while migrating
+ */
+export interface MigrationLog {
+  notes: string[];
+  /** Values with no place in the current shape, keyed by JSON pointer */
+  unmapped: Record<string, unknown>;
+}
+
+/**
+ * One step of the migration chain
+ */
+export interface Migration {
+  from: SchemaInfo;
+  to: SchemaInfo;
+  description: string;
+  migrate(data: JsonObject, log: MigrationLog): JsonObject;
+}
+
+/**
+ * Outcome of migrating one extraction
+ */
+export interface MigrationResult extends MigrationLog {
+  data: FormSpecificIEPData;
+  from: SchemaInfo;
+  to: SchemaInfo;
+  /** Descriptions of the steps applied, in order */
+  applied: string[];
+}
+
+/**
+ * Raised when the input matches no known schema generation
+ */
+export class SchemaMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaMigrationError';
+  }
+}
+
+// Sections renumbered or renamed between iep-form 1.0.0 and the canonical schema
+const RENAMED_SECTIONS: Record<string, string> = {
+  '8. TRANSPORTATION': '8. TRANSPORTATION AS A RELATED SERVICE',
+  '10. LEAST RESTRICTIVE ENVIRONMENT': '11. LEAST RESTRICTIVE ENVIRONMENT',
+  '11. GENERAL FACTORS': '10. GENERAL FACTORS',
+  '13. MEETING PARTICIPANTS': '14. MEETING PARTICIPANTS'
+};
+
+const GOALS_SECTION = '6. MEASURABLE ANNUAL GOALS';
+const SERVICES_SECTION = '7. SPECIALLY DESIGNED SERVICES';
+const METHODS_FIELD = "METHOD(S) FOR MEASURING THE CHILD'S PROGRESS TOWARDS ANNUAL GOAL";
+const PROGRESS_FREQUENCY_FIELD = 'FREQUENCY OF WRITTEN PROGRESS REPORTING TOWARD GOAL MASTERY TO PARENTS';
+const LRE_JUSTIFICATION_FIELD = 'If no, justify (cannot be only due to needed curriculum modifications)';
+// Service types that belong under RELATED SERVICES rather than SPECIALLY DESIGNED INSTRUCTION
+const RELATED_SERVICE_PATTERN = /speech|language|occupational|physical therap|counsel|psycholog|social work|nurs|audiolog|orientation|interpret|transport/i;
+
+export const MIGRATIONS: Migration[] = [
+  {
+    from: LEGACY_CAMEL_SCHEMA,
+    to: FLATTENED_FORM_SCHEMA,
+    description: 'camelCase summary -> form sections',
+    migrate: migrateLegacyCamel
+  },
+  {
+    from: LEGACY_SNAKE_SCHEMA,
+    to: FLATTENED_FORM_SCHEMA,
+    description: 'snake_case summary -> form sections',
+    migrate: migrateLegacySnake
+  },
+  {
+    from: FLATTENED_FORM_SCHEMA,
+    to: { id: 'iep-form', version: '2.0.0' },
+    description: 'flattened form sections -> structured form sections',
+    migrate: migrateFlattenedForm
+  }
+];
+
+/**
+ * Identify the schema generation of an extraction by its shape
+ *
+ * @param data - Extraction data (not the ProcessingResult envelope)
+ * @returns Schema id and version, or undefined when unrecognized
+ */
+export function detectSchemaVersion(data: unknown): SchemaInfo | undefined {
+  if (!isObject(data)) return undefined;
+
+  if (isObject(data.IEP)) {
+    const iep = data.IEP;
+    const hasCurrentSections = ['AMENDMENTS', '10. GENERAL FACTORS', '13. EXEMPTIONS'].some(section => section in iep);
+    const hasFlattenedSections = Object.keys(RENAMED_SECTIONS).some(section => section in iep)
+      || typeof iep['3. PROFILE'] === 'string'
+      || Array.isArray(iep[GOALS_SECTION]);
+    return hasCurrentSections && !hasFlattenedSections ? getSchemaInfo() : FLATTENED_FORM_SCHEMA;
+  }
+  if (isObject(data.studentInfo)) return LEGACY_CAMEL_SCHEMA;
+  if (isObject(data.student) && (isObject(data.meta) || isObject(data.meeting))) return LEGACY_SNAKE_SCHEMA;
+  return undefined;
+}
+
+/**
+ * Upgrade an extraction to the current schema
+ *
+ * @param data - Extraction data in any known generation
+ * @param from - Generation of the input (default: detected from its shape)
+ * @returns Migrated data with the steps applied and anything that could not be placed
+ */
+export function migrateExtraction(data: unknown, from?: SchemaInfo): MigrationResult {
+  const source = from || detectSchemaVersion(data);
+  if (!source) {
+    throw new SchemaMigrationError('Unrecognized extraction shape: expected { IEP }, { studentInfo } or { student, meta }');
+  }
+
+  const current = getSchemaInfo();
+  const log: MigrationLog = { notes: [], unmapped: {} };
+  const applied: string[] = [];
+  let value = data;
+  let version = source;
+
+  while (!sameSchema(version, current) && compareVersions(version.version, current.version) < 0) {
+    const step = MIGRATIONS.find(migration => sameSchema(migration.from, version));
+    if (!step) {
+      throw new SchemaMigrationError(`No migration from ${version.id} ${version.version}`);
+    }
+    value = step.migrate(asObject(value), log);
+    applied.push(`${step.from.id} ${step.from.version} -> ${step.to.id} ${step.to.version}: ${step.description}`);
+    version = step.to;
+  }
+
+  const canonical = getCanonicalSchema();
+  const conformed = conform(value, canonical, [], log) as FormSpecificIEPData;
+
+  return { data: conformed, from: source, to: current, applied, ...log };
+}
+
+/**
+ * Split a combined address ("123 Main St., Columbus, OH 43215") into form fields
+ *
+ * Parts that cannot be identified are left empty; a string with no
+ * recognizable city, state or ZIP becomes the STREET.
+ */
+export function splitAddress(address: string): { STREET: string; CITY: string; STATE: string; ZIP: string } {
+  const text = address.replace(/\s+/g, ' ').trim();
+  const tail = text.match(/,?\s*([A-Za-z]{2})\.?,?\s+(\d{5}(?:-\d{4})?)$/);
+  if (!tail) {
+    return { STREET: text, CITY: '', STATE: '', ZIP: '' };
+  }
+
+  const head = text.substring(0, tail.index).replace(/,\s*$/, '');
+  const lastComma = head.lastIndexOf(',');
+  return {
+    STREET: lastComma >= 0 ? head.substring(0, lastComma).trim() : head,
+    CITY: lastComma >= 0 ? head.substring(lastComma + 1).trim() : '',
+    STATE: tail[1].toUpperCase(),
+    ZIP: tail[2]
+  };
+}
+
+/**
+ * iep-legacy-camel 0.1.0 -> iep-form 1.0.0
+ */
+function migrateLegacyCamel(data: JsonObject, log: MigrationLog): JsonObject {
+  const student = asObject(data.studentInfo);
+  const address = typeof student.homeAddress === 'string' ? splitAddress(student.homeAddress) : undefined;
+  const goals = asObjects(data.goals);
+  const reviewDates = asObject(data.reviewDates);
+
+  const profile = labelled(Object.entries(asObject(data.presentLevels)).map(([area, text]) => [humanize(area), text]));
+  const testing = [
+    ...asArray(data.assessmentAccommodations).map(String),
+    ...asObjects(data.standardizedAssessments).map(assessment => [assessment.name, assessment.date].filter(Boolean).join(', '))
+  ].filter(Boolean).join('\n');
+
+  const instruction: JsonObject[] = [];
+  const related: JsonObject[] = [];
+  asObjects(data.services).forEach(service => {
+    const entry = {
+      Description: service.type || '',
+      'Goal Addressed #': linkedGoal(goals, service.type),
+      'Provider Title': service.provider || '',
+      'Location of Service': service.location || '',
+      'Begin Date': '',
+      'End Date': '',
+      'Amount of Time': service.duration || '',
+      Frequency: service.frequency || ''
+    };
+    (RELATED_SERVICE_PATTERN.test(String(entry.Description)) ? related : instruction).push(entry);
+  });
+
+  for (const key of ['school', 'district', 'age', 'disability_category', 'eligibility_date']) {
+    if (!isEmpty(student[key])) log.unmapped[toPointer(['studentInfo', key])] = student[key];
+  }
+  for (const key of ['caseManager', 'additionalNotes', 'metadata']) {
+    if (!isEmpty(data[key])) log.unmapped[toPointer([key])] = data[key];
+  }
+
+  return {
+    IEP: {
+      "CHILD'S INFORMATION": {
+        NAME: student.name || '',
+        'ID NUMBER': student.id || student.studentId || '',
+        'DATE OF BIRTH': student.dob || student.birthdate || '',
+        ...address,
+        GENDER: student.gender || '',
+        GRADE: student.grade || ''
+      },
+      'PARENT/GUARDIAN INFORMATION': {
+        'Parent/Guardian 1': {
+          NAME: student.parent_guardian || '',
+          ...contactFields(student.parent_contact)
+        }
+      },
+      'MEETING INFORMATION': { 'MEETING DATE': student.iep_date || '' },
+      'IEP EFFECTIVE DATES': {
+        START: student.iep_date || '',
+        END: reviewDates.effectiveUntil || '',
+        'NEXT IEP REVIEW': reviewDates.annualReview || student.iep_review_date || ''
+      },
+      '2. SPECIAL INSTRUCTIONAL FACTORS': data.behaviorPlan || '',
+      '3. PROFILE': profile,
+      '5. POSTSECONDARY TRANSITION': data.transitionPlan || '',
+      [GOALS_SECTION]: {
+        [PROGRESS_FREQUENCY_FIELD]: '',
+        GOALS: goals.map((goal, index) => ({
+          NUMBER: index + 1,
+          AREA: goal.area || goal.goalArea || '',
+          'PRESENT LEVEL OF ACADEMIC ACHIEVEMENT AND FUNCTIONAL PERFORMANCE': goal.baseline || '',
+          'MEASURABLE ANNUAL GOAL': goal.target || goal.description || '',
+          [METHODS_FIELD]: asArray(goal.progress_measures).join(', '),
+          'Objectives/Benchmarks': asArray(goal.shortTermObjectives).map(objective => ({ 'Objective/Benchmark': String(objective) }))
+        }))
+      },
+      [SERVICES_SECTION]: {
+        'SPECIALLY DESIGNED INSTRUCTION': instruction,
+        'RELATED SERVICES': related,
+        ACCOMMODATIONS: asObjects(data.accommodations).map(accommodation => ({
+          Description: [accommodation.category, accommodation.description].filter(Boolean).join(': ')
+        }))
+      },
+      '10. LEAST RESTRICTIVE ENVIRONMENT': data.placementJustification || '',
+      '12. STATEWIDE AND DISTRICT WIDE TESTING': testing,
+      '13. MEETING PARTICIPANTS': asArray(data.teamMembers).join('\n')
+    }
+  };
+}
+
+/**
+ * iep-legacy-snake 0.2.0 -> iep-form 1.0.0
+ */
+function migrateLegacySnake(data: JsonObject, log: MigrationLog): JsonObject {
+  const student = asObject(data.student);
+  const meeting = asObject(data.meeting);
+  const eligibility = asObject(data.eligibility);
+  const placement = asObject(data.placement);
+  const goals = asObjects(data.goals);
+
+  const services = asObjects(data.services).map(service => ({
+    Description: String(service.type || ''),
+    'Goal Addressed #': 0,
+    'Provider Title': service.provider_role || '',
+    'Location of Service': service.location || '',
+    'Begin Date': service.start_date || '',
+    'End Date': service.end_date || '',
+    'Amount of Time': typeof service.duration_minutes === 'number' ? `${service.duration_minutes} minutes` : '',
+    Frequency: isObject(service.frequency)
+      ? [service.frequency.amount, service.frequency.unit].filter(part => !isEmpty(part)).join(' ')
+      : String(service.frequency || '')
+  }));
+
+  const lre = [
+    typeof placement.lre_percentage_general_ed === 'number' ? `${placement.lre_percentage_general_ed}% of time in general education.` : '',
+    placement.lre_description || ''
+  ].filter(Boolean).join(' ');
+
+  for (const key of ['school', 'district']) {
+    if (!isEmpty(student[key])) log.unmapped[toPointer(['student', key])] = student[key];
+  }
+  for (const key of ['primary_disability', 'secondary_disabilities']) {
+    if (!isEmpty(eligibility[key])) log.unmapped[toPointer(['eligibility', key])] = eligibility[key];
+  }
+  for (const key of ['meta', 'assessment_participation', 'progress_reports', 'signatures']) {
+    if (!isEmpty(data[key])) log.unmapped[toPointer([key])] = data[key];
+  }
+  if (services.length > 0) {
+    log.notes.push('snake_case services carry no goal link; "Goal Addressed #" set to 0');
+  }
+
+  return {
+    IEP: {
+      "CHILD'S INFORMATION": {
+        NAME: [student.first_name, student.last_name].filter(Boolean).join(' '),
+        'ID NUMBER': student.student_id || '',
+        'DATE OF BIRTH': student.dob || '',
+        GRADE: student.grade || ''
+      },
+      'MEETING INFORMATION': { 'MEETING DATE': meeting.meeting_date || '' },
+      'IEP TIMELINES': {
+        'ETR COMPLETION DATE': eligibility.eligibility_date || '',
+        'NEXT ETR DUE DATE': eligibility.reeval_due_date || ''
+      },
+      'IEP EFFECTIVE DATES': {
+        START: meeting.iep_start_date || '',
+        END: meeting.iep_end_date || ''
+      },
+      '3. PROFILE': labelled(Object.entries(data.present_levels || {}).map(([area, text]) => [humanize(area), text])),
+      [GOALS_SECTION]: {
+        [PROGRESS_FREQUENCY_FIELD]: goals.find(goal => goal.progress_reporting_frequency)?.progress_reporting_frequency || '',
+        GOALS: goals.map((goal, index) => ({
+          NUMBER: firstNumber(goal.id) ?? index + 1,
+          AREA: goal.area || '',
+          'PRESENT LEVEL OF ACADEMIC ACHIEVEMENT AND FUNCTIONAL PERFORMANCE': goal.baseline || '',
+          'MEASURABLE ANNUAL GOAL': [goal.statement, goal.criteria].filter(Boolean).join(' '),
+          [METHODS_FIELD]: goal.measurement_method || '',
+          'Objectives/Benchmarks': asObjects(goal.short_term_objectives).map(objective => ({
+            'Objective/Benchmark': [objective.statement, objective.criteria].filter(Boolean).join(' '),
+            'Date of Mastery': objective.due_date || ''
+          }))
+        }))
+      },
+      [SERVICES_SECTION]: {
+        'SPECIALLY DESIGNED INSTRUCTION': services.filter(service => !RELATED_SERVICE_PATTERN.test(service.Description)),
+        'RELATED SERVICES': services.filter(service => RELATED_SERVICE_PATTERN.test(service.Description)),
+        ACCOMMODATIONS: asObjects(data.accommodations).map(accommodation => ({
+          Description: [accommodation.description, accommodation.context].filter(Boolean).join(' - '),
+          'Begin Date': accommodation.start_date || '',
+          'End Date': accommodation.end_date || ''
+        })),
+        MODIFICATIONS: asObjects(data.modifications).map(modification => ({
+          Description: [modification.description, modification.context].filter(Boolean).join(' - ')
+        }))
+      },
+      '8. TRANSPORTATION AS A RELATED SERVICE': {
+        'Does the child require special transportation?': placement.transportation === true
+      },
+      '10. LEAST RESTRICTIVE ENVIRONMENT': lre,
+      '13. MEETING PARTICIPANTS': asObjects(meeting.participants)
+        .map(participant => [participant.name, participant.role].filter(Boolean).join(', '))
+        .join('\n')
+    }
+  };
+}
+
+/**
+ * iep-form 1.0.0 -> 2.0.0
+ *
+ * Renames renumbered sections, splits combined addresses, turns meeting-type
+ * and measurement-method text into checkboxes, wraps bare goal arrays and
+ * re-structures the flattened sections that have an obvious home. Other
+ * flattened text is left for the conform step to record as unmapped.
+ */
+function migrateFlattenedForm(data: JsonObject, log: MigrationLog): JsonObject {
+  const iep: JsonObject = {};
+  for (const [section, value] of Object.entries(asObject(data.IEP))) {
+    const renamed = RENAMED_SECTIONS[section];
+    if (renamed) log.notes.push(`Renamed section "${section}" to "${renamed}"`);
+    iep[renamed || section] = value;
+  }
+
+  const child = iep["CHILD'S INFORMATION"];
+  if (isObject(child)) iep["CHILD'S INFORMATION"] = splitAddressFields(child, "CHILD'S INFORMATION", log);
+
+  const parents = iep['PARENT/GUARDIAN INFORMATION'];
+  if (isObject(parents)) {
+    for (const parent of ['Parent/Guardian 1', 'Parent/Guardian 2']) {
+      const node = parents[parent];
+      if (isObject(node)) parents[parent] = splitAddressFields(node, parent, log);
+    }
+  }
+
+  const meeting = iep['MEETING INFORMATION'];
+  if (isObject(meeting) && typeof meeting['MEETING TYPE'] === 'string') {
+    meeting['MEETING TYPE'] = meetingTypeCheckboxes(meeting['MEETING TYPE']);
+  }
+
+  if (Array.isArray(iep[GOALS_SECTION])) {
+    log.notes.push(`Wrapped bare goal array in { ${PROGRESS_FREQUENCY_FIELD}, GOALS }`);
+    iep[GOALS_SECTION] = { [PROGRESS_FREQUENCY_FIELD]: '', GOALS: iep[GOALS_SECTION] };
+  }
+  const goalsSection = iep[GOALS_SECTION];
+  if (isObject(goalsSection) && Array.isArray(goalsSection.GOALS)) {
+    goalsSection.GOALS = goalsSection.GOALS.map(goal => migrateGoal(goal));
+  }
+
+  if (typeof iep['3. PROFILE'] === 'string') {
+    iep['3. PROFILE'] = { 'Most Recent Evaluation Information': iep['3. PROFILE'] };
+    log.notes.push('Flattened 3. PROFILE text moved to "Most Recent Evaluation Information"');
+  }
+
+  const lre = iep['11. LEAST RESTRICTIVE ENVIRONMENT'];
+  if (typeof lre === 'string') {
+    const percentage = lre.match(/(\d{1,3}(?:\.\d+)?)\s*%/);
+    iep['11. LEAST RESTRICTIVE ENVIRONMENT'] = {
+      'Percentage of time in general education': percentage ? Number(percentage[1]) : 0,
+      [LRE_JUSTIFICATION_FIELD]: lre
+    };
+  }
+
+  const participants = iep['14. MEETING PARTICIPANTS'];
+  if (typeof participants === 'string') {
+    iep['14. MEETING PARTICIPANTS'] = {
+      'IEP Meeting Participants (attended and participated)': participants
+        .split(/\n|;/)
+        .map(line => line.trim())
+        .filter(Boolean)
+        .map(line => {
+          const [name, ...position] = line.split(/\s*,\s*|\s+[–-]\s+/);
+          return { Name: name, Position: position.join(', ') };
+        })
+    };
+  }
+
+  const nonacademic = iep['9. NONACADEMIC AND EXTRACURRICULAR ACTIVITIES'];
+  if (isObject(nonacademic) && 'Participation with nondisabled peers' in nonacademic) {
+    nonacademic['Participation with nondisabled peers (describe)'] = nonacademic['Participation with nondisabled peers'];
+    delete nonacademic['Participation with nondisabled peers'];
+  }
+
+  return { IEP: iep };
+}
+
+function migrateGoal(goal: unknown): unknown {
+  if (!isObject(goal)) return goal;
+  const migrated: JsonObject = { ...goal };
+  const methods = migrated[METHODS_FIELD];
+  if (typeof methods === 'string') {
+    migrated[METHODS_FIELD] = methodCheckboxes(methods);
+  }
+  const objectives = migrated['Objectives/Benchmarks'];
+  if (Array.isArray(objectives)) {
+    migrated['Objectives/Benchmarks'] = objectives.map(objective => {
+      if (typeof objective === 'string') return { 'Objective/Benchmark': objective };
+      if (isObject(objective) && 'OBJECTIVE' in objective) {
+        const { OBJECTIVE, 'DATE OF MASTERY': mastery, ...rest } = objective;
+        return { ...rest, 'Objective/Benchmark': OBJECTIVE, 'Date of Mastery': mastery ?? '' };
+      }
+      return objective;
+    });
+  }
+  return migrated;
+}
+
+/**
+ * Split a combined address in STREET (or ADDRESS) into STREET/CITY/STATE/ZIP
+ */
+function splitAddressFields(node: JsonObject, label: string, log: MigrationLog): JsonObject {
+  const combined = typeof node.ADDRESS === 'string' ? node.ADDRESS : node.STREET;
+  const hasParts = ['CITY', 'STATE', 'ZIP'].some(key => !isEmpty(node[key]));
+  if (typeof combined !== 'string' || hasParts || !/,|\d{5}\s*$/.test(combined)) return node;
+
+  const { ADDRESS, ...rest } = node;
+  log.notes.push(`Split combined address in ${label}`);
+  return { ...rest, ...splitAddress(combined) };
+}
+
+function meetingTypeCheckboxes(text: string): Record<string, boolean> {
+  const value = text.toLowerCase();
+  const checkboxes = {
+    'INITIAL IEP': /initial/.test(value),
+    'ANNUAL REVIEW': /annual/.test(value) && !/other than annual/.test(value),
+    'REVIEW OTHER THAN ANNUAL REVIEW': /other than annual/.test(value),
+    AMENDMENT: /amend/.test(value),
+    OTHER: false
+  };
+  checkboxes.OTHER = value.trim() !== '' && !Object.values(checkboxes).some(Boolean);
+  return checkboxes;
+}
+
+/**
+ * Tick every measurement method named in the text ("H. Running Records, I. Work Samples")
+ */
+function methodCheckboxes(text: string): Record<string, boolean> {
+  const canonical = getCanonicalSchema();
+  const methods = canonical.properties.IEP.properties[GOALS_SECTION].properties.GOALS.items.properties[METHODS_FIELD].properties;
+  const value = text.toLowerCase().replace(/-/g, ' ');
+  return Object.fromEntries(Object.keys(methods).map(method => {
+    const stem = method.toLowerCase().replace(/-/g, ' ').replace(/s$/, '');
+    return [method, value.includes(stem)];
+  }));
+}
+
+/**
+ * Number of the first legacy goal whose service list names this service type
+ */
+function linkedGoal(goals: JsonObject[], serviceType: unknown): number {
+  const type = String(serviceType || '').toLowerCase();
+  if (!type) return 0;
+  const index = goals.findIndex(goal => asArray(goal.services).some(name => {
+    const service = String(name).toLowerCase();
+    return service.includes(type) || type.includes(service);
+  }));
+  return index + 1;
+}
+
+/**
+ * Phone numbers and email from a combined contact string ("Cell: 614...; 614...")
+ */
+function contactFields(contact: unknown): Record<string, string> {
+  if (typeof contact !== 'string') return {};
+  const fields: Record<string, string> = {};
+  const email = contact.match(/[^\s@;,]+@[^\s@;,]+\.[^\s@;,]+/);
+  if (email) fields.EMAIL = email[0];
+
+  for (const part of contact.split(/[;,]/)) {
+    const digits = part.replace(/\D/g, '');
+    if (digits.length < 10) continue;
+    const field = /cell|mobile/i.test(part) ? 'CELL PHONE' : /work/i.test(part) ? 'WORK PHONE' : 'HOME PHONE';
+    const target = fields[field] ? ['HOME PHONE', 'CELL PHONE', 'WORK PHONE'].find(key => !fields[key]) : field;
+    if (target) fields[target] = part.replace(/^[^:]*:\s*/, '').trim();
+  }
+  return fields;
+}
+
+/**
+ * Fill missing fields with empty values and coerce scalars to the schema type
+ */
+function conform(value: unknown, node: Record<string, any>, path: Array<string | number>, log: MigrationLog): unknown {
+  const pointer = toPointer(path);
+
+  switch (node.type) {
+    case 'object': {
+      if (!isObject(value)) {
+        if (!isEmpty(value)) log.unmapped[pointer] = value;
+        return emptyValue(node);
+      }
+      const properties: Record<string, any> = node.properties || {};
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(properties)) {
+        result[key] = conform(value[key], child, [...path, key], log);
+      }
+      for (const [key, extra] of Object.entries(value)) {
+        if (!(key in properties) && !isEmpty(extra)) log.unmapped[toPointer([...path, key])] = extra;
+      }
+      return result;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        if (!isEmpty(value)) log.unmapped[pointer] = value;
+        return [];
+      }
+      return value.map((item, index) => conform(item, node.items || {}, [...path, index], log));
+    case 'integer':
+    case 'number': {
+      if (typeof value === 'number') return node.type === 'integer' ? Math.round(value) : value;
+      const parsed = firstNumber(value);
+      if (parsed !== undefined) return parsed;
+      if (!isEmpty(value)) log.unmapped[pointer] = value;
+      return 0;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'string' && /^(yes|y|true|x|checked)$/i.test(value.trim())) return true;
+      if (!isEmpty(value) && !(typeof value === 'string' && /^(no|n|false)$/i.test(value.trim()))) {
+        log.unmapped[pointer] = value;
+      }
+      return false;
+    default:
+      if (typeof value === 'string') return value;
+      if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+      if (!isEmpty(value)) log.unmapped[pointer] = value;
+      return '';
+  }
+}
+
+function labelled(entries: Array<[string, unknown]>): string {
+  return entries
+    .filter(([, text]) => !isEmpty(text))
+    .map(([label, text]) => `${label}: ${text}`)
+    .join('\n\n');
+}
+
+/**
+ * "adaptiveDailyLivingSkills" / "academic_achievement" -> "Adaptive daily living skills"
+ */
+function humanize(key: string): string {
+  const words = key.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.substring(1);
+}
+
+function firstNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  const match = String(value ?? '').match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+}
+
+function sameSchema(a: SchemaInfo, b: SchemaInfo): boolean {
+  return a.id === b.id && a.version === b.version;
+}
+
+/**
+ * Numeric comparison of dotted versions ("1.10.0" > "1.9.0")
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asObject(value: unknown): JsonObject {
+  return isObject(value) ? value : {};
+}
+
+/**
+ * The objects of an array; other items become {} so every field reads as empty
+ */
+function asObjects(value: unknown): JsonObject[] {
+  return asArray(value).map(asObject);
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (isObject(value)) return Object.values(value).every(isEmpty);
+  return false;
+}
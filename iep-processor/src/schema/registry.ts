@@ -0,0 +1,309 @@
+/**
+ * Schema Registry
+ *
+ * Every form type has one canonical schema in schemas/ (the IEP's is
+ * schemas/iep-form.schema.json), the source of truth for that form's data
+ * shape. Everything else is derived from it:
+ * - TypeScript types: src/types/<schema>.generated.ts, named by the schema's
+ *   x-type-name (npm run schema:generate)
+ * - the strict extraction schema (deriveExtractionSchema below), and its
+ *   compact form sent to the model (compactExtractionSchema, also written to
+ *   schemas/generated/<schema>.extraction.schema.json for review)
+ *
+ * Extraction schema transform:
+ * 1. Drop keywords strict structured output rejects or ignores: $schema, $id,
+ *    title, $comment, x-* extensions, default, examples, format, pattern,
+ *    minimum/maximum, minLength/maxLength, minItems/maxItems. Descriptions
+ *    stay, they are extraction hints for the model.
+ * 2. Make every object strict: all properties required, no additional
+ *    properties. The model must return every field, with "" / [] / false
+ *    when the form leaves it blank.
+ * 3. For the request only: drop the root description (it documents the file)
+ *    and move object and array sub-schemas that occur more than once with
+ *    identical content to $defs, referenced with $ref. The form repeats
+ *    whole blocks (the three transition areas, the service tables, the two
+ *    parents, the testing and participant lists), and the model now reads
+ *    each of them once. The IEP schema is sent as 22 KB of JSON instead of
+ *    27 KB (the pretty-printed review file is about twice that). Most of the
+ *    rest is field names, each written twice because strict output needs
+ *    every property listed in required.
+ *    Code keeps walking the expanded schema from getExtractionSchema.
+ *
+ * The transform never renames, adds or removes fields, so extraction output
+ * has exactly the generated type's shape.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePointer, toPointer } from '../utils/json-pointer';
+
+/**
+ * Keywords removed from the extraction schema (step 1)
+ */
+export const STRIPPED_KEYWORDS = [
+  '$schema', '$id', 'title', '$comment', 'default', 'examples', 'format', 'pattern',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'minLength', 'maxLength', 'minItems', 'maxItems'
+];
+
+/**
+ * Identity of the canonical schema
+ */
+export interface SchemaInfo {
+  id: string;
+  version: string;
+}
+
+/**
+ * Canonical schema of the IEP form (the default everywhere)
+ */
+export const IEP_SCHEMA_FILE = 'iep-form.schema.json';
+
+/**
+ * Path of a canonical schema
+ *
+ * @param schemaFile - File name in schemas/ (default: the IEP schema)
+ */
+export function canonicalSchemaPath(schemaFile: string = IEP_SCHEMA_FILE): string {
+  return path.join(process.cwd(), 'schemas', schemaFile);
+}
+
+/**
+ * File names of every canonical schema in schemas/
+ */
+export function listSchemaFiles(): string[] {
+  return fs.readdirSync(path.join(process.cwd(), 'schemas'))
+    .filter(file => file.endsWith('.schema.json'))
+    .sort();
+}
+
+const canonical = new Map<string, Record<string, any>>();
+const extraction = new Map<string, Record<string, any>>();
+
+/**
+ * Load a canonical schema (cached)
+ *
+ * @param schemaFile - File name in schemas/ (default: the IEP schema)
+ */
+export function getCanonicalSchema(schemaFile: string = IEP_SCHEMA_FILE): Record<string, any> {
+  let schema = canonical.get(schemaFile);
+  if (!schema) {
+    const schemaPath = canonicalSchemaPath(schemaFile);
+    try {
+      schema = JSON.parse(fs.readFileSync(schemaPath, 'utf8')) as Record<string, any>;
+    } catch (error) {
+      throw new Error(`Failed to load canonical schema ${schemaPath}: ${error}`);
+    }
+    canonical.set(schemaFile, schema);
+  }
+  return schema;
+}
+
+/**
+ * Strict extraction schema derived from a canonical schema (cached)
+ *
+ * @param schemaFile - File name in schemas/ (default: the IEP schema)
+ */
+export function getExtractionSchema(schemaFile: string = IEP_SCHEMA_FILE): Record<string, any> {
+  let schema = extraction.get(schemaFile);
+  if (!schema) {
+    schema = deriveExtractionSchema(getCanonicalSchema(schemaFile));
+    extraction.set(schemaFile, schema);
+  }
+  return schema;
+}
+
+/**
+ * Id and version of a canonical schema
+ *
+ * @param schemaFile - File name in schemas/ (default: the IEP schema)
+ */
+export function getSchemaInfo(schemaFile: string = IEP_SCHEMA_FILE): SchemaInfo {
+  const schema = getCanonicalSchema(schemaFile);
+  return {
+    id: schema.$id,
+    version: schema['x-schema-version']
+  };
+}
+
+/**
+ * Top-level key of a form's data ("IEP", "ETR", ...): the canonical schema's
+ * single root property
+ *
+ * @param schemaFile - File name in schemas/ (default: the IEP schema)
+ */
+export function getRootKey(schemaFile: string = IEP_SCHEMA_FILE): string {
+  return Object.keys(getCanonicalSchema(schemaFile).properties || {})[0];
+}
+
+/**
+ * Resolve a section path to a JSON pointer
+ *
+ * A path starting with "/" is already a pointer; anything else is a
+ * top-level section name under the root key ("6. MEASURABLE ANNUAL GOALS"
+ * -> "/IEP/6. MEASURABLE ANNUAL GOALS").
+ *
+ * @param sectionPath - Pointer or top-level section name
+ * @param schemaFile - File name in schemas/ (default: the IEP schema)
+ */
+export function resolveSectionPointer(sectionPath: string, schemaFile: string = IEP_SCHEMA_FILE): string {
+  if (sectionPath === '' || sectionPath.startsWith('/')) {
+    return sectionPath;
+  }
+  return toPointer([getRootKey(schemaFile), sectionPath]);
+}
+
+/**
+ * Canonical sub-schema describing the value at a data pointer
+ *
+ * Array indices in the pointer select the array's item schema.
+ *
+ * @param pointer - JSON pointer into the form data
+ * @param schemaFile - File name in schemas/ (default: the IEP schema)
+ * @returns The sub-schema, or undefined when the schema has no such path
+ */
+export function getSubSchema(pointer: string, schemaFile: string = IEP_SCHEMA_FILE): Record<string, any> | undefined {
+  let node: Record<string, any> | undefined = getCanonicalSchema(schemaFile);
+  for (const segment of parsePointer(pointer)) {
+    if (!node) return undefined;
+    node = node.type === 'array' && /^\d+$/.test(segment) ? node.items : node.properties?.[segment];
+  }
+  return node;
+}
+
+/**
+ * Apply the documented transform to a canonical schema
+ *
+ * @param schema - Canonical JSON Schema
+ * @returns Strict extraction schema with the same fields
+ */
+export function deriveExtractionSchema(schema: Record<string, any>): Record<string, any> {
+  const node: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (STRIPPED_KEYWORDS.includes(key) || key.startsWith('x-')) continue;
+
+    if (key === 'properties') {
+      node.properties = Object.fromEntries(
+        Object.entries<Record<string, any>>(value).map(([name, child]) => [name, deriveExtractionSchema(child)])
+      );
+    } else if (key === 'items') {
+      node.items = deriveExtractionSchema(value);
+    } else {
+      node[key] = value;
+    }
+  }
+
+  if (node.type === 'object') {
+    node.properties = node.properties || {};
+    node.required = Object.keys(node.properties);
+    node.additionalProperties = false;
+  }
+
+  return node;
+}
+
+// Shorter repeated sub-schemas are left inline; a $ref would save little
+const MIN_SHARED_LENGTH = 100;
+
+/**
+ * Extraction schema as sent to the model (step 3 of the transform)
+ *
+ * @param schema - Expanded extraction schema (or a subset from pickSections)
+ * @returns The same schema with repeated sub-schemas in $defs
+ */
+export function compactExtractionSchema(schema: Record<string, any>): Record<string, any> {
+  const { description: _description, ...root } = schema;
+
+  const occurrences = new Map<string, number>();
+  const count = (node: Record<string, any>): void => {
+    for (const child of childSchemas(node)) {
+      const key = JSON.stringify(child);
+      occurrences.set(key, (occurrences.get(key) || 0) + 1);
+      count(child);
+    }
+  };
+  count(root);
+
+  const defs: Record<string, Record<string, any>> = {};
+  const defNames = new Map<string, string>();
+  const uses = new Map<string, number>();
+  const compact = (node: Record<string, any>, name: string): Record<string, any> => {
+    const key = JSON.stringify(node);
+    if ((occurrences.get(key) || 0) < 2 || key.length < MIN_SHARED_LENGTH) {
+      return compactChildren(node, name);
+    }
+    let defName = defNames.get(key);
+    if (!defName) {
+      const base = name.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'shared';
+      defName = base;
+      for (let suffix = 2; defName in defs; suffix++) defName = `${base}_${suffix}`;
+      defNames.set(key, defName);
+      defs[defName] = {};
+      defs[defName] = compactChildren(node, name);
+    }
+    uses.set(defName, (uses.get(defName) || 0) + 1);
+    return { $ref: `#/$defs/${defName}` };
+  };
+  const compactChildren = (node: Record<string, any>, name: string): Record<string, any> => ({
+    ...node,
+    ...(node.properties && {
+      properties: Object.fromEntries(Object.entries<Record<string, any>>(node.properties).map(([child, value]) => [child, compact(value, child)]))
+    }),
+    ...(node.items && { items: compact(node.items, `${name} item`) })
+  });
+  const compacted = compactChildren(root, '');
+
+  // A block repeated only inside another shared block is written once anyway: put it back inline
+  const inline = (node: Record<string, any>): Record<string, any> => {
+    const target = typeof node.$ref === 'string' ? node.$ref.replace('#/$defs/', '') : undefined;
+    if (target !== undefined && uses.get(target) === 1) {
+      return inline(defs[target]);
+    }
+    return {
+      ...node,
+      ...(node.properties && {
+        properties: Object.fromEntries(Object.entries<Record<string, any>>(node.properties).map(([child, value]) => [child, inline(value)]))
+      }),
+      ...(node.items && { items: inline(node.items) })
+    };
+  };
+  const shared = Object.keys(defs).filter(defName => (uses.get(defName) || 0) > 1);
+  const result = inline(compacted);
+  if (shared.length > 0) {
+    result.$defs = Object.fromEntries(shared.map(defName => [defName, inline(defs[defName])]));
+  }
+  return result;
+}
+
+/**
+ * Object and array sub-schemas directly below a node
+ */
+function childSchemas(node: Record<string, any>): Array<Record<string, any>> {
+  const children: Array<Record<string, any>> = [...Object.values<Record<string, any>>(node.properties || {}), ...(node.items ? [node.items] : [])];
+  return children.filter(child => child.type === 'object' || child.type === 'array');
+}
+
+/**
+ * Empty value matching a schema node ("" / 0 / false / nested empties)
+ */
+export function emptyValue(node: Record<string, any>): any {
+  switch (node.type) {
+    case 'object': {
+      const value: Record<string, any> = {};
+      for (const [key, child] of Object.entries<any>(node.properties || {})) {
+        value[key] = emptyValue(child);
+      }
+      return value;
+    }
+    case 'array':
+      return [];
+    case 'boolean':
+      return false;
+    case 'number':
+    case 'integer':
+      return 0;
+    default:
+      return '';
+  }
+}
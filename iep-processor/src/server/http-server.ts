@@ -0,0 +1,405 @@
+/**
+ * HTTP Service around processIEP
+ *
+ * Long-running service for the web app: documents are uploaded as jobs,
+ * processed in the background with a concurrency limit, and polled or
+ * reported back through a webhook. Job results are ProcessingResults.
+ *
+ * Endpoints:
+ * - POST /jobs               upload a PDF/DOCX (multipart "file" part, or the raw
+ *                            body with ?fileName=); 202 with the queued job
+ * - GET  /jobs               all jobs, without results
+ * - GET  /jobs/:id           job status and, once finished, its ProcessingResult
+ * - GET  /jobs/:id/report    plain-text validation report of a finished job
+ * - GET  /health             liveness, concurrency and job counts
+ *
+ * Every route but /health needs `Authorization: Bearer <IEP_API_TOKEN>`;
+ * jobs name student files and hold their records. The server will not start
+ * without a token, and listens on 127.0.0.1 unless HOST says otherwise.
+ *
+ * Processing options (formType, unmatched, strategy, reasoningEffort,
+ * inputMode, provenance) and webhookUrl are read from the query string or
+ * multipart fields. The provider comes from the server (IEP_PROVIDER), so
+ * the service runs offline with IEP_PROVIDER=fixture.
+ *
+ * A request's webhookUrl must fall under one of the configured
+ * WEBHOOK_ALLOWED_URLS (same origin, path under the allowed path); without
+ * an allowlist only the server's own WEBHOOK_URL is used. The server never
+ * POSTs job results to an address a client made up.
+ *
+ * Usage: npm run serve [-- <port>]   (default: PORT or 3000, on HOST or 127.0.0.1)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { ProcessingOptions, processIEP } from '../main';
+import { isFormType } from '../forms';
+import { ExtractionProvider, createProvider } from '../providers';
+import { Job, JobQueue, createJobQueue } from './job-queue';
+import { logger } from '../logging/logger';
+import { HttpError, parseMultipart, readBody } from './request-body';
+
+/**
+ * Service settings
+ */
+export interface IEPServerOptions {
+  /** Jobs processed at once (default: env MAX_CONCURRENT or 2) */
+  concurrency?: number;
+  /** Extraction provider for every job (default: resolved from IEP_PROVIDER) */
+  provider?: ExtractionProvider;
+  /** Options applied to every job before the request's own */
+  processingOptions?: ProcessingOptions;
+  /** Largest accepted upload in bytes (default: 25 MB) */
+  maxUploadBytes?: number;
+  /** Where uploads are kept while their job runs (default: OS temp dir) */
+  uploadDir?: string;
+  /** Webhook for jobs that do not name one (default: env WEBHOOK_URL) */
+  defaultWebhookUrl?: string;
+  /** URLs a job's own webhookUrl may fall under (default: env WEBHOOK_ALLOWED_URLS, comma-separated) */
+  allowedWebhookUrls?: string[];
+  /** Signs webhook bodies as X-IEP-Signature: sha256=<hmac> (default: env WEBHOOK_SECRET) */
+  webhookSecret?: string;
+  /** How long finished jobs stay queryable, in ms (default: 1 hour) */
+  retentionMs?: number;
+  /** Bearer token required on every route but /health (default: env IEP_API_TOKEN) */
+  authToken?: string;
+}
+
+/**
+ * A created (not yet listening) service
+ */
+export interface IEPServer {
+  server: Server;
+  queue: JobQueue;
+}
+
+const DEFAULT_MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+const WEBHOOK_ATTEMPTS = 3;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'application/pdf': '.pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx'
+};
+
+/**
+ * Create the HTTP service
+ *
+ * @param options - Concurrency, provider, upload, webhook and auth settings
+ * @returns The http.Server (call listen) and its job queue
+ * @throws Error - no auth token, or an invalid webhook URL
+ */
+export function createIEPServer(options: IEPServerOptions = {}): IEPServer {
+  const authToken = options.authToken ?? process.env.IEP_API_TOKEN;
+  if (!authToken) {
+    throw new Error('IEP_API_TOKEN is not set: the service needs a bearer token to protect job results');
+  }
+  const provider = options.provider || createProvider();
+  const maxUploadBytes = options.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+  const uploadDir = options.uploadDir || path.join(os.tmpdir(), 'iep-jobs');
+  const defaultWebhookUrl = options.defaultWebhookUrl ?? process.env.WEBHOOK_URL;
+  const allowedWebhookUrls = (options.allowedWebhookUrls ?? (process.env.WEBHOOK_ALLOWED_URLS || '').split(','))
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => parseHttpUrl(entry, 'Allowed webhook URL'));
+  if (defaultWebhookUrl) {
+    parseHttpUrl(defaultWebhookUrl, 'WEBHOOK_URL');
+  }
+  const webhookSecret = options.webhookSecret ?? process.env.WEBHOOK_SECRET;
+
+  const queue = createJobQueue({
+    concurrency: options.concurrency,
+    retentionMs: options.retentionMs,
+    run: (filePath, jobOptions) => processIEP(filePath, {
+      ...options.processingOptions,
+      ...jobOptions,
+      provider,
+      generateReport: true
+    }),
+    async onFinished(job) {
+      // Uploads hold student records; keep them only while the job runs
+      fs.rmSync(path.dirname(job.filePath), { recursive: true, force: true });
+      if (job.webhook) {
+        await deliverWebhook(job, webhookSecret);
+      }
+    }
+  });
+
+  const routes = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    const segments = url.pathname.split('/').filter(Boolean);
+
+    if (request.method === 'GET' && url.pathname === '/health') {
+      const count = (status: Job['status']) => queue.list().filter(job => job.status === status).length;
+      return sendJson(response, 200, {
+        status: 'ok',
+        concurrency: queue.concurrency,
+        jobs: { queued: count('queued'), running: count('running'), completed: count('completed'), failed: count('failed') }
+      });
+    }
+
+    if (!hasBearerToken(request, authToken)) {
+      response.setHeader('WWW-Authenticate', 'Bearer');
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+
+    if (segments[0] !== 'jobs' || segments.length > 3) {
+      throw new HttpError(404, `No route for ${request.method} ${url.pathname}`);
+    }
+
+    if (segments.length === 1) {
+      if (request.method === 'POST') {
+        const job = await createJob(request, url, uploadDir, maxUploadBytes, { defaultUrl: defaultWebhookUrl, allowed: allowedWebhookUrls }, queue);
+        response.setHeader('Location', `/jobs/${job.id}`);
+        return sendJson(response, 202, jobView(job, false));
+      }
+      if (request.method === 'GET') {
+        return sendJson(response, 200, { jobs: queue.list().map(job => jobView(job, false)) });
+      }
+      throw new HttpError(405, `${request.method} is not allowed on /jobs`);
+    }
+
+    if (request.method !== 'GET') {
+      throw new HttpError(405, `${request.method} is not allowed on ${url.pathname}`);
+    }
+    const job = queue.get(segments[1]);
+    if (!job) {
+      throw new HttpError(404, `Unknown job ${segments[1]}`);
+    }
+
+    if (segments.length === 2) {
+      return sendJson(response, 200, jobView(job, true));
+    }
+    if (segments[2] !== 'report') {
+      throw new HttpError(404, `No route for GET ${url.pathname}`);
+    }
+    if (!job.result) {
+      throw new HttpError(409, `Job ${job.id} is ${job.status}; the report is available once it finishes`);
+    }
+    if (!job.result.report) {
+      throw new HttpError(404, `Job ${job.id} has no validation report${job.result.error ? `: ${job.result.error.message}` : ''}`);
+    }
+    response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end(job.result.report);
+  };
+
+  const server = createServer((request, response) => {
+    routes(request, response).catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        logger.error('Request failed', { method: request.method, url: request.url, error: error instanceof Error ? error.message : String(error) });
+      }
+      if (!response.headersSent) {
+        sendJson(response, status, { error: error instanceof Error ? error.message : String(error) });
+      } else {
+        response.end();
+      }
+    });
+  });
+
+  return { server, queue };
+}
+
+/**
+ * Whether the request carries the service's bearer token
+ */
+function hasBearerToken(request: IncomingMessage, token: string): boolean {
+  const presented = (request.headers.authorization || '').match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!presented) return false;
+  // Equal-length digests, so the comparison time does not depend on the token
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(presented), digest(token));
+}
+
+/**
+ * Store an upload and queue its job
+ */
+async function createJob(
+  request: IncomingMessage,
+  url: URL,
+  uploadDir: string,
+  maxUploadBytes: number,
+  webhooks: { defaultUrl?: string; allowed: URL[] },
+  queue: JobQueue
+): Promise<Job> {
+  const contentType = (request.headers['content-type'] || '').toLowerCase();
+  const body = await readBody(request, maxUploadBytes);
+  const params: Record<string, string> = Object.fromEntries(url.searchParams);
+
+  let fileName: string | undefined;
+  let content: Buffer;
+  if (contentType.startsWith('multipart/form-data')) {
+    const multipart = parseMultipart(body, request.headers['content-type'] as string);
+    const file = multipart.files.file;
+    if (!file) {
+      throw new HttpError(400, 'multipart upload has no "file" part');
+    }
+    Object.assign(params, multipart.fields);
+    fileName = file.fileName;
+    content = file.content;
+  } else {
+    const extension = CONTENT_TYPE_EXTENSIONS[contentType.split(';')[0].trim()];
+    fileName = params.fileName || (extension ? `upload${extension}` : undefined);
+    content = body;
+  }
+
+  if (!fileName || !['.pdf', '.docx'].includes(path.extname(fileName).toLowerCase())) {
+    throw new HttpError(415, 'Upload a .pdf or .docx file (multipart "file" part, or raw body with a PDF/DOCX Content-Type or ?fileName=)');
+  }
+  if (content.length === 0) {
+    throw new HttpError(400, 'Uploaded file is empty');
+  }
+
+  const options = parseProcessingOptions(params);
+  const webhookUrl = params.webhookUrl ? allowedWebhookUrl(params.webhookUrl, webhooks.allowed) : webhooks.defaultUrl;
+
+  // Keep the original base name: fixtures and reports are keyed by it
+  const safeName = path.basename(fileName).replace(/[^\w .()-]/g, '_');
+  const jobDir = path.join(uploadDir, randomUUID());
+  fs.mkdirSync(jobDir, { recursive: true });
+  const filePath = path.join(jobDir, safeName);
+  fs.writeFileSync(filePath, content);
+
+  return queue.submit({ fileName: safeName, filePath, options, webhookUrl });
+}
+
+/**
+ * Processing options from query/form parameters (400 on invalid values)
+ */
+function parseProcessingOptions(params: Record<string, string>): ProcessingOptions {
+  const options: ProcessingOptions = {};
+  const oneOf = <T extends string>(name: string, allowed: readonly T[]): T | undefined => {
+    const value = params[name];
+    if (value === undefined || value === '') return undefined;
+    if (!allowed.includes(value as T)) {
+      throw new HttpError(400, `${name} must be one of ${allowed.join(', ')}, got ${value}`);
+    }
+    return value as T;
+  };
+
+  options.reasoningEffort = oneOf('reasoningEffort', ['low', 'medium', 'high'] as const);
+  options.strategy = oneOf('strategy', ['single-shot', 'hybrid', 'multi-pass'] as const);
+  options.inputMode = oneOf('inputMode', ['file', 'text', 'file+text'] as const);
+  if (params.formType) {
+    if (!isFormType(params.formType)) throw new HttpError(400, `Unknown formType ${params.formType}`);
+    options.formType = params.formType;
+  }
+  if (params.unmatched) {
+    if (params.unmatched !== 'reject' && !isFormType(params.unmatched)) throw new HttpError(400, `unmatched must be reject or a form type, got ${params.unmatched}`);
+    options.unmatched = params.unmatched;
+  }
+  if (params.provenance) {
+    options.provenance = params.provenance === 'true';
+  }
+
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as ProcessingOptions;
+}
+
+/**
+ * Parse an http(s) URL
+ *
+ * @throws Error - not an absolute http(s) URL
+ */
+function parseHttpUrl(value: string, label: string): URL {
+  let url: URL | undefined;
+  try {
+    url = new URL(value);
+  } catch {
+    // reported below
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    throw new Error(`${label} must be an http(s) URL, got ${value}`);
+  }
+  return url;
+}
+
+/**
+ * A request's webhookUrl, if the allowlist covers it (400 otherwise)
+ */
+function allowedWebhookUrl(value: string, allowed: URL[]): string {
+  let url: URL;
+  try {
+    url = parseHttpUrl(value, 'webhookUrl');
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+  const covered = allowed.some(entry =>
+    url.origin === entry.origin &&
+    (entry.pathname.endsWith('/') ? url.pathname.startsWith(entry.pathname) : url.pathname === entry.pathname || url.pathname.startsWith(`${entry.pathname}/`))
+  );
+  if (!covered || url.username || url.password) {
+    throw new HttpError(400, allowed.length === 0
+      ? 'webhookUrl is not accepted by this server; results go to its configured WEBHOOK_URL'
+      : `webhookUrl ${url.origin}${url.pathname} is not under an allowed webhook URL (WEBHOOK_ALLOWED_URLS)`);
+  }
+  return url.href;
+}
+
+/**
+ * POST the finished job to its webhook, retrying failed deliveries
+ */
+async function deliverWebhook(job: Job, secret: string | undefined): Promise<void> {
+  const webhook = job.webhook as NonNullable<Job['webhook']>;
+  const body = JSON.stringify({ event: job.status === 'completed' ? 'job.completed' : 'job.failed', job: jobView(job, true) });
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (secret) {
+    headers['X-IEP-Signature'] = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  while (webhook.attempts < WEBHOOK_ATTEMPTS) {
+    webhook.attempts++;
+    try {
+      const response = await fetch(webhook.url, { method: 'POST', headers, body, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) });
+      if (response.ok) {
+        webhook.status = 'delivered';
+        webhook.error = undefined;
+        logger.info('Webhook delivered', { jobId: job.id });
+        return;
+      }
+      webhook.error = `HTTP ${response.status}`;
+    } catch (error) {
+      webhook.error = error instanceof Error ? error.message : String(error);
+    }
+    if (webhook.attempts < WEBHOOK_ATTEMPTS) {
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (webhook.attempts - 1)));
+    }
+  }
+  webhook.status = 'failed';
+  logger.warn('Webhook failed', { jobId: job.id, attempts: webhook.attempts, error: webhook.error });
+}
+
+/**
+ * Public view of a job (no local paths)
+ */
+function jobView(job: Job, includeResult: boolean) {
+  return {
+    id: job.id,
+    status: job.status,
+    fileName: job.fileName,
+    options: job.options,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    webhook: job.webhook,
+    links: { self: `/jobs/${job.id}`, report: `/jobs/${job.id}/report` },
+    ...(includeResult ? { result: job.result } : {})
+  };
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body, null, 2));
+}
+
+// CLI: npm run serve [-- <port>]
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const port = parseInt(process.argv[2] || process.env.PORT || '3000', 10);
+  const host = process.env.HOST || '127.0.0.1';
+  const { server, queue } = createIEPServer();
+  server.listen(port, host, () => {
+    logger.info(`IEP processing service listening on http://${host}:${port}`, { concurrency: queue.concurrency });
+  });
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureLogger } from '../logging/logger';
+import { RateLimitError } from '../providers';
+import { Job, createJobQueue } from './job-queue';
+
+configureLogger({ quiet: true });
+
+const submit = (queue: ReturnType<typeof createJobQueue>, fileName: string) =>
+  queue.submit({ fileName, filePath: `/uploads/${fileName}`, options: {} });
+
+test('jobs run in order, at most concurrency at a time', async () => {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const started: string[] = [];
+  const queue = createJobQueue({
+    concurrency: 2,
+    async run(filePath) {
+      started.push(filePath);
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      inFlight--;
+      return { success: true };
+    }
+  });
+  const jobs = ['a.pdf', 'b.pdf', 'c.pdf', 'd.pdf'].map(name => submit(queue, name));
+  assert.deepEqual(jobs.map(job => job.status), ['running', 'running', 'queued', 'queued']);
+  await queue.idle();
+  assert.equal(maxInFlight, 2);
+  assert.deepEqual(started, ['/uploads/a.pdf', '/uploads/b.pdf', '/uploads/c.pdf', '/uploads/d.pdf']);
+  assert.ok(jobs.every(job => job.status === 'completed' && job.completedAt));
+});
+
+test('a thrown error fails the job with its code; the completion callback still runs', async () => {
+  const finished: Job[] = [];
+  const queue = createJobQueue({
+    concurrency: 1,
+    run: async filePath => {
+      if (filePath.endsWith('bad.pdf')) throw new RateLimitError('rate limited');
+      throw new Error('disk full');
+    },
+    onFinished: job => {
+      finished.push(job);
+      throw new Error('webhook down');
+    }
+  });
+  const bad = submit(queue, 'bad.pdf');
+  const worse = submit(queue, 'worse.pdf');
+  await queue.idle();
+  assert.deepEqual(bad.result?.error, { code: 'RATE_LIMIT', message: 'rate limited', transient: true });
+  assert.equal(worse.result?.error?.code, 'PROCESSING_FAILED');
+  assert.deepEqual([bad.status, worse.status], ['failed', 'failed']);
+  assert.equal(finished.length, 2);
+});
+
+test('finished jobs are dropped after the retention period', async () => {
+  const queue = createJobQueue({ concurrency: 1, retentionMs: 0, run: async () => ({ success: true }) });
+  const job = submit(queue, 'a.pdf');
+  await queue.idle();
+  await new Promise(resolve => setTimeout(resolve, 5));
+  assert.equal(queue.get(job.id), undefined);
+  assert.throws(() => createJobQueue({ concurrency: 0, run: async () => ({ success: true }) }), /positive integer/);
+});
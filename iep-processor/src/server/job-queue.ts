@@ -0,0 +1,204 @@
+/**
+ * In-Memory Processing Job Queue
+ *
+ * Holds the jobs of the HTTP service: each job is one uploaded document run
+ * through processIEP. Jobs run in submission order with at most
+ * `concurrency` at a time; the rest wait in the queue.
+ *
+ * Features:
+ * - Concurrency limit (default: MAX_CONCURRENT from the environment, else 2)
+ * - Job status: queued -> running -> completed | failed
+ * - Completion callback per job (used for webhooks), run outside the job's
+ *   concurrency slot so a slow webhook does not hold up queued jobs
+ * - Finished jobs are dropped after a retention period
+ */
+
+import { randomUUID } from 'crypto';
+import { ProcessingOptions, ProcessingResult, toProcessingError } from '../main';
+import { logger, withLogContext } from '../logging/logger';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Delivery state of a job's completion webhook
+ */
+export interface WebhookDelivery {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  error?: string;
+}
+
+/**
+ * One processing job
+ */
+export interface Job {
+  id: string;
+  status: JobStatus;
+  /** Name of the uploaded file */
+  fileName: string;
+  /** Where the upload is stored while the job runs */
+  filePath: string;
+  options: ProcessingOptions;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  /** Set once the job has finished (success or not) */
+  result?: ProcessingResult;
+  webhook?: WebhookDelivery;
+}
+
+/**
+ * Job queue settings
+ */
+export interface JobQueueOptions {
+  /** Runs one job (processIEP in the service) */
+  run: (filePath: string, options: ProcessingOptions) => Promise<ProcessingResult>;
+  /** Jobs running at once (default: env MAX_CONCURRENT or 2) */
+  concurrency?: number;
+  /** How long finished jobs stay queryable, in ms (default: 1 hour) */
+  retentionMs?: number;
+  /** Called after a job finishes; the next queued job does not wait for it */
+  onFinished?: (job: Job) => void | Promise<void>;
+}
+
+/**
+ * A job queue
+ */
+export interface JobQueue {
+  readonly concurrency: number;
+  /** Queue a document; it starts as soon as a slot is free */
+  submit(input: { fileName: string; filePath: string; options: ProcessingOptions; webhookUrl?: string }): Job;
+  get(id: string): Job | undefined;
+  list(): Job[];
+  /** Resolves when no job is queued or running and every completion callback has settled */
+  idle(): Promise<void>;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Concurrency from MAX_CONCURRENT (see .env.example), or the default
+ */
+export function concurrencyFromEnv(): number {
+  const value = parseInt(process.env.MAX_CONCURRENT || '', 10);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Create a job queue
+ *
+ * @param options - Job runner, concurrency, retention and completion callback
+ * @returns JobQueue
+ */
+export function createJobQueue(options: JobQueueOptions): JobQueue {
+  const concurrency = options.concurrency ?? concurrencyFromEnv();
+  const retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Job concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  const jobs = new Map<string, Job>();
+  const waiting: Job[] = [];
+  let running = 0;
+  let finishing = 0;
+  let idleWaiters: Array<() => void> = [];
+
+  const pump = (): void => {
+    while (running < concurrency && waiting.length > 0) {
+      const job = waiting.shift() as Job;
+      running++;
+      void execute(job).finally(() => {
+        running--;
+        pump();
+      });
+    }
+    notifyIdle();
+  };
+
+  const notifyIdle = (): void => {
+    if (running === 0 && waiting.length === 0 && finishing === 0) {
+      idleWaiters.forEach(resolve => resolve());
+      idleWaiters = [];
+    }
+  };
+
+  // The job id is the correlation id of every log line of the job
+  const execute = (job: Job): Promise<void> => withLogContext(job.id, async () => {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    logger.info('Job started', { fileName: job.fileName });
+
+    try {
+      job.result = await options.run(job.filePath, job.options);
+    } catch (error) {
+      job.result = { success: false, error: toProcessingError(error) };
+    }
+    job.status = job.result.success ? 'completed' : 'failed';
+    job.completedAt = new Date().toISOString();
+    logger.log(job.result.success ? 'info' : 'warn', `Job ${job.status}`, { code: job.result.error?.code });
+
+    // The slot is released as soon as the job itself is done; webhook retries run on their own
+    if (options.onFinished) {
+      finishing++;
+      void finish(job, options.onFinished).finally(() => {
+        finishing--;
+        notifyIdle();
+      });
+    }
+  });
+
+  const finish = async (job: Job, onFinished: NonNullable<JobQueueOptions['onFinished']>): Promise<void> => {
+    try {
+      await onFinished(job);
+    } catch (error) {
+      logger.error('Job completion handler failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const prune = (): void => {
+    const cutoff = Date.now() - retentionMs;
+    for (const [id, job] of jobs) {
+      if (job.completedAt && Date.parse(job.completedAt) < cutoff) {
+        jobs.delete(id);
+      }
+    }
+  };
+
+  return {
+    concurrency,
+
+    submit({ fileName, filePath, options: processingOptions, webhookUrl }) {
+      prune();
+      const job: Job = {
+        id: randomUUID(),
+        status: 'queued',
+        fileName,
+        filePath,
+        options: processingOptions,
+        createdAt: new Date().toISOString(),
+        webhook: webhookUrl ? { url: webhookUrl, status: 'pending', attempts: 0 } : undefined
+      };
+      jobs.set(job.id, job);
+      waiting.push(job);
+      logger.info('Job queued', { jobId: job.id, fileName, waiting: waiting.length, running, concurrency });
+      pump();
+      return job;
+    },
+
+    get(id) {
+      prune();
+      return jobs.get(id);
+    },
+
+    list() {
+      prune();
+      return [...jobs.values()];
+    },
+
+    idle() {
+      return running === 0 && waiting.length === 0 && finishing === 0 ? Promise.resolve() : new Promise(resolve => idleWaiters.push(resolve));
+    }
+  };
+}
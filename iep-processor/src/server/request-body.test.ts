@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpError, parseMultipart } from './request-body';
+
+const BOUNDARY = 'test-boundary';
+
+function multipart(parts: Array<{ disposition: string; content: string }>): Buffer {
+  const body = parts.map(part => `--${BOUNDARY}\r\nContent-Disposition: ${part.disposition}\r\n\r\n${part.content}\r\n`).join('');
+  return Buffer.from(`${body}--${BOUNDARY}--\r\n`);
+}
+
+test('a filename before the name does not become the part name', () => {
+  const body = multipart([
+    { disposition: 'form-data; filename="name=x.pdf"; name="file"', content: '%PDF' },
+    { disposition: 'form-data; name="strategy"', content: 'hybrid' }
+  ]);
+  const parsed = parseMultipart(body, `multipart/form-data; boundary=${BOUNDARY}`);
+  assert.deepEqual(Object.keys(parsed.files), ['file']);
+  assert.equal(parsed.files.file.fileName, 'name=x.pdf');
+  assert.equal(parsed.files.file.content.toString(), '%PDF');
+  assert.deepEqual(parsed.fields, { strategy: 'hybrid' });
+});
+
+test('a part with only a filename has no name and is skipped', () => {
+  const parsed = parseMultipart(multipart([{ disposition: 'form-data; filename="student.pdf"', content: '%PDF' }]), `multipart/form-data; boundary="${BOUNDARY}"`);
+  assert.deepEqual(parsed, { files: {}, fields: {} });
+});
+
+test('a body without a boundary is a 400', () => {
+  assert.throws(() => parseMultipart(Buffer.from(''), 'multipart/form-data'), (error: unknown) => error instanceof HttpError && error.status === 400);
+});
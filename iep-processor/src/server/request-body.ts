@@ -0,0 +1,98 @@
+/**
+ * Request Body Parsing for the HTTP Service
+ *
+ * Reads upload bodies with a size limit and splits multipart/form-data into
+ * files and fields. Only what the service needs: one file plus text fields.
+ */
+
+import { IncomingMessage } from 'http';
+
+/**
+ * Thrown for requests the service rejects (mapped to the HTTP status)
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * A file part of a multipart body
+ */
+export interface UploadedFile {
+  fileName: string;
+  contentType?: string;
+  content: Buffer;
+}
+
+/**
+ * Parsed multipart/form-data body
+ */
+export interface MultipartBody {
+  files: Record<string, UploadedFile>;
+  fields: Record<string, string>;
+}
+
+/**
+ * Read the whole request body
+ *
+ * @param request - Incoming request
+ * @param limitBytes - Largest accepted body; larger ones fail with 413
+ */
+export async function readBody(request: IncomingMessage, limitBytes: number): Promise<Buffer> {
+  const declared = Number(request.headers['content-length']);
+  if (declared > limitBytes) {
+    throw new HttpError(413, `Upload is larger than ${limitBytes} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > limitBytes) {
+      throw new HttpError(413, `Upload is larger than ${limitBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Split a multipart/form-data body into files and text fields
+ *
+ * @param body - Raw body
+ * @param contentType - Content-Type header (carries the boundary)
+ */
+export function parseMultipart(body: Buffer, contentType: string): MultipartBody {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  if (!boundary) {
+    throw new HttpError(400, 'multipart/form-data body without a boundary');
+  }
+
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+  const result: MultipartBody = { files: {}, fields: {} };
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+
+    // Part = CRLF headers CRLF CRLF content CRLF
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8');
+      const content = part.subarray(headerEnd + 4);
+      // Anchored on the parameter separator so filename="..." is not read as the name
+      const name = headers.match(/;\s*name="([^"]*)"/i)?.[1];
+      const fileName = headers.match(/;\s*filename="([^"]*)"/i)?.[1];
+      if (name && fileName !== undefined) {
+        result.files[name] = { fileName, contentType: headers.match(/content-type:\s*([^\r\n]+)/i)?.[1], content };
+      } else if (name) {
+        result.fields[name] = content.toString('utf8');
+      }
+    }
+    start = next;
+  }
+  return result;
+}
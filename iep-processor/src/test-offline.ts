@@ -0,0 +1,266 @@
+/**
+ * Offline End-to-End Checks
+ *
+ * Runs the HTTP service, cassette replay and batch resume against the
+ * committed synthetic fixtures (fixtures/): no network, no API key, and
+ * nothing written outside a temporary directory. The exit code is 1 when
+ * any check fails.
+ *
+ * Checks:
+ * - HTTP service: POST /jobs, GET /jobs/:id, GET /jobs/:id/report, the signed
+ *   webhook of the finished job, and a webhookUrl outside the allowlist
+ * - Cassette replay: an OpenAI extraction served from fixtures/cassettes in
+ *   strict mode, at $0
+ * - Batch: a cancelled run leaves files pending; the next run processes them
+ *   and skips the completed one
+ *
+ * The committed cassette is synthetic (recorded against a stub transport
+ * answering with fixtures/default.json). Its key covers the prompt and
+ * schema, so re-record it after changing either:
+ *
+ * Usage: npm run test:offline
+ *        npm run test:offline -- --record-cassette
+ */
+
+import { createHmac } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { IncomingMessage, createServer } from 'http';
+import chalk from 'chalk';
+import { ProcessingOptions, processIEP } from './main';
+import { createIEPServer } from './server/http-server';
+import { runBatch } from './batch/batch-runner';
+import { createFixtureProvider } from './providers/fixture-provider';
+import { OpenAITransport, createOpenAIProvider } from './providers/openai-provider';
+import { CassetteMode } from './providers/cassette';
+import { configureLogger } from './logging/logger';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'fixtures');
+const DOCUMENT = path.join(FIXTURES_DIR, 'synthetic-iep.pdf');
+const CASSETTE_DIR = path.join(FIXTURES_DIR, 'cassettes');
+const CASSETTE_MODEL = 'gpt-5-2025-08-07';
+const WEBHOOK_SECRET = 'offline-check';
+const API_TOKEN = 'offline-token';
+const JOB_TIMEOUT_MS = 30_000;
+
+/**
+ * Options of every processIEP call: no result cache, ledger in the scratch directory
+ */
+function scratchOptions(scratchDir: string): ProcessingOptions {
+  return { cache: false, budget: { ledgerFile: path.join(scratchDir, 'spend-ledger.jsonl') } };
+}
+
+/**
+ * OpenAI provider reading and writing the committed cassettes
+ */
+function cassetteProvider(mode: CassetteMode, transport?: OpenAITransport) {
+  return createOpenAIProvider({ apiKey: 'offline', model: CASSETTE_MODEL, cassette: { mode, dir: CASSETTE_DIR }, transport });
+}
+
+/**
+ * Stands in for the OpenAI API when the cassette is recorded
+ */
+function createStubTransport(): OpenAITransport {
+  const outputText = fs.readFileSync(path.join(FIXTURES_DIR, 'default.json'), 'utf8');
+  return {
+    async uploadFile() {
+      return { id: 'file-synthetic' };
+    },
+    async createResponse() {
+      return {
+        id: 'resp-synthetic',
+        status: 'completed',
+        output_text: outputText,
+        usage: { input_tokens: 12000, output_tokens: 4000, output_tokens_details: { reasoning_tokens: 1500 } }
+      };
+    },
+    async deleteFile() {}
+  };
+}
+
+/**
+ * Rewrite the synthetic cassette for the current prompt and schema
+ */
+async function recordCassette(scratchDir: string): Promise<void> {
+  const before = new Set(fs.existsSync(CASSETTE_DIR) ? fs.readdirSync(CASSETTE_DIR) : []);
+  const result = await processIEP(DOCUMENT, { ...scratchOptions(scratchDir), provider: cassetteProvider('record', createStubTransport()) });
+  if (!result.success) {
+    throw new Error(`Recording failed: ${result.error?.message}`);
+  }
+  const recorded = fs.readdirSync(CASSETTE_DIR).filter(name => !before.has(name));
+  for (const stale of before) {
+    if (!recorded.includes(stale)) fs.rmSync(path.join(CASSETTE_DIR, stale));
+  }
+  console.log(chalk.green(`✅ Recorded ${recorded.join(', ') || 'the existing cassette again'} in ${path.relative(process.cwd(), CASSETTE_DIR)}`));
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+/**
+ * POST, poll, report and webhook of one job, plus a refused webhookUrl and
+ * requests without the bearer token
+ */
+async function checkHttpService(scratchDir: string): Promise<void> {
+  const deliveries: Array<{ body: string; signature?: string }> = [];
+  const receiver = createServer((request: IncomingMessage, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      deliveries.push({ body: Buffer.concat(chunks).toString('utf8'), signature: request.headers['x-iep-signature'] as string | undefined });
+      response.writeHead(204).end();
+    });
+  });
+  await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+  const hookUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks/iep`;
+
+  const { server, queue } = createIEPServer({
+    provider: createFixtureProvider({ fixturesDir: FIXTURES_DIR }),
+    processingOptions: scratchOptions(scratchDir),
+    uploadDir: path.join(scratchDir, 'uploads'),
+    allowedWebhookUrls: [hookUrl.replace(/iep$/, '')],
+    webhookSecret: WEBHOOK_SECRET,
+    authToken: API_TOKEN
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const authorization = { Authorization: `Bearer ${API_TOKEN}` };
+  try {
+    const health = await fetch(`${base}/health`);
+    assert(health.status === 200, `GET /health without a token: expected 200, got ${health.status}`);
+    for (const headers of [{}, { Authorization: 'Bearer wrong-token' }] as Array<Record<string, string>>) {
+      const listed = await fetch(`${base}/jobs`, { headers });
+      assert(listed.status === 401, `GET /jobs without the token: expected 401, got ${listed.status}`);
+    }
+
+    const upload = (webhookUrl: string) => fetch(`${base}/jobs?fileName=synthetic-iep.pdf&webhookUrl=${encodeURIComponent(webhookUrl)}`, {
+      method: 'POST',
+      headers: { ...authorization, 'Content-Type': 'application/pdf' },
+      body: fs.readFileSync(DOCUMENT)
+    });
+
+    const refused = await upload('http://169.254.169.254/latest/meta-data');
+    assert(refused.status === 400, `webhookUrl outside the allowlist: expected 400, got ${refused.status}`);
+
+    const created = await upload(hookUrl);
+    assert(created.status === 202, `POST /jobs: expected 202, got ${created.status}`);
+    const { id } = await created.json() as { id: string };
+    assert(created.headers.get('location') === `/jobs/${id}`, 'POST /jobs: Location header does not point at the job');
+
+    let job: { status: string; result?: { success: boolean; data?: Record<string, any> } } = { status: 'queued' };
+    const deadline = Date.now() + JOB_TIMEOUT_MS;
+    while (job.status === 'queued' || job.status === 'running') {
+      assert(Date.now() < deadline, `GET /jobs/${id}: still ${job.status} after ${JOB_TIMEOUT_MS} ms`);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      const polled = await fetch(`${base}/jobs/${id}`, { headers: authorization });
+      assert(polled.status === 200, `GET /jobs/:id: expected 200, got ${polled.status}`);
+      job = await polled.json() as typeof job;
+    }
+    assert(job.status === 'completed' && job.result?.success, `GET /jobs/:id: job ${job.status}`);
+    assert(job.result.data?.IEP?.["CHILD'S INFORMATION"]?.NAME === 'Jordan Sample', 'GET /jobs/:id: result does not hold the fixture data');
+
+    const report = await fetch(`${base}/jobs/${id}/report`, { headers: authorization });
+    assert(report.status === 200 && (report.headers.get('content-type') || '').startsWith('text/plain'), `GET /jobs/:id/report: expected 200 text, got ${report.status}`);
+    assert((await report.text()).length > 0, 'GET /jobs/:id/report: empty report');
+
+    await queue.idle();
+    assert(deliveries.length === 1, `webhook: expected 1 delivery, got ${deliveries.length}`);
+    const [delivery] = deliveries;
+    const expected = `sha256=${createHmac('sha256', WEBHOOK_SECRET).update(delivery.body).digest('hex')}`;
+    assert(delivery.signature === expected, 'webhook: X-IEP-Signature does not match the body');
+    const event = JSON.parse(delivery.body) as { event: string; job: { id: string } };
+    assert(event.event === 'job.completed' && event.job.id === id, `webhook: unexpected event ${event.event} for ${event.job.id}`);
+    assert(queue.get(id)?.webhook?.status === 'delivered', 'webhook: job does not show the delivery');
+  } finally {
+    server.close();
+    receiver.close();
+  }
+}
+
+/**
+ * Strict replay of the committed cassette through the OpenAI provider
+ */
+async function checkCassetteReplay(scratchDir: string): Promise<void> {
+  const result = await processIEP(DOCUMENT, { ...scratchOptions(scratchDir), provider: cassetteProvider('strict') });
+  assert(result.success, `replay failed: ${result.error?.message} (re-record with npm run test:offline -- --record-cassette)`);
+  assert(result.form?.id === 'iep' && result.form.source === 'classified', `replay: document classified as ${result.form?.id} (${result.form?.source})`);
+  assert((result.data as Record<string, any>)?.IEP?.["CHILD'S INFORMATION"]?.NAME === 'Jordan Sample', 'replay: result does not hold the recorded data');
+  assert(result.usage?.cost_usd === 0, `replay: expected $0, got $${result.usage?.cost_usd}`);
+}
+
+/**
+ * Cancel a batch after its first file, then resume it
+ */
+async function checkBatchResume(scratchDir: string): Promise<void> {
+  const inputDir = path.join(scratchDir, 'batch-input');
+  const outputDir = path.join(scratchDir, 'batch-output');
+  fs.mkdirSync(inputDir, { recursive: true });
+  // Different bytes per copy: identical files would be recorded as duplicates
+  const files = ['first', 'second', 'third'].map(name => {
+    const file = path.join(inputDir, `${name}.pdf`);
+    fs.writeFileSync(file, Buffer.concat([fs.readFileSync(DOCUMENT), Buffer.from(`%${name}\n`)]));
+    return file;
+  });
+  const processing = { ...scratchOptions(scratchDir), provider: createFixtureProvider({ fixturesDir: FIXTURES_DIR }) };
+
+  const controller = new AbortController();
+  const cancelled = await runBatch(files, {
+    outputDir,
+    processing,
+    signal: controller.signal,
+    run: async (file, options) => {
+      const result = await processIEP(file, options);
+      controller.abort();
+      return result;
+    }
+  });
+  assert(cancelled.cancelled, 'cancelled run: not reported as cancelled');
+  assert(cancelled.completed === 1 && cancelled.pending === 2, `cancelled run: expected 1 completed and 2 pending, got ${cancelled.completed} and ${cancelled.pending}`);
+
+  const resumed = await runBatch(files, { outputDir, processing });
+  assert(!resumed.cancelled, 'resumed run: reported as cancelled');
+  assert(resumed.skipped === 1 && resumed.completed === 2 && resumed.failed === 0, `resumed run: expected 1 skipped and 2 completed, got ${resumed.skipped}, ${resumed.completed} (${resumed.failed} failed)`);
+  assert(resumed.results.every(entry => entry.status === 'completed' && entry.output && fs.existsSync(entry.output)), 'resumed run: a file has no result');
+}
+
+async function main(): Promise<void> {
+  if (!process.env.LOG_LEVEL) {
+    configureLogger({ level: 'error' });
+  }
+  const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'iep-offline-'));
+
+  try {
+    if (process.argv.includes('--record-cassette')) {
+      await recordCassette(scratchDir);
+      return;
+    }
+
+    const checks: Array<[string, (dir: string) => Promise<void>]> = [
+      ['HTTP service: bearer token, POST, GET, report and webhook', checkHttpService],
+      ['Cassette replay (strict)', checkCassetteReplay],
+      ['Batch cancellation and resume', checkBatchResume]
+    ];
+    let failed = 0;
+    for (const [name, check] of checks) {
+      try {
+        await check(scratchDir);
+        console.log(chalk.green(`✅ ${name}`));
+      } catch (error) {
+        failed++;
+        console.log(chalk.red(`❌ ${name}: ${error instanceof Error ? error.message : error}`));
+      }
+    }
+    process.exitCode = failed > 0 ? 1 : 0;
+  } finally {
+    fs.rmSync(scratchDir, { recursive: true, force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+  process.exitCode = 1;
+});
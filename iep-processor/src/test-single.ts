@@ -1,5 +1,7 @@
 import { processIEP } from './main';
 import { FormSpecificIEPData } from './types/form-specific-iep-data';
+import { exportReviewQueue } from './confidence/field-confidence';
+import { formatServiceMinutesReport } from './analytics/service-minutes';
 import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs';
@@ -36,6 +38,7 @@ async function testSingleFile(): Promise<void> {
   const baseName = path.basename(filePath, path.extname(filePath));
   const jsonOutputPath = path.join(outputDir, `${baseName}_${timestamp}_extraction_result.json`);
   const costReportPath = path.join(outputDir, `${baseName}_${timestamp}_cost_report.txt`);
+  const reviewQueuePath = path.join(outputDir, `${baseName}_${timestamp}_review_queue.json`);
   
   console.log(chalk.blue.bold(`🧪 Processing IEP: ${fileName}`));
   console.log(chalk.gray(`   Output will be saved to: ${jsonOutputPath}`));
@@ -48,7 +51,7 @@ async function testSingleFile(): Promise<void> {
     // Process the document
     spinner.text = '⚙️ Running IEP extraction (this may take 30-60 seconds)...';
     
-    const result = await processIEP(filePath, { reasoningEffort: 'medium' });
+    const result = await processIEP(filePath, { reasoningEffort: 'medium', confidence: {} });
     const processingTime = (Date.now() - startTime) / 1000;
     
     // Write results to file regardless of success/failure
@@ -125,11 +128,20 @@ TOTAL TOKENS: ${typeof totalTokens === 'number' ? totalTokens.toLocaleString() :
 ESTIMATED COST: ${typeof estCost === 'number' ? `$${estCost.toFixed(4)}` : 'Not available'}
 
 PROCESSING TIME: ${processingTime.toFixed(2)} seconds
-========================================
+${result.serviceMinutes ? `
+${formatServiceMinutesReport(result.serviceMinutes).join('\n')}
+` : ''}========================================
 `;
       
       fs.writeFileSync(costReportPath, costReport);
       console.log(`   Cost report: ${costReportPath}`);
+
+      // Low-confidence fields for human review
+      if (result.confidence && result.reviewQueue) {
+        exportReviewQueue(reviewQueuePath, filePath, result.reviewQueue);
+        console.log(`   Review queue: ${reviewQueuePath} (${result.reviewQueue.length} fields)`);
+        console.log(chalk.cyan(`\n📐 Confidence: ${result.confidence.document.score}% (${result.confidence.document.band})`));
+      }
       
       // Validation summary
       const errorCount = result.validation?.errors.length || 0;
@@ -142,7 +154,7 @@ PROCESSING TIME: ${processingTime.toFixed(2)} seconds
       
     } else {
       spinner.fail(chalk.red('❌ Extraction failed'));
-      console.log(chalk.red(`\nError: ${result.error}`));
+      console.log(chalk.red(`\nError [${result.error?.code}]: ${result.error?.message}`));
     }
 
   } catch (error) {
@@ -2,7 +2,7 @@
  * Sample PDF Validation Testing
  * 
  * This test suite validates that the form-specific extractor produces
- * output that perfectly matches the_schema.json with no missing or
+ * output that perfectly matches the canonical schema with no missing or
  * mis-named fields. It tests against actual sample PDFs to ensure
  * real-world accuracy.
  * 
@@ -17,6 +17,8 @@
 
 import { processIEP } from './main';
 import { generateValidationReport } from './validation/ajv-validator';
+import { ValidationResult } from './types/form-specific-iep-data';
+import { parsePointer, toPointer } from './utils/json-pointer';
 import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
@@ -173,13 +175,13 @@ export async function validateAllSamples(
           criticalIssues: [],
           processingTime: Date.now() - testStartTime,
           cost: 0,
-          error: result.error
+          error: result.error?.message
         };
         
         results.push(testResult);
         
         console.log(chalk.red(`❌ EXTRACTION FAILED`));
-        console.log(chalk.red(`   Error: ${result.error}`));
+        console.log(chalk.red(`   Error [${result.error?.code}]: ${result.error?.message}`));
       }
       
     } catch (error) {
@@ -213,24 +215,21 @@ export async function validateAllSamples(
 }
 
 /**
- * Identify critical form-specific issues
+ * Identify critical form-specific issues from the structured validation issues
  */
-function identifyCriticalIssues(validation: any): string[] {
+function identifyCriticalIssues(validation: ValidationResult): string[] {
   const issues: string[] = [];
+  const errors = validation.issues.filter(issue => issue.severity === 'error');
   
   // Check for missing AMENDMENTS array
-  const amendmentErrors = validation.errors.filter((error: string) => 
-    error.includes('AMENDMENTS') && error.includes('array')
-  );
-  if (amendmentErrors.length > 0) {
+  const amendmentPointer = toPointer(['IEP', 'AMENDMENTS']);
+  if (errors.some(issue => issue.pointer === amendmentPointer
+    && ['schema.required', 'schema.type', 'critical.not-array', 'critical.missing-section'].includes(issue.code))) {
     issues.push('AMENDMENTS array missing or incorrect type');
   }
   
   // Check for missing "Other (list)" fields
-  const otherListErrors = validation.errors.filter((error: string) => 
-    error.includes('Other (list)')
-  );
-  if (otherListErrors.length > 0) {
+  if (errors.some(issue => issue.section === '5. POSTSECONDARY TRANSITION' && parsePointer(issue.pointer).pop() === 'Other (list)')) {
     issues.push('"Other (list)" fields missing in transition sections');
   }
   
@@ -243,10 +242,9 @@ function identifyCriticalIssues(validation: any): string[] {
   ];
   
   for (const section of mainSections) {
-    const sectionErrors = validation.missingFields.filter((field: string) => 
-      field.includes(section)
-    );
-    if (sectionErrors.length > 0) {
+    const sectionPointer = toPointer(['IEP', section]);
+    if (errors.some(issue => issue.pointer === sectionPointer
+      && ['schema.required', 'critical.missing-section'].includes(issue.code))) {
       issues.push(`Missing required section: ${section}`);
     }
   }
@@ -0,0 +1,57 @@
+/**
+ * Generated from schemas/etr-form.schema.json (etr-form v1.0.0).
+ * Do not edit by hand: change the schema and run `npm run schema:generate`.
+ */
+
+export interface ETRFormData {
+  "ETR": {
+    "CHILD'S INFORMATION": {
+      "NAME": string;
+      "ID NUMBER": string;
+      "DATE OF BIRTH": string;
+      "GRADE": string;
+      "SCHOOL": string;
+      "DISTRICT OF RESIDENCE": string;
+      "DISTRICT OF SERVICE": string;
+    };
+    "PARENT/GUARDIAN INFORMATION": {
+      "NAME": string;
+      "PHONE": string;
+      "EMAIL": string;
+    };
+    "EVALUATION INFORMATION": {
+      "TYPE OF EVALUATION": {
+        "Initial Evaluation": boolean;
+        "Reevaluation": boolean;
+        "Independent Educational Evaluation": boolean;
+      };
+      "DATE OF REFERRAL": string;
+      "DATE PARENT CONSENT RECEIVED": string;
+      "ETR COMPLETION DATE": string;
+      "NEXT ETR DUE DATE": string;
+    };
+    "ASSESSMENT AREAS": Array<{
+      "AREA": string;
+      "ASSESSMENT": string;
+      "DATE": string;
+      "EVALUATOR": string;
+      /** Findings as written, including scores */
+      "SUMMARY OF RESULTS": string;
+      "EDUCATIONAL NEEDS": string;
+    }>;
+    "ELIGIBILITY DETERMINATION": {
+      "Does the child have a disability?": boolean;
+      "Does the child need specially designed instruction?": boolean;
+      "Is the child eligible for special education services?": boolean;
+      /** Primary disability category as checked on the form */
+      "DISABILITY CATEGORY": string;
+      "SECONDARY DISABILITY CATEGORIES": string;
+      "BASIS FOR DETERMINATION": string;
+    };
+    "TEAM MEMBERS": Array<{
+      "Name": string;
+      "Position": string;
+      "Agrees with determination": boolean;
+    }>;
+  };
+}
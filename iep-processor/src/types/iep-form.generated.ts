@@ -0,0 +1,369 @@
+/**
+ * Generated from schemas/iep-form.schema.json (iep-form v2.0.0).
+ * Do not edit by hand: change the schema and run `npm run schema:generate`.
+ */
+
+export interface FormSpecificIEPData {
+  "IEP": {
+    "CHILD'S INFORMATION": {
+      "NAME": string;
+      "ID NUMBER": string;
+      "DATE OF BIRTH": string;
+      "STREET": string;
+      "CITY": string;
+      "STATE": string;
+      "ZIP": string;
+      "GENDER": string;
+      "GRADE": string;
+      "DISTRICT OF RESIDENCE": string;
+      "COUNTY OF RESIDENCE": string;
+      "DISTRICT OF SERVICE": string;
+      "Is the child in preschool?": boolean;
+      "Will the child be 14 years old before the end of this IEP?": boolean;
+      "Is the child younger than 14 years of age but has transition and postsecondary goal information?": boolean;
+      "Is the child a ward of the state?": boolean;
+      "If yes, name of surrogate parent": string;
+      "IEP by third birthday? (If transitioning from Part C)": boolean;
+    };
+    "PARENT/GUARDIAN INFORMATION": {
+      "Parent/Guardian 1": {
+        "NAME": string;
+        "STREET": string;
+        "CITY": string;
+        "STATE": string;
+        "ZIP": string;
+        "HOME PHONE": string;
+        "WORK PHONE": string;
+        "CELL PHONE": string;
+        "EMAIL": string;
+      };
+      "Parent/Guardian 2": {
+        "NAME": string;
+        "STREET": string;
+        "CITY": string;
+        "STATE": string;
+        "ZIP": string;
+        "HOME PHONE": string;
+        "WORK PHONE": string;
+        "CELL PHONE": string;
+        "EMAIL": string;
+      };
+      "OTHER INFORMATION": string;
+    };
+    "MEETING INFORMATION": {
+      "MEETING DATE": string;
+      "MEETING TYPE": {
+        "INITIAL IEP": boolean;
+        "ANNUAL REVIEW": boolean;
+        "REVIEW OTHER THAN ANNUAL REVIEW": boolean;
+        "AMENDMENT": boolean;
+        "OTHER": boolean;
+      };
+    };
+    "IEP TIMELINES": {
+      "ETR COMPLETION DATE": string;
+      "NEXT ETR DUE DATE": string;
+    };
+    "IEP EFFECTIVE DATES": {
+      "START": string;
+      "END": string;
+      "NEXT IEP REVIEW": string;
+    };
+    "AMENDMENTS": Array<{
+      "IEP SECTION AMENDED": string;
+      "CHANGES TO THE IEP": string;
+      "DATE OF AMENDMENT": string;
+      "PARTICIPANT & ROLE INITIALS": string;
+    }>;
+    "1. FUTURE PLANNING": string;
+    "2. SPECIAL INSTRUCTIONAL FACTORS": {
+      "Does the child have behavior which impedes his/her learning or the learning of others?": boolean;
+      "Does the child have limited English proficiency?": boolean;
+      "Is the child blind or visually impaired?": boolean;
+      "Does the child have communication needs (required for deaf or hearing impaired)?": boolean;
+      "Does the child need assistive technology devices and/or services?": boolean;
+      "Does the child require specially designed physical education?": boolean;
+    };
+    "3. PROFILE": {
+      "Most Recent Evaluation Information": string;
+      "Most Recent District Testing": string;
+      "Concerns from Parent": string;
+      "Effects on Progress in General Education": string;
+    };
+    "4. EXTENDED SCHOOL YEAR SERVICES": {
+      "Progress in General Education": string;
+      "Has the team determined that ESY services are necessary?": boolean;
+      "If yes, what goals determined the need?": string;
+      "Will the team need to collect further data and reconvene to make a determination?": boolean;
+      "Date to Reconvene": string;
+    };
+    "5. POSTSECONDARY TRANSITION": {
+      "Postsecondary Training and Education": {
+        "Measurable Postsecondary Goal": string;
+        "Age Appropriate Transition Assessment": string;
+        "Courses of Study": string;
+        "Numbers of Annual Goal(s) Related to Transition Needs": string;
+        "Transition Services/Activities": Array<{
+          "Service/Activity": string;
+          "Projected Start Date": string;
+          "Projected End Date": string;
+          "Frequency": string;
+          "Person/Agency Responsible": string;
+        }>;
+        "Type of Evidence Indicating the Service Has Been Completed": {
+          "Anecdotal Record": boolean;
+          "Checklist": boolean;
+          "Work Sample": boolean;
+          "Rubric": boolean;
+          "Other (list)": string;
+        };
+      };
+      "Competitive Integrated Employment": {
+        "Measurable Postsecondary Goal": string;
+        "Age Appropriate Transition Assessment": string;
+        "Courses of Study": string;
+        "Numbers of Annual Goal(s) Related to Transition Needs": string;
+        "Transition Services/Activities": Array<{
+          "Service/Activity": string;
+          "Projected Start Date": string;
+          "Projected End Date": string;
+          "Frequency": string;
+          "Person/Agency Responsible": string;
+        }>;
+        "Type of Evidence Indicating the Service Has Been Completed": {
+          "Anecdotal Record": boolean;
+          "Checklist": boolean;
+          "Work Sample": boolean;
+          "Rubric": boolean;
+          "Other (list)": string;
+        };
+      };
+      "Independent Living (as appropriate)": {
+        "Measurable Postsecondary Goal": string;
+        "Age Appropriate Transition Assessment": string;
+        "Courses of Study": string;
+        "Numbers of Annual Goal(s) Related to Transition Needs": string;
+        "Transition Services/Activities": Array<{
+          "Service/Activity": string;
+          "Projected Start Date": string;
+          "Projected End Date": string;
+          "Frequency": string;
+          "Person/Agency Responsible": string;
+        }>;
+        "Type of Evidence Indicating the Service Has Been Completed": {
+          "Anecdotal Record": boolean;
+          "Checklist": boolean;
+          "Work Sample": boolean;
+          "Rubric": boolean;
+          "Other (list)": string;
+        };
+      };
+    };
+    "6. MEASURABLE ANNUAL GOALS": {
+      "FREQUENCY OF WRITTEN PROGRESS REPORTING TOWARD GOAL MASTERY TO PARENTS": string;
+      "GOALS": Array<{
+        "NUMBER": number;
+        "AREA": string;
+        "PRESENT LEVEL OF ACADEMIC ACHIEVEMENT AND FUNCTIONAL PERFORMANCE": string;
+        "MEASURABLE ANNUAL GOAL": string;
+        "METHOD(S) FOR MEASURING THE CHILD'S PROGRESS TOWARDS ANNUAL GOAL": {
+          "Curriculum-Based Assessment": boolean;
+          "Portfolios": boolean;
+          "Observation": boolean;
+          "Anecdotal Records": boolean;
+          "Short-Cycle Assessments": boolean;
+          "Performance Assessments": boolean;
+          "Checklists": boolean;
+          "Running Records": boolean;
+          "Work Samples": boolean;
+          "Inventories": boolean;
+          "Rubrics": boolean;
+        };
+        "Objectives/Benchmarks": Array<{
+          "Objective/Benchmark": string;
+          "Date of Mastery": string;
+        }>;
+      }>;
+    };
+    "7. SPECIALLY DESIGNED SERVICES": {
+      "SPECIALLY DESIGNED INSTRUCTION": Array<{
+        "Description": string;
+        "Goal Addressed #": number;
+        "Provider Title": string;
+        "Location of Service": string;
+        "Begin Date": string;
+        "End Date": string;
+        /** Exact time per session, e.g. "30 minutes" */
+        "Amount of Time": string;
+        /** Complete frequency including the count, e.g. "2 times per week", never just "per week" */
+        "Frequency": string;
+      }>;
+      "RELATED SERVICES": Array<{
+        "Description": string;
+        "Goal Addressed #": number;
+        "Provider Title": string;
+        "Location of Service": string;
+        "Begin Date": string;
+        "End Date": string;
+        /** Exact time per session, e.g. "30 minutes" */
+        "Amount of Time": string;
+        /** Complete frequency including the count, e.g. "2 times per week", never just "per week" */
+        "Frequency": string;
+      }>;
+      "ASSISTIVE TECHNOLOGY": Array<{
+        "Description": string;
+        "Goal Addressed #": number;
+        "Provider Title": string;
+        "Location of Service": string;
+        "Begin Date": string;
+        "End Date": string;
+        /** Exact time per session, e.g. "30 minutes" */
+        "Amount of Time": string;
+        /** Complete frequency including the count, e.g. "2 times per week", never just "per week" */
+        "Frequency": string;
+      }>;
+      "ACCOMMODATIONS": Array<{
+        "Description": string;
+        "Begin Date": string;
+        "End Date": string;
+      }>;
+      "MODIFICATIONS": Array<{
+        "Description": string;
+        "Begin Date": string;
+        "End Date": string;
+      }>;
+      "SUPPORT FOR SCHOOL PERSONNEL": Array<{
+        "Description": string;
+        "Begin Date": string;
+        "End Date": string;
+      }>;
+      "SERVICE(S) TO SUPPORT MEDICAL NEEDS": Array<{
+        "Description": string;
+        "Begin Date": string;
+        "End Date": string;
+      }>;
+    };
+    "8. TRANSPORTATION AS A RELATED SERVICE": {
+      "Does the child require special transportation?": boolean;
+      "Does the child need transportation to and from services?": boolean;
+      "Does the child need accommodations or modifications for transportation?": boolean;
+      "If yes, transportation accommodations/modifications needed": {
+        "Bus driver will be notified of behavioral/medical concerns": boolean;
+        "Aide (for transportation only)": boolean;
+        "Specially Adapted Vehicle": boolean;
+        "Wheelchair lift": boolean;
+        "Safety Vest": boolean;
+        "Car Seat": boolean;
+        "Securement Systems": boolean;
+        "Other (specify)": string;
+      };
+    };
+    "9. NONACADEMIC AND EXTRACURRICULAR ACTIVITIES": {
+      "Participation with nondisabled peers (describe)": string;
+      "If the child will not participate, explain": string;
+    };
+    "10. GENERAL FACTORS": {
+      "The strengths of the child considered?": boolean;
+      "The concerns of the parents for the education of the child considered?": boolean;
+      "The results of the initial or most recent evaluations of the child considered?": boolean;
+      "As appropriate, the results of performance on any state or district-wide assessments considered?": boolean;
+      "The academic, developmental and functional needs of the child considered?": boolean;
+      "Regarding the Third Grade Reading Guarantee, is the child on-track for reading?": string;
+    };
+    "11. LEAST RESTRICTIVE ENVIRONMENT": {
+      "For School Age: attends school child would attend if not disabled?": boolean;
+      "If no, justify": string;
+      "Receives all special education services with nondisabled peers?": boolean;
+      "If no, justify (cannot be only due to needed curriculum modifications)": string;
+      /** Percent of the school day spent in general education (0-100) as stated on the form; 0 if not stated */
+      "Percentage of time in general education": number;
+    };
+    "12. STATEWIDE AND DISTRICT WIDE TESTING": {
+      "District Testing": Array<{
+        "AREA": string;
+        "ASSESSMENT TITLE": string;
+        "DETAIL OF ACCOMMODATIONS": string;
+      }>;
+      "Statewide Testing": Array<{
+        "AREA": string;
+        "ASSESSMENT TITLE": string;
+        "DETAIL OF ACCOMMODATIONS": string;
+      }>;
+    };
+    "13. EXEMPTIONS": {
+      "Is the child participating in the Alternate Assessment (AASCD)?": boolean;
+      "If yes, justify choice of alternate assessment": string;
+      "Will the child participate in district-wide and state-wide assessments with accommodations?": boolean;
+      "If yes, accommodations for each subject": Array<{
+        "Subject": string;
+        "Accommodation": string;
+      }>;
+      "Does the child have a significant cognitive disability?": boolean;
+      "If no (not significant cognitive disability), retention provision of Third Grade Reading Guarantee": {
+        "Not exempt from retention": boolean;
+        "Exempt from retention": boolean;
+      };
+      "Is the child excused from consequences of not passing required graduation tests?": boolean;
+      "Subjects of excused graduation tests (if any)": Array<{
+        "Course Title": string;
+        "Justification": string;
+      }>;
+    };
+    "14. MEETING PARTICIPANTS": {
+      "IEP Meeting Participants (attended and participated)": Array<{
+        "Name": string;
+        "Position": string;
+        "Signature": string;
+        "Date": string;
+      }>;
+      "People not in attendance who provided information": Array<{
+        "Name": string;
+        "Position": string;
+        "Signature": string;
+        "Date": string;
+      }>;
+      "This IEP meeting was": {
+        "Face-to-Face Meeting": boolean;
+        "Video Conference": boolean;
+        "Telephone Conference/Conference Call": boolean;
+        "Other": boolean;
+      };
+      "IEP EFFECTIVE DATES": {
+        "START": string;
+        "END": string;
+        "DATE OF NEXT IEP REVIEW": string;
+      };
+    };
+    "15. SIGNATURES": {
+      "INITIAL IEP": {
+        "I give consent to initiate special education and related services in this IEP": boolean;
+        "I give consent to initiate services except for": string;
+        "I do not give consent for services at this time": boolean;
+        "Parent/Guardian Signature (Initial IEP)": string;
+        "Date": string;
+      };
+      "IEP ANNUAL REVIEW (Not a Change of Placement)": {
+        "Parent agrees with implementation of this IEP": boolean;
+        "Parent attendance noted but does NOT agree with the following IEP services": string;
+        "Parent/Guardian Signature (Annual Review)": string;
+        "Date": string;
+      };
+      "IEP REVIEW (Change of Placement)": {
+        "I give consent for the Change of Placement as identified in this IEP": boolean;
+        "I do NOT give consent for the Change of Placement as identified in this IEP": boolean;
+        "I revoke consent for all special education and related services": boolean;
+        "Parent/Guardian Signature (Change of Placement)": string;
+        "Date": string;
+      };
+      "Procedural Safeguards Notice received at IEP meeting": boolean;
+      "If no, date provided": string;
+      "Transfer of Rights discussed by 17th birthday (Yes/No)": boolean;
+      "Student Signature (age of majority notice)": string;
+      "Date (Student)": string;
+      "Parent/Guardian Signature (acknowledging transfer of rights)": string;
+      "Date (Parent transfer notice)": string;
+      "Parent received a copy of the IEP at the meeting": boolean;
+      "If no, date copy sent": string;
+    };
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * pdf-parse's index.js runs a debug harness against ./test/data when it has
+ * no module.parent (always the case under ESM), so the library entry point is
+ * imported directly instead. It takes the same options as the package export;
+ * the data goes to pdf.js, which reads any Uint8Array (a Buffer is one).
+ */
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  import pdfParse from 'pdf-parse';
+  export default function parse(data: Uint8Array, options?: pdfParse.Options): Promise<pdfParse.Result>;
+}
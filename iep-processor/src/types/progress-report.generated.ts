@@ -0,0 +1,41 @@
+/**
+ * Generated from schemas/progress-report.schema.json (progress-report v1.0.0).
+ * Do not edit by hand: change the schema and run `npm run schema:generate`.
+ */
+
+export interface ProgressReportFormData {
+  "PROGRESS REPORT": {
+    "CHILD'S INFORMATION": {
+      "NAME": string;
+      "ID NUMBER": string;
+      "GRADE": string;
+      "SCHOOL": string;
+    };
+    "REPORTING PERIOD": {
+      /** Reporting period as printed, e.g. 'Quarter 2' */
+      "PERIOD": string;
+      "START": string;
+      "END": string;
+      "DATE OF REPORT": string;
+      "IEP START DATE": string;
+      "IEP END DATE": string;
+    };
+    "GOALS": Array<{
+      "NUMBER": number;
+      "AREA": string;
+      "MEASURABLE ANNUAL GOAL": string;
+      "PROGRESS": {
+        "Sufficient progress to meet goal": boolean;
+        "Insufficient progress to meet goal": boolean;
+        "Goal met": boolean;
+        "Not addressed this period": boolean;
+      };
+      "DATA / EVIDENCE": string;
+      "COMMENTS": string;
+    }>;
+    "REPORTED BY": {
+      "NAME": string;
+      "POSITION": string;
+    };
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Generated from schemas/section-504-plan.schema.json (section-504-plan v1.0.0).
+ * Do not edit by hand: change the schema and run `npm run schema:generate`.
+ */
+
+export interface Section504PlanFormData {
+  "504 PLAN": {
+    "STUDENT INFORMATION": {
+      "NAME": string;
+      "ID NUMBER": string;
+      "DATE OF BIRTH": string;
+      "GRADE": string;
+      "SCHOOL": string;
+    };
+    "MEETING INFORMATION": {
+      "MEETING DATE": string;
+      "MEETING TYPE": {
+        "Initial": boolean;
+        "Annual Review": boolean;
+        "Reevaluation": boolean;
+        "Other": boolean;
+      };
+      "PLAN START DATE": string;
+      "PLAN REVIEW DATE": string;
+    };
+    "DISABILITY DETERMINATION": {
+      "PHYSICAL OR MENTAL IMPAIRMENT": string;
+      "MAJOR LIFE ACTIVITIES AFFECTED": string;
+      "HOW THE IMPAIRMENT SUBSTANTIALLY LIMITS THE ACTIVITY": string;
+      "SOURCES OF EVALUATION INFORMATION": string;
+    };
+    "ACCOMMODATIONS": Array<{
+      "Accommodation": string;
+      "Setting": string;
+      "Responsible Staff": string;
+    }>;
+    "PARTICIPANTS": Array<{
+      "Name": string;
+      "Position": string;
+    }>;
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Content hashing helpers
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+
+/**
+ * SHA-256 hex digest of a string or buffer
+ */
+export function sha256(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * SHA-256 hex digest of a file's bytes
+ */
+export function hashFile(filePath: string): string {
+  return sha256(fs.readFileSync(filePath));
+}
+
+/**
+ * SHA-256 hex digest of a JSON value with sorted object keys
+ */
+export function hashJson(value: unknown): string {
+  return sha256(stableStringify(value));
+}
+
+/**
+ * JSON.stringify with object keys sorted so equal values hash equally
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,89 @@
+/**
+ * JSON Pointer (RFC 6901) helpers
+ *
+ * IEP field names contain "/" ("PARENT/GUARDIAN INFORMATION"), so pointer
+ * segments are always escaped: "~" becomes "~0" and "/" becomes "~1".
+ */
+
+/**
+ * A leaf value with its pointer
+ */
+export interface JsonLeaf {
+  pointer: string;
+  value: string | number | boolean | null;
+}
+
+/**
+ * Build a pointer from path segments
+ */
+export function toPointer(segments: Array<string | number>): string {
+  return segments.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+/**
+ * Split a pointer into unescaped segments
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  return pointer.substring(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Top-level section of a pointer under the form's root key
+ * ("/IEP/3. PROFILE/..." -> "3. PROFILE", "/ETR/ASSESSMENT AREAS/0/..." -> "ASSESSMENT AREAS")
+ */
+export function topLevelSection(pointer: string): string {
+  const segments = parsePointer(pointer);
+  return segments[1] || segments[0] || '';
+}
+
+/**
+ * Resolve a pointer against a value (undefined when any segment is missing)
+ */
+export function getByPointer(data: unknown, pointer: string): unknown {
+  let current: any = data;
+  for (const segment of parsePointer(pointer)) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Set the value at a pointer, creating missing objects along the way
+ */
+export function setByPointer(data: Record<string, any>, pointer: string, value: unknown): void {
+  const segments = parsePointer(pointer);
+  const last = segments.pop();
+  if (last === undefined) {
+    throw new Error('Cannot set the root value by pointer');
+  }
+  let current: any = data;
+  for (const segment of segments) {
+    if (current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = {};
+    }
+    current = current[segment];
+  }
+  current[last] = value;
+}
+
+/**
+ * Whether a pointer is the base pointer or lies below it
+ */
+export function isWithinPointer(pointer: string, base: string): boolean {
+  return pointer === base || pointer.startsWith(`${base}/`);
+}
+
+/**
+ * Every scalar leaf under a value, depth-first in key order
+ */
+export function listLeaves(data: unknown, prefix: Array<string | number> = []): JsonLeaf[] {
+  if (data === null || typeof data !== 'object') {
+    return [{ pointer: toPointer(prefix), value: data as JsonLeaf['value'] }];
+  }
+  const entries: Array<[string | number, unknown]> = Array.isArray(data)
+    ? data.map((item, index) => [index, item])
+    : Object.entries(data);
+  return entries.flatMap(([key, value]) => listLeaves(value, [...prefix, key]));
+}
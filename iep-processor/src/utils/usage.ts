@@ -0,0 +1,39 @@
+/**
+ * API usage accounting helpers
+ */
+
+import { ApiUsage } from '../types/form-specific-iep-data';
+
+/**
+ * Usage billed before a failure, carried on the thrown error (see ProviderError.usage)
+ */
+export function failedUsage(error: unknown): ApiUsage | undefined {
+  const usage = (error as { usage?: ApiUsage } | undefined)?.usage;
+  return usage && typeof usage.cost_usd === 'number' ? usage : undefined;
+}
+
+/**
+ * Usage for work that made no model call
+ */
+export function emptyUsage(): ApiUsage {
+  return {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    reasoning_tokens: 0,
+    total_tokens: 0,
+    cost_usd: 0
+  };
+}
+
+/**
+ * Sum usage across several model calls (missing entries count as zero)
+ */
+export function sumUsage(usages: Array<ApiUsage | undefined>): ApiUsage {
+  return usages.reduce<ApiUsage>((total, usage) => ({
+    prompt_tokens: total.prompt_tokens + (usage?.prompt_tokens || 0),
+    completion_tokens: total.completion_tokens + (usage?.completion_tokens || 0),
+    reasoning_tokens: (total.reasoning_tokens || 0) + (usage?.reasoning_tokens || 0),
+    total_tokens: total.total_tokens + (usage?.total_tokens || 0),
+    cost_usd: total.cost_usd + (usage?.cost_usd || 0)
+  }), emptyUsage());
+}
@@ -2,8 +2,9 @@
  * Ajv Validator for Form-Specific IEP Data
  * 
  * This validator ensures that extracted IEP data matches the exact structure
- * and field names defined in the_schema.json. It provides detailed error
- * reporting for debugging and validation purposes.
+ * and field names defined in the canonical schema
+ * (schemas/iep-form.schema.json, loaded through the schema registry). It
+ * provides detailed error reporting for debugging and validation purposes.
  * 
  * CRITICAL: This validator catches:
  * - Missing required fields
@@ -12,24 +13,26 @@
  * - Invalid array structures
  * - Missing AMENDMENTS arrays (even if empty)
  * - Missing "Other (list)" fields
+ * - Values outside the canonical constraints (e.g. LRE percentage 0-100)
+ * - Business-rule violations after the schema check (see business-rules.ts)
+ * - Dates, phones, ZIPs, frequencies and amounts of time that cannot be
+ *   normalized, as warnings (see field-normalization.ts)
+ *
+ * validateSection checks a single section (or any nested path) against its
+ * sub-schema, for editing or re-extracting one section at a time.
  */
 
-import Ajv from 'ajv';
+import Ajv, { ValidateFunction } from 'ajv';
 import addFormats from 'ajv-formats';
-import * as fs from 'fs';
-import * as path from 'path';
-import { ValidationResult } from '../types/form-specific-iep-data';
-
-// Load the form-specific schema
-const schemaPath = path.join(process.cwd(), 'the_schema_optimized.json');
-let formSchema: any;
-
-try {
-  const schemaContent = fs.readFileSync(schemaPath, 'utf8');
-  formSchema = JSON.parse(schemaContent);
-} catch (error) {
-  throw new Error(`Failed to load the_schema_optimized.json: ${error}`);
-}
+import { FormSpecificIEPData, ValidationResult } from '../types/form-specific-iep-data';
+import { ProvenanceReport, formatProvenanceReport } from '../provenance/field-provenance';
+import { ServiceMinutesSummary, formatServiceMinutesReport } from '../analytics/service-minutes';
+import { IEP_SCHEMA_FILE, getCanonicalSchema, getSubSchema, resolveSectionPointer } from '../schema/registry';
+import { getByPointer, isWithinPointer, parsePointer, setByPointer, toPointer } from '../utils/json-pointer';
+import { normalizationIssues, normalizeFormData } from '../normalization/field-normalization';
+import { BusinessRule, IEP_BUSINESS_RULES, runBusinessRules } from './business-rules';
+import { IssueCode, ValidationIssue, buildValidationResult, createIssue, formatIssue, fromAjvError } from './issues';
+import { logger } from '../logging/logger';
 
 // Initialize Ajv with comprehensive error reporting
 const ajv = new Ajv({ 
@@ -42,241 +45,352 @@ const ajv = new Ajv({
 // Add format validation (dates, emails, etc.)
 addFormats(ajv);
 
-// Compile the schema validator
-const validate = ajv.compile(formSchema);
+// Registry annotation keywords
+ajv.addVocabulary(['x-schema-version', 'x-type-name']);
+
+// Compile the canonical schema; it is stricter than the extraction schema
+// derived from it (it keeps constraints such as minimum/maximum)
+const validate = ajv.compile<FormSpecificIEPData>(getCanonicalSchema());
+
+// Validators for the other registered forms, compiled on first use
+const formValidators = new Map<string, ValidateFunction>();
+
+// Section sub-schema validators, compiled on first use
+const sectionValidators = new Map<string, ValidateFunction>();
 
 /**
- * Validates form-specific IEP data against the_schema.json
+ * Validates form-specific IEP data against the canonical schema
  * 
  * @param data - The extracted IEP data to validate
  * @returns ValidationResult with detailed error information
  */
-export function validateFormSpecificData(data: any): ValidationResult {
-  console.log('🔍 Validating form-specific IEP data...');
-  
-  const valid = validate(data);
-  const errors = validate.errors || [];
-  
-  // Categorize errors for better debugging
-  const missingFields = errors
-    .filter(err => err.keyword === 'required')
-    .map(err => {
-      const missingProperty = err.params?.missingProperty || 'unknown';
-      const instancePath = err.instancePath || 'root';
-      return `${instancePath}/${missingProperty}`;
-    });
-  
-  const incorrectTypes = errors
-    .filter(err => err.keyword === 'type')
-    .map(err => {
-      const expectedType = err.params?.type || 'unknown';
-      const instancePath = err.instancePath || 'unknown path';
-      return `${instancePath}: expected ${expectedType}, got ${typeof err.data}`;
-    });
-  
-  const additionalPropertyErrors = errors
-    .filter(err => err.keyword === 'additionalProperties')
-    .map(err => {
-      const additionalProperty = err.params?.additionalProperty || 'unknown';
-      const instancePath = err.instancePath || 'unknown path';
-      return `${instancePath}: unexpected property "${additionalProperty}"`;
-    });
-  
-  const enumErrors = errors
-    .filter(err => err.keyword === 'enum')
-    .map(err => {
-      const allowedValues = err.params?.allowedValues || [];
-      const instancePath = err.instancePath || 'unknown path';
-      return `${instancePath}: value must be one of [${allowedValues.join(', ')}]`;
-    });
-  
-  // Combine all error messages
-  const allErrorMessages = [
-    ...missingFields.map(field => `Missing required field: ${field}`),
-    ...incorrectTypes,
-    ...additionalPropertyErrors,
-    ...enumErrors,
-    ...errors
-      .filter(err => !['required', 'type', 'additionalProperties', 'enum'].includes(err.keyword))
-      .map(err => `${err.instancePath || 'root'}: ${err.message}`)
-  ];
+export function validateFormSpecificData(data: unknown): ValidationResult {
+  logger.debug('Validating IEP data');
+  return runValidation(validate, data, checkCriticalFormIssues, IEP_BUSINESS_RULES);
+}
+
+/**
+ * Validates data against another form's canonical schema
+ *
+ * @param data - The extracted form data to validate
+ * @param schemaFile - Canonical schema file name in schemas/
+ * @param checkCritical - The form's critical-issue checks
+ * @param rules - The form's business rules
+ * @returns ValidationResult with detailed error information
+ */
+export function validateAgainstSchema(
+  data: unknown,
+  schemaFile: string,
+  checkCritical: (data: unknown) => ValidationIssue[],
+  rules: BusinessRule[] = []
+): ValidationResult {
+  logger.debug('Validating', { schema: schemaFile });
+
+  let formValidate = formValidators.get(schemaFile);
+  if (!formValidate) {
+    formValidate = ajv.compile(getCanonicalSchema(schemaFile));
+    formValidators.set(schemaFile, formValidate);
+  }
+  return runValidation(formValidate, data, checkCritical, rules);
+}
+
+/**
+ * Run a compiled schema, critical checks and business rules and collect the issues
+ */
+function runValidation(
+  validate: ValidateFunction,
+  data: unknown,
+  checkCritical: (data: unknown) => ValidationIssue[],
+  rules: BusinessRule[]
+): ValidationResult {
+  validate(data);
   
-  // Check for critical form-specific issues
-  const criticalIssues = checkCriticalFormIssues(data);
-  allErrorMessages.push(...criticalIssues);
+  // Schema errors first, then critical form checks, business rules (run after Ajv) and normalization warnings
+  return finishValidation([
+    ...(validate.errors || []).map(error => fromAjvError(error)),
+    ...checkCritical(data),
+    ...runBusinessRules(data, rules),
+    ...normalizationIssues(normalizeFormData(data))
+  ]);
+}
+
+/**
+ * Build the result from collected issues and log a summary
+ */
+function finishValidation(issues: ValidationIssue[]): ValidationResult {
+  const result = buildValidationResult(issues);
   
-  if (valid && criticalIssues.length === 0) {
-    console.log('✅ Validation passed - all form fields match schema exactly');
-  } else {
-    console.log(`❌ Validation failed - ${allErrorMessages.length} issues found`);
-    if (missingFields.length > 0) {
-      console.log(`   Missing fields: ${missingFields.length}`);
-    }
-    if (incorrectTypes.length > 0) {
-      console.log(`   Type errors: ${incorrectTypes.length}`);
-    }
-  }
+  const count = (prefix: string) => result.issues.filter(issue => issue.severity === 'error' && issue.code.startsWith(prefix)).length;
+  logger.debug(result.valid ? 'Schema validation passed' : 'Schema validation failed', {
+    errors: result.errors.length,
+    missingFields: result.missingFields.length,
+    typeErrors: result.incorrectTypes.length,
+    ruleErrors: count('rule.'),
+    warnings: result.issues.length - result.errors.length
+  });
   
-  return {
-    valid: valid && criticalIssues.length === 0,
-    errors: allErrorMessages,
-    missingFields,
-    incorrectTypes: [...incorrectTypes, ...additionalPropertyErrors, ...enumErrors]
-  };
+  return result;
 }
 
 /**
  * Checks for critical form-specific issues that Ajv might miss
+ *
+ * Runs on unvalidated data, so every level is checked before it is read.
  */
-function checkCriticalFormIssues(data: any): string[] {
-  const issues: string[] = [];
+export function checkCriticalFormIssues(data: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const critical = (code: IssueCode, path: Array<string | number>, message: string, details?: { expected?: unknown; actual?: unknown }) =>
+    issues.push(createIssue(code, 'error', ['IEP', ...path], message, details));
   
   try {
     // Check if main IEP structure exists
-    if (!data || !data.IEP) {
-      issues.push('Missing root IEP structure');
+    const iep = (data as Partial<FormSpecificIEPData> | null | undefined)?.IEP;
+    if (!iep || typeof iep !== 'object') {
+      issues.push(createIssue('critical.missing-root', 'error', ['IEP'], 'Missing root IEP structure'));
       return issues;
     }
     
-    const iep = data.IEP;
-    
-    // Note: Do not enforce AMENDMENTS at /IEP; not present in the current optimized schema
-    
     // CRITICAL: Check for required main sections
-    const requiredSections = [
+    const requiredSections: Array<keyof FormSpecificIEPData['IEP']> = [
       "CHILD'S INFORMATION",
       "PARENT/GUARDIAN INFORMATION",
+      "AMENDMENTS",
       "6. MEASURABLE ANNUAL GOALS",
       "7. SPECIALLY DESIGNED SERVICES"
     ];
     
     for (const section of requiredSections) {
       if (!iep[section]) {
-        issues.push(`Missing required section: ${section}`);
+        critical('critical.missing-section', [section], 'Missing required section');
       }
     }
+
+    if (iep.AMENDMENTS && !Array.isArray(iep.AMENDMENTS)) {
+      critical('critical.not-array', ['AMENDMENTS'], 'must be an array', { expected: 'array', actual: typeof iep.AMENDMENTS });
+    }
     
     // Check for "Other (list)" fields in transition sections
-    if (iep["5. POSTSECONDARY TRANSITION"]) {
-      const transition = iep["5. POSTSECONDARY TRANSITION"];
-      const transitionSections = [
+    const transition = iep["5. POSTSECONDARY TRANSITION"];
+    if (transition) {
+      const transitionSections: Array<keyof typeof transition> = [
         "Postsecondary Training and Education",
         "Competitive Integrated Employment", 
         "Independent Living (as appropriate)"
       ];
       
       for (const sectionName of transitionSections) {
-        const section = transition[sectionName];
-        if (section && section["Method for Measuring Progress"]) {
-          const methods = section["Method for Measuring Progress"];
-          if (typeof methods["Other (list)"] === 'undefined') {
-            issues.push(`Missing "Other (list)" field in ${sectionName} methods`);
-          }
+        const evidenceKey = "Type of Evidence Indicating the Service Has Been Completed";
+        const evidence = transition[sectionName]?.[evidenceKey];
+        if (evidence && typeof evidence["Other (list)"] === 'undefined') {
+          critical(
+            'critical.missing-field',
+            ["5. POSTSECONDARY TRANSITION", sectionName, evidenceKey, 'Other (list)'],
+            'Missing "Other (list)" field in evidence types'
+          );
         }
       }
     }
     
     // Check goals structure
-    if (iep["6. MEASURABLE ANNUAL GOALS"] && iep["6. MEASURABLE ANNUAL GOALS"].GOALS) {
-      const goals = iep["6. MEASURABLE ANNUAL GOALS"].GOALS;
+    const goalsPath = ["6. MEASURABLE ANNUAL GOALS", 'GOALS'];
+    const goals = iep["6. MEASURABLE ANNUAL GOALS"]?.GOALS;
+    const goalNumbers = new Set<number>();
+    if (goals) {
       if (!Array.isArray(goals)) {
-        issues.push('GOALS must be an array');
+        critical('critical.not-array', goalsPath, 'must be an array', { expected: 'array', actual: typeof goals });
       } else {
         goals.forEach((goal, index) => {
-          if (!goal["METHOD(S) FOR MEASURING THE CHILD'S PROGRESS TOWARDS ANNUAL GOAL"]) {
-            issues.push(`Goal ${index + 1}: Missing measurement methods section`);
+          const methodsKey = "METHOD(S) FOR MEASURING THE CHILD'S PROGRESS TOWARDS ANNUAL GOAL";
+          if (!goal?.[methodsKey]) {
+            critical('critical.missing-field', [...goalsPath, index, methodsKey], 'Missing measurement methods section');
           }
-          if (!Array.isArray(goal["Objectives/Benchmarks"])) {
-            issues.push(`Goal ${index + 1}: Objectives/Benchmarks must be an array`);
+          if (!Array.isArray(goal?.["Objectives/Benchmarks"])) {
+            critical('critical.not-array', [...goalsPath, index, 'Objectives/Benchmarks'], 'must be an array', {
+              expected: 'array',
+              actual: typeof goal?.["Objectives/Benchmarks"]
+            });
           }
+          const num = Number(goal?.NUMBER);
+          if (!Number.isNaN(num)) goalNumbers.add(num);
         });
       }
     }
     
     // Check services structure
-    if (iep["7. SPECIALLY DESIGNED SERVICES"]) {
-      const services = iep["7. SPECIALLY DESIGNED SERVICES"];
-      const serviceTypes = [
-        "SPECIALLY DESIGNED INSTRUCTION",
-        "RELATED SERVICES", 
+    const servicesSection = "7. SPECIALLY DESIGNED SERVICES";
+    const services = iep[servicesSection];
+    if (services) {
+      const listTypes: Array<keyof typeof services> = [
         "ACCOMMODATIONS",
-        "MODIFICATIONS"
+        "MODIFICATIONS",
+        "SUPPORT FOR SCHOOL PERSONNEL",
+        "SERVICE(S) TO SUPPORT MEDICAL NEEDS"
       ];
+      const goalLinkedTypes = [
+        "SPECIALLY DESIGNED INSTRUCTION",
+        "RELATED SERVICES",
+        "ASSISTIVE TECHNOLOGY"
+      ] as const;
       
-      for (const serviceType of serviceTypes) {
+      for (const serviceType of [...goalLinkedTypes, ...listTypes]) {
         if (services[serviceType] && !Array.isArray(services[serviceType])) {
-          issues.push(`${serviceType} must be an array`);
+          critical('critical.not-array', [servicesSection, serviceType], 'must be an array', {
+            expected: 'array',
+            actual: typeof services[serviceType]
+          });
         }
       }
 
       // Cross-validate that services reference existing goals
-      try {
-        const goalsSection = iep["6. MEASURABLE ANNUAL GOALS"]; 
-        const goalNumbers = new Set<number>();
-        if (goalsSection && Array.isArray(goalsSection.GOALS)) {
-          for (const g of goalsSection.GOALS) {
-            const num = Number(g?.NUMBER);
-            if (!Number.isNaN(num)) goalNumbers.add(num);
-          }
-        }
-        for (const serviceType of serviceTypes) {
-          const arr = services[serviceType];
-          if (Array.isArray(arr)) {
-            arr.forEach((svc: any, idx: number) => {
-              if (typeof svc?.["Goal Addressed #"] !== 'undefined') {
-                const refNum = Number(svc["Goal Addressed #"]);
-                if (Number.isNaN(refNum)) {
-                  issues.push(`${serviceType}[${idx}]: "Goal Addressed #" must be a number`);
-                } else if (goalNumbers.size > 0 && !goalNumbers.has(refNum)) {
-                  issues.push(`${serviceType}[${idx}]: references Goal #${refNum} not present in GOALS`);
-                } else if (goalNumbers.size === 0 && refNum >= 1) {
-                  issues.push(`${serviceType}[${idx}]: references Goal #${refNum} but GOALS array is empty`);
-                }
-              }
+      for (const serviceType of goalLinkedTypes) {
+        const entries = services[serviceType];
+        if (!Array.isArray(entries)) continue;
+        entries.forEach((svc, idx) => {
+          if (typeof svc?.["Goal Addressed #"] === 'undefined') return;
+          const path = [servicesSection, serviceType, idx, 'Goal Addressed #'];
+          const refNum = Number(svc["Goal Addressed #"]);
+          // 0 is the empty value: the service is not linked to a goal
+          if (refNum === 0) return;
+          if (Number.isNaN(refNum)) {
+            critical('critical.invalid-goal-reference', path, '"Goal Addressed #" must be a number', {
+              expected: 'number',
+              actual: svc["Goal Addressed #"]
+            });
+          } else if (goalNumbers.size > 0 && !goalNumbers.has(refNum)) {
+            critical('critical.unknown-goal-reference', path, `references Goal #${refNum} not present in GOALS`, {
+              expected: [...goalNumbers],
+              actual: refNum
+            });
+          } else if (goalNumbers.size === 0 && refNum >= 1) {
+            critical('critical.unknown-goal-reference', path, `references Goal #${refNum} but GOALS array is empty`, {
+              expected: [],
+              actual: refNum
             });
           }
-        }
-      } catch (e) {
-        issues.push(`Error during services-goals cross-check: ${e}`);
+        });
       }
     }
   } catch (error) {
-    issues.push(`Error during critical issues check: ${error}`);
+    issues.push(createIssue('critical.check-failed', 'error', '', `Error during critical issues check: ${error}`));
   }
   
   return issues;
 }
 
 /**
- * Validates a specific section of the IEP data
+ * Options for validating one section
  */
-export function validateSection(data: any, sectionPath: string): ValidationResult {
-  // Extract the specific section from the data
-  const pathParts = sectionPath.split('.');
-  let sectionData = data;
-  
-  for (const part of pathParts) {
-    if (sectionData && typeof sectionData === 'object') {
-      sectionData = sectionData[part];
-    } else {
-      return {
-        valid: false,
-        errors: [`Section path ${sectionPath} not found in data`],
-        missingFields: [sectionPath],
-        incorrectTypes: []
-      };
+export interface SectionValidationOptions {
+  /**
+   * New value for the section (an edit or a re-extraction), checked in the
+   * context of the rest of the document instead of the value in data
+   */
+  value?: unknown;
+}
+
+/**
+ * Validates one section of the IEP data
+ *
+ * Only the section's canonical sub-schema is compiled and run, and only
+ * critical-check and business-rule issues located inside the section are
+ * kept. Those checks still see the whole document, so cross-references
+ * (e.g. a service's "Goal Addressed #" against GOALS) stay correct.
+ *
+ * @param data - The whole extracted IEP document
+ * @param sectionPath - Top-level section name ("6. MEASURABLE ANNUAL GOALS") or
+ *   JSON pointer to any nested path ("/IEP/7. SPECIALLY DESIGNED SERVICES/RELATED SERVICES")
+ * @param options - Replacement value for the section
+ * @returns ValidationResult for the section only
+ */
+export function validateSection(
+  data: unknown,
+  sectionPath: string,
+  options: SectionValidationOptions = {}
+): ValidationResult {
+  return validateSectionAgainstSchema(data, sectionPath, IEP_SCHEMA_FILE, checkCriticalFormIssues, IEP_BUSINESS_RULES, options);
+}
+
+/**
+ * Validates one section of another form's data (see validateSection)
+ *
+ * @param data - The whole extracted document
+ * @param sectionPath - Top-level section name or JSON pointer
+ * @param schemaFile - Canonical schema file name in schemas/
+ * @param checkCritical - The form's critical-issue checks
+ * @param rules - The form's business rules
+ * @param options - Replacement value for the section
+ * @returns ValidationResult for the section only
+ */
+export function validateSectionAgainstSchema(
+  data: unknown,
+  sectionPath: string,
+  schemaFile: string,
+  checkCritical: (data: unknown) => ValidationIssue[],
+  rules: BusinessRule[] = [],
+  options: SectionValidationOptions = {}
+): ValidationResult {
+  const pointer = resolveSectionPointer(sectionPath, schemaFile);
+  logger.debug('Validating section', { pointer: pointer || '(root)' });
+
+  const sectionValidate = compileSection(pointer, schemaFile);
+  const document = 'value' in options ? withValueAt(data, pointer, options.value) : data;
+  const value = getByPointer(document, pointer);
+  if (value === undefined) {
+    return finishValidation([createIssue('schema.required', 'error', pointer, 'is required')]);
+  }
+
+  sectionValidate(value);
+  const inSection = (issue: ValidationIssue) => isWithinPointer(issue.pointer, pointer);
+  return finishValidation([
+    ...(sectionValidate.errors || []).map(error => fromAjvError(error, pointer)),
+    ...checkCritical(document).filter(inSection),
+    ...runBusinessRules(document, rules).filter(inSection),
+    ...normalizationIssues(normalizeFormData(document)).filter(inSection)
+  ]);
+}
+
+/**
+ * Compile (once) the sub-schema for a section pointer
+ */
+function compileSection(pointer: string, schemaFile: string): ValidateFunction {
+  // Array indices share their item schema, so they share a validator
+  const key = `${schemaFile}#${toPointer(parsePointer(pointer).map(segment => /^\d+$/.test(segment) ? '*' : segment))}`;
+  let sectionValidate = sectionValidators.get(key);
+  if (!sectionValidate) {
+    const schema = getSubSchema(pointer, schemaFile);
+    if (!schema) {
+      throw new Error(`Unknown section path ${pointer} in ${schemaFile}`);
     }
+    sectionValidate = ajv.compile(schema);
+    sectionValidators.set(key, sectionValidate);
   }
-  
-  // For now, just validate the entire structure
-  // In the future, we could validate just the specific section
-  return validateFormSpecificData(data);
+  return sectionValidate;
+}
+
+/**
+ * Copy of a document with one value replaced
+ */
+function withValueAt(data: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') {
+    return value;
+  }
+  const copy = typeof data === 'object' && data !== null ? structuredClone(data) as Record<string, any> : {};
+  setByPointer(copy, pointer, value);
+  return copy;
 }
 
 /**
  * Generates a summary report of validation results
+ *
+ * @param result - Validation result
+ * @param provenance - Field provenance to append (optional)
+ * @param serviceMinutes - Weekly service minutes to append (optional, IEP only)
  */
-export function generateValidationReport(result: ValidationResult): string {
+export function generateValidationReport(
+  result: ValidationResult,
+  provenance?: ProvenanceReport,
+  serviceMinutes?: ServiceMinutesSummary
+): string {
   const lines: string[] = [];
   
   lines.push('='.repeat(60));
@@ -314,6 +428,25 @@ export function generateValidationReport(result: ValidationResult): string {
       });
     }
   }
+
+  const warnings = result.issues.filter(issue => issue.severity !== 'error');
+  if (warnings.length > 0) {
+    lines.push('');
+    lines.push('WARNINGS:');
+    warnings.forEach(issue => {
+      lines.push(`  - [${issue.severity}] ${formatIssue(issue)} (${issue.code})`);
+    });
+  }
+
+  if (serviceMinutes) {
+    lines.push('');
+    lines.push(...formatServiceMinutesReport(serviceMinutes));
+  }
+
+  if (provenance) {
+    lines.push('');
+    lines.push(...formatProvenanceReport(provenance));
+  }
   
   lines.push('='.repeat(60));
   
@@ -0,0 +1,262 @@
+/**
+ * Business Rules for Extracted Form Data
+ *
+ * Checks the schema cannot express: relationships between fields and
+ * compliance timelines. Rules are declared as data (id, severity,
+ * description, check) and run after Ajv on possibly invalid data, so every
+ * rule reads fields by JSON pointer and skips values it cannot interpret.
+ *
+ * Features:
+ * - Severity per rule: errors fail validation, warnings and info do not
+ * - Violations reported as ValidationIssues (code rule.<id>) with the JSON
+ *   pointer of the offending field
+ * - IEP rules: transition at 14, ESY reconvene date, IEP date window,
+ *   service dates inside the IEP, ETR reevaluation window, service minutes
+ *   against the stated LRE percentage
+ * - ETR rule: reevaluation window
+ */
+
+import { summarizeServiceMinutes } from '../analytics/service-minutes';
+import { parseDate } from '../normalization/field-normalization';
+import { getByPointer, toPointer } from '../utils/json-pointer';
+import { IssueSeverity, ValidationIssue, createIssue } from './issues';
+
+/**
+ * A rule finding: the offending field and what is wrong with it
+ */
+export interface RuleFinding {
+  pointer: string;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+/**
+ * A declarative business rule
+ */
+export interface BusinessRule {
+  id: string;
+  severity: IssueSeverity;
+  description: string;
+  /** Return one finding per offending field (empty when the rule holds) */
+  check(data: unknown): RuleFinding[];
+}
+
+/**
+ * Run rules against extracted data
+ *
+ * @param data - Extracted data (need not be schema-valid)
+ * @param rules - Rules to run
+ * @returns One issue per finding, in rule order
+ */
+export function runBusinessRules(data: unknown, rules: BusinessRule[]): ValidationIssue[] {
+  return rules.flatMap(rule =>
+    rule.check(data).map(({ pointer, message, ...details }) =>
+      createIssue(`rule.${rule.id}`, rule.severity, pointer, message, details)
+    )
+  );
+}
+
+const IEP = 'IEP';
+const CHILD = [IEP, "CHILD'S INFORMATION"];
+const EFFECTIVE_DATES = [IEP, 'IEP EFFECTIVE DATES'];
+const TIMELINES = [IEP, 'IEP TIMELINES'];
+const ESY = [IEP, '4. EXTENDED SCHOOL YEAR SERVICES'];
+const TRANSITION = [IEP, '5. POSTSECONDARY TRANSITION'];
+const SERVICES = [IEP, '7. SPECIALLY DESIGNED SERVICES'];
+const LRE = [IEP, '11. LEAST RESTRICTIVE ENVIRONMENT'];
+
+// Transition areas the form requires; Independent Living is "as appropriate"
+const REQUIRED_TRANSITION_AREAS = ['Postsecondary Training and Education', 'Competitive Integrated Employment'];
+
+const SERVICE_LISTS = [
+  'SPECIALLY DESIGNED INSTRUCTION',
+  'RELATED SERVICES',
+  'ASSISTIVE TECHNOLOGY',
+  'ACCOMMODATIONS',
+  'MODIFICATIONS',
+  'SUPPORT FOR SCHOOL PERSONNEL',
+  'SERVICE(S) TO SUPPORT MEDICAL NEEDS'
+];
+
+/**
+ * Rules for the IEP form
+ */
+export const IEP_BUSINESS_RULES: BusinessRule[] = [
+  {
+    id: 'transition-required-at-14',
+    severity: 'error',
+    description: 'A child who turns 14 before the IEP ends needs postsecondary goals',
+    check(data) {
+      if (getByPointer(data, toPointer([...CHILD, 'Will the child be 14 years old before the end of this IEP?'])) !== true) {
+        return [];
+      }
+      return REQUIRED_TRANSITION_AREAS
+        .map(area => toPointer([...TRANSITION, area, 'Measurable Postsecondary Goal']))
+        .filter(pointer => isBlank(getByPointer(data, pointer)))
+        .map(pointer => ({
+          pointer,
+          message: 'Child turns 14 before the end of this IEP but the measurable postsecondary goal is empty'
+        }));
+    }
+  },
+  {
+    id: 'esy-reconvene-date',
+    severity: 'error',
+    description: 'ESY Date to Reconvene is required when the team will reconvene',
+    check(data) {
+      const reconvene = getByPointer(data, toPointer([...ESY, 'Will the team need to collect further data and reconvene to make a determination?']));
+      const pointer = toPointer([...ESY, 'Date to Reconvene']);
+      return reconvene === true && isBlank(getByPointer(data, pointer))
+        ? [{ pointer, message: 'Team will reconvene on ESY but no Date to Reconvene was given' }]
+        : [];
+    }
+  },
+  {
+    id: 'iep-end-after-start',
+    severity: 'error',
+    description: 'IEP END date falls after START',
+    check(data) {
+      const start = dateAt(data, toPointer([...EFFECTIVE_DATES, 'START']));
+      const pointer = toPointer([...EFFECTIVE_DATES, 'END']);
+      const end = dateAt(data, pointer);
+      return start && end && end <= start
+        ? [{ pointer, message: `END (${formatDay(end)}) is not after START (${formatDay(start)})`, expected: `after ${formatDay(start)}`, actual: formatDay(end) }]
+        : [];
+    }
+  },
+  {
+    id: 'iep-duration-max-one-year',
+    severity: 'error',
+    description: 'An IEP is in effect for at most one year',
+    check(data) {
+      const start = dateAt(data, toPointer([...EFFECTIVE_DATES, 'START']));
+      const pointer = toPointer([...EFFECTIVE_DATES, 'END']);
+      const end = dateAt(data, pointer);
+      return start && end && end > addYears(start, 1)
+        ? [{
+          pointer,
+          message: `END (${formatDay(end)}) is more than one year after START (${formatDay(start)})`,
+          expected: `on or before ${formatDay(addYears(start, 1))}`,
+          actual: formatDay(end)
+        }]
+        : [];
+    }
+  },
+  {
+    id: 'service-dates-within-iep',
+    severity: 'warning',
+    description: 'Service Begin/End dates fall inside the IEP effective dates',
+    check(data) {
+      const start = dateAt(data, toPointer([...EFFECTIVE_DATES, 'START']));
+      const end = dateAt(data, toPointer([...EFFECTIVE_DATES, 'END']));
+      if (!start || !end) {
+        return [];
+      }
+
+      const findings: RuleFinding[] = [];
+      const expected = `${formatDay(start)} - ${formatDay(end)}`;
+      for (const list of SERVICE_LISTS) {
+        const services = getByPointer(data, toPointer([...SERVICES, list]));
+        if (!Array.isArray(services)) continue;
+
+        services.forEach((_, index) => {
+          const beginPointer = toPointer([...SERVICES, list, index, 'Begin Date']);
+          const endPointer = toPointer([...SERVICES, list, index, 'End Date']);
+          const begin = dateAt(data, beginPointer);
+          const finish = dateAt(data, endPointer);
+          if (begin && (begin < start || begin > end)) {
+            findings.push({ pointer: beginPointer, message: `Begin Date (${formatDay(begin)}) is outside the IEP effective dates (${expected})`, expected, actual: formatDay(begin) });
+          }
+          if (finish && (finish < start || finish > end)) {
+            findings.push({ pointer: endPointer, message: `End Date (${formatDay(finish)}) is outside the IEP effective dates (${expected})`, expected, actual: formatDay(finish) });
+          }
+        });
+      }
+      return findings;
+    }
+  },
+  {
+    id: 'service-minutes-match-lre',
+    severity: 'warning',
+    description: 'Weekly service minutes outside general education agree with the stated LRE percentage',
+    check(data) {
+      const { lre } = summarizeServiceMinutes(data);
+      return lre.consistent === false
+        ? [{
+          pointer: toPointer([...LRE, 'Percentage of time in general education']),
+          message: lre.message as string,
+          expected: lre.impliedPercentage,
+          actual: lre.statedPercentage
+        }]
+        : [];
+    }
+  },
+  reevaluationWindowRule(TIMELINES)
+];
+
+/**
+ * Rules for the ETR form
+ */
+export const ETR_BUSINESS_RULES: BusinessRule[] = [
+  reevaluationWindowRule(['ETR', 'EVALUATION INFORMATION'])
+];
+
+/**
+ * NEXT ETR DUE DATE must fall after ETR COMPLETION DATE and within 3 years of it
+ *
+ * @param section - Path of the object holding both dates
+ */
+function reevaluationWindowRule(section: string[]): BusinessRule {
+  return {
+    id: 'next-etr-within-3-years',
+    severity: 'error',
+    description: 'Reevaluation is due within 3 years of the last ETR',
+    check(data) {
+      const completed = dateAt(data, toPointer([...section, 'ETR COMPLETION DATE']));
+      const pointer = toPointer([...section, 'NEXT ETR DUE DATE']);
+      const due = dateAt(data, pointer);
+      if (!completed || !due) {
+        return [];
+      }
+      if (due <= completed) {
+        return [{
+          pointer,
+          message: `NEXT ETR DUE DATE (${formatDay(due)}) is not after ETR COMPLETION DATE (${formatDay(completed)})`,
+          expected: `after ${formatDay(completed)}`,
+          actual: formatDay(due)
+        }];
+      }
+      if (due > addYears(completed, 3)) {
+        return [{
+          pointer,
+          message: `NEXT ETR DUE DATE (${formatDay(due)}) is more than 3 years after ETR COMPLETION DATE (${formatDay(completed)})`,
+          expected: `on or before ${formatDay(addYears(completed, 3))}`,
+          actual: formatDay(due)
+        }];
+      }
+      return [];
+    }
+  };
+}
+
+/**
+ * Read a form date (see parseDate) as UTC midnight
+ */
+function dateAt(data: unknown, pointer: string): Date | undefined {
+  const value = getByPointer(data, pointer);
+  const iso = typeof value === 'string' ? parseDate(value) : undefined;
+  return iso ? new Date(`${iso}T00:00:00Z`) : undefined;
+}
+
+function addYears(date: Date, years: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear() + years, date.getUTCMonth(), date.getUTCDate()));
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
@@ -0,0 +1,159 @@
+/**
+ * Structured Validation Issues
+ *
+ * Every validation finding (Ajv schema errors, critical form checks and
+ * business rules) is a ValidationIssue with a machine-readable code, a
+ * severity and the JSON pointer of the field it is about. The string arrays
+ * on ValidationResult (errors, missingFields, incorrectTypes) are derived
+ * from the issues for existing consumers.
+ *
+ * Codes:
+ * - schema.*   Ajv keyword failures (required, type, additional-property, enum, constraint)
+ * - critical.* form checks Ajv cannot express (root and sections present,
+ *              arrays, goal references, non-empty lists)
+ * - rule.<id>  business rules (see business-rules.ts)
+ * - normalization.unparseable  a date, phone, ZIP, frequency or amount of
+ *              time that could not be normalized (warning, see field-normalization.ts)
+ */
+
+import { ErrorObject } from 'ajv';
+import { ValidationResult } from '../types/form-specific-iep-data';
+import { parsePointer, toPointer, topLevelSection } from '../utils/json-pointer';
+
+/**
+ * How serious an issue is; only errors make a result invalid
+ */
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Machine-readable issue codes
+ */
+export type IssueCode =
+  | 'schema.required'
+  | 'schema.type'
+  | 'schema.additional-property'
+  | 'schema.enum'
+  | 'schema.constraint'
+  | 'critical.missing-root'
+  | 'critical.missing-section'
+  | 'critical.missing-field'
+  | 'critical.not-array'
+  | 'critical.empty-list'
+  | 'critical.invalid-goal-reference'
+  | 'critical.unknown-goal-reference'
+  | 'critical.check-failed'
+  | 'normalization.unparseable'
+  | `rule.${string}`;
+
+/**
+ * One validation finding
+ */
+export interface ValidationIssue {
+  code: IssueCode;
+  severity: IssueSeverity;
+  /** JSON pointer of the field ("" for the document root) */
+  pointer: string;
+  /** Top-level section under the form root ("6. MEASURABLE ANNUAL GOALS", ...) */
+  section: string;
+  message: string;
+  /** What the schema or rule expects, when there is a single expected value */
+  expected?: unknown;
+  /** The value found, when there is one */
+  actual?: unknown;
+}
+
+/**
+ * Create an issue, deriving its section from the pointer
+ *
+ * @param code - Issue code
+ * @param severity - Issue severity
+ * @param segments - Path of the field, or an already built pointer
+ * @param message - Human-readable description (without the pointer)
+ * @param details - Expected and actual values
+ */
+export function createIssue(
+  code: IssueCode,
+  severity: IssueSeverity,
+  segments: Array<string | number> | string,
+  message: string,
+  details: { expected?: unknown; actual?: unknown } = {}
+): ValidationIssue {
+  const pointer = typeof segments === 'string' ? segments : toPointer(segments);
+  return { code, severity, pointer, section: topLevelSection(pointer), message, ...details };
+}
+
+/**
+ * Convert an Ajv error (compiled with verbose: true) to an issue
+ *
+ * @param error - Ajv error
+ * @param base - Pointer of the validated value when a sub-schema was used
+ */
+export function fromAjvError(error: ErrorObject, base: string = ''): ValidationIssue {
+  const path = [...parsePointer(base), ...parsePointer(error.instancePath)];
+
+  switch (error.keyword) {
+    case 'required':
+      return createIssue('schema.required', 'error', [...path, error.params.missingProperty], 'is required');
+    case 'type': {
+      const actual = typeOf(error.data);
+      return createIssue('schema.type', 'error', path, `expected ${error.params.type}, got ${actual}`, {
+        expected: error.params.type,
+        actual
+      });
+    }
+    case 'additionalProperties':
+      return createIssue(
+        'schema.additional-property',
+        'error',
+        [...path, error.params.additionalProperty],
+        `unexpected property "${error.params.additionalProperty}"`
+      );
+    case 'enum':
+      return createIssue('schema.enum', 'error', path, `value must be one of [${error.params.allowedValues.join(', ')}]`, {
+        expected: error.params.allowedValues,
+        actual: error.data
+      });
+    default:
+      return createIssue('schema.constraint', 'error', path, error.message || `fails ${error.keyword}`, {
+        expected: { [error.keyword]: error.schema },
+        actual: error.data
+      });
+  }
+}
+
+/**
+ * Legacy one-line form of an issue, as used in ValidationResult.errors
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  if (issue.code === 'schema.required') {
+    return `Missing required field: ${issue.pointer}`;
+  }
+  return `${issue.pointer || 'root'}: ${issue.message}`;
+}
+
+// Codes reported in the missingFields and incorrectTypes views
+const MISSING_CODES: IssueCode[] = ['schema.required', 'critical.missing-root', 'critical.missing-section', 'critical.missing-field'];
+const TYPE_CODES: IssueCode[] = ['schema.type', 'schema.additional-property', 'schema.enum', 'critical.not-array'];
+
+/**
+ * Build a ValidationResult from issues, with the derived string views
+ *
+ * @param issues - Every finding, in check order
+ * @returns Result that is valid when no issue has severity error
+ */
+export function buildValidationResult(issues: ValidationIssue[]): ValidationResult {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    issues,
+    errors: errors.map(formatIssue),
+    missingFields: [...new Set(errors.filter(issue => MISSING_CODES.includes(issue.code)).map(issue => issue.pointer))],
+    incorrectTypes: errors.filter(issue => TYPE_CODES.includes(issue.code)).map(formatIssue)
+  };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
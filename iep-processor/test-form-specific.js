@@ -24,7 +24,7 @@ async function runTest() {
   console.log('Function type:', typeof processIEP);
 
   // Check if schema file exists
-  const schemaPath = path.join(__dirname, 'the_schema.json');
+  const schemaPath = path.join(__dirname, 'schemas', 'iep-form.schema.json');
   if (fs.existsSync(schemaPath)) {
     console.log('✅ Schema file found at:', schemaPath);
   } else {